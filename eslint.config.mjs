@@ -43,6 +43,13 @@ export default tseslint.config(
   {
     // global ignores
     // do not add any other keys to this object
-    ignores: ['**/node_modules/', '**/coverage/', '**/dist/', '**/storybook-static/', '**/cdk.out/'],
+    ignores: [
+      '**/node_modules/',
+      '**/coverage/',
+      '**/dist/',
+      '**/storybook-static/',
+      '**/cdk.out/',
+      'public/mockServiceWorker.js',
+    ],
   },
 );
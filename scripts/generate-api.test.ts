@@ -0,0 +1,252 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  generateApi,
+  generateHooks,
+  generateModels,
+  generateRequests,
+  generateSchemas,
+  getOperations,
+  getRefName,
+  OpenApiDocument,
+  sortSchemas,
+  toQueryKey,
+  toTypeScript,
+  toUrlTemplate,
+  toZod,
+} from './generate-api';
+
+const documentFixture: OpenApiDocument = {
+  openapi: '3.0.3',
+  info: { title: 'Test API', version: '1.0.0' },
+  tags: [{ name: 'Tasks', 'x-api-service': 'tasks' }],
+  paths: {
+    '/users/{userId}/todos': {
+      get: {
+        operationId: 'getUserTasks',
+        summary: 'Fetches the tasks of a `User`.',
+        tags: ['Tasks'],
+        parameters: [{ name: 'userId', in: 'path', required: true, schema: { type: 'integer' } }],
+        responses: {
+          '200': {
+            description: 'The tasks',
+            content: {
+              'application/json': { schema: { type: 'array', items: { $ref: '#/components/schemas/Task' } } },
+            },
+          },
+        },
+      },
+    },
+    '/todos/{taskId}': {
+      get: {
+        operationId: 'getTask',
+        tags: ['Tasks'],
+        parameters: [{ name: 'taskId', in: 'path', required: true, schema: { type: 'integer' } }],
+        responses: {
+          '200': {
+            description: 'The task',
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/Task' } } },
+          },
+        },
+      },
+      delete: {
+        operationId: 'deleteTask',
+        summary: 'Deletes a `Task`.',
+        tags: ['Tasks'],
+        parameters: [{ name: 'taskId', in: 'path', required: true, schema: { type: 'integer' } }],
+        responses: { '204': { description: 'The task is deleted' } },
+      },
+    },
+  },
+  components: {
+    schemas: {
+      Task: {
+        type: 'object',
+        required: ['id', 'title', 'status'],
+        properties: {
+          id: { type: 'integer' },
+          title: { type: 'string' },
+          status: { $ref: '#/components/schemas/TaskStatus' },
+          notes: { type: 'string', nullable: true },
+        },
+      },
+      TaskStatus: { type: 'string', enum: ['open', 'done'] },
+    },
+  },
+};
+
+describe('generate-api', () => {
+  describe('getRefName', () => {
+    it('should return the name of a component schema', () => {
+      // ASSERT
+      expect(getRefName('#/components/schemas/Task')).toBe('Task');
+    });
+
+    it('should throw when the reference is not a component schema', () => {
+      // ASSERT
+      expect(() => getRefName('other.json#/Task')).toThrow(/Unsupported reference/);
+    });
+  });
+
+  describe('toTypeScript', () => {
+    it('should return the type of a schema', () => {
+      // ASSERT
+      expect(toTypeScript(documentFixture.components!.schemas!.Task)).toBe(
+        '{ id: number; title: string; status: TaskStatus; notes?: string | null; }',
+      );
+      expect(toTypeScript({ type: 'array', items: { type: 'string', enum: ['a', 'b'] } })).toBe("('a' | 'b')[]");
+    });
+
+    it('should throw when the schema type is not supported', () => {
+      // ASSERT
+      expect(() => toTypeScript({})).toThrow(/Unsupported schema type/);
+    });
+  });
+
+  describe('toZod', () => {
+    it('should return the zod schema of a schema', () => {
+      // ASSERT
+      expect(toZod(documentFixture.components!.schemas!.Task)).toBe(
+        'z.object({ id: z.number().int(), title: z.string(), status: taskStatusSchema, notes: z.string().nullable().optional(), })',
+      );
+      expect(toZod({ type: 'array', items: { $ref: '#/components/schemas/Task' } })).toBe('z.array(taskSchema)');
+    });
+  });
+
+  describe('sortSchemas', () => {
+    it('should order each schema after the schemas it references', () => {
+      // ASSERT
+      expect(sortSchemas(documentFixture.components!.schemas!)).toEqual(['TaskStatus', 'Task']);
+    });
+
+    it('should throw when schemas reference each other in a cycle', () => {
+      // ASSERT
+      expect(() =>
+        sortSchemas({
+          A: { type: 'object', properties: { b: { $ref: '#/components/schemas/B' } } },
+          B: { type: 'object', properties: { a: { $ref: '#/components/schemas/A' } } },
+        }),
+      ).toThrow(/circular reference/);
+    });
+
+    it('should throw when a referenced schema is not defined', () => {
+      // ASSERT
+      expect(() => sortSchemas({ A: { $ref: '#/components/schemas/B' } })).toThrow(/is not defined/);
+    });
+  });
+
+  describe('getOperations', () => {
+    it('should return the operations of the document', () => {
+      // ACT
+      const operations = getOperations(documentFixture);
+
+      // ASSERT
+      expect(operations.map(({ id }) => id)).toEqual(['getUserTasks', 'getTask', 'deleteTask']);
+      expect(operations[0]).toMatchObject({ method: 'get', tag: 'Tasks', service: 'tasks' });
+      expect(operations[2].response).toBeUndefined();
+    });
+
+    it('should throw when an operation has no operationId', () => {
+      // ARRANGE
+      const document: OpenApiDocument = {
+        ...documentFixture,
+        paths: { '/todos': { get: { tags: ['Tasks'], responses: {} } } },
+      };
+
+      // ASSERT
+      expect(() => getOperations(document)).toThrow(/has no operationId/);
+    });
+
+    it('should throw when the tag does not declare an API service', () => {
+      // ARRANGE
+      const document: OpenApiDocument = { ...documentFixture, tags: [{ name: 'Tasks' }] };
+
+      // ASSERT
+      expect(() => getOperations(document)).toThrow(/does not declare an x-api-service/);
+    });
+  });
+
+  describe('toUrlTemplate', () => {
+    it('should return a template literal of the path', () => {
+      // ASSERT
+      expect(toUrlTemplate('/users/{userId}/todos')).toBe('`/users/${userId}/todos`');
+    });
+  });
+
+  describe('toQueryKey', () => {
+    it('should follow the QueryKey conventions', () => {
+      // ARRANGE
+      const [getUserTasks, getTask] = getOperations(documentFixture);
+
+      // ASSERT
+      expect(toQueryKey(getUserTasks)).toBe('[QueryKey.Tasks, { userId }]');
+      expect(toQueryKey(getTask)).toBe('[QueryKey.Tasks, taskId]');
+      expect(toQueryKey({ ...getTask, parameters: [] })).toBe('[QueryKey.Tasks]');
+    });
+  });
+
+  describe('generateModels', () => {
+    it('should generate the types', () => {
+      // ACT
+      const content = generateModels(documentFixture);
+
+      // ASSERT
+      expect(content).toContain("export type TaskStatus = 'open' | 'done';");
+      expect(content).toContain('export type GetTaskParams = { taskId: number; };');
+      expect(content).not.toContain('GetUserTasksParams = { userId?');
+    });
+  });
+
+  describe('generateSchemas', () => {
+    it('should generate the zod schemas', () => {
+      // ACT
+      const content = generateSchemas(documentFixture);
+
+      // ASSERT
+      expect(content).toContain("import { Task, TaskStatus } from './models';");
+      expect(content).toContain(
+        "export const taskStatusSchema = z.enum(['open', 'done']) satisfies z.ZodType<TaskStatus>;",
+      );
+      expect(content.indexOf('taskStatusSchema =')).toBeLessThan(content.indexOf('taskSchema ='));
+    });
+  });
+
+  describe('generateRequests', () => {
+    it('should generate a request function for each operation', () => {
+      // ACT
+      const content = generateRequests(documentFixture);
+
+      // ASSERT
+      expect(content).toContain('export const getTask = async (api: AxiosInstance, { taskId }: GetTaskParams');
+      expect(content).toContain('return validateResponse(z.array(taskSchema), response);');
+      expect(content).toContain("await api.request({ method: 'delete', url: `/todos/${taskId}`, signal, });");
+    });
+  });
+
+  describe('generateHooks', () => {
+    it('should generate query and mutation hooks', () => {
+      // ACT
+      const content = generateHooks(documentFixture);
+
+      // ASSERT
+      expect(content).toContain('export const useGetUserTasks = ({ userId }: Partial<GetUserTasksParams>)');
+      expect(content).toContain('queryFn: taskId ? ({ signal }) => getTask(api, { taskId }, signal) : skipToken,');
+      expect(content).toContain('export const useDeleteTaskMutation = (');
+      expect(content).toContain('export const getDeleteTaskMutationOptions = (api: AxiosInstance) => ({');
+      expect(content).toContain("mutationKey: [QueryKey.Tasks, 'deleteTask'] as const,");
+      expect(content).toContain("const api = useApi('tasks');");
+    });
+  });
+
+  describe('generateApi', () => {
+    it('should generate the API client files', () => {
+      // ASSERT
+      expect(Object.keys(generateApi(documentFixture))).toEqual(['models.ts', 'schemas.ts', 'requests.ts', 'hooks.ts']);
+    });
+
+    it('should throw when the document is not an OpenAPI 3 document', () => {
+      // ASSERT
+      expect(() => generateApi({ ...documentFixture, openapi: '2.0' })).toThrow(/not an OpenAPI 3 document/);
+    });
+  });
+});
@@ -0,0 +1,702 @@
+/**
+ * Generates the typed API client from the OpenAPI 3 document in
+ * `openapi/openapi.json`. The client, written to `src/common/api/generated`,
+ * is made of:
+ * - `models.ts` - The request and response types.
+ * - `schemas.ts` - The zod schemas which validate the responses at runtime.
+ * - `requests.ts` - A function which sends the request of each operation and
+ * validates the response data with `validateResponse`.
+ * - `hooks.ts` - A `useQuery` hook for each `GET` operation. For every other
+ * operation, a function which returns the mutation key and mutation function,
+ * and a `useMutation` hook built on them. Mutations which update the cache
+ * optimistically or are queued while offline extend the generated options.
+ *
+ * Each operation must have an `operationId` and one tag. The tag names the
+ * `QueryKey` of the operation and declares the API service which serves it in
+ * the `x-api-service` extension.
+ *
+ * Usage: `npm run generate:api`
+ */
+
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import { format, resolveConfig } from 'prettier';
+
+/**
+ * An OpenAPI schema object. Only the attributes used by the generator are
+ * described.
+ */
+export type SchemaObject = {
+  $ref?: string;
+  type?: 'array' | 'boolean' | 'integer' | 'number' | 'object' | 'string';
+  description?: string;
+  enum?: string[];
+  items?: SchemaObject;
+  nullable?: boolean;
+  properties?: Record<string, SchemaObject>;
+  required?: string[];
+};
+
+/**
+ * An OpenAPI parameter object.
+ */
+export type ParameterObject = {
+  name: string;
+  in: 'cookie' | 'header' | 'path' | 'query';
+  description?: string;
+  required?: boolean;
+  schema: SchemaObject;
+};
+
+/**
+ * An OpenAPI media type map, keyed by content type.
+ */
+type ContentObject = Record<string, { schema?: SchemaObject }>;
+
+/**
+ * An OpenAPI operation object.
+ */
+export type OperationObject = {
+  operationId?: string;
+  summary?: string;
+  description?: string;
+  tags?: string[];
+  parameters?: ParameterObject[];
+  requestBody?: { required?: boolean; content: ContentObject };
+  responses: Record<string, { description?: string; content?: ContentObject }>;
+};
+
+/**
+ * An OpenAPI tag object. The `x-api-service` extension names the API service
+ * which serves the operations of the tag.
+ */
+export type TagObject = {
+  name: string;
+  description?: string;
+  'x-api-service'?: string;
+};
+
+/**
+ * The HTTP methods of the OpenAPI path item object.
+ */
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch'] as const;
+
+type HttpMethod = (typeof HTTP_METHODS)[number];
+
+/**
+ * An OpenAPI 3 document.
+ */
+export type OpenApiDocument = {
+  openapi: string;
+  info: { title: string; version: string; description?: string };
+  tags?: TagObject[];
+  paths: Record<string, Partial<Record<HttpMethod, OperationObject>>>;
+  components?: { schemas?: Record<string, SchemaObject> };
+};
+
+/**
+ * An operation of the document with the attributes the generator needs.
+ */
+type Operation = {
+  id: string;
+  method: HttpMethod;
+  path: string;
+  summary?: string;
+  tag: string;
+  service: string;
+  parameters: ParameterObject[];
+  body?: SchemaObject;
+  response?: SchemaObject;
+};
+
+/**
+ * The banner at the top of each generated file.
+ */
+const BANNER = `/**
+ * Generated by \`npm run generate:api\` from \`openapi/openapi.json\`; do not edit.
+ * Change the OpenAPI document and run the generator again.
+ */`;
+
+/**
+ * Returns a name with the first character in upper case.
+ * @param {string} name - A name, e.g. `getTask`.
+ * @returns {string} The name in Pascal case, e.g. `GetTask`.
+ */
+export const pascalCase = (name: string): string => name.charAt(0).toUpperCase() + name.slice(1);
+
+/**
+ * Returns a name with the first character in lower case.
+ * @param {string} name - A name, e.g. `UserTokens`.
+ * @returns {string} The name in camel case, e.g. `userTokens`.
+ */
+const camelCase = (name: string): string => name.charAt(0).toLowerCase() + name.slice(1);
+
+/**
+ * Returns the name of the component schema referenced by a `$ref`.
+ * @param {string} ref - A reference, e.g. `#/components/schemas/Task`.
+ * @returns {string} The schema name, e.g. `Task`.
+ * @throws Throws an `Error` when the reference is not a component schema.
+ */
+export const getRefName = (ref: string): string => {
+  const match = /^#\/components\/schemas\/([A-Za-z0-9_]+)$/.exec(ref);
+  if (!match) {
+    throw new Error(`Unsupported reference "${ref}". Only component schemas may be referenced.`);
+  }
+  return match[1];
+};
+
+/**
+ * Returns the name of the zod schema variable of a component schema.
+ * @param {string} name - A component schema name, e.g. `Task`.
+ * @returns {string} The variable name, e.g. `taskSchema`.
+ */
+export const getSchemaVariable = (name: string): string => `${camelCase(name)}Schema`;
+
+/**
+ * Returns a property key, quoted when it is not a valid identifier.
+ * @param {string} key - The property name.
+ * @returns {string} The property key.
+ */
+const toPropertyKey = (key: string): string => (/^[A-Za-z_$][A-Za-z0-9_$]*$/.test(key) ? key : `'${key}'`);
+
+/**
+ * Returns the TypeScript type of a schema.
+ * @param {SchemaObject} schema - The schema.
+ * @returns {string} The TypeScript type.
+ * @throws Throws an `Error` when the schema type is not supported.
+ */
+export const toTypeScript = (schema: SchemaObject): string => {
+  const type = toNonNullableTypeScript(schema);
+  return schema.nullable ? `${type} | null` : type;
+};
+
+/**
+ * Returns the TypeScript type of a schema, ignoring `nullable`.
+ * @param {SchemaObject} schema - The schema.
+ * @returns {string} The TypeScript type.
+ */
+const toNonNullableTypeScript = (schema: SchemaObject): string => {
+  if (schema.$ref) {
+    return getRefName(schema.$ref);
+  }
+  if (schema.enum) {
+    return schema.enum.map((value) => `'${value}'`).join(' | ');
+  }
+  switch (schema.type) {
+    case 'string':
+      return 'string';
+    case 'integer':
+    case 'number':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'array': {
+      const items = toTypeScript(schema.items ?? {});
+      return /[|&]/.test(items) ? `(${items})[]` : `${items}[]`;
+    }
+    case 'object': {
+      const required = schema.required ?? [];
+      const properties = Object.entries(schema.properties ?? {}).map(
+        ([key, property]) => `${toPropertyKey(key)}${required.includes(key) ? '' : '?'}: ${toTypeScript(property)};`,
+      );
+      return `{ ${properties.join(' ')} }`;
+    }
+    default:
+      throw new Error(`Unsupported schema type "${schema.type}".`);
+  }
+};
+
+/**
+ * Returns the zod schema expression which validates a schema.
+ * @param {SchemaObject} schema - The schema.
+ * @returns {string} The zod schema expression.
+ * @throws Throws an `Error` when the schema type is not supported.
+ */
+export const toZod = (schema: SchemaObject): string => {
+  const expression = toNonNullableZod(schema);
+  return schema.nullable ? `${expression}.nullable()` : expression;
+};
+
+/**
+ * Returns the zod schema expression of a schema, ignoring `nullable`.
+ * @param {SchemaObject} schema - The schema.
+ * @returns {string} The zod schema expression.
+ */
+const toNonNullableZod = (schema: SchemaObject): string => {
+  if (schema.$ref) {
+    return getSchemaVariable(getRefName(schema.$ref));
+  }
+  if (schema.enum) {
+    return `z.enum([${schema.enum.map((value) => `'${value}'`).join(', ')}])`;
+  }
+  switch (schema.type) {
+    case 'string':
+      return 'z.string()';
+    case 'integer':
+      return 'z.number().int()';
+    case 'number':
+      return 'z.number()';
+    case 'boolean':
+      return 'z.boolean()';
+    case 'array':
+      return `z.array(${toZod(schema.items ?? {})})`;
+    case 'object': {
+      const required = schema.required ?? [];
+      const properties = Object.entries(schema.properties ?? {}).map(
+        ([key, property]) => `${toPropertyKey(key)}: ${toZod(property)}${required.includes(key) ? '' : '.optional()'},`,
+      );
+      return `z.object({ ${properties.join(' ')} })`;
+    }
+    default:
+      throw new Error(`Unsupported schema type "${schema.type}".`);
+  }
+};
+
+/**
+ * Returns the names of the component schemas which a schema references.
+ * @param {SchemaObject} schema - The schema.
+ * @returns {string[]} The referenced schema names.
+ */
+const getReferences = (schema: SchemaObject): string[] => {
+  if (schema.$ref) {
+    return [getRefName(schema.$ref)];
+  }
+  return [
+    ...(schema.items ? getReferences(schema.items) : []),
+    ...Object.values(schema.properties ?? {}).flatMap(getReferences),
+  ];
+};
+
+/**
+ * Returns the component schema names ordered so that each schema follows the
+ * schemas it references; a zod schema variable must be declared before use.
+ * @param {Record<string, SchemaObject>} schemas - The component schemas.
+ * @returns {string[]} The ordered schema names.
+ * @throws Throws an `Error` when the schemas reference each other in a cycle.
+ */
+export const sortSchemas = (schemas: Record<string, SchemaObject>): string[] => {
+  const sorted: string[] = [];
+  const visiting = new Set<string>();
+  const visit = (name: string): void => {
+    if (sorted.includes(name)) {
+      return;
+    }
+    if (visiting.has(name)) {
+      throw new Error(`Unsupported circular reference to schema "${name}".`);
+    }
+    if (!schemas[name]) {
+      throw new Error(`Schema "${name}" is referenced, but is not defined.`);
+    }
+    visiting.add(name);
+    getReferences(schemas[name]).forEach(visit);
+    visiting.delete(name);
+    sorted.push(name);
+  };
+  Object.keys(schemas).forEach(visit);
+  return sorted;
+};
+
+/**
+ * Returns the JSON schema of a content map.
+ * @param {ContentObject} [content] - Optional. The content map.
+ * @returns {SchemaObject | undefined} The `application/json` schema, if any.
+ */
+const getJsonSchema = (content?: ContentObject): SchemaObject | undefined => content?.['application/json']?.schema;
+
+/**
+ * Returns the operations of a document.
+ * @param {OpenApiDocument} document - The OpenAPI document.
+ * @returns {Operation[]} The operations, in document order.
+ * @throws Throws an `Error` when an operation cannot be generated.
+ */
+export const getOperations = (document: OpenApiDocument): Operation[] =>
+  Object.entries(document.paths).flatMap(([operationPath, pathItem]) =>
+    HTTP_METHODS.filter((method) => pathItem[method]).map((method): Operation => {
+      const operation = pathItem[method] as OperationObject;
+      const name = `${method.toUpperCase()} ${operationPath}`;
+      if (!operation.operationId) {
+        throw new Error(`Operation ${name} has no operationId.`);
+      }
+      if (operation.tags?.length !== 1) {
+        throw new Error(`Operation ${operation.operationId} must have one tag.`);
+      }
+      const tag = document.tags?.find(({ name }) => name === operation.tags?.[0]);
+      if (!tag?.['x-api-service']) {
+        throw new Error(`Tag "${operation.tags[0]}" does not declare an x-api-service.`);
+      }
+      const parameters = (operation.parameters ?? []).filter((parameter) => ['path', 'query'].includes(parameter.in));
+      const successStatus = Object.keys(operation.responses).find((status) => /^2\d\d$/.test(status));
+      return {
+        id: operation.operationId,
+        method,
+        path: operationPath,
+        summary: operation.summary,
+        tag: tag.name,
+        service: tag['x-api-service'],
+        parameters,
+        body: getJsonSchema(operation.requestBody?.content),
+        response: successStatus ? getJsonSchema(operation.responses[successStatus].content) : undefined,
+      };
+    }),
+  );
+
+/**
+ * Determines if an operation has request parameters, i.e. path or query
+ * parameters or a body.
+ * @param {Operation} operation - The operation.
+ * @returns {boolean} Returns `true` if the operation has request parameters.
+ */
+const hasParams = (operation: Operation): boolean => operation.parameters.length > 0 || !!operation.body;
+
+/**
+ * Returns the name of the request parameters type of an operation.
+ * @param {Operation} operation - The operation.
+ * @returns {string} The type name, e.g. `GetTaskParams`.
+ */
+const getParamsType = (operation: Operation): string => `${pascalCase(operation.id)}Params`;
+
+/**
+ * Returns the response type of an operation.
+ * @param {Operation} operation - The operation.
+ * @returns {string} The response type, `void` when there is no response body.
+ */
+const getResponseType = (operation: Operation): string =>
+  operation.response ? toTypeScript(operation.response) : 'void';
+
+/**
+ * Returns a JSDoc comment.
+ * @param {string[]} lines - The lines of the comment.
+ * @returns {string} The comment.
+ */
+const toComment = (lines: string[]): string => ['/**', ...lines.map((line) => ` * ${line}`), ' */'].join('\n');
+
+/**
+ * Returns an import declaration of the names, which are sorted.
+ * @param {string[]} names - The imported names.
+ * @param {string} from - The module.
+ * @returns {string} The import declaration, empty when there are no names.
+ */
+const toImport = (names: string[], from: string): string =>
+  names.length ? `import { ${[...new Set(names)].sort().join(', ')} } from '${from}';` : '';
+
+/**
+ * Returns the component schema names referenced by the operations.
+ * @param {Operation[]} operations - The operations.
+ * @param {(operation: Operation) => (SchemaObject | undefined)[]} select - Selects
+ * the schemas of an operation.
+ * @returns {string[]} The referenced schema names.
+ */
+const getOperationReferences = (
+  operations: Operation[],
+  select: (operation: Operation) => (SchemaObject | undefined)[],
+): string[] =>
+  operations.flatMap((operation) => select(operation).flatMap((schema) => (schema ? getReferences(schema) : [])));
+
+/**
+ * Generates `models.ts`, the type of each component schema and the request
+ * parameters type of each operation.
+ * @param {OpenApiDocument} document - The OpenAPI document.
+ * @returns {string} The file content.
+ */
+export const generateModels = (document: OpenApiDocument): string => {
+  const schemas = document.components?.schemas ?? {};
+  const models = sortSchemas(schemas).map((name) =>
+    [
+      toComment([schemas[name].description ?? `The \`${name}\` type.`]),
+      `export type ${name} = ${toTypeScript(schemas[name])};`,
+    ].join('\n'),
+  );
+  const params = getOperations(document)
+    .filter(hasParams)
+    .map((operation) => {
+      const properties = operation.parameters.map(
+        (parameter) =>
+          `${toPropertyKey(parameter.name)}${parameter.required ? '' : '?'}: ${toTypeScript(parameter.schema)};`,
+      );
+      if (operation.body) {
+        properties.push(`body: ${toTypeScript(operation.body)};`);
+      }
+      const comment = [
+        `The request parameters of \`${operation.id}\`.`,
+        ...operation.parameters.map(
+          (parameter) =>
+            `@param ${parameter.required ? parameter.name : `[${parameter.name}]`} - ${parameter.required ? '' : 'Optional. '}${parameter.description ?? `The \`${parameter.name}\` ${parameter.in} parameter.`}`,
+        ),
+        ...(operation.body ? ['@param body - The request body.'] : []),
+      ];
+      return [toComment(comment), `export type ${getParamsType(operation)} = { ${properties.join(' ')} };`].join('\n');
+    });
+
+  return [BANNER, ...models, ...params].join('\n\n');
+};
+
+/**
+ * Generates `schemas.ts`, the zod schema of each component schema.
+ * @param {OpenApiDocument} document - The OpenAPI document.
+ * @returns {string} The file content.
+ */
+export const generateSchemas = (document: OpenApiDocument): string => {
+  const schemas = document.components?.schemas ?? {};
+  const names = sortSchemas(schemas);
+  const declarations = names.map((name) =>
+    [
+      toComment([`Zod schema for the \`${name}\` type.`]),
+      `export const ${getSchemaVariable(name)} = ${toZod(schemas[name])} satisfies z.ZodType<${name}>;`,
+    ].join('\n'),
+  );
+
+  return [BANNER, [`import { z } from 'zod';`, '', toImport(names, './models')].join('\n'), ...declarations].join(
+    '\n\n',
+  );
+};
+
+/**
+ * Returns the URL template literal of an operation path.
+ * @param {string} operationPath - The path, e.g. `/todos/{taskId}`.
+ * @returns {string} The template literal, e.g. `` `/todos/${taskId}` ``.
+ */
+export const toUrlTemplate = (operationPath: string): string =>
+  `\`${operationPath.replace(/\{([A-Za-z0-9_]+)\}/g, (_, name: string) => `\${${name}}`)}\``;
+
+/**
+ * Generates `requests.ts`, a function which sends the request of each
+ * operation and validates the response.
+ * @param {OpenApiDocument} document - The OpenAPI document.
+ * @returns {string} The file content.
+ */
+export const generateRequests = (document: OpenApiDocument): string => {
+  const operations = getOperations(document);
+  const functions = operations.map((operation) => {
+    const responseType = getResponseType(operation);
+    const pathParams = operation.parameters.filter((parameter) => parameter.in === 'path');
+    const queryParams = operation.parameters.filter((parameter) => parameter.in === 'query');
+    const names = [...operation.parameters.map(({ name }) => name), ...(operation.body ? ['body'] : [])];
+    const args = [
+      'api: AxiosInstance',
+      ...(hasParams(operation) ? [`{ ${names.join(', ')} }: ${getParamsType(operation)}`] : []),
+      'signal?: AbortSignal',
+    ];
+    const config = [
+      `method: '${operation.method}',`,
+      `url: ${pathParams.length ? toUrlTemplate(operation.path) : `'${operation.path}'`},`,
+      ...(queryParams.length ? [`params: { ${queryParams.map(({ name }) => name).join(', ')} },`] : []),
+      ...(operation.body ? ['data: body,'] : []),
+      'signal,',
+    ];
+    const comment = [
+      ...(operation.summary ? [operation.summary] : []),
+      `\`${operation.method.toUpperCase()} ${operation.path}\``,
+      `@param {AxiosInstance} api - The Axios instance of the \`${operation.service}\` API service.`,
+      ...(hasParams(operation) ? [`@param {${getParamsType(operation)}} params - The request parameters.`] : []),
+      '@param {AbortSignal} [signal] - Optional. Aborts the request.',
+      operation.response
+        ? `@returns {Promise<${responseType}>} A Promise which resolves to the validated response data.`
+        : '@returns {Promise<void>} A Promise which resolves when the request succeeds.',
+    ];
+    const body = operation.response
+      ? [
+          `const response = await api.request({ ${config.join(' ')} });`,
+          `return validateResponse(${toZod(operation.response)}, response);`,
+        ]
+      : [`await api.request({ ${config.join(' ')} });`];
+    return [
+      toComment(comment),
+      `export const ${operation.id} = async (${args.join(', ')}): Promise<${responseType}> => {`,
+      ...body,
+      '};',
+    ].join('\n');
+  });
+
+  const types = [
+    ...operations.filter(hasParams).map(getParamsType),
+    ...getOperationReferences(operations, ({ response }) => [response]),
+  ];
+  const schemas = getOperationReferences(operations, ({ response }) => [response]).map(getSchemaVariable);
+  const imports = [
+    `import { AxiosInstance } from 'axios';`,
+    ...(operations.some(({ response }) => response && !response.$ref) ? [`import { z } from 'zod';`] : []),
+    '',
+    toImport(types, './models'),
+    toImport(schemas, './schemas'),
+    toImport(
+      operations.some(({ response }) => response) ? ['validateResponse'] : [],
+      'common/utils/responseValidation',
+    ),
+  ];
+
+  return [BANNER, imports.join('\n'), ...functions].join('\n\n');
+};
+
+/**
+ * Returns the query key of a `GET` operation, following the `QueryKey`
+ * conventions:
+ * - Without parameters, the key is the tag, e.g. `[QueryKey.Users]`.
+ * - A collection is keyed by the parameters, e.g. `[QueryKey.Tasks, { userId }]`.
+ * - A single object is keyed by the last path parameter, i.e. its identifier,
+ * e.g. `[QueryKey.Tasks, taskId]`.
+ * @param {Operation} operation - The operation.
+ * @returns {string} The query key expression.
+ */
+export const toQueryKey = (operation: Operation): string => {
+  const tag = `QueryKey.${operation.tag}`;
+  const pathParams = operation.parameters.filter((parameter) => parameter.in === 'path');
+  if (!operation.parameters.length) {
+    return `[${tag}]`;
+  }
+  if (operation.response?.type === 'array' || !pathParams.length) {
+    return `[${tag}, { ${operation.parameters.map(({ name }) => name).join(', ')} }]`;
+  }
+  return `[${tag}, ${pathParams[pathParams.length - 1].name}]`;
+};
+
+/**
+ * Generates `hooks.ts`, a `useQuery` hook for each `GET` operation and, for
+ * every other operation, a mutation options function and a `useMutation`
+ * hook.
+ * @param {OpenApiDocument} document - The OpenAPI document.
+ * @returns {string} The file content.
+ */
+export const generateHooks = (document: OpenApiDocument): string => {
+  const operations = getOperations(document);
+  const queries = operations.filter(({ method }) => method === 'get');
+  const mutations = operations.filter(({ method }) => method !== 'get');
+
+  const queryHooks = queries.map((operation) => {
+    const responseType = getResponseType(operation);
+    const names = operation.parameters.map(({ name }) => name);
+    const required = operation.parameters.filter((parameter) => parameter.required).map(({ name }) => name);
+    const call = hasParams(operation)
+      ? `({ signal }) => ${operation.id}(api, { ${names.join(', ')} }, signal)`
+      : `({ signal }) => ${operation.id}(api, signal)`;
+    const comment = [
+      `An API hook which ${camelCase(operation.summary ?? `sends the \`${operation.id}\` request.`)}`,
+      ...(required.length ? ['The query is disabled until the required parameters are set.'] : []),
+      ...(hasParams(operation)
+        ? [`@param {Partial<${getParamsType(operation)}>} params - The request parameters.`]
+        : []),
+      `@returns Returns a \`UseQueryResult\` with \`${responseType}\` data.`,
+    ];
+    return [
+      toComment(comment),
+      `export const use${pascalCase(operation.id)} = (${hasParams(operation) ? `{ ${names.join(', ')} }: Partial<${getParamsType(operation)}>` : ''}): UseQueryResult<${responseType}, Error> => {`,
+      `const api = useApi('${operation.service}');`,
+      '',
+      'return useQuery({',
+      `queryKey: ${toQueryKey(operation)},`,
+      `queryFn: ${required.length ? `${required.join(' && ')} ? ${call} : skipToken` : call},`,
+      '});',
+      '};',
+    ].join('\n');
+  });
+
+  const mutationOptions = mutations.map((operation) => {
+    const responseType = getResponseType(operation);
+    const comment = [
+      `Returns the options of the mutation which ${camelCase(operation.summary ?? `sends the \`${operation.id}\` request.`)}`,
+      'The options may be extended, e.g. with `onMutate`, by a hand-written mutation.',
+      `@param {AxiosInstance} api - The Axios instance of the \`${operation.service}\` API service.`,
+      '@returns The mutation key and mutation function.',
+    ];
+    return [
+      toComment(comment),
+      `export const get${pascalCase(operation.id)}MutationOptions = (api: AxiosInstance) => ({`,
+      `mutationKey: [QueryKey.${operation.tag}, '${operation.id}'] as const,`,
+      hasParams(operation)
+        ? `mutationFn: (params: ${getParamsType(operation)}): Promise<${responseType}> => ${operation.id}(api, params),`
+        : `mutationFn: (): Promise<${responseType}> => ${operation.id}(api),`,
+      '});',
+    ].join('\n');
+  });
+
+  const mutationHooks = mutations.map((operation) => {
+    const responseType = getResponseType(operation);
+    const variablesType = hasParams(operation) ? getParamsType(operation) : 'void';
+    const optionsType = `Omit<UseMutationOptions<${responseType}, Error, ${variablesType}>, 'mutationKey' | 'mutationFn'>`;
+    const comment = [
+      `An API hook which ${camelCase(operation.summary ?? `sends the \`${operation.id}\` request.`)}`,
+      'Returns a `UseMutationResult` object whose `mutate` attribute is a function to send the request.',
+      `@param [options] - Optional. The mutation options, e.g. \`onSuccess\`.`,
+      '@returns Returns a `UseMutationResult`.',
+    ];
+    return [
+      toComment(comment),
+      `export const use${pascalCase(operation.id)}Mutation = (options?: ${optionsType}): UseMutationResult<${responseType}, Error, ${variablesType}> => {`,
+      `const api = useApi('${operation.service}');`,
+      '',
+      'return useMutation({',
+      '...options,',
+      `...get${pascalCase(operation.id)}MutationOptions(api),`,
+      '});',
+      '};',
+    ].join('\n');
+  });
+
+  const reactQuery = [
+    ...(queries.length ? ['useQuery', 'UseQueryResult'] : []),
+    ...(queries.some((operation) => operation.parameters.some((parameter) => parameter.required)) ? ['skipToken'] : []),
+    ...(mutations.length ? ['useMutation', 'UseMutationOptions', 'UseMutationResult'] : []),
+  ];
+  const types = [
+    ...operations.filter(hasParams).map(getParamsType),
+    ...getOperationReferences(operations, ({ response }) => [response]),
+  ];
+  const imports = [
+    toImport(reactQuery, '@tanstack/react-query'),
+    toImport(mutations.length ? ['AxiosInstance'] : [], 'axios'),
+    '',
+    toImport(types, './models'),
+    toImport(
+      operations.map(({ id }) => id),
+      './requests',
+    ),
+    `import { useApi } from 'common/hooks/useApi';`,
+    `import { QueryKey } from 'common/utils/constants';`,
+  ];
+
+  return [BANNER, imports.join('\n'), ...queryHooks, ...mutationOptions, ...mutationHooks].join('\n\n');
+};
+
+/**
+ * Generates the API client files from an OpenAPI document.
+ * @param {OpenApiDocument} document - The OpenAPI document.
+ * @returns {Record<string, string>} The unformatted content of each file,
+ * keyed by file name.
+ * @throws Throws an `Error` when the document is not an OpenAPI 3 document or
+ * uses a construct which the generator does not support.
+ */
+export const generateApi = (document: OpenApiDocument): Record<string, string> => {
+  if (!document.openapi?.startsWith('3.')) {
+    throw new Error('The document is not an OpenAPI 3 document.');
+  }
+  return {
+    'models.ts': generateModels(document),
+    'schemas.ts': generateSchemas(document),
+    'requests.ts': generateRequests(document),
+    'hooks.ts': generateHooks(document),
+  };
+};
+
+/**
+ * Reads the OpenAPI document, then writes the formatted API client files.
+ */
+const main = async (): Promise<void> => {
+  const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+  const input = path.join(root, 'openapi', 'openapi.json');
+  const output = path.join(root, 'src', 'common', 'api', 'generated');
+
+  const document = JSON.parse(await readFile(input, 'utf8')) as OpenApiDocument;
+  const files = generateApi(document);
+
+  await mkdir(output, { recursive: true });
+  for (const [name, content] of Object.entries(files)) {
+    const filepath = path.join(output, name);
+    const options = await resolveConfig(filepath);
+    await writeFile(filepath, await format(content, { ...options, filepath }));
+    console.log(`Generated ${path.relative(root, filepath)}`);
+  }
+};
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  await main();
+}
@@ -4,12 +4,16 @@ import { ReactQueryDevtools } from '@tanstack/react-query-devtools';
 
 import ErrorBoundary from 'common/components/Errors/ErrorBoundary';
 import ErrorFallback from 'common/components/Errors/ErrorFallback';
+import ConfigContextProvider from 'common/providers/ConfigProvider';
 import SettingsContextProvider from 'common/providers/SettingsProvider';
 import AxiosContextProvider from 'common/providers/AxiosProvider';
 import { router } from 'common/components/Router/Router';
 import Theme from 'common/components/Theme/Theme';
 import AuthContextProvider from 'common/providers/AuthProvider';
 import ToastsProvider from 'common/providers/ToastsProvider';
+import FeatureFlagsContextProvider from 'common/providers/FeatureFlagsProvider';
+import MutationQueueProvider from 'common/providers/MutationQueueProvider';
+import PersistedQueryCacheProvider from 'common/providers/PersistedQueryCacheProvider';
 
 /**
  * React Query `QueryClient` and configuration.
@@ -20,6 +24,7 @@ const queryClient = new QueryClient({
   defaultOptions: {
     queries: {
       staleTime: 1000 * 60 * 5, // 5 minutes
+      gcTime: 1000 * 60 * 60 * 24, // 24 hours, so that unused data remains in the persisted cache
     },
   },
 });
@@ -31,19 +36,27 @@ const queryClient = new QueryClient({
 function App() {
   return (
     <div id="app" className="bg-background text-foreground min-h-screen" data-testid="app">
-      <ErrorBoundary fallback={<ErrorFallback />}>
+      <ErrorBoundary fallback={(error) => <ErrorFallback error={error} />}>
         <QueryClientProvider client={queryClient}>
-          <SettingsContextProvider>
-            <Theme />
-            <AuthContextProvider>
-              <AxiosContextProvider>
-                <ToastsProvider>
-                  <RouterProvider router={router} />
-                </ToastsProvider>
-              </AxiosContextProvider>
-            </AuthContextProvider>
-            <ReactQueryDevtools initialIsOpen={false} />
-          </SettingsContextProvider>
+          <ConfigContextProvider>
+            <PersistedQueryCacheProvider>
+              <SettingsContextProvider>
+                <Theme />
+                <AuthContextProvider>
+                  <AxiosContextProvider>
+                    <FeatureFlagsContextProvider>
+                      <ToastsProvider>
+                        <MutationQueueProvider>
+                          <RouterProvider router={router} />
+                        </MutationQueueProvider>
+                      </ToastsProvider>
+                    </FeatureFlagsContextProvider>
+                  </AxiosContextProvider>
+                </AuthContextProvider>
+                <ReactQueryDevtools initialIsOpen={false} />
+              </SettingsContextProvider>
+            </PersistedQueryCacheProvider>
+          </ConfigContextProvider>
         </QueryClientProvider>
       </ErrorBoundary>
     </div>
@@ -0,0 +1,4 @@
+import { Config, parseConfig } from 'common/utils/config';
+
+// the configuration of the test environment, i.e. the build-time environment variables
+export const configFixture: Config = parseConfig(import.meta.env);
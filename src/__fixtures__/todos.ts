@@ -1,4 +1,4 @@
-import { Task } from 'pages/Tasks/api/useGetUserTasks';
+import { Task } from 'common/api/generated/models';
 
 export const todosFixture: Task[] = [
   {
@@ -1,10 +1,12 @@
 import { UserTokens } from 'common/api/useGetUserTokens';
 
 export const userTokensFixture: UserTokens = {
-  id_token: 'id-token',
+  // unsigned JWT; claims for user 1 expiring 2100-01-01T00:00:00Z
+  id_token:
+    'eyJhbGciOiJub25lIiwidHlwIjoiSldUIn0.eyJpc3MiOiJodHRwczovL2lkcC5leGFtcGxlLmNvbSIsImF1ZCI6InJlYWN0LXN0YXJ0ZXIiLCJzdWIiOiIxIiwibmFtZSI6IkxlYW5uZSBHcmFoYW0iLCJwcmVmZXJyZWRfdXNlcm5hbWUiOiJCcmV0IiwiZW1haWwiOiJTaW5jZXJlQGFwcmlsLmJpeiIsInJvbGVzIjpbImFkbWluIiwidXNlciJdLCJwZXJtaXNzaW9ucyI6WyJ0YXNrczpjcmVhdGUiLCJ0YXNrczpkZWxldGUiLCJ0YXNrczpyZWFkIiwidGFza3M6dXBkYXRlIl0sImlhdCI6MTc2NzIyNTYwMCwiZXhwIjo0MTAyNDQ0ODAwfQ.signature',
   access_token: 'access-token',
   refresh_token: 'refresh-token',
   expires_in: 3600,
   token_type: 'Bearer',
-  expires_at: '2024-01-17T12:17:09.733Z',
+  provider_id: 'default',
 };
@@ -1,4 +1,4 @@
-import { User } from 'common/api/useGetUser';
+import { User } from 'common/api/generated/models';
 
 export const userFixture1: User = {
   id: 1,
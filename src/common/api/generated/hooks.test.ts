@@ -0,0 +1,179 @@
+import { describe, expect, it, vi } from 'vitest';
+import axios from 'axios';
+import { delay, http, HttpResponse } from 'msw';
+
+import { renderHook, waitFor } from 'test/test-utils';
+import { server } from 'test/mocks/server';
+import { todosFixture } from '__fixtures__/todos';
+import { queryClient } from 'test/query-client';
+import { QueryKey } from 'common/utils/constants';
+import * as UseApi from 'common/hooks/useApi';
+
+import {
+  useCreateTaskMutation,
+  useDeleteTaskMutation,
+  useGetTask,
+  useGetUser,
+  useGetUsers,
+  useGetUserTasks,
+  useUpdateTaskMutation,
+} from './hooks';
+
+describe('hooks', () => {
+  describe('useGetUsers', () => {
+    it('should get users', async () => {
+      // ARRANGE
+      const { result } = renderHook(() => useGetUsers());
+      await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+      // ASSERT
+      expect(result.current.isSuccess).toBe(true);
+      expect(result.current.isError).toBe(false);
+      expect(result.current.data).toBeDefined();
+      expect(result.current.data?.length).toBe(2);
+    });
+  });
+
+  describe('useGetUser', () => {
+    it('should get user', async () => {
+      // ARRANGE
+      const { result } = renderHook(() => useGetUser({ userId: 1 }));
+      await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+      // ASSERT
+      expect(result.current.isSuccess).toBe(true);
+      expect(result.current.isError).toBe(false);
+      expect(result.current.data).toBeDefined();
+      expect(result.current.data?.id).toEqual(1);
+    });
+
+    it('should not fetch until the user identifier is set', async () => {
+      // ARRANGE
+      const { result } = renderHook(() => useGetUser({}));
+      await waitFor(() => expect(result.current).not.toBeNull());
+
+      // ASSERT
+      expect(result.current.isPending).toBe(true);
+      expect(result.current.fetchStatus).toBe('idle');
+    });
+
+    it('should fail when the response does not match the schema', async () => {
+      // ARRANGE
+      server.use(http.get('https://jsonplaceholder.typicode.com/users/:userId', () => HttpResponse.json({ id: '1' })));
+      const { result } = renderHook(() => useGetUser({ userId: 1 }));
+      await waitFor(() => expect(result.current.isError).toBe(true));
+
+      // ASSERT
+      expect(result.current.error).toBeDefined();
+    });
+  });
+
+  describe('useGetUserTasks', () => {
+    it('should get tasks for user', async () => {
+      // ARRANGE
+      const { result } = renderHook(() => useGetUserTasks({ userId: 1 }));
+      await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+      // ASSERT
+      expect(result.current.isSuccess).toBe(true);
+      expect(result.current.isError).toBe(false);
+      expect(result.current.data).toBeDefined();
+      expect(result.current.data?.length).toBe(3);
+    });
+
+    it('should get return empty array when not found', async () => {
+      // ARRANGE
+      const { result } = renderHook(() => useGetUserTasks({ userId: 9999 }));
+      await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+      // ASSERT
+      expect(result.current.isSuccess).toBe(true);
+      expect(result.current.isError).toBe(false);
+      expect(result.current.data).toBeDefined();
+      expect(result.current.data).toEqual([]);
+    });
+  });
+
+  describe('useGetTask', () => {
+    it('should render hook successfully', async () => {
+      // ARRANGE
+      const { result } = renderHook(() => useGetTask({ taskId: 1 }));
+      await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+      // ASSERT
+      expect(result.current.isSuccess).toBe(true);
+      expect(result.current.isError).toBe(false);
+      expect(result.current.data).toBeDefined();
+      expect(result.current.data?.id).toEqual(1);
+    });
+
+    it('should abort the request for a task which is no longer displayed', async () => {
+      // ARRANGE
+      const axiosInstance = axios.create({ baseURL: 'https://jsonplaceholder.typicode.com' });
+      const requestSpy = vi.spyOn(axiosInstance, 'request');
+      vi.spyOn(UseApi, 'useApi').mockReturnValue(axiosInstance);
+      server.use(
+        http.get('https://jsonplaceholder.typicode.com/todos/:taskId', async () => {
+          await delay(100);
+          return HttpResponse.json(todosFixture[0]);
+        }),
+      );
+      const { rerender, result } = renderHook(({ taskId }) => useGetTask({ taskId }), { initialProps: { taskId: 1 } });
+      await waitFor(() => expect(requestSpy).toHaveBeenCalledTimes(1));
+
+      // ACT
+      rerender({ taskId: 2 });
+      await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+      // ASSERT
+      expect(requestSpy.mock.calls[0][0].signal?.aborted).toBe(true);
+      expect(requestSpy.mock.calls[1][0].signal?.aborted).toBe(false);
+      expect(queryClient.getQueryData([QueryKey.Tasks, 1])).toBeUndefined();
+    });
+  });
+
+  describe('useCreateTaskMutation', () => {
+    it('should create task', async () => {
+      // ARRANGE
+      const { result } = renderHook(() => useCreateTaskMutation());
+      await waitFor(() => expect(result.current).not.toBeNull());
+
+      // ACT
+      const task = await result.current.mutateAsync({ body: todosFixture[0] });
+
+      // ASSERT
+      expect(task).toEqual(todosFixture[0]);
+    });
+  });
+
+  describe('useUpdateTaskMutation', () => {
+    it('should update task', async () => {
+      // ARRANGE
+      const onSuccess = vi.fn();
+      const { result } = renderHook(() => useUpdateTaskMutation({ onSuccess }));
+      await waitFor(() => expect(result.current).not.toBeNull());
+
+      // ACT
+      const task = await result.current.mutateAsync({ taskId: 1, body: { ...todosFixture[0], completed: true } });
+
+      // ASSERT
+      expect(task.completed).toBe(true);
+      expect(onSuccess).toHaveBeenCalled();
+    });
+  });
+
+  describe('useDeleteTaskMutation', () => {
+    it('should delete task', async () => {
+      // ARRANGE
+      const { result } = renderHook(() => useDeleteTaskMutation());
+      await waitFor(() => expect(result.current).not.toBeNull());
+
+      // ACT
+      result.current.mutate({ taskId: 1 });
+      await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+      // ASSERT
+      expect(result.current.isError).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * Generated by `npm run generate:api` from `openapi/openapi.json`; do not edit.
+ * Change the OpenAPI document and run the generator again.
+ */
+
+import {
+  UseMutationOptions,
+  UseMutationResult,
+  UseQueryResult,
+  skipToken,
+  useMutation,
+  useQuery,
+} from '@tanstack/react-query';
+import { AxiosInstance } from 'axios';
+
+import {
+  CreateTaskParams,
+  DeleteTaskParams,
+  GetTaskParams,
+  GetUserParams,
+  GetUserTasksParams,
+  Task,
+  UpdateTaskParams,
+  User,
+} from './models';
+import { createTask, deleteTask, getTask, getUser, getUserTasks, getUsers, updateTask } from './requests';
+import { useApi } from 'common/hooks/useApi';
+import { QueryKey } from 'common/utils/constants';
+
+/**
+ * An API hook which fetches a collection of `User` objects.
+ * @returns Returns a `UseQueryResult` with `User[]` data.
+ */
+export const useGetUsers = (): UseQueryResult<User[], Error> => {
+  const api = useApi('identity');
+
+  return useQuery({
+    queryKey: [QueryKey.Users],
+    queryFn: ({ signal }) => getUsers(api, signal),
+  });
+};
+
+/**
+ * An API hook which fetches a `User` by the identifier.
+ * The query is disabled until the required parameters are set.
+ * @param {Partial<GetUserParams>} params - The request parameters.
+ * @returns Returns a `UseQueryResult` with `User` data.
+ */
+export const useGetUser = ({ userId }: Partial<GetUserParams>): UseQueryResult<User, Error> => {
+  const api = useApi('identity');
+
+  return useQuery({
+    queryKey: [QueryKey.Users, userId],
+    queryFn: userId ? ({ signal }) => getUser(api, { userId }, signal) : skipToken,
+  });
+};
+
+/**
+ * An API hook which fetches a collection of `Task` objects which are assigned to a `User`.
+ * The query is disabled until the required parameters are set.
+ * @param {Partial<GetUserTasksParams>} params - The request parameters.
+ * @returns Returns a `UseQueryResult` with `Task[]` data.
+ */
+export const useGetUserTasks = ({ userId }: Partial<GetUserTasksParams>): UseQueryResult<Task[], Error> => {
+  const api = useApi('tasks');
+
+  return useQuery({
+    queryKey: [QueryKey.Tasks, { userId }],
+    queryFn: userId ? ({ signal }) => getUserTasks(api, { userId }, signal) : skipToken,
+  });
+};
+
+/**
+ * An API hook which fetches a single `Task` by the identifier.
+ * The query is disabled until the required parameters are set.
+ * @param {Partial<GetTaskParams>} params - The request parameters.
+ * @returns Returns a `UseQueryResult` with `Task` data.
+ */
+export const useGetTask = ({ taskId }: Partial<GetTaskParams>): UseQueryResult<Task, Error> => {
+  const api = useApi('tasks');
+
+  return useQuery({
+    queryKey: [QueryKey.Tasks, taskId],
+    queryFn: taskId ? ({ signal }) => getTask(api, { taskId }, signal) : skipToken,
+  });
+};
+
+/**
+ * Returns the options of the mutation which creates a single `Task`.
+ * The options may be extended, e.g. with `onMutate`, by a hand-written mutation.
+ * @param {AxiosInstance} api - The Axios instance of the `tasks` API service.
+ * @returns The mutation key and mutation function.
+ */
+export const getCreateTaskMutationOptions = (api: AxiosInstance) => ({
+  mutationKey: [QueryKey.Tasks, 'createTask'] as const,
+  mutationFn: (params: CreateTaskParams): Promise<Task> => createTask(api, params),
+});
+
+/**
+ * Returns the options of the mutation which updates a single `Task`.
+ * The options may be extended, e.g. with `onMutate`, by a hand-written mutation.
+ * @param {AxiosInstance} api - The Axios instance of the `tasks` API service.
+ * @returns The mutation key and mutation function.
+ */
+export const getUpdateTaskMutationOptions = (api: AxiosInstance) => ({
+  mutationKey: [QueryKey.Tasks, 'updateTask'] as const,
+  mutationFn: (params: UpdateTaskParams): Promise<Task> => updateTask(api, params),
+});
+
+/**
+ * Returns the options of the mutation which deletes a single `Task`.
+ * The options may be extended, e.g. with `onMutate`, by a hand-written mutation.
+ * @param {AxiosInstance} api - The Axios instance of the `tasks` API service.
+ * @returns The mutation key and mutation function.
+ */
+export const getDeleteTaskMutationOptions = (api: AxiosInstance) => ({
+  mutationKey: [QueryKey.Tasks, 'deleteTask'] as const,
+  mutationFn: (params: DeleteTaskParams): Promise<void> => deleteTask(api, params),
+});
+
+/**
+ * An API hook which creates a single `Task`.
+ * Returns a `UseMutationResult` object whose `mutate` attribute is a function to send the request.
+ * @param [options] - Optional. The mutation options, e.g. `onSuccess`.
+ * @returns Returns a `UseMutationResult`.
+ */
+export const useCreateTaskMutation = (
+  options?: Omit<UseMutationOptions<Task, Error, CreateTaskParams>, 'mutationKey' | 'mutationFn'>,
+): UseMutationResult<Task, Error, CreateTaskParams> => {
+  const api = useApi('tasks');
+
+  return useMutation({
+    ...options,
+    ...getCreateTaskMutationOptions(api),
+  });
+};
+
+/**
+ * An API hook which updates a single `Task`.
+ * Returns a `UseMutationResult` object whose `mutate` attribute is a function to send the request.
+ * @param [options] - Optional. The mutation options, e.g. `onSuccess`.
+ * @returns Returns a `UseMutationResult`.
+ */
+export const useUpdateTaskMutation = (
+  options?: Omit<UseMutationOptions<Task, Error, UpdateTaskParams>, 'mutationKey' | 'mutationFn'>,
+): UseMutationResult<Task, Error, UpdateTaskParams> => {
+  const api = useApi('tasks');
+
+  return useMutation({
+    ...options,
+    ...getUpdateTaskMutationOptions(api),
+  });
+};
+
+/**
+ * An API hook which deletes a single `Task`.
+ * Returns a `UseMutationResult` object whose `mutate` attribute is a function to send the request.
+ * @param [options] - Optional. The mutation options, e.g. `onSuccess`.
+ * @returns Returns a `UseMutationResult`.
+ */
+export const useDeleteTaskMutation = (
+  options?: Omit<UseMutationOptions<void, Error, DeleteTaskParams>, 'mutationKey' | 'mutationFn'>,
+): UseMutationResult<void, Error, DeleteTaskParams> => {
+  const api = useApi('tasks');
+
+  return useMutation({
+    ...options,
+    ...getDeleteTaskMutationOptions(api),
+  });
+};
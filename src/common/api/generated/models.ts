@@ -0,0 +1,81 @@
+/**
+ * Generated by `npm run generate:api` from `openapi/openapi.json`; do not edit.
+ * Change the OpenAPI document and run the generator again.
+ */
+
+/**
+ * The `Task` type.
+ */
+export type Task = { id: number; userId: number; title: string; completed: boolean };
+
+/**
+ * The `Task` attributes used to create a new task. The identifier is optional.
+ */
+export type CreateTaskRequest = { id?: number; userId: number; title: string; completed: boolean };
+
+/**
+ * The `Address` type.
+ */
+export type Address = {
+  street: string;
+  suite: string;
+  city: string;
+  zipcode: string;
+  geo: { lat: string; lng: string };
+};
+
+/**
+ * The `Company` type.
+ */
+export type Company = { name: string; catchPhrase: string; bs: string };
+
+/**
+ * The `User` type.
+ */
+export type User = {
+  id: number;
+  name: string;
+  username: string;
+  email: string;
+  phone: string;
+  website: string;
+  address: Address;
+  company: Company;
+};
+
+/**
+ * The request parameters of `getUser`.
+ * @param userId - A `User` identifier.
+ */
+export type GetUserParams = { userId: number };
+
+/**
+ * The request parameters of `getUserTasks`.
+ * @param userId - A `User` identifier.
+ */
+export type GetUserTasksParams = { userId: number };
+
+/**
+ * The request parameters of `createTask`.
+ * @param body - The request body.
+ */
+export type CreateTaskParams = { body: CreateTaskRequest };
+
+/**
+ * The request parameters of `getTask`.
+ * @param taskId - A `Task` identifier.
+ */
+export type GetTaskParams = { taskId: number };
+
+/**
+ * The request parameters of `updateTask`.
+ * @param taskId - A `Task` identifier.
+ * @param body - The request body.
+ */
+export type UpdateTaskParams = { taskId: number; body: Task };
+
+/**
+ * The request parameters of `deleteTask`.
+ * @param taskId - A `Task` identifier.
+ */
+export type DeleteTaskParams = { taskId: number };
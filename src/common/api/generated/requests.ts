@@ -0,0 +1,125 @@
+/**
+ * Generated by `npm run generate:api` from `openapi/openapi.json`; do not edit.
+ * Change the OpenAPI document and run the generator again.
+ */
+
+import { AxiosInstance } from 'axios';
+import { z } from 'zod';
+
+import {
+  CreateTaskParams,
+  DeleteTaskParams,
+  GetTaskParams,
+  GetUserParams,
+  GetUserTasksParams,
+  Task,
+  UpdateTaskParams,
+  User,
+} from './models';
+import { taskSchema, userSchema } from './schemas';
+import { validateResponse } from 'common/utils/responseValidation';
+
+/**
+ * Fetches a collection of `User` objects.
+ * `GET /users`
+ * @param {AxiosInstance} api - The Axios instance of the `identity` API service.
+ * @param {AbortSignal} [signal] - Optional. Aborts the request.
+ * @returns {Promise<User[]>} A Promise which resolves to the validated response data.
+ */
+export const getUsers = async (api: AxiosInstance, signal?: AbortSignal): Promise<User[]> => {
+  const response = await api.request({ method: 'get', url: '/users', signal });
+  return validateResponse(z.array(userSchema), response);
+};
+
+/**
+ * Fetches a `User` by the identifier.
+ * `GET /users/{userId}`
+ * @param {AxiosInstance} api - The Axios instance of the `identity` API service.
+ * @param {GetUserParams} params - The request parameters.
+ * @param {AbortSignal} [signal] - Optional. Aborts the request.
+ * @returns {Promise<User>} A Promise which resolves to the validated response data.
+ */
+export const getUser = async (api: AxiosInstance, { userId }: GetUserParams, signal?: AbortSignal): Promise<User> => {
+  const response = await api.request({ method: 'get', url: `/users/${userId}`, signal });
+  return validateResponse(userSchema, response);
+};
+
+/**
+ * Fetches a collection of `Task` objects which are assigned to a `User`.
+ * `GET /users/{userId}/todos`
+ * @param {AxiosInstance} api - The Axios instance of the `tasks` API service.
+ * @param {GetUserTasksParams} params - The request parameters.
+ * @param {AbortSignal} [signal] - Optional. Aborts the request.
+ * @returns {Promise<Task[]>} A Promise which resolves to the validated response data.
+ */
+export const getUserTasks = async (
+  api: AxiosInstance,
+  { userId }: GetUserTasksParams,
+  signal?: AbortSignal,
+): Promise<Task[]> => {
+  const response = await api.request({ method: 'get', url: `/users/${userId}/todos`, signal });
+  return validateResponse(z.array(taskSchema), response);
+};
+
+/**
+ * Creates a single `Task`.
+ * `POST /todos`
+ * @param {AxiosInstance} api - The Axios instance of the `tasks` API service.
+ * @param {CreateTaskParams} params - The request parameters.
+ * @param {AbortSignal} [signal] - Optional. Aborts the request.
+ * @returns {Promise<Task>} A Promise which resolves to the validated response data.
+ */
+export const createTask = async (
+  api: AxiosInstance,
+  { body }: CreateTaskParams,
+  signal?: AbortSignal,
+): Promise<Task> => {
+  const response = await api.request({ method: 'post', url: '/todos', data: body, signal });
+  return validateResponse(taskSchema, response);
+};
+
+/**
+ * Fetches a single `Task` by the identifier.
+ * `GET /todos/{taskId}`
+ * @param {AxiosInstance} api - The Axios instance of the `tasks` API service.
+ * @param {GetTaskParams} params - The request parameters.
+ * @param {AbortSignal} [signal] - Optional. Aborts the request.
+ * @returns {Promise<Task>} A Promise which resolves to the validated response data.
+ */
+export const getTask = async (api: AxiosInstance, { taskId }: GetTaskParams, signal?: AbortSignal): Promise<Task> => {
+  const response = await api.request({ method: 'get', url: `/todos/${taskId}`, signal });
+  return validateResponse(taskSchema, response);
+};
+
+/**
+ * Updates a single `Task`.
+ * `PUT /todos/{taskId}`
+ * @param {AxiosInstance} api - The Axios instance of the `tasks` API service.
+ * @param {UpdateTaskParams} params - The request parameters.
+ * @param {AbortSignal} [signal] - Optional. Aborts the request.
+ * @returns {Promise<Task>} A Promise which resolves to the validated response data.
+ */
+export const updateTask = async (
+  api: AxiosInstance,
+  { taskId, body }: UpdateTaskParams,
+  signal?: AbortSignal,
+): Promise<Task> => {
+  const response = await api.request({ method: 'put', url: `/todos/${taskId}`, data: body, signal });
+  return validateResponse(taskSchema, response);
+};
+
+/**
+ * Deletes a single `Task`.
+ * `DELETE /todos/{taskId}`
+ * @param {AxiosInstance} api - The Axios instance of the `tasks` API service.
+ * @param {DeleteTaskParams} params - The request parameters.
+ * @param {AbortSignal} [signal] - Optional. Aborts the request.
+ * @returns {Promise<void>} A Promise which resolves when the request succeeds.
+ */
+export const deleteTask = async (
+  api: AxiosInstance,
+  { taskId }: DeleteTaskParams,
+  signal?: AbortSignal,
+): Promise<void> => {
+  await api.request({ method: 'delete', url: `/todos/${taskId}`, signal });
+};
@@ -0,0 +1,62 @@
+/**
+ * Generated by `npm run generate:api` from `openapi/openapi.json`; do not edit.
+ * Change the OpenAPI document and run the generator again.
+ */
+
+import { z } from 'zod';
+
+import { Address, Company, CreateTaskRequest, Task, User } from './models';
+
+/**
+ * Zod schema for the `Task` type.
+ */
+export const taskSchema = z.object({
+  id: z.number().int(),
+  userId: z.number().int(),
+  title: z.string(),
+  completed: z.boolean(),
+}) satisfies z.ZodType<Task>;
+
+/**
+ * Zod schema for the `CreateTaskRequest` type.
+ */
+export const createTaskRequestSchema = z.object({
+  id: z.number().int().optional(),
+  userId: z.number().int(),
+  title: z.string(),
+  completed: z.boolean(),
+}) satisfies z.ZodType<CreateTaskRequest>;
+
+/**
+ * Zod schema for the `Address` type.
+ */
+export const addressSchema = z.object({
+  street: z.string(),
+  suite: z.string(),
+  city: z.string(),
+  zipcode: z.string(),
+  geo: z.object({ lat: z.string(), lng: z.string() }),
+}) satisfies z.ZodType<Address>;
+
+/**
+ * Zod schema for the `Company` type.
+ */
+export const companySchema = z.object({
+  name: z.string(),
+  catchPhrase: z.string(),
+  bs: z.string(),
+}) satisfies z.ZodType<Company>;
+
+/**
+ * Zod schema for the `User` type.
+ */
+export const userSchema = z.object({
+  id: z.number().int(),
+  name: z.string(),
+  username: z.string(),
+  email: z.string(),
+  phone: z.string(),
+  website: z.string(),
+  address: addressSchema,
+  company: companySchema,
+}) satisfies z.ZodType<User>;
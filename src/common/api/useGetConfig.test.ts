@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { http, HttpResponse } from 'msw';
+import { renderHook, waitFor } from 'test/test-utils';
+
+import { server } from 'test/mocks/server';
+import { configFixture } from '__fixtures__/config';
+
+import { useGetConfig } from 'common/api/useGetConfig';
+
+describe('useGetConfig', () => {
+  it('should get build-time configuration when runtime configuration not found', async () => {
+    // ARRANGE
+    const { result } = renderHook(() => useGetConfig());
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+    // ASSERT
+    expect(result.current.data).toEqual(configFixture);
+  });
+
+  it('should merge runtime configuration over build-time configuration', async () => {
+    // ARRANGE
+    server.use(
+      http.get('/config.json', () =>
+        HttpResponse.json({ VITE_BASE_URL_API: 'https://api.example.com', VITE_TOAST_AUTO_DISMISS_MILLIS: '2500' }),
+      ),
+    );
+    const { result } = renderHook(() => useGetConfig());
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+    // ASSERT
+    expect(result.current.data?.VITE_BASE_URL_API).toBe('https://api.example.com');
+    expect(result.current.data?.VITE_TOAST_AUTO_DISMISS_MILLIS).toBe(2500);
+    expect(result.current.data?.VITE_BUILD_ENV_CODE).toBe(configFixture.VITE_BUILD_ENV_CODE);
+  });
+
+  it('should ignore runtime configuration which is not a JSON object', async () => {
+    // ARRANGE
+    server.use(http.get('/config.json', () => HttpResponse.html('<!doctype html><html></html>')));
+    const { result } = renderHook(() => useGetConfig());
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+    // ASSERT
+    expect(result.current.data).toEqual(configFixture);
+  });
+
+  it('should error when configuration is invalid', async () => {
+    // ARRANGE
+    server.use(http.get('/config.json', () => HttpResponse.json({ VITE_BASE_URL_API: 'not-a-url' })));
+    const { result } = renderHook(() => useGetConfig());
+    await waitFor(() => expect(result.current.isError).toBe(true));
+
+    // ASSERT
+    expect(result.current.error?.message).toMatch(/VITE_BASE_URL_API/);
+  });
+});
@@ -0,0 +1,52 @@
+import { useQuery } from '@tanstack/react-query';
+import axios from 'axios';
+import isPlainObject from 'lodash/isPlainObject';
+
+import { Config, CONFIG_URL, parseConfig } from 'common/utils/config';
+import { QueryKey } from 'common/utils/constants';
+
+/**
+ * Fetches the runtime configuration values. The runtime configuration is
+ * optional; when the file is not found, or is not a JSON object, there are no
+ * runtime values.
+ *
+ * The request uses a bare Axios instance; the application interceptors
+ * depend upon the configuration.
+ * @param {AbortSignal} [signal] - Optional. Aborts the request.
+ * @returns {Promise<Record<string, unknown>>} A Promise which resolves to the
+ * runtime configuration values.
+ */
+const getRuntimeConfig = async (signal?: AbortSignal): Promise<Record<string, unknown>> => {
+  try {
+    const response = await axios.request<unknown>({
+      url: CONFIG_URL,
+      headers: { 'Cache-Control': 'no-cache' },
+      signal,
+    });
+    // a single page application host may answer with the index page instead
+    return isPlainObject(response.data) ? (response.data as Record<string, unknown>) : {};
+  } catch {
+    // the runtime configuration is optional
+    return {};
+  }
+};
+
+/**
+ * An API hook which fetches the application `Config`. The runtime
+ * configuration, `config.json`, is merged over the build-time environment
+ * variables and the result is validated.
+ * @returns Returns a `UseQueryResult` with `Config` data.
+ */
+export const useGetConfig = () => {
+  const getConfig = async (signal: AbortSignal): Promise<Config> => {
+    const runtimeConfig = await getRuntimeConfig(signal);
+    return parseConfig({ ...import.meta.env, ...runtimeConfig });
+  };
+
+  return useQuery({
+    queryKey: [QueryKey.Config],
+    queryFn: ({ signal }) => getConfig(signal),
+    staleTime: Infinity,
+    retry: 0,
+  });
+};
@@ -1,16 +1,21 @@
 import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { http, HttpResponse } from 'msw';
 import { renderHook, waitFor } from 'test/test-utils';
+import { server } from 'test/mocks/server';
 
-import { userFixture1 } from '__fixtures__/users';
-import storage from 'common/utils/storage';
+import { createMockIdToken } from 'test/mocks/idp';
+import { userFixture1, userFixture2 } from '__fixtures__/users';
+import * as UseAuth from 'common/hooks/useAuth';
+import { parseClaims } from 'common/utils/claims';
+import { SchemaDriftError } from 'common/utils/apiError';
 
 import { useGetCurrentUser } from 'common/api/useGetCurrentUser';
 
 describe('useGetCurrentUser', () => {
-  const getItemSpy = vi.spyOn(storage, 'getJsonItem');
+  const useAuthSpy = vi.spyOn(UseAuth, 'useAuth');
 
   beforeEach(() => {
-    getItemSpy.mockReturnValue(userFixture1);
+    useAuthSpy.mockReturnValue({ isAuthenticated: true, claims: parseClaims(createMockIdToken(1)) });
   });
 
   it('should get current user', async () => {
@@ -24,27 +29,98 @@ describe('useGetCurrentUser', () => {
     expect(result.current.data).toEqual(userFixture1);
   });
 
-  it('should error when user not found', async () => {
+  it('should prefer claims to profile attributes', async () => {
     // ARRANGE
-    getItemSpy.mockReturnValue(null);
+    useAuthSpy.mockReturnValue({
+      isAuthenticated: true,
+      claims: parseClaims(createMockIdToken(1, { name: 'Claimed Name' })),
+    });
+    const { result } = renderHook(() => useGetCurrentUser());
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+    // ASSERT
+    expect(result.current.data?.name).toBe('Claimed Name');
+    expect(result.current.data?.phone).toBe(userFixture1.phone);
+  });
+
+  it('should derive current user from claims when profile not found', async () => {
+    // ARRANGE
+    useAuthSpy.mockReturnValue({
+      isAuthenticated: true,
+      claims: parseClaims(createMockIdToken(1, { sub: '999', preferred_username: 'someone' })),
+    });
+    const { result } = renderHook(() => useGetCurrentUser());
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+    // ASSERT
+    expect(result.current.data).toEqual({
+      id: 999,
+      name: userFixture1.name,
+      username: 'someone',
+      email: userFixture1.email,
+    });
+  });
+
+  it('should not derive id from a non-numeric subject', async () => {
+    // ARRANGE
+    useAuthSpy.mockReturnValue({
+      isAuthenticated: true,
+      claims: parseClaims(createMockIdToken(1, { sub: '6f1c2b9e-3d4a-4f8e-9b7a-1c2d3e4f5a6b' })),
+    });
+    const { result } = renderHook(() => useGetCurrentUser());
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+    // ASSERT
+    expect(result.current.data?.id).toBeUndefined();
+    expect(result.current.data?.username).toBe(userFixture1.username);
+  });
+
+  it('should fail when the profile cannot be fetched', async () => {
+    // ARRANGE
+    server.use(
+      http.get('https://jsonplaceholder.typicode.com/users/:userId', () => new HttpResponse(null, { status: 500 })),
+    );
     const { result } = renderHook(() => useGetCurrentUser());
     await waitFor(() => expect(result.current.isError).toBe(true));
 
     // ASSERT
-    expect(result.current.isSuccess).toBe(false);
     expect(result.current.isError).toBe(true);
     expect(result.current.data).not.toBeDefined();
   });
 
-  it('should error on failure to get current user', async () => {
+  it('should fail when the profile does not match the schema', async () => {
     // ARRANGE
-    getItemSpy.mockRejectedValue(new Error());
+    server.use(http.get('https://jsonplaceholder.typicode.com/users/:userId', () => HttpResponse.json({ id: 'one' })));
     const { result } = renderHook(() => useGetCurrentUser());
     await waitFor(() => expect(result.current.isError).toBe(true));
 
     // ASSERT
-    expect(result.current.isSuccess).toBe(false);
-    expect(result.current.isError).toBe(true);
+    expect(result.current.error).toBeInstanceOf(SchemaDriftError);
+  });
+
+  it('should get impersonated user', async () => {
+    // ARRANGE
+    useAuthSpy.mockReturnValue({
+      isAuthenticated: true,
+      claims: parseClaims(createMockIdToken(1)),
+      impersonatedUser: { id: userFixture2.id, name: userFixture2.name, username: userFixture2.username },
+    });
+    const { result } = renderHook(() => useGetCurrentUser());
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+    // ASSERT
+    expect(result.current.data).toEqual(userFixture2);
+  });
+
+  it('should not get current user when not authenticated', async () => {
+    // ARRANGE
+    useAuthSpy.mockReturnValue({ isAuthenticated: false });
+    const { result } = renderHook(() => useGetCurrentUser());
+    await waitFor(() => expect(result.current).not.toBeNull());
+
+    // ASSERT
+    expect(result.current.isPending).toBe(true);
+    expect(result.current.fetchStatus).toBe('idle');
     expect(result.current.data).not.toBeDefined();
   });
 });
@@ -1,30 +1,76 @@
 import { useQuery } from '@tanstack/react-query';
+import { isAxiosError } from 'axios';
 
-import storage from 'common/utils/storage';
-import { User } from './useGetUser';
-import { QueryKey, StorageKey } from 'common/utils/constants';
+import { User } from 'common/api/generated/models';
+import { userSchema } from 'common/api/generated/schemas';
+import { useAuth } from 'common/hooks/useAuth';
+import { useApi } from 'common/hooks/useApi';
+import { QueryKey } from 'common/utils/constants';
+import { validateResponse } from 'common/utils/responseValidation';
 
 /**
- * An API hook which fetches the currently authenticated `User`.
- * @returns Returns a `UseQueryResult` with `User` data.
+ * The currently authenticated `User`. The identity attributes are always
+ * present; the remaining attributes are present when the profile is available.
+ * The `id` is absent when there is no profile and the subject is not numeric.
+ */
+export type CurrentUser = Pick<User, 'name' | 'username' | 'email'> & Partial<User>;
+
+/**
+ * An API hook which fetches the currently authenticated `User`. The user is
+ * derived from the id token claims and supplemented by the user profile, when
+ * available.
+ *
+ * While an administrator is viewing the application as another user, the
+ * impersonated user is returned.
+ * @returns Returns a `UseQueryResult` with `CurrentUser` data.
  */
 export const useGetCurrentUser = () => {
-  const getCurrentUser = (): Promise<User> => {
-    return new Promise((resolve, reject) => {
-      try {
-        const storedUser = storage.getJsonItem<User>(StorageKey.User);
-        if (storedUser) {
-          return resolve(storedUser);
-        }
-        return reject(new Error('Not found'));
-      } catch (err) {
-        return reject(err);
+  const api = useApi('identity');
+  const { claims, impersonatedUser } = useAuth();
+
+  /**
+   * Fetch the profile of the authenticated user. The claims are authoritative;
+   * when the user has no profile, i.e. it is not found, the user is derived
+   * from the claims alone. Any other failure fails the query.
+   * @returns The `CurrentUser` if successful.
+   */
+  const getCurrentUser = async (signal: AbortSignal): Promise<CurrentUser> => {
+    if (!claims) {
+      throw new Error('Not authenticated.');
+    }
+
+    let profile: User | undefined;
+    try {
+      const response = await api.request({
+        url: `/users/${impersonatedUser?.id ?? claims.sub}`,
+        signal,
+      });
+      profile = validateResponse(userSchema, response);
+    } catch (err) {
+      // the profile is optional
+      if (!(isAxiosError(err) && err.response?.status === 404)) {
+        throw err;
       }
-    });
+    }
+
+    if (impersonatedUser) {
+      return { ...profile, ...impersonatedUser, email: profile?.email ?? '' };
+    }
+
+    // the subject may be opaque, e.g. a UUID; the profile id is authoritative
+    const subjectId = Number(claims.sub);
+    return {
+      ...profile,
+      id: profile?.id ?? (Number.isFinite(subjectId) ? subjectId : undefined),
+      name: claims.name ?? profile?.name ?? '',
+      username: claims.preferred_username ?? profile?.username ?? claims.sub,
+      email: claims.email ?? profile?.email ?? '',
+    };
   };
 
   return useQuery({
-    queryKey: [QueryKey.Users, 'current'],
-    queryFn: getCurrentUser,
+    queryKey: [QueryKey.Users, 'current', claims?.sub, impersonatedUser?.id],
+    queryFn: ({ signal }) => getCurrentUser(signal),
+    enabled: !!claims,
   });
 };
@@ -0,0 +1,59 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { http, HttpResponse } from 'msw';
+import { renderHook, waitFor } from 'test/test-utils';
+
+import { server } from 'test/mocks/server';
+import { configFixture } from '__fixtures__/config';
+import * as UseConfig from 'common/hooks/useConfig';
+
+import { useGetFeatureFlags } from 'common/api/useGetFeatureFlags';
+
+describe('useGetFeatureFlags', () => {
+  const useConfigSpy = vi.spyOn(UseConfig, 'useConfig');
+  const url = 'https://flags.example.com/flags';
+
+  beforeEach(() => {
+    useConfigSpy.mockReturnValue({ ...configFixture, VITE_FEATURE_FLAGS_URL: url });
+  });
+
+  it('should get feature flags', async () => {
+    // ARRANGE
+    server.use(http.get(url, () => HttpResponse.json({ passkeys: false })));
+    const { result } = renderHook(() => useGetFeatureFlags());
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+    // ASSERT
+    expect(result.current.data).toEqual({ passkeys: false });
+  });
+
+  it('should not fetch when remote endpoint not configured', async () => {
+    // ARRANGE
+    useConfigSpy.mockReturnValue(configFixture);
+    const { result } = renderHook(() => useGetFeatureFlags());
+    await waitFor(() => expect(result.current).not.toBeNull());
+
+    // ASSERT
+    expect(result.current.isPending).toBe(true);
+    expect(result.current.fetchStatus).toBe('idle');
+  });
+
+  it('should return no values when response is not feature flag values', async () => {
+    // ARRANGE
+    server.use(http.get(url, () => HttpResponse.json({ passkeys: 'yes' })));
+    const { result } = renderHook(() => useGetFeatureFlags());
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+    // ASSERT
+    expect(result.current.data).toEqual({});
+  });
+
+  it('should return no values when request fails', async () => {
+    // ARRANGE
+    server.use(http.get(url, () => new HttpResponse(null, { status: 500 })));
+    const { result } = renderHook(() => useGetFeatureFlags());
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+    // ASSERT
+    expect(result.current.data).toEqual({});
+  });
+});
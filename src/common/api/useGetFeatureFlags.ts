@@ -0,0 +1,44 @@
+import { useQuery } from '@tanstack/react-query';
+
+import { useAxios } from 'common/hooks/useAxios';
+import { useConfig } from 'common/hooks/useConfig';
+import { QueryKey } from 'common/utils/constants';
+import { FeatureFlagValues, featureFlagValuesSchema } from 'common/utils/flags';
+
+/**
+ * An API hook which fetches feature flag values from the remote endpoint,
+ * `VITE_FEATURE_FLAGS_URL`. The query is disabled when no remote endpoint is
+ * configured.
+ *
+ * The remote values are optional; when the request fails, or the response is
+ * not feature flag values, there are no remote values and the remaining
+ * sources apply.
+ * @returns Returns a `UseQueryResult` with `FeatureFlagValues` data.
+ */
+export const useGetFeatureFlags = () => {
+  const axios = useAxios();
+  const config = useConfig();
+  const url = config.VITE_FEATURE_FLAGS_URL;
+
+  /**
+   * Fetch the remote feature flag values.
+   * @returns {Promise<FeatureFlagValues>} A Promise which resolves to the
+   * `FeatureFlagValues`.
+   */
+  const getFeatureFlags = async (signal: AbortSignal): Promise<FeatureFlagValues> => {
+    try {
+      const response = await axios.request({ url, signal });
+      return featureFlagValuesSchema.parse(response.data);
+    } catch {
+      // the remote feature flags are optional
+      return {};
+    }
+  };
+
+  return useQuery({
+    queryKey: [QueryKey.FeatureFlags],
+    queryFn: ({ signal }) => getFeatureFlags(signal),
+    enabled: !!url,
+    retry: 0,
+  });
+};
@@ -2,6 +2,7 @@ import { beforeEach, describe, expect, it, vi } from 'vitest';
 import dayjs from 'dayjs';
 
 import { renderHook, waitFor } from 'test/test-utils';
+import { createMockIdToken } from 'test/mocks/idp';
 import WithQueryClientProvider from 'test/wrappers/WithQueryClientProvider';
 import storage from 'common/utils/storage';
 import { userTokensFixture } from '__fixtures__/tokens';
@@ -14,7 +15,7 @@ describe('useGetTokens', () => {
   beforeEach(() => {
     const token: UserTokens = {
       ...userTokensFixture,
-      expires_at: dayjs().add(1, 'hours').toISOString(),
+      id_token: createMockIdToken(1, { exp: dayjs().add(1, 'hours').unix() }),
     };
     getItemSpy.mockReturnValue(token);
   });
@@ -28,14 +29,14 @@ describe('useGetTokens', () => {
     expect(result.current.isSuccess).toBe(true);
     expect(result.current.isError).toBe(false);
     expect(result.current.data).toBeDefined();
-    expect(result.current.data?.id_token).toBe('id-token');
+    expect(result.current.data?.id_token).toBeDefined();
   });
 
   it('should error if token is expired', async () => {
     // ARRANGE
     const token: UserTokens = {
       ...userTokensFixture,
-      expires_at: dayjs('2024-01-01').toISOString(),
+      id_token: createMockIdToken(1, { exp: dayjs('2024-01-01').unix() }),
     };
     getItemSpy.mockReturnValue(JSON.stringify(token));
     // use a specific wrapper to avoid test side effects from "AuthProvider"
@@ -46,6 +47,46 @@ describe('useGetTokens', () => {
     expect(result.current.error).toBeInstanceOf(Error);
   });
 
+  it('should notify if the refresh fails', async () => {
+    // ARRANGE
+    const onRefreshFailure = vi.fn();
+    getItemSpy.mockReturnValue({
+      ...userTokensFixture,
+      id_token: createMockIdToken(1, { exp: dayjs().unix() }),
+      refresh_token: 'revoked',
+    });
+    // use a specific wrapper to avoid test side effects from "AuthProvider"
+    const { result } = renderHook(() => useGetUserTokens(undefined, onRefreshFailure), {
+      wrapper: WithQueryClientProvider,
+    });
+    await waitFor(() => expect(result.current.isError).toBe(true));
+
+    // ASSERT
+    expect(onRefreshFailure).toHaveBeenCalledTimes(1);
+  });
+
+  it('should error if id token is invalid', async () => {
+    // ARRANGE
+    getItemSpy.mockReturnValue({ ...userTokensFixture, id_token: 'id-token' });
+    // use a specific wrapper to avoid test side effects from "AuthProvider"
+    const { result } = renderHook(() => useGetUserTokens(), { wrapper: WithQueryClientProvider });
+    await waitFor(() => expect(result.current.isError).toBe(true));
+
+    // ASSERT
+    expect(result.current.error).toEqual(new Error('The id token is invalid.'));
+  });
+
+  it('should error if tokens are invalid', async () => {
+    // ARRANGE
+    getItemSpy.mockReturnValue({ ...userTokensFixture, access_token: undefined });
+    // use a specific wrapper to avoid test side effects from "AuthProvider"
+    const { result } = renderHook(() => useGetUserTokens(), { wrapper: WithQueryClientProvider });
+    await waitFor(() => expect(result.current.isError).toBe(true), { timeout: 2000 });
+
+    // ASSERT
+    expect(result.current.error).toEqual(new Error('Tokens are invalid.'));
+  });
+
   it('should error if token is not found', async () => {
     // ARRANGE
     getItemSpy.mockReturnValue(null);
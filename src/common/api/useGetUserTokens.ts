@@ -1,53 +1,74 @@
-import { UseQueryOptions, UseQueryResult, useQuery } from '@tanstack/react-query';
-import dayjs from 'dayjs';
+import { UseQueryOptions, UseQueryResult, useQuery, useQueryClient } from '@tanstack/react-query';
+import { z } from 'zod';
 
+import { useConfig } from 'common/hooks/useConfig';
+import { parseClaims } from 'common/utils/claims';
 import { QueryKey, StorageKey } from 'common/utils/constants';
 import storage from 'common/utils/storage';
+import { TokenResponse, tokenResponseSchema } from 'common/utils/oidc';
+import tokenManager from 'common/utils/tokenManager';
 
 /**
  * A `UserTokens` object contains OAuth access, id, and refresh tokens
- * and related metadata.
+ * and related metadata. The tokens expire at the `exp` claim of the id token.
+ * @param provider_id - The identifier of the OIDC provider which issued the tokens.
  */
-export interface UserTokens {
-  access_token: string;
-  id_token: string;
-  refresh_token: string;
-  token_type: string;
-  expires_in: number;
-  expires_at: string;
+export interface UserTokens extends TokenResponse {
+  provider_id: string;
 }
 
 /**
- * An API hook which fetches OAuth tokens from the application IdP..
+ * Zod schema for the stored `UserTokens`.
+ */
+export const userTokensSchema = tokenResponseSchema.extend({
+  provider_id: z.string(),
+}) satisfies z.ZodType<UserTokens>;
+
+/**
+ * An API hook which fetches the OAuth tokens obtained from the application
+ * IdP. Tokens are persisted by the sign in callback after the authorization
+ * code is exchanged and are refreshed when they expire.
  * @param [options] - Optional. A UseQueryOptions object to supply additional
  * configuration to `useQuery`.
+ * @param [onRefreshFailure] - Optional. Called when a refresh of expired
+ * tokens fails, e.g. to sign out the user.
  * @returns {UserTokens} Returns a `UseQueryResult` with `UserTokens` data.
  */
-export const useGetUserTokens = (options?: Partial<UseQueryOptions<UserTokens>>): UseQueryResult<UserTokens, Error> => {
+export const useGetUserTokens = (
+  options?: Partial<UseQueryOptions<UserTokens>>,
+  onRefreshFailure?: (error: unknown) => void,
+): UseQueryResult<UserTokens, Error> => {
+  const queryClient = useQueryClient();
+  const config = useConfig();
+
   /**
-   * Fetch `UserTokens` from the Identity Provider (IdP).
+   * Fetch the stored `UserTokens` issued by the Identity Provider (IdP). The
+   * stored tokens and the id token claims are validated. When the tokens have
+   * expired, or are about to, they are refreshed.
    * @returns The `UserTokens` if successful.
    */
   const getUserTokens = async (): Promise<UserTokens> => {
-    // REPLACE: fetch tokens from your IdP
-    return new Promise((resolve, reject) => {
-      const storedTokens = storage.getJsonItem<UserTokens>(StorageKey.UserTokens);
-
-      if (storedTokens) {
-        // tokens found
-        const now = dayjs();
-        if (now.isBefore(storedTokens.expires_at)) {
-          // tokens not expired
-          return resolve(storedTokens);
-        } else {
-          // tokens expired
-          return reject(new Error('Tokens expired.'));
-        }
-      }
+    const storedTokens = storage.getJsonItem<UserTokens>(StorageKey.UserTokens);
 
+    if (!storedTokens) {
       // tokens not found
-      return reject(new Error('Tokens not found.'));
-    });
+      throw new Error('Tokens not found.');
+    }
+
+    if (!userTokensSchema.safeParse(storedTokens).success) {
+      // tokens stored by an earlier version, or tampered with
+      throw new Error('Tokens are invalid.');
+    }
+
+    // throws when the id token claims are invalid
+    parseClaims(storedTokens.id_token);
+
+    if (tokenManager.isRefreshDue(storedTokens)) {
+      // tokens expired or expiring
+      return tokenManager.refresh(queryClient, config.VITE_OIDC_PROVIDERS, onRefreshFailure);
+    }
+
+    return storedTokens;
   };
 
   return useQuery({
@@ -1,7 +1,10 @@
 import { describe, expect, it } from 'vitest';
+import { AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
 
 import { render, screen } from 'test/test-utils';
 
+import { ApiError } from 'common/utils/apiError';
+
 import ErrorAlert from './ErrorAlert';
 
 describe('ErrorAlert', () => {
@@ -61,4 +64,56 @@ describe('ErrorAlert', () => {
     // ASSERT
     expect(screen.queryByTestId('alert-error-title')).toBeNull();
   });
+
+  it('should render message for error', async () => {
+    // ARRANGE
+    render(<ErrorAlert error={new Error('Oops')} />);
+    await screen.findByTestId('alert-error-description');
+
+    // ASSERT
+    expect(screen.getByTestId('alert-error-description')).toHaveTextContent(/problems processing your request. Oops/);
+  });
+
+  it('should render field errors for ApiError', async () => {
+    // ARRANGE
+    const error = new ApiError(
+      new AxiosError('Request failed with status code 422', AxiosError.ERR_BAD_REQUEST, undefined, undefined, {
+        status: 422,
+        headers: { 'content-type': 'application/problem+json' },
+        data: { title: 'Validation failed', errors: { title: ['Required.'] } },
+      } as unknown as AxiosResponse),
+    );
+    render(<ErrorAlert error={error} />);
+    await screen.findByTestId('alert-error-fields');
+
+    // ASSERT
+    expect(screen.getByTestId('alert-error-description')).toHaveTextContent(/values are not valid/);
+    expect(screen.getByTestId('alert-error-field-title')).toHaveTextContent('title: Required.');
+  });
+
+  it('should render the request identifier of a failed request', async () => {
+    // ARRANGE
+    const error = new ApiError(
+      new AxiosError('Network Error', AxiosError.ERR_NETWORK, {
+        method: 'get',
+        url: 'https://api.example.com/items',
+        requestId: 'request-id',
+      } as InternalAxiosRequestConfig),
+    );
+    render(<ErrorAlert error={error} />);
+    await screen.findByTestId('alert-error-details');
+
+    // ASSERT
+    expect(screen.getByTestId('alert-error-details-request-id')).toHaveTextContent('request-id');
+    expect(screen.getByTestId('alert-error-details-button-copy')).toBeDefined();
+  });
+
+  it('should not render details without a failed request', async () => {
+    // ARRANGE
+    render(<ErrorAlert error={new Error('Oops')} />);
+    await screen.findByTestId('alert-error');
+
+    // ASSERT
+    expect(screen.queryByTestId('alert-error-details')).toBeNull();
+  });
 });
@@ -1,27 +1,53 @@
+import { useTranslation } from 'react-i18next';
 import { AlertCircleIcon } from 'lucide-react';
 
 import { cn } from 'common/utils/css';
+import { ApiError, getErrorMessage } from 'common/utils/apiError';
+import { getRequestId } from 'common/utils/tracing';
 import { Alert, AlertDescription, AlertTitle } from '../shadcn/alert';
 import { BaseComponentProps } from 'common/utils/types';
+import ErrorDetails from '../Errors/ErrorDetails';
 
 /**
  * Properties for the `ErrorAlert` component.
+ * @param {string} [title] - Optional. The title.
+ * @param {string} [description] - Optional. The description. Default: a
+ * message which describes the `error`.
+ * @param {unknown} [error] - Optional. The error. The field errors of an
+ * `ApiError` are listed. When a request failed, its correlation identifier is
+ * shown with a button which copies the error details.
  */
 export interface ErrorAlertProps extends BaseComponentProps {
   title?: string;
-  description: string;
+  description?: string;
+  error?: unknown;
 }
 
 /**
  * The `ErrorAlert` component renders a bespoke `Alert` layout for error
  * messages.
  */
-const ErrorAlert = ({ className, description, testId = 'alert-error', title, ...props }: ErrorAlertProps) => {
+const ErrorAlert = ({ className, description, error, testId = 'alert-error', title, ...props }: ErrorAlertProps) => {
+  const { t } = useTranslation();
+  const fieldErrors = error instanceof ApiError ? Object.entries(error.errors) : [];
+
   return (
     <Alert variant="destructive" className={cn(className)} data-testid={testId} {...props}>
       <AlertCircleIcon />
       {title && <AlertTitle data-testid={`${testId}-title`}>{title}</AlertTitle>}
-      <AlertDescription data-testid={`${testId}-description`}>{description}</AlertDescription>
+      <AlertDescription data-testid={`${testId}-description`}>
+        {description ?? getErrorMessage(error, t)}
+        {fieldErrors.length > 0 && (
+          <ul className="list-inside list-disc" aria-label={t('errors.api.fields')} data-testid={`${testId}-fields`}>
+            {fieldErrors.map(([field, messages]) => (
+              <li key={field} data-testid={`${testId}-field-${field}`}>
+                <span className="font-bold">{field}</span>: {messages.join(' ')}
+              </li>
+            ))}
+          </ul>
+        )}
+        {getRequestId(error) && <ErrorDetails error={error} className="mt-2" testId={`${testId}-details`} />}
+      </AlertDescription>
     </Alert>
   );
 };
@@ -0,0 +1,60 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { render, screen } from 'test/test-utils';
+import * as UsePermission from 'common/hooks/usePermission';
+import { Permission } from 'common/utils/constants';
+
+import Can from './Can';
+
+describe('Can', () => {
+  const usePermissionSpy = vi.spyOn(UsePermission, 'usePermission');
+
+  beforeEach(() => {
+    usePermissionSpy.mockReturnValue(true);
+  });
+
+  it('should render children when permitted', async () => {
+    // ARRANGE
+    render(
+      <Can permission={Permission.TasksRead}>
+        <div data-testid="permitted"></div>
+      </Can>,
+    );
+    await screen.findByTestId('permitted');
+
+    // ASSERT
+    expect(screen.getByTestId('permitted')).toBeDefined();
+    expect(usePermissionSpy).toHaveBeenCalledWith(Permission.TasksRead);
+  });
+
+  it('should not render children when not permitted', async () => {
+    // ARRANGE
+    usePermissionSpy.mockReturnValue(false);
+    render(
+      <div data-testid="container">
+        <Can permission={Permission.TasksRead}>
+          <div data-testid="permitted"></div>
+        </Can>
+      </div>,
+    );
+    await screen.findByTestId('container');
+
+    // ASSERT
+    expect(screen.queryByTestId('permitted')).toBeNull();
+  });
+
+  it('should render fallback when not permitted', async () => {
+    // ARRANGE
+    usePermissionSpy.mockReturnValue(false);
+    render(
+      <Can permission={Permission.TasksRead} fallback={<div data-testid="fallback"></div>}>
+        <div data-testid="permitted"></div>
+      </Can>,
+    );
+    await screen.findByTestId('fallback');
+
+    // ASSERT
+    expect(screen.getByTestId('fallback')).toBeDefined();
+    expect(screen.queryByTestId('permitted')).toBeNull();
+  });
+});
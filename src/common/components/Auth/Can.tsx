@@ -0,0 +1,36 @@
+import { PropsWithChildren, ReactNode } from 'react';
+
+import { usePermission } from 'common/hooks/usePermission';
+import { Permission } from 'common/utils/constants';
+
+/**
+ * Properties for the `Can` component.
+ * @param {Permission | Permission[]} permission - A `Permission` or an array
+ * of permissions which are all required.
+ * @param {ReactNode} [fallback] - Optional. Rendered when the user does not
+ * hold the permission(s). Default: nothing.
+ */
+export interface CanProps extends PropsWithChildren {
+  permission: Permission | Permission[];
+  fallback?: ReactNode;
+}
+
+/**
+ * The `Can` component renders its children only when the authenticated user
+ * holds the supplied permission(s).
+ *
+ * Example:
+ * ```
+ * <Can permission={Permission.TasksDelete}>
+ *   <TaskDeleteDialog task={task} />
+ * </Can>
+ * ```
+ * @param {CanProps} props - Component properties.
+ */
+const Can = ({ children, fallback = null, permission }: CanProps) => {
+  const isPermitted = usePermission(permission);
+
+  return <>{isPermitted ? children : fallback}</>;
+};
+
+export default Can;
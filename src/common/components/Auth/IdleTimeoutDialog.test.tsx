@@ -0,0 +1,88 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import userEvent from '@testing-library/user-event';
+
+import { render, screen, waitFor } from 'test/test-utils';
+import * as UseIdleTimeout from 'common/hooks/useIdleTimeout';
+import { StorageKey } from 'common/utils/constants';
+import storage from 'common/utils/storage';
+
+import IdleTimeoutDialog from './IdleTimeoutDialog';
+
+describe('IdleTimeoutDialog', () => {
+  const useIdleTimeoutSpy = vi.spyOn(UseIdleTimeout, 'useIdleTimeout');
+  const stayActive = vi.fn();
+
+  beforeEach(() => {
+    useIdleTimeoutSpy.mockReturnValue({ isWarning: true, remainingSeconds: 42, stayActive });
+  });
+
+  it('should render successfully', async () => {
+    // ARRANGE
+    render(<IdleTimeoutDialog isEnabled />);
+    await screen.findByTestId('dialog-idle-timeout');
+
+    // ASSERT
+    expect(screen.getByTestId('dialog-idle-timeout')).toBeDefined();
+  });
+
+  it('should use custom testId', async () => {
+    // ARRANGE
+    render(<IdleTimeoutDialog isEnabled testId="custom-testId" />);
+    await screen.findByTestId('custom-testId');
+
+    // ASSERT
+    expect(screen.getByTestId('custom-testId')).toBeDefined();
+  });
+
+  it('should display countdown while warning', async () => {
+    // ARRANGE
+    render(<IdleTimeoutDialog isEnabled />);
+    await screen.findByTestId('dialog-idle-timeout');
+
+    // ASSERT
+    expect(screen.getByTestId('dialog-idle-timeout-content')).not.toHaveClass('hidden');
+    expect(screen.getByTestId('dialog-idle-timeout-countdown')).toHaveTextContent('42');
+  });
+
+  it('should not render when not warning', async () => {
+    // ARRANGE
+    useIdleTimeoutSpy.mockReturnValue({ isWarning: false, remainingSeconds: 1800, stayActive });
+    render(
+      <div data-testid="container">
+        <IdleTimeoutDialog isEnabled />
+      </div>,
+    );
+    await screen.findByTestId('container');
+
+    // ASSERT
+    expect(screen.queryByTestId('dialog-idle-timeout')).toBeNull();
+  });
+
+  it('should stay signed in', async () => {
+    // ARRANGE
+    const user = userEvent.setup();
+    render(<IdleTimeoutDialog isEnabled />);
+    await screen.findByTestId('dialog-idle-timeout-button-stay');
+
+    // ACT
+    await user.click(screen.getByTestId('dialog-idle-timeout-button-stay'));
+
+    // ASSERT
+    expect(stayActive).toHaveBeenCalled();
+  });
+
+  it('should sign out', async () => {
+    // ARRANGE
+    const user = userEvent.setup();
+    const removeItemSpy = vi.spyOn(storage, 'removeItem');
+    render(<IdleTimeoutDialog isEnabled />);
+    await screen.findByTestId('dialog-idle-timeout-button-signout');
+
+    // ACT
+    await user.click(screen.getByTestId('dialog-idle-timeout-button-signout'));
+    await waitFor(() => expect(removeItemSpy).toHaveBeenCalledWith(StorageKey.UserTokens));
+
+    // ASSERT
+    expect(removeItemSpy).toHaveBeenCalledWith(StorageKey.UserTokens);
+  });
+});
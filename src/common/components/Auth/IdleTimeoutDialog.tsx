@@ -0,0 +1,73 @@
+import { useCallback } from 'react';
+
+import { PropsWithTestId } from 'common/utils/types';
+import { useConfig } from 'common/hooks/useConfig';
+import { useIdleTimeout } from 'common/hooks/useIdleTimeout';
+import { useSignout } from 'pages/Auth/Signout/api/useSignout';
+import Dialog from 'common/components/Dialog/Dialog';
+
+/**
+ * The number of milliseconds before the idle timeout when the warning is shown.
+ */
+export const IDLE_WARNING_MILLIS = 60000;
+
+/**
+ * Properties for the `IdleTimeoutDialog` component.
+ * @param {boolean} isEnabled - Indicates if activity is tracked, i.e. while
+ * the user is authenticated.
+ * @see {@link PropsWithTestId}
+ */
+interface IdleTimeoutDialogProps extends PropsWithTestId {
+  isEnabled: boolean;
+}
+
+/**
+ * The `IdleTimeoutDialog` signs out the user after a period of inactivity, the
+ * `VITE_IDLE_TIMEOUT_MILLIS` configuration value. Shortly before, a dialog
+ * counts down the remaining seconds and allows the user to stay signed in.
+ * @param {IdleTimeoutDialogProps} props - Component properties.
+ */
+const IdleTimeoutDialog = ({ isEnabled, testId = 'dialog-idle-timeout' }: IdleTimeoutDialogProps) => {
+  const config = useConfig();
+  const { mutate: signout } = useSignout();
+
+  const onTimeout = useCallback(() => signout(), [signout]);
+
+  const { isWarning, remainingSeconds, stayActive } = useIdleTimeout({
+    isEnabled: isEnabled && config.VITE_IDLE_TIMEOUT_MILLIS > 0,
+    timeoutMillis: config.VITE_IDLE_TIMEOUT_MILLIS,
+    warningMillis: Math.min(IDLE_WARNING_MILLIS, config.VITE_IDLE_TIMEOUT_MILLIS),
+    onTimeout,
+  });
+
+  if (!isWarning) {
+    return null;
+  }
+
+  return (
+    <Dialog isOpen={isWarning} onClose={stayActive} testId={testId}>
+      <Dialog.Content testId={`${testId}-content`}>
+        <Dialog.Header>
+          <Dialog.Title>Are you still there?</Dialog.Title>
+          <Dialog.Subtitle>For your security, inactive sessions are signed out.</Dialog.Subtitle>
+        </Dialog.Header>
+        <Dialog.Body>
+          You will be signed out in <span data-testid={`${testId}-countdown`}>{remainingSeconds}</span> seconds.
+        </Dialog.Body>
+        <Dialog.Separator />
+        <Dialog.Footer>
+          <Dialog.ButtonBar>
+            <Dialog.Button onClick={() => signout()} testId={`${testId}-button-signout`}>
+              Sign out
+            </Dialog.Button>
+            <Dialog.Button variant="primary" onClick={stayActive} testId={`${testId}-button-stay`}>
+              Stay signed in
+            </Dialog.Button>
+          </Dialog.ButtonBar>
+        </Dialog.Footer>
+      </Dialog.Content>
+    </Dialog>
+  );
+};
+
+export default IdleTimeoutDialog;
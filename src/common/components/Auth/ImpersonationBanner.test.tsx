@@ -0,0 +1,54 @@
+import { describe, expect, it, vi } from 'vitest';
+import userEvent from '@testing-library/user-event';
+
+import { render, screen } from 'test/test-utils';
+import * as UseAuth from 'common/hooks/useAuth';
+
+import ImpersonationBanner from './ImpersonationBanner';
+
+describe('ImpersonationBanner', () => {
+  const useAuthSpy = vi.spyOn(UseAuth, 'useAuth');
+  const stopImpersonationMock = vi.fn();
+
+  it('should render successfully', async () => {
+    // ARRANGE
+    useAuthSpy.mockReturnValue({
+      isAuthenticated: true,
+      impersonatedUser: { id: 2, name: 'Ervin Howell', username: 'Antonette' },
+      stopImpersonation: stopImpersonationMock,
+    });
+    render(<ImpersonationBanner />);
+    await screen.findByTestId('banner-impersonation');
+
+    // ASSERT
+    expect(screen.getByTestId('banner-impersonation')).toBeDefined();
+    expect(screen.getByTestId('banner-impersonation-user')).toHaveTextContent('Ervin Howell (Antonette)');
+  });
+
+  it('should not render when not impersonating', async () => {
+    // ARRANGE
+    useAuthSpy.mockReturnValue({ isAuthenticated: true });
+    render(<ImpersonationBanner />);
+
+    // ASSERT
+    expect(screen.queryByTestId('banner-impersonation')).toBeNull();
+  });
+
+  it('should stop impersonating on exit', async () => {
+    // ARRANGE
+    const user = userEvent.setup();
+    useAuthSpy.mockReturnValue({
+      isAuthenticated: true,
+      impersonatedUser: { id: 2, name: 'Ervin Howell', username: 'Antonette' },
+      stopImpersonation: stopImpersonationMock,
+    });
+    render(<ImpersonationBanner />);
+    await screen.findByTestId('banner-impersonation');
+
+    // ACT
+    await user.click(screen.getByTestId('banner-impersonation-button-exit'));
+
+    // ASSERT
+    expect(stopImpersonationMock).toHaveBeenCalledTimes(1);
+  });
+});
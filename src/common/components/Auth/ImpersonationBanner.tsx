@@ -0,0 +1,60 @@
+import { cn } from 'common/utils/css';
+import { BaseComponentProps } from 'common/utils/types';
+import { useAuth } from 'common/hooks/useAuth';
+import Button from 'common/components/Button/Button';
+import FAIcon from 'common/components/Icon/FAIcon';
+
+/**
+ * Properties for the `ImpersonationBanner` component.
+ * @see {@link BaseComponentProps}
+ */
+interface ImpersonationBannerProps extends BaseComponentProps {}
+
+/**
+ * The `ImpersonationBanner` component renders a banner while an administrator
+ * is viewing the application as another user. The banner identifies the user
+ * and allows the administrator to exit, returning to their own identity.
+ *
+ * Renders nothing when not impersonating.
+ * @param {ImpersonationBannerProps} props - Component properties.
+ */
+const ImpersonationBanner = ({ className, testId = 'banner-impersonation' }: ImpersonationBannerProps) => {
+  const { impersonatedUser, stopImpersonation } = useAuth();
+
+  if (!impersonatedUser) {
+    return null;
+  }
+
+  return (
+    <div
+      className={cn(
+        'sticky top-0 z-50 flex flex-wrap items-center justify-center gap-x-4 gap-y-2 bg-amber-400 px-4 py-2 text-sm text-neutral-950',
+        className,
+      )}
+      role="status"
+      data-testid={testId}
+    >
+      <div className="flex items-center gap-2">
+        <FAIcon icon="users" />
+        <span>
+          Viewing as{' '}
+          <span className="font-bold" data-testid={`${testId}-user`}>
+            {impersonatedUser.name} ({impersonatedUser.username})
+          </span>
+          . Changes are disabled.
+        </span>
+      </div>
+      <Button
+        variant="outline"
+        size="sm"
+        className="border-neutral-950 text-neutral-950"
+        onClick={() => stopImpersonation?.()}
+        testId={`${testId}-button-exit`}
+      >
+        Exit
+      </Button>
+    </div>
+  );
+};
+
+export default ImpersonationBanner;
@@ -1,5 +1,5 @@
 import userEvent from '@testing-library/user-event';
-import { describe, expect, it } from 'vitest';
+import { describe, expect, it, vi } from 'vitest';
 
 import { render, screen, waitFor } from 'test/test-utils';
 
@@ -237,4 +237,50 @@ describe('Dialog', () => {
     // ASSERT
     expect(screen.getByTestId('dialog-content')).not.toHaveClass('hidden');
   });
+
+  it('should be controlled by isOpen', async () => {
+    // ARRANGE
+    const { rerender } = render(
+      <Dialog isOpen={false}>
+        <Dialog.Content>
+          <Dialog.Body>Body</Dialog.Body>
+        </Dialog.Content>
+      </Dialog>,
+    );
+    await screen.findByTestId('dialog-content');
+    expect(screen.getByTestId('dialog-content')).toHaveClass('hidden');
+
+    // ACT
+    rerender(
+      <Dialog isOpen={true}>
+        <Dialog.Content>
+          <Dialog.Body>Body</Dialog.Body>
+        </Dialog.Content>
+      </Dialog>,
+    );
+
+    // ASSERT
+    expect(screen.getByTestId('dialog-content')).not.toHaveClass('hidden');
+  });
+
+  it('should call onClose when controlled dialog backdrop clicked', async () => {
+    // ARRANGE
+    const user = userEvent.setup();
+    const onClose = vi.fn();
+    render(
+      <Dialog isOpen={true} onClose={onClose}>
+        <Dialog.Content>
+          <Dialog.Body>Body</Dialog.Body>
+        </Dialog.Content>
+      </Dialog>,
+    );
+    await screen.findByTestId('dialog-content-backdrop');
+
+    // ACT
+    await user.click(screen.getByTestId('dialog-content-backdrop'));
+
+    // ASSERT
+    expect(onClose).toHaveBeenCalledTimes(1);
+    expect(screen.getByTestId('dialog-content')).not.toHaveClass('hidden');
+  });
 });
@@ -37,8 +37,18 @@ type DialogRenderFnContext = {
  */
 type DialogRenderFn = (ctx: DialogRenderFnContext) => ReactNode;
 
+/**
+ * Properties for the `Dialog` component.
+ * @param [children] - Optional. Dialog children or a render prop function.
+ * @param [isOpen] - Optional. When supplied, the dialog is controlled and is
+ * shown while `true`. Otherwise, the dialog is opened by its `Trigger`.
+ * @param [onClose] - Optional. Called when a controlled dialog is closed, e.g.
+ * by clicking the backdrop.
+ */
 export interface DialogProps extends BaseComponentProps {
   children?: ReactNode | DialogRenderFn;
+  isOpen?: boolean;
+  onClose?: () => void;
 }
 
 /**
@@ -49,6 +59,9 @@ export interface DialogProps extends BaseComponentProps {
  * function. The render prop function provides access to the Dialog context
  * attributes.
  * 
+ * A Dialog is typically opened by its `Trigger`. Alternatively, supply
+ * `isOpen` and `onClose` to control the Dialog from the parent component.
+ * 
  * **Example:**
  * ```
   <Dialog>
@@ -78,8 +91,18 @@ export interface DialogProps extends BaseComponentProps {
   </Dialog>
  * ```
  */
-const Dialog = ({ children, className, testId = 'dialog' }: DialogProps) => {
-  const [isHidden, setIsHidden] = useState(true);
+const Dialog = ({ children, className, isOpen, onClose, testId = 'dialog' }: DialogProps) => {
+  const [isUncontrolledHidden, setIsUncontrolledHidden] = useState(true);
+  const isControlled = isOpen !== undefined;
+  const isHidden = isControlled ? !isOpen : isUncontrolledHidden;
+
+  const setIsHidden = (isHidden: boolean) => {
+    if (isControlled) {
+      if (isHidden) onClose?.();
+    } else {
+      setIsUncontrolledHidden(isHidden);
+    }
+  };
 
   const close = () => {
     setIsHidden(true);
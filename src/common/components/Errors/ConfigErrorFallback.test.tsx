@@ -0,0 +1,16 @@
+import { describe, expect, it } from 'vitest';
+import { render, screen } from 'test/test-utils';
+
+import ConfigErrorFallback from './ConfigErrorFallback';
+
+describe('ConfigErrorFallback', () => {
+  it('should render successfully', async () => {
+    // ARRANGE
+    render(<ConfigErrorFallback error={new Error('Invalid configuration.')} />);
+    await screen.findByTestId('error-fallback-config');
+
+    // ASSERT
+    expect(screen.getByTestId('error-fallback-config')).toBeDefined();
+    expect(screen.getByTestId('error-fallback-config-details')).toHaveTextContent('Invalid configuration.');
+  });
+});
@@ -0,0 +1,44 @@
+import { PropsWithTestId } from 'common/utils/types';
+
+/**
+ * Properties for the `ConfigErrorFallback` component.
+ * @param {Error} error - The configuration error.
+ * @see {@link PropsWithTestId}
+ */
+interface ConfigErrorFallbackProps extends PropsWithTestId {
+  error: Error;
+}
+
+/**
+ * The `ConfigErrorFallback` component renders the content displayed when the
+ * application configuration cannot be loaded or is invalid. The validation
+ * details are available to those diagnosing the deployment.
+ * @param {ConfigErrorFallbackProps} props - Component properties.
+ * @see {@link ConfigContextProvider}
+ */
+const ConfigErrorFallback = ({ error, testId = 'error-fallback-config' }: ConfigErrorFallbackProps) => {
+  return (
+    <div data-testid={testId} className="px-8">
+      <div className="container mx-auto min-h-[50vh]">
+        <h1 className="mb-4 pt-32 text-4xl md:mb-8 md:text-8xl">Whoops!</h1>
+
+        <div className="mb-4 opacity-60 md:text-2xl">
+          The application is not configured correctly, so it cannot start. Please{' '}
+          <a href="/" title="Try again" className="text-blue-500 hover:underline">
+            try again
+          </a>{' '}
+          later.
+        </div>
+
+        <details className="text-sm opacity-60">
+          <summary className="cursor-pointer">Details</summary>
+          <pre className="mt-2 font-mono whitespace-pre-wrap" data-testid={`${testId}-details`}>
+            {error.message}
+          </pre>
+        </details>
+      </div>
+    </div>
+  );
+};
+
+export default ConfigErrorFallback;
@@ -46,4 +46,21 @@ describe('ErrorBoundary', () => {
     // ASSERT
     expect(screen.getByTestId('error-fallback')).toBeDefined();
   });
+
+  it('should render fallback function with error', async () => {
+    // ARRANGE
+    vi.spyOn(console, 'error').mockImplementation(() => null);
+    const TestError = () => {
+      throw new Error('test error');
+    };
+    render(
+      <ErrorBoundary fallback={(error) => <div data-testid="error-fallback">{(error as Error).message}</div>}>
+        <TestError />
+      </ErrorBoundary>,
+    );
+    await screen.findByTestId('error-fallback');
+
+    // ASSERT
+    expect(screen.getByTestId('error-fallback')).toHaveTextContent('test error');
+  });
 });
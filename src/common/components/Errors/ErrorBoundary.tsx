@@ -2,10 +2,12 @@ import React, { PropsWithChildren, ReactNode } from 'react';
 
 /**
  * Properties for the `ErrorBoundary` component.
+ * @param {ReactNode | function} fallback - The content rendered when an error
+ * is caught, or a function which renders the content for the error.
  * @see {@link PropsWithChildren}
  */
 export interface ErrorBoundaryProps extends PropsWithChildren {
-  fallback: ReactNode;
+  fallback: ReactNode | ((error: unknown) => ReactNode);
 }
 
 /**
@@ -35,7 +37,8 @@ class ErrorBoundary extends React.Component<ErrorBoundaryProps, ErrorBoundarySta
 
   render() {
     if (this.state.hasError) {
-      return this.props.fallback;
+      const { fallback } = this.props;
+      return typeof fallback === 'function' ? fallback(this.state.error) : fallback;
     }
 
     return this.props.children;
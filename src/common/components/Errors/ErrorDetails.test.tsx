@@ -0,0 +1,65 @@
+import { describe, expect, it, vi } from 'vitest';
+import { AxiosError, InternalAxiosRequestConfig } from 'axios';
+import userEvent from '@testing-library/user-event';
+
+import { render, screen } from 'test/test-utils';
+
+import ErrorDetails from './ErrorDetails';
+
+describe('ErrorDetails', () => {
+  const error = new AxiosError('Network Error', AxiosError.ERR_NETWORK, {
+    method: 'get',
+    url: 'https://api.example.com/items',
+    requestId: 'request-id',
+  } as InternalAxiosRequestConfig);
+
+  it('should render successfully', async () => {
+    // ARRANGE
+    render(<ErrorDetails />);
+    await screen.findByTestId('error-details');
+
+    // ASSERT
+    expect(screen.getByTestId('error-details')).toBeDefined();
+    expect(screen.queryByTestId('error-details-request-id')).toBeNull();
+  });
+
+  it('should render the request identifier', async () => {
+    // ARRANGE
+    render(<ErrorDetails error={error} />);
+    await screen.findByTestId('error-details-request-id');
+
+    // ASSERT
+    expect(screen.getByTestId('error-details-request-id')).toHaveTextContent('Request ID: request-id');
+  });
+
+  it('should copy the error details', async () => {
+    // ARRANGE
+    const user = userEvent.setup();
+    render(<ErrorDetails error={error} />);
+    await screen.findByTestId('error-details-button-copy');
+
+    // ACT
+    await user.click(screen.getByTestId('error-details-button-copy'));
+
+    // ASSERT
+    expect(screen.getByTestId('error-details-button-copy')).toHaveTextContent('Copied');
+    const text = await navigator.clipboard.readText();
+    expect(text).toContain('Request ID: request-id');
+    expect(text).toContain('Error: Network Error');
+  });
+
+  it('should remain usable when the clipboard is not available', async () => {
+    // ARRANGE
+    const user = userEvent.setup();
+    vi.spyOn(navigator.clipboard, 'writeText').mockRejectedValue(new Error('denied'));
+    render(<ErrorDetails error={error} />);
+    await screen.findByTestId('error-details-button-copy');
+
+    // ACT
+    await user.click(screen.getByTestId('error-details-button-copy'));
+
+    // ASSERT
+    expect(screen.getByTestId('error-details-button-copy')).toHaveTextContent('Copy details');
+    expect(screen.getByTestId('error-details-request-id')).toBeDefined();
+  });
+});
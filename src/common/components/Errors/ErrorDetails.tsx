@@ -0,0 +1,52 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+
+import { cn } from 'common/utils/css';
+import { getErrorDetails, getRequestId } from 'common/utils/tracing';
+import { BaseComponentProps } from 'common/utils/types';
+import Button from '../Button/Button';
+
+/**
+ * Properties for the `ErrorDetails` component.
+ * @param {unknown} [error] - Optional. The error.
+ * @see {@link BaseComponentProps}
+ */
+interface ErrorDetailsProps extends BaseComponentProps {
+  error?: unknown;
+}
+
+/**
+ * The `ErrorDetails` component renders the correlation identifier of a failed
+ * request and a button which copies the details of the error, so that they
+ * may be included in a support ticket.
+ * @param {ErrorDetailsProps} props - Component properties.
+ */
+const ErrorDetails = ({ className, error, testId = 'error-details' }: ErrorDetailsProps) => {
+  const [isCopied, setIsCopied] = useState(false);
+  const { t } = useTranslation();
+  const requestId = getRequestId(error);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(getErrorDetails(error));
+      setIsCopied(true);
+    } catch {
+      // the clipboard is not available; the request identifier remains visible
+    }
+  };
+
+  return (
+    <div className={cn('flex flex-wrap items-center gap-2 text-sm', className)} data-testid={testId}>
+      {requestId && (
+        <span data-testid={`${testId}-request-id`}>
+          {t('errors.request-id')}: <span className="font-mono select-all">{requestId}</span>
+        </span>
+      )}
+      <Button variant="outline" size="sm" onClick={handleCopy} testId={`${testId}-button-copy`}>
+        {isCopied ? t('errors.details-copied') : t('errors.copy-details')}
+      </Button>
+    </div>
+  );
+};
+
+export default ErrorDetails;
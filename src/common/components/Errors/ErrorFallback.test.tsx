@@ -1,4 +1,6 @@
 import { describe, expect, it } from 'vitest';
+import { AxiosError, InternalAxiosRequestConfig } from 'axios';
+
 import { render, screen } from 'test/test-utils';
 
 import ErrorFallback from './ErrorFallback';
@@ -12,4 +14,17 @@ describe('ErrorFallback', () => {
     // ASSERT
     expect(screen.getByTestId('error-fallback')).toBeDefined();
   });
+
+  it('should render the request identifier of a failed request', async () => {
+    // ARRANGE
+    const error = new AxiosError('Network Error', AxiosError.ERR_NETWORK, {
+      requestId: 'request-id',
+    } as InternalAxiosRequestConfig);
+    render(<ErrorFallback error={error} />);
+    await screen.findByTestId('error-fallback-details');
+
+    // ASSERT
+    expect(screen.getByTestId('error-fallback-details-request-id')).toHaveTextContent('request-id');
+    expect(screen.getByTestId('error-fallback-details-button-copy')).toBeDefined();
+  });
 });
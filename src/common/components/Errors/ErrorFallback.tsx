@@ -1,9 +1,21 @@
+import ErrorDetails from './ErrorDetails';
+
+/**
+ * Properties for the `ErrorFallback` component.
+ * @param {unknown} [error] - Optional. The error caught by the `ErrorBoundary`.
+ */
+interface ErrorFallbackProps {
+  error?: unknown;
+}
+
 /**
  * The `ErrorFallback` component renders the content displayed when the `ErrorBoundary`
- * catches an Error thrown from another React component.
+ * catches an Error thrown from another React component. The error details may
+ * be copied for a support ticket.
+ * @param {ErrorFallbackProps} props - Component properties.
  * @see {@link ErrorBoundary}
  */
-const ErrorFallback = () => {
+const ErrorFallback = ({ error }: ErrorFallbackProps) => {
   return (
     <div data-testid="error-fallback" className="px-8">
       <div className="container mx-auto min-h-[50vh]">
@@ -16,6 +28,8 @@ const ErrorFallback = () => {
           </a>
           .
         </div>
+
+        <ErrorDetails error={error} className="opacity-60" testId="error-fallback-details" />
       </div>
     </div>
   );
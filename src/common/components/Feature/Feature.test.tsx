@@ -0,0 +1,59 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { render, screen } from 'test/test-utils';
+import * as UseFeatureFlag from 'common/hooks/useFeatureFlag';
+
+import Feature from './Feature';
+
+describe('Feature', () => {
+  const useFeatureFlagSpy = vi.spyOn(UseFeatureFlag, 'useFeatureFlag');
+
+  beforeEach(() => {
+    useFeatureFlagSpy.mockReturnValue(true);
+  });
+
+  it('should render children when enabled', async () => {
+    // ARRANGE
+    render(
+      <Feature flag="passkeys">
+        <div data-testid="enabled"></div>
+      </Feature>,
+    );
+    await screen.findByTestId('enabled');
+
+    // ASSERT
+    expect(screen.getByTestId('enabled')).toBeDefined();
+    expect(useFeatureFlagSpy).toHaveBeenCalledWith('passkeys');
+  });
+
+  it('should not render children when not enabled', async () => {
+    // ARRANGE
+    useFeatureFlagSpy.mockReturnValue(false);
+    render(
+      <div data-testid="container">
+        <Feature flag="passkeys">
+          <div data-testid="enabled"></div>
+        </Feature>
+      </div>,
+    );
+    await screen.findByTestId('container');
+
+    // ASSERT
+    expect(screen.queryByTestId('enabled')).toBeNull();
+  });
+
+  it('should render fallback when not enabled', async () => {
+    // ARRANGE
+    useFeatureFlagSpy.mockReturnValue(false);
+    render(
+      <Feature flag="passkeys" fallback={<div data-testid="fallback"></div>}>
+        <div data-testid="enabled"></div>
+      </Feature>,
+    );
+    await screen.findByTestId('fallback');
+
+    // ASSERT
+    expect(screen.getByTestId('fallback')).toBeDefined();
+    expect(screen.queryByTestId('enabled')).toBeNull();
+  });
+});
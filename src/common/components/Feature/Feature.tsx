@@ -0,0 +1,35 @@
+import { PropsWithChildren, ReactNode } from 'react';
+
+import { useFeatureFlag } from 'common/hooks/useFeatureFlag';
+import { FeatureFlag } from 'common/utils/flags';
+
+/**
+ * Properties for the `Feature` component.
+ * @param {FeatureFlag} flag - The `FeatureFlag` which must be enabled.
+ * @param {ReactNode} [fallback] - Optional. Rendered when the flag is not
+ * enabled. Default: nothing.
+ */
+export interface FeatureProps extends PropsWithChildren {
+  flag: FeatureFlag;
+  fallback?: ReactNode;
+}
+
+/**
+ * The `Feature` component renders its children only when the supplied
+ * feature flag is enabled.
+ *
+ * Example:
+ * ```
+ * <Feature flag="sessions">
+ *   <SessionSettings />
+ * </Feature>
+ * ```
+ * @param {FeatureProps} props - Component properties.
+ */
+const Feature = ({ children, fallback = null, flag }: FeatureProps) => {
+  const isEnabled = useFeatureFlag(flag);
+
+  return <>{isEnabled ? children : fallback}</>;
+};
+
+export default Feature;
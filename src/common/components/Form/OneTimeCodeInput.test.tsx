@@ -0,0 +1,157 @@
+import { describe, expect, it, vi } from 'vitest';
+import userEvent from '@testing-library/user-event';
+import { useForm } from 'react-hook-form';
+import { z } from 'zod';
+import { zodResolver } from '@hookform/resolvers/zod';
+
+import { render, screen, waitFor } from 'test/test-utils';
+
+import OneTimeCodeInput, { OneTimeCodeInputProps } from './OneTimeCodeInput';
+
+const formSchema = z.object({
+  code: z.string().regex(/^\d{6}$/, { message: 'Enter the 6-digit code' }),
+});
+
+type FormValues = z.infer<typeof formSchema>;
+
+/**
+ * A wrapper for testing the `OneTimeCodeInput` component which requires some
+ * react-hook-form objects passed as props.
+ */
+const OneTimeCodeInputWrapper = ({
+  onSubmit = () => {},
+  ...props
+}: Omit<OneTimeCodeInputProps<FormValues>, 'control'> & { onSubmit?: (values: FormValues) => void }) => {
+  const form = useForm<FormValues>({
+    defaultValues: { code: '' },
+    resolver: zodResolver(formSchema),
+  });
+
+  return (
+    <form onSubmit={form.handleSubmit(onSubmit)} data-testid="form">
+      <OneTimeCodeInput {...props} control={form.control} />
+      <button type="submit" data-testid="button-submit">
+        submit
+      </button>
+    </form>
+  );
+};
+
+describe('OneTimeCodeInput', () => {
+  it('should render successfully', async () => {
+    // ARRANGE
+    render(<OneTimeCodeInputWrapper name="code" />);
+    await screen.findByTestId('one-time-code-input');
+
+    // ASSERT
+    expect(screen.getByTestId('one-time-code-input')).toBeDefined();
+    expect(screen.getAllByRole('textbox')).toHaveLength(6);
+  });
+
+  it('should render the number of digits', async () => {
+    // ARRANGE
+    render(<OneTimeCodeInputWrapper name="code" length={4} />);
+    await screen.findByTestId('one-time-code-input');
+
+    // ASSERT
+    expect(screen.getAllByRole('textbox')).toHaveLength(4);
+  });
+
+  it('should show label and supporting text', async () => {
+    // ARRANGE
+    render(<OneTimeCodeInputWrapper name="code" label="Code" supportingText="Open your app" />);
+    await screen.findByTestId('one-time-code-input');
+
+    // ASSERT
+    expect(screen.getByTestId('one-time-code-input-label')).toHaveTextContent('Code');
+    expect(screen.getByTestId('one-time-code-input-supporting-text')).toHaveTextContent('Open your app');
+  });
+
+  it('should advance focus as digits are entered', async () => {
+    // ARRANGE
+    const user = userEvent.setup();
+    render(<OneTimeCodeInputWrapper name="code" />);
+    await screen.findByTestId('one-time-code-input');
+
+    // ACT
+    await user.click(screen.getByTestId('one-time-code-input-digit-0'));
+    await user.keyboard('12');
+
+    // ASSERT
+    expect(screen.getByTestId('one-time-code-input-digit-0')).toHaveValue('1');
+    expect(screen.getByTestId('one-time-code-input-digit-1')).toHaveValue('2');
+    expect(screen.getByTestId('one-time-code-input-digit-2')).toHaveFocus();
+  });
+
+  it('should ignore characters which are not digits', async () => {
+    // ARRANGE
+    const user = userEvent.setup();
+    render(<OneTimeCodeInputWrapper name="code" />);
+    await screen.findByTestId('one-time-code-input');
+
+    // ACT
+    await user.click(screen.getByTestId('one-time-code-input-digit-0'));
+    await user.keyboard('a');
+
+    // ASSERT
+    expect(screen.getByTestId('one-time-code-input-digit-0')).toHaveValue('');
+    expect(screen.getByTestId('one-time-code-input-digit-0')).toHaveFocus();
+  });
+
+  it('should move focus back when deleting', async () => {
+    // ARRANGE
+    const user = userEvent.setup();
+    render(<OneTimeCodeInputWrapper name="code" />);
+    await screen.findByTestId('one-time-code-input');
+
+    // ACT
+    await user.click(screen.getByTestId('one-time-code-input-digit-0'));
+    await user.keyboard('12{Backspace}');
+
+    // ASSERT
+    expect(screen.getByTestId('one-time-code-input-digit-1')).toHaveValue('');
+    expect(screen.getByTestId('one-time-code-input-digit-1')).toHaveFocus();
+  });
+
+  it('should spread a pasted code across the digits', async () => {
+    // ARRANGE
+    const user = userEvent.setup();
+    const onSubmit = vi.fn();
+    render(<OneTimeCodeInputWrapper name="code" onSubmit={onSubmit} />);
+    await screen.findByTestId('one-time-code-input');
+
+    // ACT
+    await user.click(screen.getByTestId('one-time-code-input-digit-0'));
+    await user.paste('123 456');
+    await user.click(screen.getByTestId('button-submit'));
+    await waitFor(() => expect(onSubmit).toHaveBeenCalled());
+
+    // ASSERT
+    expect(screen.getByTestId('one-time-code-input-digit-5')).toHaveValue('6');
+    expect(onSubmit).toHaveBeenCalledWith({ code: '123456' }, expect.anything());
+  });
+
+  it('should show error when code is incomplete', async () => {
+    // ARRANGE
+    const user = userEvent.setup();
+    render(<OneTimeCodeInputWrapper name="code" />);
+    await screen.findByTestId('one-time-code-input');
+
+    // ACT
+    await user.click(screen.getByTestId('one-time-code-input-digit-0'));
+    await user.keyboard('123');
+    await user.click(screen.getByTestId('button-submit'));
+
+    // ASSERT
+    expect(await screen.findByTestId('one-time-code-input-error')).toHaveTextContent('Enter the 6-digit code');
+  });
+
+  it('should be disabled', async () => {
+    // ARRANGE
+    render(<OneTimeCodeInputWrapper name="code" disabled />);
+    await screen.findByTestId('one-time-code-input');
+
+    // ASSERT
+    screen.getAllByRole('textbox').forEach((input) => expect(input).toBeDisabled());
+  });
+});
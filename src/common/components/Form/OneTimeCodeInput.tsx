@@ -0,0 +1,189 @@
+import { ChangeEvent, ClipboardEvent, FocusEvent, KeyboardEvent, useRef } from 'react';
+import { Control, FieldValues, Path, useController } from 'react-hook-form';
+
+import { cn } from 'common/utils/css';
+import { BaseComponentProps } from 'common/utils/types';
+import Label from './Label';
+import FieldError from './FieldError';
+import HelpText from '../Text/HelpText';
+
+/**
+ * Properties for the `OneTimeCodeInput` component.
+ * @param {Control} control - Object containing methods for registering components
+ * into React Hook Form.
+ * @param {boolean} [autoFocus] - Optional. Indicates if the first digit receives
+ * focus when rendered. Default: `false`
+ * @param {boolean} [disabled] - Optional. Indicates if the input is disabled. Default: `false`
+ * @param {string} [label] - Optional. The label text to display.
+ * @param {number} [length] - Optional. The number of digits. Default: `6`
+ * @param {string} name - Name of the form control.
+ * @param {boolean} [required] - Optional. Indicates if the input is required. Default: `false`
+ * @param {string} [supportingText] - Optional. Help text or instructions.
+ * @see {@link BaseComponentProps}
+ */
+export interface OneTimeCodeInputProps<T extends FieldValues> extends BaseComponentProps {
+  control: Control<T>;
+  autoFocus?: boolean;
+  disabled?: boolean;
+  label?: string;
+  length?: number;
+  name: string;
+  required?: boolean;
+  supportingText?: string;
+}
+
+/**
+ * The `OneTimeCodeInput` component renders a row of single digit inputs. It
+ * is used to capture a one-time code, e.g. from an authenticator app.
+ *
+ * Focus advances as digits are entered and retreats when a digit is deleted.
+ * A code which is pasted, or entered by autofill, is spread across the inputs.
+ * The form value is the string of digits; an empty position is a space.
+ * @param {OneTimeCodeInputProps} props - Component properties.
+ */
+const OneTimeCodeInput = <T extends FieldValues>({
+  autoFocus = false,
+  className,
+  control,
+  disabled = false,
+  label,
+  length = 6,
+  name,
+  required = false,
+  supportingText,
+  testId = 'one-time-code-input',
+}: OneTimeCodeInputProps<T>) => {
+  const { field, fieldState } = useController({ control, name: name as Path<T> });
+  const inputRefs = useRef<(HTMLInputElement | null)[]>([]);
+  const value: string = field.value ?? '';
+  const digits = Array.from({ length }, (_, index) => (value[index] ?? '').trim());
+
+  /**
+   * Focuses the input at the index, within bounds.
+   */
+  const focusInput = (index: number) => {
+    inputRefs.current[Math.min(Math.max(index, 0), length - 1)]?.focus();
+  };
+
+  /**
+   * Writes digits into the code beginning at the index, then focuses the
+   * input after the last digit written.
+   */
+  const setDigits = (index: number, entered: string) => {
+    const enteredDigits = entered
+      .replace(/\D/g, '')
+      .slice(0, length - index)
+      .split('');
+    const nextDigits = [...digits];
+    enteredDigits.forEach((digit, offset) => {
+      nextDigits[index + offset] = digit;
+    });
+    field.onChange(
+      nextDigits
+        .map((digit) => digit || ' ')
+        .join('')
+        .trimEnd(),
+    );
+    if (enteredDigits.length > 0) {
+      focusInput(index + enteredDigits.length);
+    }
+  };
+
+  /**
+   * Clears the digit at the index.
+   */
+  const clearDigit = (index: number) => {
+    const nextDigits = [...digits];
+    nextDigits[index] = '';
+    field.onChange(
+      nextDigits
+        .map((digit) => digit || ' ')
+        .join('')
+        .trimEnd(),
+    );
+  };
+
+  const handleKeyDown = (index: number) => (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Backspace' && !digits[index]) {
+      // move to and clear the previous digit
+      e.preventDefault();
+      if (index > 0) {
+        clearDigit(index - 1);
+        focusInput(index - 1);
+      }
+    } else if (e.key === 'ArrowLeft') {
+      e.preventDefault();
+      focusInput(index - 1);
+    } else if (e.key === 'ArrowRight') {
+      e.preventDefault();
+      focusInput(index + 1);
+    }
+  };
+
+  const handleChange = (index: number, digit: string) => (e: ChangeEvent<HTMLInputElement>) => {
+    const entered = e.target.value;
+    if (!entered) {
+      clearDigit(index);
+    } else if (digit && entered.length === 2) {
+      // a digit typed beside the existing digit replaces it
+      setDigits(index, entered.replace(digit, ''));
+    } else {
+      setDigits(index, entered);
+    }
+  };
+
+  const handlePaste = (index: number) => (e: ClipboardEvent<HTMLInputElement>) => {
+    e.preventDefault();
+    setDigits(index, e.clipboardData.getData('text'));
+  };
+
+  const handleBlur = (e: FocusEvent<HTMLDivElement>) => {
+    // the input is touched when focus leaves the group of digits
+    if (!e.currentTarget.contains(e.relatedTarget)) {
+      field.onBlur();
+    }
+  };
+
+  return (
+    <div className={cn(className)} data-testid={testId}>
+      {!!label && (
+        <Label htmlFor={`${name}-0`} required={required} testId={`${testId}-label`}>
+          {label}
+        </Label>
+      )}
+      <div className="mb-1 flex gap-2" role="group" aria-label={label} onBlur={handleBlur}>
+        {digits.map((digit, index) => (
+          <input
+            key={index}
+            ref={(element) => {
+              inputRefs.current[index] = element;
+            }}
+            id={`${name}-${index}`}
+            name={`${name}-${index}`}
+            type="text"
+            inputMode="numeric"
+            autoComplete={index === 0 ? 'one-time-code' : 'off'}
+            autoFocus={autoFocus && index === 0}
+            aria-label={`Digit ${index + 1} of ${length}`}
+            value={digit}
+            disabled={disabled}
+            onChange={handleChange(index, digit)}
+            onKeyDown={handleKeyDown(index)}
+            onPaste={handlePaste(index)}
+            onFocus={(e) => e.target.select()}
+            className={cn(
+              'size-10 rounded-md border border-neutral-500/50 bg-transparent text-center text-lg focus:border-blue-600 focus-visible:outline-hidden',
+              { 'border-red-600!': fieldState.error },
+              { 'opacity-50': disabled },
+            )}
+            data-testid={`${testId}-digit-${index}`}
+          />
+        ))}
+      </div>
+      <FieldError message={fieldState.error?.message} testId={`${testId}-error`} />
+      {!!supportingText && <HelpText testId={`${testId}-supporting-text`}>{supportingText}</HelpText>}
+    </div>
+  );
+};
+
+export default OneTimeCodeInput;
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+
+import { render, screen } from 'test/test-utils';
+
+import PasswordStrengthMeter from './PasswordStrengthMeter';
+
+describe('PasswordStrengthMeter', () => {
+  it('should render successfully', async () => {
+    // ARRANGE
+    render(<PasswordStrengthMeter password="" />);
+    await screen.findByTestId('password-strength');
+
+    // ASSERT
+    expect(screen.getByTestId('password-strength')).toBeDefined();
+  });
+
+  it('should use custom testId', async () => {
+    // ARRANGE
+    render(<PasswordStrengthMeter password="" testId="custom-testId" />);
+    await screen.findByTestId('custom-testId');
+
+    // ASSERT
+    expect(screen.getByTestId('custom-testId')).toBeDefined();
+  });
+
+  it('should use custom className', async () => {
+    // ARRANGE
+    render(<PasswordStrengthMeter password="" className="custom-className" />);
+    await screen.findByTestId('password-strength');
+
+    // ASSERT
+    expect(screen.getByTestId('password-strength').classList).toContain('custom-className');
+  });
+
+  it('should not display a label when password is empty', async () => {
+    // ARRANGE
+    render(<PasswordStrengthMeter password="" />);
+    await screen.findByTestId('password-strength');
+
+    // ASSERT
+    expect(screen.getByTestId('password-strength-label')).toBeEmptyDOMElement();
+  });
+
+  it('should display password strength', async () => {
+    // ARRANGE
+    render(<PasswordStrengthMeter password="Password1!23" />);
+    await screen.findByTestId('password-strength');
+
+    // ASSERT
+    expect(screen.getByRole('meter')).toHaveAttribute('aria-valuenow', '4');
+    expect(screen.getByTestId('password-strength-label')).toHaveTextContent('Strong');
+  });
+});
@@ -0,0 +1,72 @@
+import { useTranslation } from 'react-i18next';
+import { cva } from 'class-variance-authority';
+
+import { cn } from 'common/utils/css';
+import { getPasswordStrength } from 'common/utils/password';
+import { BaseComponentProps } from 'common/utils/types';
+
+/**
+ * Define the `PasswordStrengthMeter` segment base and variant styles.
+ */
+const segmentVariants = cva('h-1 flex-1 rounded-full', {
+  variants: {
+    strength: {
+      0: 'bg-red-600',
+      1: 'bg-red-600',
+      2: 'bg-amber-500',
+      3: 'bg-green-600',
+      4: 'bg-green-600',
+    },
+    isFilled: {
+      true: '',
+      false: 'bg-neutral-500/25',
+    },
+  },
+});
+
+/**
+ * Properties for the `PasswordStrengthMeter` component.
+ * @param {string} password - The password.
+ * @see {@link BaseComponentProps}
+ */
+export interface PasswordStrengthMeterProps extends BaseComponentProps {
+  password: string;
+}
+
+/**
+ * The `PasswordStrengthMeter` component renders an estimate of the strength
+ * of a password as a segmented bar and a label.
+ * @param {PasswordStrengthMeterProps} props - Component properties.
+ */
+const PasswordStrengthMeter = ({ className, password, testId = 'password-strength' }: PasswordStrengthMeterProps) => {
+  const { t } = useTranslation();
+  const strength = getPasswordStrength(password);
+  const label = t(`passwordStrength.${strength}`);
+
+  return (
+    <div className={cn('flex items-center gap-2', className)} data-testid={testId}>
+      <div
+        className="flex flex-1 gap-1"
+        role="meter"
+        aria-label={t('passwordStrength.label')}
+        aria-valuemin={0}
+        aria-valuemax={4}
+        aria-valuenow={strength}
+        aria-valuetext={label}
+        data-testid={`${testId}-meter`}
+      >
+        {[1, 2, 3, 4].map((segment) => (
+          <div
+            key={segment}
+            className={cn(segmentVariants({ strength, isFilled: segment <= Math.max(strength, 1) && !!password }))}
+          />
+        ))}
+      </div>
+      <div className="w-20 text-right text-xs" data-testid={`${testId}-label`}>
+        {password && label}
+      </div>
+    </div>
+  );
+};
+
+export default PasswordStrengthMeter;
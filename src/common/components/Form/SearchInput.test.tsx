@@ -69,6 +69,34 @@ describe('SearchInput', () => {
 
     // ASSERT
     expect(screen.getByTestId<HTMLInputElement>('input-search-input').value).toBe('test');
-    expect(mockOnChange).toHaveBeenCalledWith('test');
+    expect(mockOnChange).toHaveBeenCalledWith('test', expect.any(AbortSignal));
+  });
+
+  it('should abort the previous search when input changes', async () => {
+    // ARRANGE
+    render(<SearchInput onChange={mockOnChange} searchResults={searchResults} />);
+    await screen.findByTestId('input-search');
+
+    // ACT
+    await userEvent.type(screen.getByTestId('input-search-input'), 'ab');
+
+    // ASSERT
+    const [[, firstSignal], [, lastSignal]] = mockOnChange.mock.calls as [string, AbortSignal][];
+    expect(firstSignal.aborted).toBe(true);
+    expect(lastSignal.aborted).toBe(false);
+  });
+
+  it('should abort the latest search when unmounted', async () => {
+    // ARRANGE
+    const { unmount } = render(<SearchInput onChange={mockOnChange} searchResults={searchResults} />);
+    await screen.findByTestId('input-search');
+    await userEvent.type(screen.getByTestId('input-search-input'), 'a');
+
+    // ACT
+    unmount();
+
+    // ASSERT
+    const [[, signal]] = mockOnChange.mock.calls as [string, AbortSignal][];
+    expect(signal.aborted).toBe(true);
   });
 });
@@ -9,7 +9,8 @@ import FAIcon from 'common/components/Icon/FAIcon';
  * @param {string} [errorText] - Optional. Error message.
  * @param {boolean} [isLoading] - Optional. Indicates if the results are loading.
  * Default: `false`
- * @param {function} onChange - Function invoked when the input value changes.
+ * @param {function} onChange - Function invoked when the input value changes,
+ * with the value and an `AbortSignal` which aborts when the value changes again.
  * @param {JSX.Element[]} [searchResults] - Optional. An array of `SearchResult`
  * components.
  * @param {string} [supportingText] - Optional. Help text.
@@ -18,7 +19,7 @@ import FAIcon from 'common/components/Icon/FAIcon';
 export interface SearchInputProps extends BaseComponentProps {
   errorText?: string;
   isLoading?: boolean;
-  onChange: (value: string) => void;
+  onChange: (value: string, signal: AbortSignal) => void;
   searchResults?: JSX.Element[];
   supportingText?: string;
 }
@@ -31,6 +32,11 @@ export interface SearchInputProps extends BaseComponentProps {
  * the input field changes. This allows the parent component to load data
  * using the input field value.
  *
+ * Searches follow "last request wins": each invocation of `onChange` receives
+ * an `AbortSignal` which is aborted when the value changes again, or when the
+ * component unmounts. Pass the signal to the request, so that a slow response
+ * for an earlier value cannot replace the results for the latest value.
+ *
  * The parent component may optioanally set `isLoading` to `true` when
  * search results are loaded asynchronously to display a loading state
  * indicator.
@@ -51,13 +57,17 @@ const SearchInput = ({
   testId = 'input-search',
 }: SearchInputProps) => {
   const inputRef = useRef<HTMLInputElement>(null);
+  const abortControllerRef = useRef<AbortController>(null);
 
   /**
    * Handle input field value changes.
    * @param e - The change event for the input field.
    */
   const doOnChange = (e: ChangeEvent<HTMLInputElement>) => {
-    onChange(e.target.value);
+    // abort the search for the previous value
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = new AbortController();
+    onChange(e.target.value, abortControllerRef.current.signal);
   };
 
   /**
@@ -74,6 +84,13 @@ const SearchInput = ({
     doFocus();
   }, []);
 
+  /**
+   * Abort the latest search on unmount.
+   */
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
   return (
     <div className={className} onClick={doFocus} data-testid={testId}>
       <div className="mb-1 flex items-center gap-2 border-b border-neutral-500/50 px-1 py-0.5 has-focus:border-blue-600">
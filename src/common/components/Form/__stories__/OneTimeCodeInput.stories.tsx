@@ -0,0 +1,76 @@
+import type { Meta, StoryObj } from '@storybook/react-vite';
+import { useForm } from 'react-hook-form';
+import { z } from 'zod';
+import { zodResolver } from '@hookform/resolvers/zod';
+
+import { default as MyOneTimeCodeInput } from '../OneTimeCodeInput';
+import { OneTimeCodeInputProps } from '../OneTimeCodeInput';
+
+const formSchema = z.object({
+  code: z.string().regex(/^\d{6}$/, { message: 'Enter the 6-digit code. ' }),
+});
+
+type FormValues = z.infer<typeof formSchema>;
+
+/**
+ * A wrapper for the `OneTimeCodeInput` component. Provides the React Hook Form
+ * `control` to the `OneTimeCodeInput` component.
+ */
+const OneTimeCodeInput = (props: Omit<OneTimeCodeInputProps<FormValues>, 'control'>) => {
+  const form = useForm({
+    defaultValues: { code: '' },
+    mode: 'all',
+    resolver: zodResolver(formSchema),
+  });
+
+  const onSubmit = () => {};
+
+  return (
+    <form className="w-96" onSubmit={form.handleSubmit(onSubmit)}>
+      <MyOneTimeCodeInput control={form.control} {...props} />
+    </form>
+  );
+};
+
+const meta = {
+  title: 'Common/Form/OneTimeCodeInput',
+  component: OneTimeCodeInput,
+  parameters: {
+    layout: 'centered',
+  },
+  tags: ['autodocs'],
+  argTypes: {
+    autoFocus: { description: 'Indicates if the first digit receives focus.', control: { type: 'boolean' } },
+    className: { description: 'Additional CSS classes.', control: { type: 'text' } },
+    disabled: { description: 'Indicates if the input is disabled.', control: { type: 'boolean' } },
+    label: { description: 'The field label.', control: { type: 'text' } },
+    length: { description: 'The number of digits.', control: { type: 'number' } },
+    name: { description: 'The form field name.', control: { type: 'text' } },
+    required: { description: 'Indicates if the input is required.', control: { type: 'boolean' } },
+    supportingText: { description: 'Additional field instructions.', control: { type: 'text' } },
+    testId: { description: 'The test identifier.', control: { type: 'text' } },
+  },
+  args: {
+    name: 'code',
+    label: 'Verification code',
+    disabled: false,
+    testId: 'one-time-code-input',
+  },
+} satisfies Meta<typeof MyOneTimeCodeInput>;
+
+export default meta;
+
+type Story = StoryObj<typeof meta>;
+
+export const Default: Story = {
+  args: {
+    required: true,
+    supportingText: 'Enter the code from your authenticator app.',
+  },
+};
+
+export const Disabled: Story = {
+  args: {
+    disabled: true,
+  },
+};
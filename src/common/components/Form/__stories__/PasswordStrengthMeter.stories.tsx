@@ -0,0 +1,39 @@
+import type { Meta, StoryObj } from '@storybook/react-vite';
+
+import PasswordStrengthMeter from '../PasswordStrengthMeter';
+
+const meta = {
+  title: 'Common/Form/PasswordStrengthMeter',
+  component: PasswordStrengthMeter,
+  parameters: {
+    layout: 'centered',
+  },
+  tags: ['autodocs'],
+  argTypes: {
+    className: { description: 'Additional CSS classes.' },
+    password: { description: 'The password.' },
+    testId: { description: 'The test identifier.' },
+  },
+  args: {
+    className: 'w-64',
+    password: 'Password1!',
+  },
+} satisfies Meta<typeof PasswordStrengthMeter>;
+
+export default meta;
+
+type Story = StoryObj<typeof meta>;
+
+export const Default: Story = {};
+
+export const Weak: Story = {
+  args: {
+    password: 'password',
+  },
+};
+
+export const Strong: Story = {
+  args: {
+    password: 'Password1!23',
+  },
+};
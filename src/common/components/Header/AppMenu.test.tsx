@@ -3,9 +3,10 @@ import { render, screen } from 'test/test-utils';
 import { queryClient } from 'test/query-client';
 import { UseQueryResult } from '@tanstack/react-query';
 
-import { User } from 'common/api/useGetUser';
+import { User } from 'common/api/generated/models';
 import * as UseAuth from 'common/hooks/useAuth';
 import * as UseGetCurrentUser from 'common/api/useGetCurrentUser';
+import { Permission } from 'common/utils/constants';
 import { userFixture1 } from '__fixtures__/users';
 
 import AppMenu from './AppMenu';
@@ -18,6 +19,7 @@ describe('AppMenu', () => {
     queryClient.clear();
     useAuthSpy.mockReturnValue({
       isAuthenticated: true,
+      permissions: [Permission.TasksRead],
     });
     useGetCurrentUserSpy.mockReturnValue({
       data: userFixture1,
@@ -60,6 +62,21 @@ describe('AppMenu', () => {
     expect(screen.getByTestId('menu-app')).toBeDefined();
     expect(screen.getByText(userFixture1.name)).toBeDefined();
     expect(screen.getByText('Sign Out')).toBeDefined();
+    expect(screen.getByTitle('Tasks')).toBeDefined();
+  });
+
+  it('should hide menu items when not permitted', async () => {
+    // ARRANGE
+    useAuthSpy.mockReturnValue({
+      isAuthenticated: true,
+      permissions: [],
+    });
+    render(<AppMenu />);
+    await screen.findByTestId('menu-app');
+
+    // ASSERT
+    expect(screen.getByText('Sign Out')).toBeDefined();
+    expect(screen.queryByTitle('Tasks')).toBeNull();
   });
 
   it('should render unauthenticated content', async () => {
@@ -78,5 +95,6 @@ describe('AppMenu', () => {
     expect(screen.getByAltText('Logo')).toBeDefined();
     expect(screen.getByText(/^Sign In$/i)).toBeDefined();
     expect(screen.getByText(/Sign Up/i)).toBeDefined();
+    expect(screen.getByTitle('Sign Up')).toHaveAttribute('href', '/auth/signup');
   });
 });
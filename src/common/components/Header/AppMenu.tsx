@@ -7,6 +7,8 @@ import SideMenu, { SideMenuProps } from 'common/components/Menu/SideMenu/SideMen
 import MenuNavLink from 'common/components/Menu/MenuNavLink';
 import Avatar from 'common/components/Icon/Avatar';
 import MenuSeparator from 'common/components/Menu/MenuSeparator';
+import Can from 'common/components/Auth/Can';
+import { Permission } from 'common/utils/constants';
 
 /**
  * Properties fro the `AppMenu` component.
@@ -51,9 +53,11 @@ const AppMenu = ({ side = 'right', testId = 'menu-app', ...props }: AppMenuProps
           <MenuNavLink to="/pub/components" title="Components" icon="puzzlePiece">
             Components
           </MenuNavLink>
-          <MenuNavLink to="/app/tasks" title={t('tasks', { ns: 'tasks' })} icon="listCheck">
-            {t('tasks', { ns: 'tasks' })}
-          </MenuNavLink>
+          <Can permission={Permission.TasksRead}>
+            <MenuNavLink to="/app/tasks" title={t('tasks', { ns: 'tasks' })} icon="listCheck">
+              {t('tasks', { ns: 'tasks' })}
+            </MenuNavLink>
+          </Can>
           <MenuNavLink to="/pub/about" title="About" icon="circleInfo">
             About
           </MenuNavLink>
@@ -63,7 +67,7 @@ const AppMenu = ({ side = 'right', testId = 'menu-app', ...props }: AppMenuProps
           <MenuNavLink to="/auth/signin" title="Sign In" icon="rightToBracket">
             Sign In
           </MenuNavLink>
-          <MenuNavLink to="/auth/signin" title="Sign Up" className="text-xs">
+          <MenuNavLink to="/auth/signup" title="Sign Up" className="text-xs">
             Need an account? Sign Up
           </MenuNavLink>
           <MenuSeparator />
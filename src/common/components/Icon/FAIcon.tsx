@@ -19,6 +19,7 @@ import {
   faEllipsis,
   faEllipsisVertical,
   faEnvelope,
+  faKey,
   faLanguage,
   faLink,
   faListCheck,
@@ -32,6 +33,7 @@ import {
   faPuzzlePiece,
   faRightFromBracket,
   faRightToBracket,
+  faShieldHalved,
   faSliders,
   faSun,
   faToggleOff,
@@ -66,6 +68,7 @@ export type FAIconName =
   | 'ellipsis'
   | 'ellipsisVertical'
   | 'envelope'
+  | 'key'
   | 'language'
   | 'link'
   | 'listCheck'
@@ -79,6 +82,7 @@ export type FAIconName =
   | 'puzzlePiece'
   | 'rightFromBracket'
   | 'rightToBracket'
+  | 'shieldHalved'
   | 'sliders'
   | 'sun'
   | 'toggleOff'
@@ -119,6 +123,7 @@ const icons: Record<FAIconName, IconProp> = {
   ellipsis: faEllipsis,
   ellipsisVertical: faEllipsisVertical,
   envelope: faEnvelope,
+  key: faKey,
   language: faLanguage,
   link: faLink,
   listCheck: faListCheck,
@@ -132,6 +137,7 @@ const icons: Record<FAIconName, IconProp> = {
   puzzlePiece: faPuzzlePiece,
   rightFromBracket: faRightFromBracket,
   rightToBracket: faRightToBracket,
+  shieldHalved: faShieldHalved,
   sliders: faSliders,
   sun: faSun,
   toggleOff: faToggleOff,
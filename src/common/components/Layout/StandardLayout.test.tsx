@@ -1,6 +1,8 @@
-import { describe, expect, it } from 'vitest';
+import { describe, expect, it, vi } from 'vitest';
 import { render, screen } from 'test/test-utils';
 
+import * as UseAuth from 'common/hooks/useAuth';
+
 import StandardLayout from './StandardLayout';
 
 describe('StandardLayout', () => {
@@ -11,5 +13,19 @@ describe('StandardLayout', () => {
 
     // ASSERT
     expect(screen.getByTestId('layout-standard')).toBeDefined();
+    expect(screen.queryByTestId('banner-impersonation')).toBeNull();
+  });
+
+  it('should render impersonation banner', async () => {
+    // ARRANGE
+    vi.spyOn(UseAuth, 'useAuth').mockReturnValue({
+      isAuthenticated: true,
+      impersonatedUser: { id: 2, name: 'Ervin Howell', username: 'Antonette' },
+    });
+    render(<StandardLayout />);
+    await screen.findByTestId('layout-standard');
+
+    // ASSERT
+    expect(screen.getByTestId('banner-impersonation')).toBeDefined();
   });
 });
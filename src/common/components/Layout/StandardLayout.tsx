@@ -1,9 +1,11 @@
 import { Outlet } from 'react-router-dom';
 
+import { useCancelQueriesOnNavigation } from 'common/hooks/useCancelQueriesOnNavigation';
 import { BaseComponentProps } from 'common/utils/types';
 import Header from 'common/components/Header/Header';
 import Footer from 'common/components/Footer/Footer';
 import Toasts from 'common/components/Toast/Toasts';
+import ImpersonationBanner from 'common/components/Auth/ImpersonationBanner';
 
 /**
  * Properties for the `StandardLayout` component.
@@ -14,11 +16,18 @@ export interface StandardLayoutProps extends BaseComponentProps {}
 /**
  * The `StandardLayout` React component renders the standard page layout. It
  * renders a `Header` and `Footer` and provides an `Outlet` for the router.
+ * While an administrator is viewing the application as another user, an
+ * `ImpersonationBanner` is rendered above the `Header`.
+ *
+ * Outstanding fetches of the previous route are cancelled on navigation.
  * @param [props] - Component properties, `StandardLayoutProps`.
  */
 const StandardLayout = ({ className, testId = 'layout-standard' }: StandardLayoutProps) => {
+  useCancelQueriesOnNavigation();
+
   return (
     <div className={className} data-testid={testId}>
+      <ImpersonationBanner />
       <Header />
       <main>
         <Outlet />
@@ -0,0 +1,64 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMemoryRouter, RouterProvider } from 'react-router-dom';
+
+import { render, screen } from 'test/test-utils';
+import AllProvidersExceptRouter from 'test/wrappers/AllProvidersExceptRouter';
+import * as UseFeatureFlags from 'common/hooks/useFeatureFlags';
+import { FeatureFlagsContextValue } from 'common/providers/FeatureFlagsContext';
+import { FeatureRouteHandle } from 'common/utils/flags';
+
+import FeatureOutlet from './FeatureOutlet';
+
+describe('FeatureOutlet', () => {
+  const useFeatureFlagsSpy = vi.spyOn(UseFeatureFlags, 'useFeatureFlags');
+
+  const renderRouter = (handle?: FeatureRouteHandle) => {
+    const router = createMemoryRouter(
+      [
+        {
+          element: <FeatureOutlet />,
+          children: [
+            { path: '/', element: <div data-testid="landing" /> },
+            { path: '/feature', element: <div data-testid="feature" />, handle },
+          ],
+        },
+      ],
+      { initialEntries: ['/feature'] },
+    );
+    return render(<RouterProvider router={router} />, { wrapper: AllProvidersExceptRouter });
+  };
+
+  beforeEach(() => {
+    useFeatureFlagsSpy.mockReturnValue({
+      flags: { passkeys: true, sessions: false },
+    } as unknown as FeatureFlagsContextValue);
+  });
+
+  it('should render route when no flag is required', async () => {
+    // ARRANGE
+    renderRouter();
+    await screen.findByTestId('feature');
+
+    // ASSERT
+    expect(screen.getByTestId('feature')).toBeDefined();
+  });
+
+  it('should render route when flag is enabled', async () => {
+    // ARRANGE
+    renderRouter({ flag: 'passkeys' });
+    await screen.findByTestId('feature');
+
+    // ASSERT
+    expect(screen.getByTestId('feature')).toBeDefined();
+  });
+
+  it('should navigate to landing route when flag is not enabled', async () => {
+    // ARRANGE
+    renderRouter({ flag: 'sessions' });
+    await screen.findByTestId('landing');
+
+    // ASSERT
+    expect(screen.getByTestId('landing')).toBeDefined();
+    expect(screen.queryByTestId('feature')).toBeNull();
+  });
+});
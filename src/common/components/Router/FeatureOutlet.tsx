@@ -0,0 +1,36 @@
+import { Navigate, Outlet, useMatches } from 'react-router-dom';
+
+import { useFeatureFlags } from 'common/hooks/useFeatureFlags';
+import { FeatureRouteHandle } from 'common/utils/flags';
+
+/**
+ * The `FeatureOutlet` determines if the features which the matched routes
+ * require are enabled. It is used within the router configuration as the
+ * parent of every route.
+ *
+ * Routes may declare a required feature flag in their `handle`, a
+ * `FeatureRouteHandle`. The flag of every matched route must be enabled.
+ *
+ * If enabled, the element specified by the route is rendered.
+ *
+ * If not enabled, the route is treated as not found and the application
+ * navigates to the landing page.
+ * @see {@link FeatureRouteHandle}
+ */
+const FeatureOutlet = () => {
+  const { flags } = useFeatureFlags();
+  const matches = useMatches();
+
+  const isEnabled = matches.every((match) => {
+    const flag = (match.handle as FeatureRouteHandle | undefined)?.flag;
+    return !flag || flags[flag];
+  });
+
+  if (isEnabled) {
+    return <Outlet />;
+  } else {
+    return <Navigate to="/" replace />;
+  }
+};
+
+export default FeatureOutlet;
@@ -1,29 +1,45 @@
 import { beforeEach, describe, expect, it, vi } from 'vitest';
-import { Navigate, Route, Routes } from 'react-router-dom';
+import { createMemoryRouter, Navigate, RouterProvider, useLocation } from 'react-router-dom';
 
 import { render, screen } from 'test/test-utils';
+import AllProvidersExceptRouter from 'test/wrappers/AllProvidersExceptRouter';
 import * as UseAuth from 'common/hooks/useAuth';
+import { RouteHandle } from 'common/utils/authorization';
+import { Permission, Role } from 'common/utils/constants';
 
 import PrivateOutlet from './PrivateOutlet';
 
 describe('PrivateOutlet', () => {
   const useAuthSpy = vi.spyOn(UseAuth, 'useAuth');
 
+  const SigninRoute = () => {
+    const location = useLocation();
+    return <div data-testid="not-authenticated">{location.search}</div>;
+  };
+
+  const renderRouter = (handle?: RouteHandle, initialEntries?: string[]) => {
+    const router = createMemoryRouter(
+      [
+        { path: '/', element: <Navigate to="/private" /> },
+        { path: '/auth/signin', element: <SigninRoute /> },
+        {
+          path: '/private',
+          element: <PrivateOutlet />,
+          children: [{ index: true, element: <div data-testid="authenticated" />, handle }],
+        },
+      ],
+      { initialEntries },
+    );
+    return render(<RouterProvider router={router} />, { wrapper: AllProvidersExceptRouter });
+  };
+
   beforeEach(() => {
-    useAuthSpy.mockReturnValue({ isAuthenticated: true });
+    useAuthSpy.mockReturnValue({ isAuthenticated: true, roles: [Role.User], permissions: [Permission.TasksRead] });
   });
 
   it('should render successfully', async () => {
     // ARRANGE
-    render(
-      <Routes>
-        <Route path="/" element={<Navigate to="/private" />} />
-        <Route path="/auth/signin" element={<div data-testid="not-authenticated" />} />
-        <Route path="/private" element={<PrivateOutlet />}>
-          <Route index={true} element={<div data-testid="authenticated" />} />
-        </Route>
-      </Routes>,
-    );
+    renderRouter();
     await screen.findByTestId('authenticated');
 
     // ASSERT
@@ -32,15 +48,7 @@ describe('PrivateOutlet', () => {
 
   it('should render private route when authenticated', async () => {
     // ARRANGE
-    render(
-      <Routes>
-        <Route path="/" element={<Navigate to="/private" />} />
-        <Route path="/auth/signin" element={<div data-testid="not-authenticated" />} />
-        <Route path="/private" element={<PrivateOutlet />}>
-          <Route index={true} element={<div data-testid="authenticated" />} />
-        </Route>
-      </Routes>,
-    );
+    renderRouter();
     await screen.findByTestId('authenticated');
 
     // ASSERT
@@ -49,19 +57,52 @@ describe('PrivateOutlet', () => {
 
   it('should redirect to signin route when not authenticated', async () => {
     // ARRANGE
-    useAuthSpy.mockReturnValueOnce({ isAuthenticated: false });
-    render(
-      <Routes>
-        <Route path="/" element={<Navigate to="/private" />} />
-        <Route path="/auth/signin" element={<div data-testid="not-authenticated" />} />
-        <Route path="/private" element={<PrivateOutlet />}>
-          <Route index={true} element={<div data-testid="authenticated" />} />
-        </Route>
-      </Routes>,
-    );
+    useAuthSpy.mockReturnValue({ isAuthenticated: false });
+    renderRouter();
     await screen.findByTestId('not-authenticated');
 
     // ASSERT
     expect(screen.getByTestId('not-authenticated')).toBeDefined();
   });
+
+  it('should carry the attempted location to signin route', async () => {
+    // ARRANGE
+    useAuthSpy.mockReturnValue({ isAuthenticated: false });
+    renderRouter(undefined, ['/private?filter=open']);
+    await screen.findByTestId('not-authenticated');
+
+    // ASSERT
+    expect(screen.getByTestId('not-authenticated')).toHaveTextContent(
+      `?returnTo=${encodeURIComponent('/private?filter=open')}`,
+    );
+  });
+
+  it('should render private route when authorized', async () => {
+    // ARRANGE
+    renderRouter({ roles: [Role.Admin, Role.User], permissions: [Permission.TasksRead] });
+    await screen.findByTestId('authenticated');
+
+    // ASSERT
+    expect(screen.getByTestId('authenticated')).toBeDefined();
+  });
+
+  it('should render forbidden page when role is missing', async () => {
+    // ARRANGE
+    renderRouter({ roles: [Role.Admin] });
+    await screen.findByTestId('page-forbidden');
+
+    // ASSERT
+    expect(screen.getByTestId('page-forbidden')).toBeDefined();
+    expect(screen.queryByTestId('authenticated')).toBeNull();
+  });
+
+  it('should render forbidden page when permission is missing', async () => {
+    // ARRANGE
+    renderRouter({ permissions: [Permission.TasksRead, Permission.TasksDelete] });
+    await screen.findByTestId('page-forbidden');
+
+    // ASSERT
+    expect(screen.getByTestId('page-forbidden')).toBeDefined();
+    expect(screen.queryByTestId('authenticated')).toBeNull();
+  });
 });
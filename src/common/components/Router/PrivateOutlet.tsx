@@ -1,23 +1,47 @@
-import { Navigate, Outlet } from 'react-router-dom';
+import { Navigate, Outlet, useLocation, useMatches } from 'react-router-dom';
 
 import { useAuth } from 'common/hooks/useAuth';
+import { hasEveryPermission, hasSomeRole, RouteHandle } from 'common/utils/authorization';
+import { getSigninPath } from 'common/utils/returnTo';
+import ForbiddenPage from 'pages/Error/ForbiddenPage';
 
 /**
- * The `PrivateOutlet` determines if the user is authenticated. It is typically
- * used within the router configuration as the parent of hierarchy of routes
- * which require authentication.
+ * The `PrivateOutlet` determines if the user is authenticated and authorized.
+ * It is typically used within the router configuration as the parent of
+ * hierarchy of routes which require authentication.
  *
- * If authenticated, the element specified by the route is rendered.
+ * Routes may declare required roles and permissions in their `handle`, a
+ * `RouteHandle`. The requirements of every matched route must be met.
  *
- * If not authenticated, the application navigates to the sign in page.
+ * If authenticated and authorized, the element specified by the route is rendered.
+ *
+ * If not authenticated, the application navigates to the sign in page. The
+ * attempted location is carried in the `returnTo` search parameter so that the
+ * user is returned to it after sign in.
+ *
+ * If not authorized, the `ForbiddenPage` is rendered.
+ * @see {@link RouteHandle}
  */
 const PrivateOutlet = () => {
   const authContext = useAuth();
+  const location = useLocation();
+  const matches = useMatches();
+
+  if (!authContext.isAuthenticated) {
+    return <Navigate to={getSigninPath(`${location.pathname}${location.search}${location.hash}`)} />;
+  }
+
+  const isAuthorized = matches.every((match) => {
+    const handle = match.handle as RouteHandle | undefined;
+    return (
+      hasSomeRole(authContext.roles, handle?.roles) && hasEveryPermission(authContext.permissions, handle?.permissions)
+    );
+  });
 
-  if (authContext.isAuthenticated) {
+  if (isAuthorized) {
     return <Outlet />;
   } else {
-    return <Navigate to="/auth/signin" />;
+    return <ForbiddenPage />;
   }
 };
 
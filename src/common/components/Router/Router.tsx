@@ -2,9 +2,13 @@
 import { lazy } from 'react';
 import { Navigate, RouteObject, createBrowserRouter } from 'react-router-dom';
 
+import { RouteHandle } from 'common/utils/authorization';
+import { Permission, Role } from 'common/utils/constants';
+import { FeatureRouteHandle } from 'common/utils/flags';
 import { withSuspense } from 'common/utils/suspense';
 import StandardLayout from 'common/components/Layout/StandardLayout';
 import ErrorPage from 'pages/Error/ErrorPage';
+import FeatureOutlet from './FeatureOutlet';
 import PrivateOutlet from './PrivateOutlet';
 
 // Landing Page Family
@@ -12,11 +16,19 @@ import LandingPage from 'pages/Landing/LandingPage';
 
 // Auth Page Family
 const SigninPage = lazy(() => import('pages/Auth/Signin/SigninPage'));
+const SignupPage = lazy(() => import('pages/Auth/Signup/SignupPage'));
+const ForgotPasswordPage = lazy(() => import('pages/Auth/ForgotPassword/ForgotPasswordPage'));
+const ResetPasswordPage = lazy(() => import('pages/Auth/ResetPassword/ResetPasswordPage'));
+const CallbackPage = lazy(() => import('pages/Auth/Callback/CallbackPage'));
 const SignoutPage = lazy(() => import('pages/Auth/Signout/SignoutPage'));
 
 // Settings Page Family
 const SettingsPage = lazy(() => import('pages/Settings/SettingsPage'));
 const AppearanceSettings = lazy(() => import('pages/Settings/components/AppearanceSettings'));
+const SecuritySettings = lazy(() => import('pages/Settings/components/SecuritySettings'));
+const PasskeySettings = lazy(() => import('pages/Settings/components/PasskeySettings'));
+const ImpersonationSettings = lazy(() => import('pages/Settings/components/ImpersonationSettings'));
+const FeatureFlagSettings = lazy(() => import('pages/Settings/components/FeatureFlagSettings'));
 
 // Components Page Family
 const ComponentsPage = lazy(() => import('pages/Components/ComponentsPage'));
@@ -65,7 +77,13 @@ const TaskEdit = lazy(() => import('pages/Tasks/components/Edit/TaskEdit'));
 
 /**
  * The React Router configuration. An array of `RouteObject`.
+ *
+ * Routes beneath the `PrivateOutlet` may declare the roles and permissions
+ * they require in their `handle`, a `RouteHandle`. Any route may declare the
+ * feature flag it requires in its `handle`, a `FeatureRouteHandle`.
  * @see {@link RouteObject}
+ * @see {@link RouteHandle}
+ * @see {@link FeatureRouteHandle}
  */
 export const routes: RouteObject[] = [
   {
@@ -74,212 +92,254 @@ export const routes: RouteObject[] = [
     errorElement: <ErrorPage />,
     children: [
       {
-        index: true,
-        element: <LandingPage />,
-      },
-      {
-        path: 'auth',
+        element: <FeatureOutlet />,
         children: [
-          { index: true, element: <Navigate to="signin" replace /> },
           {
-            path: 'signin',
-            element: withSuspense(<SigninPage />),
+            index: true,
+            element: <LandingPage />,
           },
           {
-            path: 'signout',
-            element: withSuspense(<SignoutPage />),
-          },
-        ],
-      },
-      {
-        path: 'pub',
-        children: [
-          { index: true, element: <Navigate to="components" replace /> },
-          {
-            path: 'components',
-            element: withSuspense(<ComponentsPage />),
+            path: 'auth',
             children: [
+              { index: true, element: <Navigate to="signin" replace /> },
               {
-                index: true,
-                element: <Navigate to="accordion" replace />,
-              },
-              {
-                path: 'accordion',
-                element: withSuspense(<AccordionComponents />),
-              },
-              {
-                path: 'alert',
-                element: withSuspense(<AlertComponents />),
-              },
-              {
-                path: 'avatar',
-                element: withSuspense(<AvatarComponents />),
-              },
-              {
-                path: 'badge',
-                element: withSuspense(<BadgeComponents />),
-              },
-              {
-                path: 'breadcrumbs',
-                element: withSuspense(<BreadcrumbsComponents />),
-              },
-              {
-                path: 'button',
-                element: withSuspense(<ButtonComponents />),
-              },
-              {
-                path: 'card',
-                element: withSuspense(<CardComponents />),
-              },
-              {
-                path: 'checkbox',
-                element: withSuspense(<CheckboxComponents />),
-              },
-              {
-                path: 'columns',
-                element: withSuspense(<ColumnComponents />),
-              },
-              {
-                path: 'container',
-                element: withSuspense(<ContainerComponents />),
-              },
-              {
-                path: 'dialog',
-                element: withSuspense(<DialogComponents />),
-              },
-              {
-                path: 'divider',
-                element: withSuspense(<DividerComponents />),
-              },
-              {
-                path: 'dropdown',
-                element: withSuspense(<DropdownComponents />),
-              },
-              {
-                path: 'heading',
-                element: withSuspense(<HeadingComponents />),
-              },
-              {
-                path: 'help-text',
-                element: withSuspense(<HelpTextComponents />),
-              },
-              {
-                path: 'icon',
-                element: withSuspense(<IconComponents />),
-              },
-              {
-                path: 'input',
-                element: withSuspense(<InputComponents />),
-              },
-              {
-                path: 'label',
-                element: withSuspense(<LabelComponents />),
-              },
-              {
-                path: 'link',
-                element: withSuspense(<LinkComponents />),
-              },
-              {
-                path: 'page',
-                element: withSuspense(<PageComponents />),
-              },
-              {
-                path: 'popover',
-                element: withSuspense(<PopoverComponents />),
-              },
-              {
-                path: 'radio-group',
-                element: withSuspense(<RadioGroupComponents />),
-              },
-              {
-                path: 'search-input',
-                element: withSuspense(<SearchInputComponents />),
+                path: 'signin',
+                element: withSuspense(<SigninPage />),
               },
               {
-                path: 'select',
-                element: withSuspense(<SelectComponents />),
+                path: 'signup',
+                element: withSuspense(<SignupPage />),
               },
               {
-                path: 'skeleton',
-                element: withSuspense(<SkeletonComponents />),
+                path: 'forgot-password',
+                element: withSuspense(<ForgotPasswordPage />),
               },
               {
-                path: 'spinner',
-                element: withSuspense(<SpinnerComponents />),
+                path: 'reset-password',
+                element: withSuspense(<ResetPasswordPage />),
               },
               {
-                path: 'table',
-                element: withSuspense(<TableComponents />),
+                path: 'callback',
+                element: withSuspense(<CallbackPage />),
               },
               {
-                path: 'tabs',
-                element: withSuspense(<TabsComponents />),
-              },
-              {
-                path: 'text',
-                element: withSuspense(<TextComponents />),
-              },
-              {
-                path: 'textarea',
-                element: withSuspense(<TextareaComponents />),
-              },
-              {
-                path: 'toast',
-                element: withSuspense(<ToastComponents />),
-              },
-              {
-                path: 'toggle',
-                element: withSuspense(<ToggleComponents />),
+                path: 'signout',
+                element: withSuspense(<SignoutPage />),
               },
             ],
           },
           {
-            path: 'about',
-            element: withSuspense(<AboutPage />),
-          },
-        ],
-      },
-      {
-        path: 'app',
-        element: <PrivateOutlet />,
-        children: [
-          { index: true, element: <Navigate to="tasks" replace /> },
-          {
-            path: 'settings',
-            element: withSuspense(<SettingsPage />),
+            path: 'pub',
             children: [
+              { index: true, element: <Navigate to="components" replace /> },
               {
-                index: true,
-                element: <Navigate to="appearance" replace />,
+                path: 'components',
+                element: withSuspense(<ComponentsPage />),
+                children: [
+                  {
+                    index: true,
+                    element: <Navigate to="accordion" replace />,
+                  },
+                  {
+                    path: 'accordion',
+                    element: withSuspense(<AccordionComponents />),
+                  },
+                  {
+                    path: 'alert',
+                    element: withSuspense(<AlertComponents />),
+                  },
+                  {
+                    path: 'avatar',
+                    element: withSuspense(<AvatarComponents />),
+                  },
+                  {
+                    path: 'badge',
+                    element: withSuspense(<BadgeComponents />),
+                  },
+                  {
+                    path: 'breadcrumbs',
+                    element: withSuspense(<BreadcrumbsComponents />),
+                  },
+                  {
+                    path: 'button',
+                    element: withSuspense(<ButtonComponents />),
+                  },
+                  {
+                    path: 'card',
+                    element: withSuspense(<CardComponents />),
+                  },
+                  {
+                    path: 'checkbox',
+                    element: withSuspense(<CheckboxComponents />),
+                  },
+                  {
+                    path: 'columns',
+                    element: withSuspense(<ColumnComponents />),
+                  },
+                  {
+                    path: 'container',
+                    element: withSuspense(<ContainerComponents />),
+                  },
+                  {
+                    path: 'dialog',
+                    element: withSuspense(<DialogComponents />),
+                  },
+                  {
+                    path: 'divider',
+                    element: withSuspense(<DividerComponents />),
+                  },
+                  {
+                    path: 'dropdown',
+                    element: withSuspense(<DropdownComponents />),
+                  },
+                  {
+                    path: 'heading',
+                    element: withSuspense(<HeadingComponents />),
+                  },
+                  {
+                    path: 'help-text',
+                    element: withSuspense(<HelpTextComponents />),
+                  },
+                  {
+                    path: 'icon',
+                    element: withSuspense(<IconComponents />),
+                  },
+                  {
+                    path: 'input',
+                    element: withSuspense(<InputComponents />),
+                  },
+                  {
+                    path: 'label',
+                    element: withSuspense(<LabelComponents />),
+                  },
+                  {
+                    path: 'link',
+                    element: withSuspense(<LinkComponents />),
+                  },
+                  {
+                    path: 'page',
+                    element: withSuspense(<PageComponents />),
+                  },
+                  {
+                    path: 'popover',
+                    element: withSuspense(<PopoverComponents />),
+                  },
+                  {
+                    path: 'radio-group',
+                    element: withSuspense(<RadioGroupComponents />),
+                  },
+                  {
+                    path: 'search-input',
+                    element: withSuspense(<SearchInputComponents />),
+                  },
+                  {
+                    path: 'select',
+                    element: withSuspense(<SelectComponents />),
+                  },
+                  {
+                    path: 'skeleton',
+                    element: withSuspense(<SkeletonComponents />),
+                  },
+                  {
+                    path: 'spinner',
+                    element: withSuspense(<SpinnerComponents />),
+                  },
+                  {
+                    path: 'table',
+                    element: withSuspense(<TableComponents />),
+                  },
+                  {
+                    path: 'tabs',
+                    element: withSuspense(<TabsComponents />),
+                  },
+                  {
+                    path: 'text',
+                    element: withSuspense(<TextComponents />),
+                  },
+                  {
+                    path: 'textarea',
+                    element: withSuspense(<TextareaComponents />),
+                  },
+                  {
+                    path: 'toast',
+                    element: withSuspense(<ToastComponents />),
+                  },
+                  {
+                    path: 'toggle',
+                    element: withSuspense(<ToggleComponents />),
+                  },
+                ],
               },
               {
-                path: 'appearance',
-                element: withSuspense(<AppearanceSettings />),
+                path: 'about',
+                element: withSuspense(<AboutPage />),
               },
             ],
           },
           {
-            path: 'tasks',
-            element: withSuspense(<TasksPage />),
+            path: 'app',
+            element: <PrivateOutlet />,
             children: [
+              { index: true, element: <Navigate to="tasks" replace /> },
               {
-                index: true,
-                element: withSuspense(<TaskListLayout />),
-              },
-              {
-                path: 'add',
-                element: withSuspense(<TaskAdd />),
+                path: 'settings',
+                element: withSuspense(<SettingsPage />),
+                children: [
+                  {
+                    index: true,
+                    element: <Navigate to="appearance" replace />,
+                  },
+                  {
+                    path: 'appearance',
+                    element: withSuspense(<AppearanceSettings />),
+                  },
+                  {
+                    path: 'security',
+                    element: withSuspense(<SecuritySettings />),
+                  },
+                  {
+                    path: 'passkeys',
+                    element: withSuspense(<PasskeySettings />),
+                    handle: { flag: 'passkeys' } satisfies FeatureRouteHandle,
+                  },
+                  {
+                    path: 'impersonation',
+                    element: withSuspense(<ImpersonationSettings />),
+                    handle: { roles: [Role.Admin] } satisfies RouteHandle,
+                  },
+                  {
+                    path: 'feature-flags',
+                    element: withSuspense(<FeatureFlagSettings />),
+                  },
+                ],
               },
               {
-                path: ':taskId',
+                path: 'tasks',
+                element: withSuspense(<TasksPage />),
+                handle: { permissions: [Permission.TasksRead] } satisfies RouteHandle,
                 children: [
                   {
                     index: true,
-                    element: withSuspense(<TaskDetailLayout />),
+                    element: withSuspense(<TaskListLayout />),
+                  },
+                  {
+                    path: 'add',
+                    element: withSuspense(<TaskAdd />),
+                    handle: { permissions: [Permission.TasksCreate] } satisfies RouteHandle,
                   },
                   {
-                    path: 'edit',
-                    element: withSuspense(<TaskEdit />),
+                    path: ':taskId',
+                    children: [
+                      {
+                        index: true,
+                        element: withSuspense(<TaskDetailLayout />),
+                      },
+                      {
+                        path: 'edit',
+                        element: withSuspense(<TaskEdit />),
+                        handle: { permissions: [Permission.TasksUpdate] } satisfies RouteHandle,
+                      },
+                    ],
                   },
                 ],
               },
@@ -5,7 +5,7 @@ import { cva, VariantProps } from 'class-variance-authority';
 
 import { cn } from 'common/utils/css';
 import { BaseComponentProps } from 'common/utils/types';
-import { config } from 'common/utils/config';
+import { useConfig } from 'common/hooks/useConfig';
 import { ToastDetail } from 'common/providers/ToastsContext';
 import Button from 'common/components/Button/Button';
 import FAIcon from 'common/components/Icon/FAIcon';
@@ -48,6 +48,7 @@ export interface ToastProps extends BaseComponentProps {
  * used when some adverse action happens, such as an error.
  */
 const Toast = ({ className, dismiss, testId = 'toast', toast }: ToastProps) => {
+  const config = useConfig();
   const [springs, api] = useSpring(() => ({
     from: { opacity: 1, x: 0 },
   }));
@@ -72,7 +73,7 @@ const Toast = ({ className, dismiss, testId = 'toast', toast }: ToastProps) => {
 
       return () => clearInterval(dismissInterval);
     }
-  }, [toast]);
+  }, [toast, config]);
 
   return (
     <animated.div
@@ -0,0 +1,97 @@
+import { describe, expect, it, vi } from 'vitest';
+import { PropsWithChildren } from 'react';
+import { http, HttpResponse } from 'msw';
+
+import { renderHook, waitFor } from 'test/test-utils';
+import { server } from 'test/mocks/server';
+import WithAllProviders from 'test/wrappers/WithAllProviders';
+import { configFixture } from '__fixtures__/config';
+import AxiosContextProvider from 'common/providers/AxiosProvider';
+import { customAxios } from 'common/providers/AxiosContext';
+import { REQUEST_ID_HEADER } from 'common/utils/constants';
+import * as UseConfig from 'common/hooks/useConfig';
+
+import { useApi } from './useApi';
+
+describe('useApi', () => {
+  /**
+   * Wraps the hook with the `AxiosContextProvider`, which creates the API
+   * service instances and registers the interceptors.
+   */
+  const WithAxiosProvider = ({ children }: PropsWithChildren) => (
+    <WithAllProviders>
+      <AxiosContextProvider>{children}</AxiosContextProvider>
+    </WithAllProviders>
+  );
+
+  it('should return an instance for the default base URL', async () => {
+    // ARRANGE
+    const { result } = renderHook(() => useApi('tasks'));
+    await waitFor(() => expect(result.current).not.toBeNull());
+
+    // ASSERT
+    expect(result.current.defaults.baseURL).toBe(configFixture.VITE_BASE_URL_API);
+    expect(result.current.defaults.timeout).toBe(0);
+    expect(result.current.defaults.withCredentials).toBe(false);
+    expect(result.current.defaults.authStrategy).toBe('bearer');
+  });
+
+  it('should return an instance for a configured service', async () => {
+    // ARRANGE
+    vi.spyOn(UseConfig, 'useConfig').mockReturnValue({
+      ...configFixture,
+      VITE_API_SERVICES: { files: { baseUrl: 'https://files.example.com', timeoutMillis: 60000, auth: 'cookie' } },
+    });
+    const { result } = renderHook(() => useApi('files'));
+    await waitFor(() => expect(result.current).not.toBeNull());
+
+    // ASSERT
+    expect(result.current.defaults.baseURL).toBe('https://files.example.com');
+    expect(result.current.defaults.timeout).toBe(60000);
+    expect(result.current.defaults.withCredentials).toBe(true);
+    expect(result.current.defaults.authStrategy).toBe('cookie');
+  });
+
+  it('should send requests relative to the base URL', async () => {
+    // ARRANGE
+    server.use(http.get('https://jsonplaceholder.typicode.com/todos/1', () => HttpResponse.json({ id: 1 })));
+    const { result } = renderHook(() => useApi('tasks'));
+    await waitFor(() => expect(result.current).not.toBeNull());
+
+    // ACT
+    const response = await result.current.request({ url: '/todos/1' });
+
+    // ASSERT
+    expect(response.data).toEqual({ id: 1 });
+  });
+
+  it('should apply the interceptors registered by the AxiosContextProvider', async () => {
+    // ARRANGE
+    let requestId: string | null = null;
+    server.use(
+      http.get('https://jsonplaceholder.typicode.com/todos/1', ({ request }) => {
+        requestId = request.headers.get(REQUEST_ID_HEADER);
+        return HttpResponse.json({ id: 1 });
+      }),
+    );
+    const { result } = renderHook(() => useApi('tasks'), { wrapper: WithAxiosProvider });
+    await waitFor(() => expect(result.current).not.toBeNull());
+
+    // ACT
+    await result.current.request({ url: '/todos/1' });
+
+    // ASSERT
+    expect(requestId).toEqual(expect.any(String));
+  });
+
+  it('should not share the interceptors of the context instance', async () => {
+    // ARRANGE
+    const { result } = renderHook(() => useApi('tasks'), { wrapper: WithAxiosProvider });
+    await waitFor(() => expect(result.current).not.toBeNull());
+
+    // ASSERT
+    expect(result.current).not.toBe(customAxios);
+    expect(result.current.interceptors.request).not.toBe(customAxios.interceptors.request);
+    expect(result.current.interceptors.response).not.toBe(customAxios.interceptors.response);
+  });
+});
@@ -0,0 +1,32 @@
+import { useContext, useMemo } from 'react';
+import { AxiosInstance } from 'axios';
+
+import { useConfig } from './useConfig';
+import { ApiContext, createApiInstance } from 'common/providers/AxiosContext';
+import { ApiServiceName, getApiService } from 'common/utils/apiServices';
+
+/**
+ * The `useApi` hook returns an Axios instance preconfigured for an API
+ * service. Request URLs are relative to the service base URL, requests time
+ * out after the service timeout and are authenticated with the service auth
+ * strategy.
+ *
+ * The instance is created by the `AxiosContextProvider`, which registers the
+ * application interceptors on it, so requests are traced, retried, and their
+ * failures normalized alike. Outside of the provider, an instance without
+ * interceptors is returned.
+ * @param {ApiServiceName} name - The service name.
+ * @returns {AxiosInstance} The Axios instance of the service.
+ * @example
+ * const api = useApi('tasks');
+ * const response = await api.request({ url: `/todos/${taskId}` });
+ */
+export const useApi = (name: ApiServiceName): AxiosInstance => {
+  const apiInstances = useContext(ApiContext);
+  const config = useConfig();
+
+  return useMemo(
+    () => apiInstances[name] ?? createApiInstance(getApiService(config, name)),
+    [apiInstances, config, name],
+  );
+};
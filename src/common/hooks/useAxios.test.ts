@@ -8,13 +8,13 @@ import { useAxios } from 'common/hooks/useAxios';
 
 describe('useAxios', () => {
   const useAuthSpy = vi.spyOn(UseAuth, 'useAuth');
-  const refetchUserTokensMock = vi.fn();
+  const refreshUserTokensMock = vi.fn();
 
   beforeEach(() => {
     useAuthSpy.mockReturnValue({
       isAuthenticated: true,
       userToken: userTokensFixture,
-      refetchUserTokens: refetchUserTokensMock,
+      refreshUserTokens: refreshUserTokensMock,
     });
   });
 
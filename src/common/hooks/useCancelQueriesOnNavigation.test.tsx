@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { useQuery } from '@tanstack/react-query';
+import { Outlet, Route, Routes, useNavigate } from 'react-router-dom';
+import userEvent from '@testing-library/user-event';
+
+import { render, screen } from 'test/test-utils';
+import { queryClient } from 'test/query-client';
+import WithQueryClientProvider from 'test/wrappers/WithQueryClientProvider';
+
+import { useCancelQueriesOnNavigation } from './useCancelQueriesOnNavigation';
+
+describe('useCancelQueriesOnNavigation', () => {
+  const signals: Record<string, AbortSignal> = {};
+
+  /**
+   * A query function which never resolves. Records the `AbortSignal`.
+   */
+  const fetchForever =
+    (name: string) =>
+    ({ signal }: { signal: AbortSignal }): Promise<string> => {
+      signals[name] = signal;
+      return new Promise(() => {});
+    };
+
+  /**
+   * A layout which remains mounted while navigating between its child routes.
+   * It observes a query of its own.
+   */
+  function Layout() {
+    useCancelQueriesOnNavigation();
+    useQuery({ queryKey: ['layout'], queryFn: fetchForever('layout') });
+    const navigate = useNavigate();
+
+    return (
+      <>
+        <button type="button" onClick={() => navigate('/other')} data-testid="button-navigate">
+          Navigate
+        </button>
+        <Outlet />
+      </>
+    );
+  }
+
+  it('should cancel fetches which are not observed when navigating', async () => {
+    // ARRANGE
+    const user = userEvent.setup();
+    render(
+      <Routes>
+        <Route element={<Layout />}>
+          <Route path="/" element={<div data-testid="page-home" />} />
+          <Route path="/other" element={<div data-testid="page-other" />} />
+        </Route>
+      </Routes>,
+      { wrapper: WithQueryClientProvider },
+    );
+    await screen.findByTestId('page-home');
+    queryClient.prefetchQuery({ queryKey: ['prefetched'], queryFn: fetchForever('prefetched') });
+
+    // ACT
+    await user.click(screen.getByTestId('button-navigate'));
+    await screen.findByTestId('page-other');
+
+    // ASSERT
+    expect(signals.prefetched.aborted).toBe(true);
+    expect(signals.layout.aborted).toBe(false);
+  });
+});
@@ -0,0 +1,27 @@
+import { useEffect, useRef } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { useLocation } from 'react-router-dom';
+
+/**
+ * The `useCancelQueriesOnNavigation` hook cancels outstanding fetches when the
+ * route changes.
+ *
+ * TanStack Query aborts a fetch when the last component which observes the
+ * query unmounts. Fetches which no component observes, e.g. those started
+ * with `fetchQuery` or `prefetchQuery`, or whose key changed, are cancelled
+ * here. Queries observed by a component which remains mounted, e.g. in a
+ * parent layout, are still displayed, so they are not cancelled.
+ */
+export const useCancelQueriesOnNavigation = (): void => {
+  const queryClient = useQueryClient();
+  const { pathname } = useLocation();
+  const previousPathname = useRef(pathname);
+
+  useEffect(() => {
+    if (pathname === previousPathname.current) {
+      return;
+    }
+    previousPathname.current = pathname;
+    queryClient.cancelQueries({ type: 'inactive', fetchStatus: 'fetching' });
+  }, [queryClient, pathname]);
+};
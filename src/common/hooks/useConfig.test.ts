@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { renderHook as renderHookWithoutWrapper } from '@testing-library/react';
+
+import { renderHook, waitFor } from 'test/test-utils';
+import { configFixture } from '__fixtures__/config';
+
+import { useConfig } from 'common/hooks/useConfig';
+
+describe('useConfig', () => {
+  it('should return the configuration', async () => {
+    // ARRANGE
+    const { result } = renderHook(() => useConfig());
+    await waitFor(() => expect(result.current).not.toBeNull());
+
+    // ASSERT
+    expect(result.current).toEqual(configFixture);
+  });
+
+  it('should throw error when not within provider', () => {
+    // ASSERT
+    expect(() => renderHookWithoutWrapper(() => useConfig())).toThrow(/hook must be used within/);
+  });
+});
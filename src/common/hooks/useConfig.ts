@@ -0,0 +1,18 @@
+import { useContext } from 'react';
+
+import { Config } from 'common/utils/config';
+import { ConfigContext } from 'common/providers/ConfigContext';
+
+/**
+ * The `useConfig` hook returns the current `ConfigContext` value.
+ * @returns {Config} The current `ConfigContext` value, `Config`.
+ * @see {@link Config}
+ */
+export const useConfig = (): Config => {
+  const context = useContext(ConfigContext);
+  if (!context) {
+    throw new Error('useConfig hook must be used within a ConfigContextProvider');
+  }
+
+  return context;
+};
@@ -0,0 +1,35 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { renderHook, waitFor } from 'test/test-utils';
+import * as UseFeatureFlags from 'common/hooks/useFeatureFlags';
+import { FeatureFlagsContextValue } from 'common/providers/FeatureFlagsContext';
+
+import { useFeatureFlag } from './useFeatureFlag';
+
+describe('useFeatureFlag', () => {
+  const useFeatureFlagsSpy = vi.spyOn(UseFeatureFlags, 'useFeatureFlags');
+
+  beforeEach(() => {
+    useFeatureFlagsSpy.mockReturnValue({
+      flags: { passkeys: true, sessions: false },
+    } as unknown as FeatureFlagsContextValue);
+  });
+
+  it('should return true when flag is enabled', async () => {
+    // ARRANGE
+    const { result } = renderHook(() => useFeatureFlag('passkeys'));
+    await waitFor(() => expect(result.current).not.toBeNull());
+
+    // ASSERT
+    expect(result.current).toBe(true);
+  });
+
+  it('should return false when flag is not enabled', async () => {
+    // ARRANGE
+    const { result } = renderHook(() => useFeatureFlag('sessions'));
+    await waitFor(() => expect(result.current).not.toBeNull());
+
+    // ASSERT
+    expect(result.current).toBe(false);
+  });
+});
@@ -0,0 +1,13 @@
+import { useFeatureFlags } from './useFeatureFlags';
+import { FeatureFlag } from 'common/utils/flags';
+
+/**
+ * The `useFeatureFlag` hook determines if a feature flag is enabled.
+ * @param {FeatureFlag} flag - The `FeatureFlag`.
+ * @returns {boolean} Returns `true` if the flag is enabled.
+ */
+export const useFeatureFlag = (flag: FeatureFlag): boolean => {
+  const { flags } = useFeatureFlags();
+
+  return flags[flag];
+};
@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { renderHook as renderHookWithoutWrapper } from '@testing-library/react';
+
+import { renderHook, waitFor } from 'test/test-utils';
+
+import { useFeatureFlags } from 'common/hooks/useFeatureFlags';
+
+describe('useFeatureFlags', () => {
+  it('should return the context value', async () => {
+    // ARRANGE
+    const { result } = renderHook(() => useFeatureFlags());
+    await waitFor(() => expect(result.current).not.toBeNull());
+
+    // ASSERT
+    expect(result.current.flags).toBeDefined();
+    expect(result.current.isOverrideAllowed).toBe(true);
+  });
+
+  it('should throw error when not within provider', () => {
+    // ASSERT
+    expect(() => renderHookWithoutWrapper(() => useFeatureFlags())).toThrow(/hook must be used within/);
+  });
+});
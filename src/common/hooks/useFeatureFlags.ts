@@ -0,0 +1,17 @@
+import { useContext } from 'react';
+
+import { FeatureFlagsContext, FeatureFlagsContextValue } from 'common/providers/FeatureFlagsContext';
+
+/**
+ * The `useFeatureFlags` hook returns the current `FeatureFlagsContext` value.
+ * @returns {FeatureFlagsContextValue} The current `FeatureFlagsContext` value.
+ * @see {@link FeatureFlagsContextValue}
+ */
+export const useFeatureFlags = (): FeatureFlagsContextValue => {
+  const context = useContext(FeatureFlagsContext);
+  if (!context) {
+    throw new Error('useFeatureFlags hook must be used within a FeatureFlagsContextProvider');
+  }
+
+  return context;
+};
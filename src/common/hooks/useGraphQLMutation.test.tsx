@@ -0,0 +1,83 @@
+import { describe, expect, it, vi } from 'vitest';
+import { PropsWithChildren } from 'react';
+
+import { renderHook, waitFor } from 'test/test-utils';
+import WithAllProviders from 'test/wrappers/WithAllProviders';
+import { todosFixture } from '__fixtures__/todos';
+import { userTokensFixture } from '__fixtures__/tokens';
+import * as UseAuth from 'common/hooks/useAuth';
+import AxiosContextProvider from 'common/providers/AxiosProvider';
+import { Task } from 'common/api/generated/models';
+import { gql } from 'common/utils/graphql';
+
+import { useGraphQLMutation } from './useGraphQLMutation';
+
+describe('useGraphQLMutation', () => {
+  /**
+   * Wraps the hook with the `AxiosContextProvider`, so that the request
+   * interceptors are applied.
+   */
+  const WithAxiosProvider = ({ children }: PropsWithChildren) => (
+    <WithAllProviders>
+      <AxiosContextProvider>{children}</AxiosContextProvider>
+    </WithAllProviders>
+  );
+
+  const UpdateTaskDocument = gql<{ updateTask: Task | null }, { task: Task }>`
+    mutation UpdateTask($task: TaskInput!) {
+      updateTask(task: $task) {
+        id
+        userId
+        title
+        completed
+      }
+    }
+  `;
+
+  it('should send the mutation', async () => {
+    // ARRANGE
+    const task = { ...todosFixture[0], completed: !todosFixture[0].completed };
+    const { result } = renderHook(() => useGraphQLMutation('tasks', UpdateTaskDocument));
+    await waitFor(() => expect(result.current).not.toBeNull());
+
+    // ACT
+    result.current.mutate({ task });
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+    // ASSERT
+    expect(result.current.data?.updateTask).toEqual(task);
+  });
+
+  it('should error when the response has errors', async () => {
+    // ARRANGE
+    const { result } = renderHook(() => useGraphQLMutation('tasks', UpdateTaskDocument));
+    await waitFor(() => expect(result.current).not.toBeNull());
+
+    // ACT
+    result.current.mutate({ task: { ...todosFixture[0], id: 0 } });
+    await waitFor(() => expect(result.current.isError).toBe(true));
+
+    // ASSERT
+    expect(result.current.error?.message).toBe('Task not found.');
+  });
+
+  it('should reject the mutation while impersonating', async () => {
+    // ARRANGE
+    vi.spyOn(UseAuth, 'useAuth').mockReturnValue({
+      isAuthenticated: true,
+      userToken: userTokensFixture,
+      impersonatedUser: { id: 2, name: 'Ervin Howell', username: 'Antonette' },
+    });
+    const { result } = renderHook(() => useGraphQLMutation('tasks', UpdateTaskDocument), {
+      wrapper: WithAxiosProvider,
+    });
+    await waitFor(() => expect(result.current).not.toBeNull());
+
+    // ACT
+    result.current.mutate({ task: todosFixture[0] });
+    await waitFor(() => expect(result.current.isError).toBe(true));
+
+    // ASSERT
+    expect(result.current.error?.message).toBe('Changes are not allowed while viewing as Ervin Howell.');
+  });
+});
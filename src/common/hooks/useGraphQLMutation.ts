@@ -0,0 +1,45 @@
+import { UseMutationOptions, UseMutationResult, useMutation } from '@tanstack/react-query';
+import { z } from 'zod';
+
+import { useApi } from './useApi';
+import { ApiServiceName } from 'common/utils/apiServices';
+import { GraphQLDocument, GraphQLVariables, requestGraphQL } from 'common/utils/graphql';
+
+/**
+ * Options for `useGraphQLMutation`.
+ * @param [schema] - Optional. The zod schema of the result data.
+ */
+export type UseGraphQLMutationOptions<TData, TVariables extends GraphQLVariables> = Omit<
+  UseMutationOptions<TData, Error, TVariables>,
+  'mutationFn'
+> & {
+  schema?: z.ZodType<TData>;
+};
+
+/**
+ * An API hook which sends a GraphQL mutation to an API service.
+ * Returns a `UseMutationResult` object whose `mutate` attribute is a function
+ * to send the mutation with its variables.
+ * @param {ApiServiceName} service - The name of the API service.
+ * @param {GraphQLDocument} document - The mutation document.
+ * @param {UseGraphQLMutationOptions} [options] - Optional. The mutation
+ * options, e.g. `mutationKey` and `onSuccess`.
+ * @returns Returns a `UseMutationResult` with the result data.
+ * @example
+ * const { mutate } = useGraphQLMutation('tasks', UpdateTaskDocument, {
+ *   mutationKey: [QueryKey.Tasks, 'UpdateTask'],
+ *   onSuccess: () => queryClient.invalidateQueries({ queryKey: [QueryKey.Tasks] }),
+ * });
+ */
+export const useGraphQLMutation = <TData, TVariables extends GraphQLVariables>(
+  service: ApiServiceName,
+  document: GraphQLDocument<TData, TVariables>,
+  { schema, ...options }: UseGraphQLMutationOptions<TData, TVariables> = {},
+): UseMutationResult<TData, Error, TVariables> => {
+  const api = useApi(service);
+
+  return useMutation({
+    ...options,
+    mutationFn: (variables) => requestGraphQL(api, document, variables, { schema }),
+  });
+};
@@ -0,0 +1,109 @@
+import { describe, expect, it, vi } from 'vitest';
+import { PropsWithChildren } from 'react';
+import { skipToken } from '@tanstack/react-query';
+import { graphql, HttpResponse } from 'msw';
+
+import { renderHook, waitFor } from 'test/test-utils';
+import WithAllProviders from 'test/wrappers/WithAllProviders';
+import { queryClient } from 'test/query-client';
+import { server } from 'test/mocks/server';
+import { userTokensFixture } from '__fixtures__/tokens';
+import { todosFixture } from '__fixtures__/todos';
+import { Task } from 'common/api/generated/models';
+import * as UseAuth from 'common/hooks/useAuth';
+import AxiosContextProvider from 'common/providers/AxiosProvider';
+import { IDEMPOTENCY_KEY_HEADER, IMPERSONATION_HEADER, QueryKey } from 'common/utils/constants';
+import { gql } from 'common/utils/graphql';
+
+import { useGraphQLQuery } from './useGraphQLQuery';
+
+describe('useGraphQLQuery', () => {
+  /**
+   * Wraps the hook with the `AxiosContextProvider`, so that the request
+   * interceptors are applied.
+   */
+  const WithAxiosProvider = ({ children }: PropsWithChildren) => (
+    <WithAllProviders>
+      <AxiosContextProvider>{children}</AxiosContextProvider>
+    </WithAllProviders>
+  );
+
+  const GetUserTasksDocument = gql<{ tasks: Task[] }, { userId: number }>`
+    query GetUserTasks($userId: Int!) {
+      tasks(userId: $userId) {
+        id
+        userId
+        title
+        completed
+      }
+    }
+  `;
+
+  it('should get the result data', async () => {
+    // ARRANGE
+    const { result } = renderHook(() =>
+      useGraphQLQuery('tasks', GetUserTasksDocument, { queryKey: [QueryKey.Tasks], variables: { userId: 1 } }),
+    );
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+    // ASSERT
+    expect(result.current.data?.tasks).toEqual(todosFixture.filter((task) => task.userId === 1));
+    expect(queryClient.getQueryData([QueryKey.Tasks, 'GetUserTasks', { userId: 1 }])).toEqual(result.current.data);
+  });
+
+  it('should get the result data while impersonating', async () => {
+    // ARRANGE
+    vi.spyOn(UseAuth, 'useAuth').mockReturnValue({
+      isAuthenticated: true,
+      userToken: userTokensFixture,
+      impersonatedUser: { id: 2, name: 'Ervin Howell', username: 'Antonette' },
+    });
+    let headers: Headers | undefined;
+    server.use(
+      graphql.query('GetUserTasks', ({ request }) => {
+        headers = request.headers;
+        return HttpResponse.json({ data: { tasks: [] } });
+      }),
+    );
+    const { result } = renderHook(
+      () => useGraphQLQuery('tasks', GetUserTasksDocument, { queryKey: [QueryKey.Tasks], variables: { userId: 2 } }),
+      { wrapper: WithAxiosProvider },
+    );
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+    // ASSERT
+    expect(result.current.data?.tasks).toEqual([]);
+    expect(headers?.get(IMPERSONATION_HEADER)).toBe('2');
+    expect(headers?.has(IDEMPOTENCY_KEY_HEADER)).toBe(false);
+  });
+
+  it('should not fetch while the variables are skipped', async () => {
+    // ARRANGE
+    const { result } = renderHook(() =>
+      useGraphQLQuery('tasks', GetUserTasksDocument, { queryKey: [QueryKey.Tasks], variables: skipToken }),
+    );
+    await waitFor(() => expect(result.current).not.toBeNull());
+
+    // ASSERT
+    expect(result.current.fetchStatus).toBe('idle');
+    expect(result.current.isPending).toBe(true);
+  });
+
+  it('should error when the response has errors', async () => {
+    // ARRANGE
+    const GetTaskDocument = gql<{ task: Task | null }, { taskId: number }>`
+      query GetTask($taskId: Int!) {
+        task(id: $taskId) {
+          id
+        }
+      }
+    `;
+    const { result } = renderHook(() =>
+      useGraphQLQuery('tasks', GetTaskDocument, { queryKey: [QueryKey.Tasks], variables: { taskId: 0 }, retry: false }),
+    );
+    await waitFor(() => expect(result.current.isError).toBe(true));
+
+    // ASSERT
+    expect(result.current.error?.message).toBe('Task not found.');
+  });
+});
@@ -0,0 +1,56 @@
+import { SkipToken, UseQueryOptions, UseQueryResult, skipToken, useQuery } from '@tanstack/react-query';
+import { z } from 'zod';
+
+import { useApi } from './useApi';
+import { ApiServiceName } from 'common/utils/apiServices';
+import { GraphQLDocument, GraphQLVariables, requestGraphQL } from 'common/utils/graphql';
+
+/**
+ * Options for `useGraphQLQuery`.
+ * @param queryKey - The base query key, e.g. `[QueryKey.Tasks]`. The
+ * operation name and the variables are appended.
+ * @param [variables] - Optional. The operation variables. The query is
+ * disabled while `skipToken`.
+ * @param [schema] - Optional. The zod schema of the result data.
+ */
+export type UseGraphQLQueryOptions<TData, TVariables extends GraphQLVariables> = Omit<
+  UseQueryOptions<TData, Error>,
+  'queryKey' | 'queryFn'
+> & {
+  queryKey: readonly unknown[];
+  variables?: TVariables | SkipToken;
+  schema?: z.ZodType<TData>;
+};
+
+/**
+ * An API hook which fetches the result of a GraphQL query from an API service.
+ *
+ * The query key is the base `queryKey` followed by the operation name and the
+ * variables, so that GraphQL and REST queries of the same resource are
+ * invalidated together without sharing cached data.
+ * @param {ApiServiceName} service - The name of the API service.
+ * @param {GraphQLDocument} document - The query document.
+ * @param {UseGraphQLQueryOptions} options - The query options.
+ * @returns Returns a `UseQueryResult` with the result data.
+ * @example
+ * const { data } = useGraphQLQuery('tasks', GetTaskDocument, {
+ *   queryKey: [QueryKey.Tasks],
+ *   variables: taskId ? { taskId } : skipToken,
+ * });
+ */
+export const useGraphQLQuery = <TData, TVariables extends GraphQLVariables>(
+  service: ApiServiceName,
+  document: GraphQLDocument<TData, TVariables>,
+  { queryKey, variables, schema, ...options }: UseGraphQLQueryOptions<TData, TVariables>,
+): UseQueryResult<TData, Error> => {
+  const api = useApi(service);
+
+  return useQuery({
+    ...options,
+    queryKey: [...queryKey, document.operationName, ...(variables && variables !== skipToken ? [variables] : [])],
+    queryFn:
+      variables === skipToken
+        ? skipToken
+        : ({ signal }) => requestGraphQL(api, document, variables, { schema, signal }),
+  });
+};
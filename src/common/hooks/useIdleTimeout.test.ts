@@ -0,0 +1,129 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+
+import { StorageKey } from 'common/utils/constants';
+import storage from 'common/utils/storage';
+
+import { useIdleTimeout, UseIdleTimeoutOptions } from './useIdleTimeout';
+
+describe('useIdleTimeout', () => {
+  const onTimeout = vi.fn();
+  const options: UseIdleTimeoutOptions = {
+    isEnabled: true,
+    timeoutMillis: 10000,
+    warningMillis: 3000,
+    onTimeout,
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should record activity when enabled', () => {
+    // ARRANGE
+    renderHook(() => useIdleTimeout(options));
+
+    // ASSERT
+    expect(storage.getItem(StorageKey.LastActivity)).toBe(`${Date.now()}`);
+  });
+
+  it('should warn before the timeout', () => {
+    // ARRANGE
+    const { result } = renderHook(() => useIdleTimeout(options));
+    expect(result.current.isWarning).toBe(false);
+
+    // ACT
+    act(() => vi.advanceTimersByTime(8000));
+
+    // ASSERT
+    expect(result.current.isWarning).toBe(true);
+    expect(result.current.remainingSeconds).toBe(2);
+    expect(onTimeout).not.toHaveBeenCalled();
+  });
+
+  it('should call onTimeout once when idle', () => {
+    // ARRANGE
+    renderHook(() => useIdleTimeout(options));
+
+    // ACT
+    act(() => vi.advanceTimersByTime(15000));
+
+    // ASSERT
+    expect(onTimeout).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reset when user is active', () => {
+    // ARRANGE
+    const { result } = renderHook(() => useIdleTimeout(options));
+
+    // ACT
+    act(() => vi.advanceTimersByTime(5000));
+    act(() => {
+      window.dispatchEvent(new KeyboardEvent('keydown'));
+    });
+    act(() => vi.advanceTimersByTime(5000));
+
+    // ASSERT
+    expect(result.current.isWarning).toBe(false);
+    expect(onTimeout).not.toHaveBeenCalled();
+  });
+
+  it('should ignore passive activity while warning', () => {
+    // ARRANGE
+    const { result } = renderHook(() => useIdleTimeout(options));
+    act(() => vi.advanceTimersByTime(8000));
+
+    // ACT
+    act(() => {
+      window.dispatchEvent(new MouseEvent('mousemove'));
+    });
+    act(() => vi.advanceTimersByTime(1000));
+
+    // ASSERT
+    expect(result.current.isWarning).toBe(true);
+  });
+
+  it('should stay active', () => {
+    // ARRANGE
+    const { result } = renderHook(() => useIdleTimeout(options));
+    act(() => vi.advanceTimersByTime(8000));
+
+    // ACT
+    act(() => result.current.stayActive());
+    act(() => vi.advanceTimersByTime(5000));
+
+    // ASSERT
+    expect(result.current.isWarning).toBe(false);
+    expect(onTimeout).not.toHaveBeenCalled();
+  });
+
+  it('should count activity in other tabs', () => {
+    // ARRANGE
+    const { result } = renderHook(() => useIdleTimeout(options));
+    act(() => vi.advanceTimersByTime(8000));
+
+    // ACT
+    storage.setItem(StorageKey.LastActivity, `${Date.now()}`);
+    act(() => vi.advanceTimersByTime(1000));
+
+    // ASSERT
+    expect(result.current.isWarning).toBe(false);
+  });
+
+  it('should not track activity when disabled', () => {
+    // ARRANGE
+    renderHook(() => useIdleTimeout({ ...options, isEnabled: false }));
+
+    // ACT
+    act(() => vi.advanceTimersByTime(15000));
+
+    // ASSERT
+    expect(storage.getItem(StorageKey.LastActivity)).toBeNull();
+    expect(onTimeout).not.toHaveBeenCalled();
+  });
+});
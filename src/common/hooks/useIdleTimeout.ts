@@ -0,0 +1,125 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import throttle from 'lodash/throttle';
+
+import { StorageKey } from 'common/utils/constants';
+import storage from 'common/utils/storage';
+
+/**
+ * The DOM events which indicate user activity.
+ */
+const ACTIVITY_EVENTS = ['keydown', 'mousedown', 'mousemove', 'scroll', 'touchstart', 'wheel'] as const;
+
+/**
+ * The number of milliseconds between checks of the idle state.
+ */
+const CHECK_INTERVAL_MILLIS = 1000;
+
+/**
+ * Options for the `useIdleTimeout` hook.
+ * @param isEnabled - Indicates if activity is tracked, e.g. while authenticated.
+ * @param timeoutMillis - The duration of inactivity before `onTimeout` is called.
+ * @param warningMillis - The duration before the timeout when the warning begins.
+ * @param onTimeout - Called once when the timeout is reached.
+ */
+export type UseIdleTimeoutOptions = {
+  isEnabled: boolean;
+  timeoutMillis: number;
+  warningMillis: number;
+  onTimeout: () => void;
+};
+
+/**
+ * The value returned by the `useIdleTimeout` hook.
+ * @param isWarning - Indicates if the timeout is approaching.
+ * @param remainingSeconds - The number of seconds until the timeout.
+ * @param stayActive - Records activity, dismissing the warning.
+ */
+export type UseIdleTimeoutResult = {
+  isWarning: boolean;
+  remainingSeconds: number;
+  stayActive: () => void;
+};
+
+/**
+ * Records user activity. The timestamp is kept in storage so that activity in
+ * any tab keeps every tab active.
+ */
+const recordActivity = (): void => {
+  storage.setItem(StorageKey.LastActivity, `${Date.now()}`);
+};
+
+/**
+ * The `useIdleTimeout` hook tracks user activity and calls `onTimeout` after
+ * a period of inactivity. Activity in other tabs of the application counts.
+ *
+ * During the warning period passive activity, e.g. moving the mouse, is
+ * ignored; the user must call `stayActive`, e.g. by clicking a button.
+ * @param {UseIdleTimeoutOptions} options - The hook options.
+ * @returns {UseIdleTimeoutResult} The idle state.
+ */
+export const useIdleTimeout = ({
+  isEnabled,
+  timeoutMillis,
+  warningMillis,
+  onTimeout,
+}: UseIdleTimeoutOptions): UseIdleTimeoutResult => {
+  const [remainingMillis, setRemainingMillis] = useState(timeoutMillis);
+  const isWarning = isEnabled && remainingMillis <= warningMillis;
+  const isWarningRef = useRef(isWarning);
+  isWarningRef.current = isWarning;
+  const onTimeoutRef = useRef(onTimeout);
+  onTimeoutRef.current = onTimeout;
+
+  useEffect(() => {
+    if (!isEnabled) {
+      return;
+    }
+
+    const getRemainingMillis = (): number => {
+      const lastActivity = Number(storage.getItem(StorageKey.LastActivity));
+      return lastActivity + timeoutMillis - Date.now();
+    };
+
+    // continue the existing session when another tab is active
+    if (!storage.getItem(StorageKey.LastActivity)) {
+      recordActivity();
+    }
+
+    const onActivity = throttle(() => {
+      if (!isWarningRef.current) {
+        recordActivity();
+      }
+    }, CHECK_INTERVAL_MILLIS);
+
+    let isTimedOut = false;
+    const check = () => {
+      const remaining = getRemainingMillis();
+      setRemainingMillis(remaining);
+      if (remaining <= 0 && !isTimedOut) {
+        isTimedOut = true;
+        onTimeoutRef.current();
+      }
+    };
+    check();
+
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, onActivity, { passive: true }));
+    const intervalId = setInterval(check, CHECK_INTERVAL_MILLIS);
+
+    return () => {
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, onActivity));
+      onActivity.cancel();
+      clearInterval(intervalId);
+    };
+  }, [isEnabled, timeoutMillis]);
+
+  const stayActive = useCallback(() => {
+    recordActivity();
+    setRemainingMillis(timeoutMillis);
+  }, [timeoutMillis]);
+
+  return {
+    isWarning,
+    remainingSeconds: Math.max(Math.ceil(remainingMillis / 1000), 0),
+    stayActive,
+  };
+};
@@ -0,0 +1,55 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { renderHook, waitFor } from 'test/test-utils';
+import * as UseAuth from 'common/hooks/useAuth';
+import { Permission } from 'common/utils/constants';
+
+import { usePermission } from './usePermission';
+
+describe('usePermission', () => {
+  const useAuthSpy = vi.spyOn(UseAuth, 'useAuth');
+
+  beforeEach(() => {
+    useAuthSpy.mockReturnValue({
+      isAuthenticated: true,
+      permissions: [Permission.TasksRead, Permission.TasksUpdate],
+    });
+  });
+
+  it('should return true when permission is granted', async () => {
+    // ARRANGE
+    const { result } = renderHook(() => usePermission(Permission.TasksRead));
+    await waitFor(() => expect(result.current).not.toBeNull());
+
+    // ASSERT
+    expect(result.current).toBe(true);
+  });
+
+  it('should return true when every permission is granted', async () => {
+    // ARRANGE
+    const { result } = renderHook(() => usePermission([Permission.TasksRead, Permission.TasksUpdate]));
+    await waitFor(() => expect(result.current).not.toBeNull());
+
+    // ASSERT
+    expect(result.current).toBe(true);
+  });
+
+  it('should return false when a permission is not granted', async () => {
+    // ARRANGE
+    const { result } = renderHook(() => usePermission([Permission.TasksRead, Permission.TasksDelete]));
+    await waitFor(() => expect(result.current).not.toBeNull());
+
+    // ASSERT
+    expect(result.current).toBe(false);
+  });
+
+  it('should return false when not authenticated', async () => {
+    // ARRANGE
+    useAuthSpy.mockReturnValue({ isAuthenticated: false, permissions: [Permission.TasksRead] });
+    const { result } = renderHook(() => usePermission(Permission.TasksRead));
+    await waitFor(() => expect(result.current).not.toBeNull());
+
+    // ASSERT
+    expect(result.current).toBe(false);
+  });
+});
@@ -0,0 +1,16 @@
+import { useAuth } from './useAuth';
+import { hasEveryPermission } from 'common/utils/authorization';
+import { Permission } from 'common/utils/constants';
+
+/**
+ * The `usePermission` hook determines if the authenticated user holds the
+ * supplied permission(s).
+ * @param {Permission | Permission[]} permission - A `Permission` or an array
+ * of permissions which are all required.
+ * @returns {boolean} Returns `true` if the user holds every permission.
+ */
+export const usePermission = (permission: Permission | Permission[]): boolean => {
+  const { isAuthenticated, permissions } = useAuth();
+
+  return isAuthenticated && hasEveryPermission(permissions, ([] as Permission[]).concat(permission));
+};
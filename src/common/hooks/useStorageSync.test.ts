@@ -0,0 +1,77 @@
+import { afterEach, beforeEach, describe, expect, it, MockInstance, vi } from 'vitest';
+
+import { renderHook as renderHookWithoutWrapper } from '@testing-library/react';
+
+import { queryClient } from 'test/query-client';
+import WithQueryClientProvider from 'test/wrappers/WithQueryClientProvider';
+import { QueryKey, StorageKey } from 'common/utils/constants';
+
+import { useStorageSync } from './useStorageSync';
+
+describe('useStorageSync', () => {
+  let invalidateQueriesSpy: MockInstance;
+  let resetQueriesSpy: MockInstance;
+
+  const renderHook = (storageKey: StorageKey, queryKey: unknown[]) =>
+    renderHookWithoutWrapper(() => useStorageSync(storageKey, queryKey), { wrapper: WithQueryClientProvider });
+
+  const dispatchStorageEvent = (init: StorageEventInit) => {
+    window.dispatchEvent(new StorageEvent('storage', { storageArea: localStorage, ...init }));
+  };
+
+  beforeEach(() => {
+    invalidateQueriesSpy = vi.spyOn(queryClient, 'invalidateQueries');
+    resetQueriesSpy = vi.spyOn(queryClient, 'resetQueries');
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should invalidate queries when item changes in another tab', () => {
+    // ARRANGE
+    renderHook(StorageKey.Settings, [QueryKey.Settings]);
+
+    // ACT
+    dispatchStorageEvent({ key: StorageKey.Settings, newValue: '{"theme":"dark"}' });
+
+    // ASSERT
+    expect(invalidateQueriesSpy).toHaveBeenCalledWith({ queryKey: [QueryKey.Settings] });
+    expect(resetQueriesSpy).not.toHaveBeenCalled();
+  });
+
+  it('should reset queries when item is removed in another tab', () => {
+    // ARRANGE
+    renderHook(StorageKey.UserTokens, [QueryKey.UserTokens]);
+
+    // ACT
+    dispatchStorageEvent({ key: StorageKey.UserTokens, newValue: null });
+
+    // ASSERT
+    expect(resetQueriesSpy).toHaveBeenCalledWith({ queryKey: [QueryKey.UserTokens] });
+  });
+
+  it('should reset queries when storage is cleared in another tab', () => {
+    // ARRANGE
+    renderHook(StorageKey.Settings, [QueryKey.Settings]);
+
+    // ACT
+    dispatchStorageEvent({ key: null, newValue: null });
+
+    // ASSERT
+    expect(resetQueriesSpy).toHaveBeenCalledWith({ queryKey: [QueryKey.Settings] });
+  });
+
+  it('should ignore changes to other items', () => {
+    // ARRANGE
+    renderHook(StorageKey.Settings, [QueryKey.Settings]);
+
+    // ACT
+    dispatchStorageEvent({ key: StorageKey.Language, newValue: 'es' });
+    dispatchStorageEvent({ key: StorageKey.Settings, newValue: '{}', storageArea: sessionStorage });
+
+    // ASSERT
+    expect(invalidateQueriesSpy).not.toHaveBeenCalled();
+    expect(resetQueriesSpy).not.toHaveBeenCalled();
+  });
+});
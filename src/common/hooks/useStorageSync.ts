@@ -0,0 +1,38 @@
+import { useEffect } from 'react';
+import { QueryKey as ReactQueryKey, useQueryClient } from '@tanstack/react-query';
+
+import { StorageKey } from 'common/utils/constants';
+
+/**
+ * The `useStorageSync` hook keeps the React Query cache synchronized with
+ * browser storage changes made in other tabs or windows.
+ *
+ * The browser dispatches a `storage` event in every other document of the
+ * same origin when an item is written or removed. When the item identified by
+ * `storageKey` changes, the queries matching `queryKey` are invalidated so they
+ * are read from storage again. When the item is removed, or storage is cleared,
+ * the queries are reset, matching the behavior of signing out in this tab.
+ * @param {StorageKey} storageKey - The storage key to observe.
+ * @param {ReactQueryKey} queryKey - The query key of the cached value.
+ */
+export const useStorageSync = (storageKey: StorageKey, queryKey: ReactQueryKey): void => {
+  const queryClient = useQueryClient();
+  const queryHash = JSON.stringify(queryKey);
+
+  useEffect(() => {
+    const onStorage = (event: StorageEvent): void => {
+      if (event.storageArea !== localStorage || (event.key !== null && event.key !== storageKey)) {
+        return;
+      }
+      const matchingQueryKey: ReactQueryKey = JSON.parse(queryHash);
+      if (event.newValue === null) {
+        queryClient.resetQueries({ queryKey: matchingQueryKey });
+      } else {
+        queryClient.invalidateQueries({ queryKey: matchingQueryKey });
+      }
+    };
+
+    window.addEventListener('storage', onStorage);
+    return () => window.removeEventListener('storage', onStorage);
+  }, [queryClient, storageKey, queryHash]);
+};
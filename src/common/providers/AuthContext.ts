@@ -1,15 +1,47 @@
 import { createContext } from 'react';
-import { QueryObserverBaseResult } from '@tanstack/react-query';
 
 import { UserTokens } from 'common/api/useGetUserTokens';
+import { User } from 'common/api/generated/models';
+import { Claims } from 'common/utils/claims';
+import { OidcProviderConfig } from 'common/utils/config';
+
+/**
+ * The `User` whom an administrator is viewing the application as.
+ */
+export type ImpersonatedUser = Pick<User, 'id' | 'name' | 'username'>;
 
 /**
  * The `value` provided by the `AuthContext`.
+ * @param isAuthenticated - Indicates if the user is authenticated.
+ * @param [userToken] - Optional. The current `UserTokens`.
+ * @param [claims] - Optional. The validated claims of the id token.
+ * @param [provider] - Optional. The OIDC provider which issued the tokens.
+ * @param [roles] - Optional. The roles granted to the user by the id token.
+ * @param [permissions] - Optional. The permissions granted to the user by the
+ * id token.
+ * @param [getUserTokens] - Optional. Returns the current `UserTokens`,
+ * refreshing them first when they are about to expire.
+ * @param [refreshUserTokens] - Optional. Refreshes the `UserTokens`. Concurrent
+ * calls share a single refresh. When the refresh fails, the user is signed out.
+ * @param [impersonatedUser] - Optional. The user whom the authenticated
+ * administrator is viewing the application as. The `claims` remain those of
+ * the authenticated user.
+ * @param [startImpersonation] - Optional. Views the application as the
+ * supplied user. Administrators only.
+ * @param [stopImpersonation] - Optional. Returns to the authenticated user.
  */
 export interface AuthContextValue {
   isAuthenticated: boolean;
   userToken?: UserTokens;
-  refetchUserTokens?: () => Promise<QueryObserverBaseResult<UserTokens, Error>>;
+  claims?: Claims;
+  provider?: OidcProviderConfig;
+  roles?: string[];
+  permissions?: string[];
+  getUserTokens?: () => Promise<UserTokens | undefined>;
+  refreshUserTokens?: () => Promise<UserTokens>;
+  impersonatedUser?: ImpersonatedUser;
+  startImpersonation?: (user: ImpersonatedUser) => void;
+  stopImpersonation?: () => void;
 }
 
 /**
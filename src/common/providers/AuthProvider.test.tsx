@@ -1,17 +1,43 @@
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 import { UseQueryResult } from '@tanstack/react-query';
 
-import { render, screen } from 'test/test-utils';
+import userEvent from '@testing-library/user-event';
+import { render, screen, waitFor } from 'test/test-utils';
 
+import { createMockIdToken } from 'test/mocks/idp';
 import { userTokensFixture } from '__fixtures__/tokens';
 import * as UseGetUserTokens from 'common/api/useGetUserTokens';
+import { useAuth } from 'common/hooks/useAuth';
+import { StorageKey } from 'common/utils/constants';
+import storage from 'common/utils/storage';
+import tokenManager from 'common/utils/tokenManager';
 
 import AuthContextProvider from 'common/providers/AuthProvider';
 
 describe('AuthProvider', () => {
   const useGetUserTokensSpy = vi.spyOn(UseGetUserTokens, 'useGetUserTokens');
+  const refreshSpy = vi.spyOn(tokenManager, 'refresh');
+
+  /**
+   * Renders the impersonated user with controls to start and stop the
+   * impersonation.
+   */
+  function ImpersonationTester() {
+    const { impersonatedUser, startImpersonation, stopImpersonation } = useAuth();
+
+    return (
+      <div data-testid="provider-auth-ready">
+        <div data-testid="provider-auth-impersonated-user">{impersonatedUser?.username}</div>
+        <button onClick={() => startImpersonation?.({ id: 2, name: 'Ervin Howell', username: 'Antonette' })}>
+          Start
+        </button>
+        <button onClick={() => stopImpersonation?.()}>Stop</button>
+      </div>
+    );
+  }
 
   beforeEach(() => {
+    refreshSpy.mockResolvedValue(userTokensFixture);
     useGetUserTokensSpy.mockReturnValue({
       data: userTokensFixture,
       isPending: false,
@@ -62,4 +88,133 @@ describe('AuthProvider', () => {
     // ASSERT
     expect(screen.getByTestId('provider-auth')).toBeDefined();
   });
+
+  it('should refresh tokens before they expire', async () => {
+    // ARRANGE
+    useGetUserTokensSpy.mockReturnValue({
+      data: { ...userTokensFixture, id_token: createMockIdToken(1, { exp: Math.floor(Date.now() / 1000) }) },
+      isPending: false,
+      isSuccess: true,
+    } as unknown as UseQueryResult<UseGetUserTokens.UserTokens, Error>);
+    render(
+      <AuthContextProvider>
+        <div data-testid="provider-auth-ready"></div>
+      </AuthContextProvider>,
+    );
+    await screen.findByTestId('provider-auth-ready');
+    await waitFor(() => expect(refreshSpy).toHaveBeenCalled());
+
+    // ASSERT
+    expect(refreshSpy).toHaveBeenCalled();
+  });
+
+  it('should not refresh tokens which expire beyond the maximum timeout delay', async () => {
+    // ARRANGE
+    const setTimeoutSpy = vi.spyOn(globalThis, 'setTimeout');
+    useGetUserTokensSpy.mockReturnValue({
+      data: { ...userTokensFixture, id_token: createMockIdToken(1, { exp: 4102444800 }) },
+      isPending: false,
+      isSuccess: true,
+    } as unknown as UseQueryResult<UseGetUserTokens.UserTokens, Error>);
+    render(
+      <AuthContextProvider>
+        <div data-testid="provider-auth-ready"></div>
+      </AuthContextProvider>,
+    );
+    await screen.findByTestId('provider-auth-ready');
+    await waitFor(() => expect(setTimeoutSpy).toHaveBeenCalledWith(expect.any(Function), 2_147_483_647));
+
+    // ASSERT
+    expect(setTimeoutSpy).not.toHaveBeenCalledWith(
+      expect.any(Function),
+      expect.toSatisfy((delay: number) => delay > 2_147_483_647),
+    );
+    expect(refreshSpy).not.toHaveBeenCalled();
+  });
+
+  it('should sign out when token refresh fails', async () => {
+    // ARRANGE
+    const removeItemSpy = vi.spyOn(storage, 'removeItem');
+    useGetUserTokensSpy.mockReturnValue({
+      data: { ...userTokensFixture, id_token: createMockIdToken(1, { exp: Math.floor(Date.now() / 1000) }) },
+      isPending: false,
+      isSuccess: true,
+    } as unknown as UseQueryResult<UseGetUserTokens.UserTokens, Error>);
+    refreshSpy.mockImplementation((_queryClient, _providers, onFailure) => {
+      const error = new Error('invalid_grant');
+      onFailure?.(error);
+      return Promise.reject(error);
+    });
+    render(
+      <AuthContextProvider>
+        <div data-testid="provider-auth-ready"></div>
+      </AuthContextProvider>,
+    );
+    await waitFor(() => expect(removeItemSpy).toHaveBeenCalled());
+
+    // ASSERT
+    expect(removeItemSpy).toHaveBeenCalled();
+  });
+
+  it('should sign out when the user tokens query fails to refresh tokens', async () => {
+    // ARRANGE
+    const removeItemSpy = vi.spyOn(storage, 'removeItem');
+    render(
+      <AuthContextProvider>
+        <div data-testid="provider-auth-ready"></div>
+      </AuthContextProvider>,
+    );
+    await screen.findByTestId('provider-auth-ready');
+    const onRefreshFailure = useGetUserTokensSpy.mock.lastCall?.[1];
+
+    // ACT
+    onRefreshFailure?.(new Error('invalid_grant'));
+
+    // ASSERT
+    await waitFor(() => expect(removeItemSpy).toHaveBeenCalledWith(StorageKey.UserTokens));
+  });
+
+  it('should start and stop impersonating a user', async () => {
+    // ARRANGE
+    const user = userEvent.setup();
+    render(
+      <AuthContextProvider>
+        <ImpersonationTester />
+      </AuthContextProvider>,
+    );
+    await screen.findByTestId('provider-auth-ready');
+
+    // ACT
+    await user.click(screen.getByText('Start'));
+
+    // ASSERT
+    expect(screen.getByTestId('provider-auth-impersonated-user')).toHaveTextContent('Antonette');
+    expect(storage.getJsonItem(StorageKey.Impersonation)).toEqual(expect.objectContaining({ id: 2 }));
+
+    // ACT
+    await user.click(screen.getByText('Stop'));
+
+    // ASSERT
+    expect(screen.getByTestId('provider-auth-impersonated-user')).toBeEmptyDOMElement();
+    expect(storage.getItem(StorageKey.Impersonation)).toBeNull();
+  });
+
+  it('should not impersonate a user when not an administrator', async () => {
+    // ARRANGE
+    storage.setJsonItem(StorageKey.Impersonation, { id: 1, name: 'Leanne Graham', username: 'Bret' });
+    useGetUserTokensSpy.mockReturnValue({
+      data: { ...userTokensFixture, id_token: createMockIdToken(2) },
+      isPending: false,
+      isSuccess: true,
+    } as unknown as UseQueryResult<UseGetUserTokens.UserTokens, Error>);
+    render(
+      <AuthContextProvider>
+        <ImpersonationTester />
+      </AuthContextProvider>,
+    );
+    await screen.findByTestId('provider-auth-ready');
+
+    // ASSERT
+    expect(screen.getByTestId('provider-auth-impersonated-user')).toBeEmptyDOMElement();
+  });
 });
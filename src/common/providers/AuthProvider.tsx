@@ -1,27 +1,123 @@
-import { PropsWithChildren } from 'react';
+import { PropsWithChildren, useCallback, useEffect, useMemo, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import find from 'lodash/find';
+import noop from 'lodash/noop';
 
-import { AuthContext, AuthContextValue } from './AuthContext';
-import { useGetUserTokens } from 'common/api/useGetUserTokens';
+import { AuthContext, AuthContextValue, ImpersonatedUser } from './AuthContext';
+import { UserTokens, useGetUserTokens } from 'common/api/useGetUserTokens';
+import { useConfig } from 'common/hooks/useConfig';
+import { useStorageSync } from 'common/hooks/useStorageSync';
+import { useSignout } from 'pages/Auth/Signout/api/useSignout';
 import Spinner from 'common/components/Loader/Spinner';
+import IdleTimeoutDialog from 'common/components/Auth/IdleTimeoutDialog';
+import { hasSomeRole } from 'common/utils/authorization';
+import { safeParseClaims } from 'common/utils/claims';
+import { QueryKey, Role, StorageKey } from 'common/utils/constants';
+import storage from 'common/utils/storage';
+import tokenManager from 'common/utils/tokenManager';
+
+/**
+ * The maximum delay of `setTimeout` in milliseconds, about 24.8 days.
+ */
+const MAX_TIMEOUT_DELAY_MILLIS = 2_147_483_647;
 
 /**
  * The `AuthContextProvider` React component creates, maintains, and provides
  * access to the `AuthContext` value.
+ *
+ * Tokens are refreshed shortly before they expire. When a refresh fails, the
+ * user is signed out.
+ *
+ * Signing in, signing out, and refreshing tokens in other tabs are applied
+ * immediately.
+ *
+ * The user is signed out after a period of inactivity in every tab.
+ *
+ * An administrator may view the application as another user. The
+ * impersonation is persisted until the administrator stops it or signs out.
  * @param {PropsWithChildren} props - Component properties, `PropsWithChildren`.
  */
 const AuthContextProvider = ({ children }: PropsWithChildren) => {
-  // REPLACE: use a query hook to fetch authentication details from an IdP
-  const {
-    data: userTokens,
-    isPending,
-    isSuccess,
-    refetch: refetchUserTokens,
-  } = useGetUserTokens({ refetchInterval: 300000 });
+  const queryClient = useQueryClient();
+  const config = useConfig();
+  const { mutate: signout } = useSignout();
+  const { data: userTokens, isPending, isSuccess } = useGetUserTokens({ refetchInterval: 300000 }, () => signout());
+  useStorageSync(StorageKey.UserTokens, [QueryKey.UserTokens]);
+
+  const refreshUserTokens = useCallback(
+    (): Promise<UserTokens> => tokenManager.refresh(queryClient, config.VITE_OIDC_PROVIDERS, () => signout()),
+    [queryClient, config, signout],
+  );
+
+  const getUserTokens = useCallback(async (): Promise<UserTokens | undefined> => {
+    // read from the cache, which is updated synchronously by a refresh
+    const tokens = queryClient.getQueryData<UserTokens>([QueryKey.UserTokens]);
+    if (tokens && tokenManager.isRefreshDue(tokens)) {
+      return refreshUserTokens();
+    }
+    return tokens;
+  }, [queryClient, refreshUserTokens]);
+
+  useEffect(() => {
+    // refresh the tokens before they expire
+    if (!userTokens) {
+      return;
+    }
+    let timeoutId: ReturnType<typeof setTimeout>;
+    const scheduleRefresh = () => {
+      // a longer delay fires immediately; wait in steps until the refresh is due
+      const delay = tokenManager.getRefreshDelay(userTokens);
+      timeoutId = setTimeout(
+        () => {
+          if (delay > MAX_TIMEOUT_DELAY_MILLIS) {
+            scheduleRefresh();
+          } else {
+            refreshUserTokens().catch(noop);
+          }
+        },
+        Math.min(delay, MAX_TIMEOUT_DELAY_MILLIS),
+      );
+    };
+    scheduleRefresh();
+
+    return () => clearTimeout(timeoutId);
+  }, [userTokens, refreshUserTokens]);
+
+  const claims = useMemo(() => safeParseClaims(userTokens?.id_token), [userTokens?.id_token]);
+
+  const [impersonatedUser, setImpersonatedUser] = useState<ImpersonatedUser | undefined>(() => {
+    try {
+      return storage.getJsonItem<ImpersonatedUser>(StorageKey.Impersonation) ?? undefined;
+    } catch {
+      // the stored impersonation is unreadable; view as the authenticated user
+      return undefined;
+    }
+  });
+  const isAdmin = hasSomeRole(claims?.roles, [Role.Admin]);
+
+  const startImpersonation = useCallback((user: ImpersonatedUser): void => {
+    storage.setJsonItem(StorageKey.Impersonation, user);
+    setImpersonatedUser(user);
+  }, []);
+
+  const stopImpersonation = useCallback((): void => {
+    storage.removeItem(StorageKey.Impersonation);
+    setImpersonatedUser(undefined);
+  }, []);
 
   const value: AuthContextValue = {
-    isAuthenticated: isSuccess,
+    isAuthenticated: isSuccess && !!claims,
     userToken: userTokens,
-    refetchUserTokens,
+    claims,
+    provider: userTokens && find(config.VITE_OIDC_PROVIDERS, { id: userTokens.provider_id }),
+    roles: claims?.roles,
+    permissions: claims?.permissions,
+    getUserTokens,
+    refreshUserTokens,
+    // only an administrator may view the application as another user
+    impersonatedUser: isAdmin ? impersonatedUser : undefined,
+    startImpersonation,
+    stopImpersonation,
   };
 
   const isReady = !isPending;
@@ -29,6 +125,7 @@ const AuthContextProvider = ({ children }: PropsWithChildren) => {
   return (
     <AuthContext.Provider value={value}>
       {isReady && <>{children}</>}
+      <IdleTimeoutDialog isEnabled={isSuccess} />
       {!isReady && (
         <div className="h-[50vh]" data-testid="provider-auth">
           <div className="flex h-full items-center justify-center text-2xl">
@@ -1,6 +1,41 @@
 import { createContext } from 'react';
 import axios, { AxiosInstance } from 'axios';
 
+import { ApiAuthStrategy, ApiService, ApiServiceName } from 'common/utils/apiServices';
+import { RetryOptions } from 'common/utils/retry';
+
+declare module 'axios' {
+  /**
+   * Application specific request configuration.
+   * @param [isRetry] - Optional. Indicates the request is a retry following
+   * a token refresh.
+   * @param [retry] - Optional. Overrides the configured retry policy of the
+   * request; `false` disables retries.
+   * @param [retryCount] - Optional. The number of times the request has been
+   * retried following a transient failure.
+   * @param [requestId] - Optional. The correlation identifier of the request,
+   * unique to each attempt.
+   * @param [traceId] - Optional. The W3C trace identifier of the request,
+   * shared by every attempt.
+   * @param [startedAt] - Optional. The time the attempt started, in milliseconds.
+   * @param [authStrategy] - Optional. How the request is authenticated. Set by
+   * the API service instances. Default: `bearer`.
+   * @param [isSafe] - Optional. Indicates the request does not change data on
+   * the server although its method is not safe, e.g. a GraphQL query sent
+   * with `POST`.
+   */
+  interface AxiosRequestConfig {
+    isRetry?: boolean;
+    retry?: Partial<RetryOptions> | false;
+    retryCount?: number;
+    requestId?: string;
+    traceId?: string;
+    startedAt?: number;
+    authStrategy?: ApiAuthStrategy;
+    isSafe?: boolean;
+  }
+}
+
 /**
  * Custom `Axios` instance.
  */
@@ -11,7 +46,29 @@ export const customAxios = axios.create({
   },
 });
 
+/**
+ * Creates the Axios instance of an API service. Request URLs are relative to
+ * the service base URL, requests time out after the service timeout and are
+ * authenticated with the service auth strategy. The `AxiosContextProvider`
+ * registers the application interceptors on the instance.
+ * @param {ApiService} service - The API service.
+ * @returns {AxiosInstance} The Axios instance of the service.
+ */
+export const createApiInstance = ({ auth, baseUrl, timeoutMillis }: ApiService): AxiosInstance =>
+  customAxios.create({
+    baseURL: baseUrl,
+    timeout: timeoutMillis,
+    withCredentials: auth === 'cookie',
+    authStrategy: auth,
+  });
+
 /**
  * The `AxiosContext` instance.
  */
 export const AxiosContext = createContext<AxiosInstance>(customAxios);
+
+/**
+ * The `ApiContext` instance, the Axios instance of each API service. Empty
+ * outside of the `AxiosContextProvider`.
+ */
+export const ApiContext = createContext<Partial<Record<ApiServiceName, AxiosInstance>>>({});
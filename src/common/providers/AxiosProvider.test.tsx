@@ -1,26 +1,76 @@
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 import { useEffect, useState } from 'react';
 import { InternalAxiosRequestConfig } from 'axios';
+import { http, HttpResponse } from 'msw';
 import { render, screen } from 'test/test-utils';
 
+import { server } from 'test/mocks/server';
 import { useAxios } from 'common/hooks/useAxios';
 import * as UseAuth from 'common/hooks/useAuth';
+import * as UseConfig from 'common/hooks/useConfig';
 import { userTokensFixture } from '__fixtures__/tokens';
+import { configFixture } from '__fixtures__/config';
+import {
+  IDEMPOTENCY_KEY_HEADER,
+  IMPERSONATION_HEADER,
+  REQUEST_ID_HEADER,
+  TRACEPARENT_HEADER,
+} from 'common/utils/constants';
+import requestLog from 'common/utils/requestLog';
 
 import AxiosContextProvider from 'common/providers/AxiosProvider';
 
 describe('AxiosProvider', () => {
   const useAuthSpy = vi.spyOn(UseAuth, 'useAuth');
-  const refetchUserTokensMock = vi.fn();
+  const useConfigSpy = vi.spyOn(UseConfig, 'useConfig');
+  const getUserTokensMock = vi.fn();
+  const refreshUserTokensMock = vi.fn();
+
+  /**
+   * Requests a `User` and renders the outcome of the request.
+   */
+  function AxiosTester({ method = 'get', signal }: { method?: string; signal?: AbortSignal }) {
+    const [user, setUser] = useState();
+    const [error, setError] = useState<Error>();
+    const [config, setConfig] = useState<InternalAxiosRequestConfig>();
+    const axios = useAxios();
+    useEffect(() => {
+      axios
+        .request({ url: 'https://jsonplaceholder.typicode.com/users/1', method, signal })
+        .then((response) => {
+          setConfig(response.config);
+          setUser(response.data);
+        })
+        .catch(setError);
+    }, [axios, method, signal]);
+
+    return (
+      <>
+        {user && (
+          <div data-testid="provider-axios-ready">
+            <div>{config?.headers['Authorization']}</div>
+            <div>{config?.headers['X-Access-Token']}</div>
+            <div data-testid="provider-axios-impersonation">{config?.headers[IMPERSONATION_HEADER]}</div>
+            <div data-testid="provider-axios-idempotency-key">{config?.headers[IDEMPOTENCY_KEY_HEADER]}</div>
+            <div data-testid="provider-axios-request-id">{config?.headers[REQUEST_ID_HEADER]}</div>
+            <div data-testid="provider-axios-traceparent">{config?.headers[TRACEPARENT_HEADER]}</div>
+          </div>
+        )}
+        {error && <div data-testid="provider-axios-error">{error.message}</div>}
+      </>
+    );
+  }
 
   beforeEach(() => {
-    refetchUserTokensMock.mockReturnValue({
-      data: userTokensFixture,
-    });
+    requestLog.clear();
+    useConfigSpy.mockReturnValue({ ...configFixture, VITE_API_RETRY_DELAY_MILLIS: 10 });
+    getUserTokensMock.mockResolvedValue(userTokensFixture);
+    refreshUserTokensMock.mockResolvedValue(userTokensFixture);
     useAuthSpy.mockReturnValue({
       isAuthenticated: true,
       userToken: userTokensFixture,
-      refetchUserTokens: refetchUserTokensMock,
+      getUserTokens: getUserTokensMock,
+      refreshUserTokens: refreshUserTokensMock,
     });
   });
 
@@ -39,29 +89,6 @@ describe('AxiosProvider', () => {
 
   it('should add user token authentication headers to requests', async () => {
     // ARRANGE
-    function AxiosTester() {
-      const [user, setUser] = useState();
-      const [config, setConfig] = useState<InternalAxiosRequestConfig>();
-      const axios = useAxios();
-      useEffect(() => {
-        axios.request({ url: 'https://jsonplaceholder.typicode.com/users/1' }).then((response) => {
-          setConfig(response.config);
-          setUser(response.data);
-        });
-      }, [axios]);
-
-      return (
-        <>
-          {user && (
-            <div data-testid="provider-axios-ready">
-              <div>{config?.headers['Authorization']}</div>
-              <div>{config?.headers['X-Access-Token']}</div>
-            </div>
-          )}
-        </>
-      );
-    }
-
     render(
       <AxiosContextProvider>
         <AxiosTester />
@@ -71,8 +98,316 @@ describe('AxiosProvider', () => {
 
     // ASSERT
     expect(screen.getByTestId('provider-axios-ready')).toBeDefined();
-    expect(screen.getByText('Bearer id-token')).toBeDefined();
+    expect(screen.getByText(`Bearer ${userTokensFixture.id_token}`)).toBeDefined();
     expect(screen.getByText('access-token')).toBeDefined();
-    expect(refetchUserTokensMock).not.toHaveBeenCalled();
+    expect(getUserTokensMock).toHaveBeenCalled();
+    expect(refreshUserTokensMock).not.toHaveBeenCalled();
+  });
+
+  it('should refresh tokens and retry request when not authenticated', async () => {
+    // ARRANGE
+    server.use(
+      http.get('https://jsonplaceholder.typicode.com/users/1', () => new HttpResponse(null, { status: 401 }), {
+        once: true,
+      }),
+    );
+    getUserTokensMock
+      .mockResolvedValueOnce(userTokensFixture)
+      .mockResolvedValue({ ...userTokensFixture, id_token: 'refreshed-id-token' });
+    render(
+      <AxiosContextProvider>
+        <AxiosTester />
+      </AxiosContextProvider>,
+    );
+    await screen.findByTestId('provider-axios-ready');
+
+    // ASSERT
+    expect(refreshUserTokensMock).toHaveBeenCalledTimes(1);
+    expect(screen.getByText('Bearer refreshed-id-token')).toBeDefined();
+  });
+
+  it('should not retry request more than once', async () => {
+    // ARRANGE
+    server.use(http.get('https://jsonplaceholder.typicode.com/users/1', () => new HttpResponse(null, { status: 401 })));
+    render(
+      <AxiosContextProvider>
+        <AxiosTester />
+      </AxiosContextProvider>,
+    );
+    await screen.findByTestId('provider-axios-error');
+
+    // ASSERT
+    expect(refreshUserTokensMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject request when token refresh fails', async () => {
+    // ARRANGE
+    server.use(
+      http.get('https://jsonplaceholder.typicode.com/users/1', () => new HttpResponse(null, { status: 401 }), {
+        once: true,
+      }),
+    );
+    refreshUserTokensMock.mockRejectedValue(new Error('invalid_grant'));
+    render(
+      <AxiosContextProvider>
+        <AxiosTester />
+      </AxiosContextProvider>,
+    );
+    await screen.findByTestId('provider-axios-error');
+
+    // ASSERT
+    expect(refreshUserTokensMock).toHaveBeenCalledTimes(1);
+    expect(screen.getByTestId('provider-axios-error')).toHaveTextContent('401');
+  });
+
+  it('should identify the impersonated user in API requests', async () => {
+    // ARRANGE
+    useAuthSpy.mockReturnValue({
+      isAuthenticated: true,
+      userToken: userTokensFixture,
+      getUserTokens: getUserTokensMock,
+      impersonatedUser: { id: 2, name: 'Ervin Howell', username: 'Antonette' },
+    });
+    render(
+      <AxiosContextProvider>
+        <AxiosTester />
+      </AxiosContextProvider>,
+    );
+    await screen.findByTestId('provider-axios-ready');
+
+    // ASSERT
+    expect(screen.getByTestId('provider-axios-impersonation')).toHaveTextContent('2');
+  });
+
+  it('should reject API changes while impersonating', async () => {
+    // ARRANGE
+    useAuthSpy.mockReturnValue({
+      isAuthenticated: true,
+      userToken: userTokensFixture,
+      getUserTokens: getUserTokensMock,
+      impersonatedUser: { id: 2, name: 'Ervin Howell', username: 'Antonette' },
+    });
+    render(
+      <AxiosContextProvider>
+        <AxiosTester method="put" />
+      </AxiosContextProvider>,
+    );
+    await screen.findByTestId('provider-axios-error');
+
+    // ASSERT
+    expect(screen.getByTestId('provider-axios-error')).toHaveTextContent(
+      'Changes are not allowed while viewing as Ervin Howell.',
+    );
+  });
+
+  it('should reject failed requests with an ApiError', async () => {
+    // ARRANGE
+    server.use(
+      http.get('https://jsonplaceholder.typicode.com/users/1', () =>
+        HttpResponse.json(
+          { title: 'Forbidden', status: 403, detail: 'The user may not be viewed.' },
+          { status: 403, headers: { 'Content-Type': 'application/problem+json' } },
+        ),
+      ),
+    );
+    render(
+      <AxiosContextProvider>
+        <AxiosTester />
+      </AxiosContextProvider>,
+    );
+    await screen.findByTestId('provider-axios-error');
+
+    // ASSERT
+    expect(screen.getByTestId('provider-axios-error')).toHaveTextContent('The user may not be viewed.');
+  });
+
+  it('should retry requests which fail with a transient error', async () => {
+    // ARRANGE
+    const handler = vi.fn(() => new HttpResponse(null, { status: 503 }));
+    server.use(http.get('https://jsonplaceholder.typicode.com/users/1', handler, { once: true }));
+    server.use(http.get('https://jsonplaceholder.typicode.com/users/1', handler, { once: true }));
+    render(
+      <AxiosContextProvider>
+        <AxiosTester />
+      </AxiosContextProvider>,
+    );
+    await screen.findByTestId('provider-axios-ready');
+
+    // ASSERT
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reject requests when the retry limit is reached', async () => {
+    // ARRANGE
+    const handler = vi.fn(() => new HttpResponse(null, { status: 502 }));
+    server.use(http.get('https://jsonplaceholder.typicode.com/users/1', handler));
+    render(
+      <AxiosContextProvider>
+        <AxiosTester />
+      </AxiosContextProvider>,
+    );
+    await screen.findByTestId('provider-axios-error', undefined, { timeout: 2000 });
+
+    // ASSERT
+    expect(handler).toHaveBeenCalledTimes(configFixture.VITE_API_RETRY_LIMIT + 1);
+  });
+
+  it('should not retry requests when retries are disabled', async () => {
+    // ARRANGE
+    useConfigSpy.mockReturnValue({ ...configFixture, VITE_API_RETRY_LIMIT: 0 });
+    const handler = vi.fn(() => new HttpResponse(null, { status: 503 }));
+    server.use(http.get('https://jsonplaceholder.typicode.com/users/1', handler));
+    render(
+      <AxiosContextProvider>
+        <AxiosTester />
+      </AxiosContextProvider>,
+    );
+    await screen.findByTestId('provider-axios-error');
+
+    // ASSERT
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not retry when Retry-After exceeds the maximum delay', async () => {
+    // ARRANGE
+    const handler = vi.fn(() => new HttpResponse(null, { status: 429, headers: { 'Retry-After': '3600' } }));
+    server.use(http.get('https://jsonplaceholder.typicode.com/users/1', handler));
+    render(
+      <AxiosContextProvider>
+        <AxiosTester />
+      </AxiosContextProvider>,
+    );
+    await screen.findByTestId('provider-axios-error');
+
+    // ASSERT
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(screen.getByTestId('provider-axios-error')).toHaveTextContent('429');
+  });
+
+  it('should not retry a request which is aborted while waiting', async () => {
+    // ARRANGE
+    const controller = new AbortController();
+    const handler = vi.fn(() => {
+      setTimeout(() => controller.abort(), 10);
+      return new HttpResponse(null, { status: 503, headers: { 'Retry-After': '5' } });
+    });
+    server.use(http.get('https://jsonplaceholder.typicode.com/users/1', handler));
+    render(
+      <AxiosContextProvider>
+        <AxiosTester signal={controller.signal} />
+      </AxiosContextProvider>,
+    );
+    await screen.findByTestId('provider-axios-error');
+
+    // ASSERT
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(screen.getByTestId('provider-axios-error')).toHaveTextContent('canceled');
+  });
+
+  it('should retry an API POST with the same idempotency key', async () => {
+    // ARRANGE
+    const keys: (string | null)[] = [];
+    server.use(
+      http.post(
+        'https://jsonplaceholder.typicode.com/users/1',
+        ({ request }) => {
+          keys.push(request.headers.get(IDEMPOTENCY_KEY_HEADER));
+          return HttpResponse.error();
+        },
+        { once: true },
+      ),
+      http.post('https://jsonplaceholder.typicode.com/users/1', ({ request }) => {
+        keys.push(request.headers.get(IDEMPOTENCY_KEY_HEADER));
+        return HttpResponse.json({ id: 1 });
+      }),
+    );
+    render(
+      <AxiosContextProvider>
+        <AxiosTester method="post" />
+      </AxiosContextProvider>,
+    );
+    await screen.findByTestId('provider-axios-ready');
+
+    // ASSERT
+    expect(keys).toHaveLength(2);
+    expect(keys[0]).toMatch(/^[0-9a-f-]{36}$/);
+    expect(keys[1]).toBe(keys[0]);
+    expect(screen.getByTestId('provider-axios-idempotency-key')).toHaveTextContent(keys[0] ?? '');
+  });
+
+  it('should not add an idempotency key to other requests', async () => {
+    // ARRANGE
+    render(
+      <AxiosContextProvider>
+        <AxiosTester />
+      </AxiosContextProvider>,
+    );
+    await screen.findByTestId('provider-axios-ready');
+
+    // ASSERT
+    expect(screen.getByTestId('provider-axios-idempotency-key')).toBeEmptyDOMElement();
+  });
+
+  it('should add correlation headers to API requests', async () => {
+    // ARRANGE
+    render(
+      <AxiosContextProvider>
+        <AxiosTester />
+      </AxiosContextProvider>,
+    );
+    await screen.findByTestId('provider-axios-ready');
+
+    // ASSERT
+    expect(screen.getByTestId('provider-axios-request-id')).toHaveTextContent(/^[0-9a-f-]{36}$/);
+    expect(screen.getByTestId('provider-axios-traceparent')).toHaveTextContent(/^00-[0-9a-f]{32}-[0-9a-f]{16}-01$/);
+  });
+
+  it('should record requests', async () => {
+    // ARRANGE
+    render(
+      <AxiosContextProvider>
+        <AxiosTester />
+      </AxiosContextProvider>,
+    );
+    await screen.findByTestId('provider-axios-ready');
+
+    // ASSERT
+    expect(requestLog.getEntries()).toEqual([
+      expect.objectContaining({
+        requestId: screen.getByTestId('provider-axios-request-id').textContent,
+        method: 'GET',
+        url: 'https://jsonplaceholder.typicode.com/users/1',
+        status: 200,
+        durationMillis: expect.any(Number),
+      }),
+    ]);
+  });
+
+  it('should record each attempt of a retried request in the same trace', async () => {
+    // ARRANGE
+    const traceparents: (string | null)[] = [];
+    server.use(
+      http.get(
+        'https://jsonplaceholder.typicode.com/users/1',
+        ({ request }) => {
+          traceparents.push(request.headers.get(TRACEPARENT_HEADER));
+          return new HttpResponse(null, { status: 503 });
+        },
+        { once: true },
+      ),
+    );
+    render(
+      <AxiosContextProvider>
+        <AxiosTester />
+      </AxiosContextProvider>,
+    );
+    await screen.findByTestId('provider-axios-ready');
+
+    // ASSERT
+    const entries = requestLog.getEntries();
+    expect(entries.map(({ status }) => status)).toEqual([503, 200]);
+    expect(entries[0].requestId).not.toBe(entries[1].requestId);
+    expect(entries[0].traceId).toBe(entries[1].traceId);
+    expect(traceparents[0]).toContain(entries[0].traceId);
   });
 });
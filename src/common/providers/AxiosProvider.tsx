@@ -1,33 +1,187 @@
-import { PropsWithChildren, useEffect, useState } from 'react';
-import axios, { AxiosError, InternalAxiosRequestConfig } from 'axios';
+import { PropsWithChildren, useEffect, useMemo, useState } from 'react';
+import { AxiosError, AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
 
-import { AxiosContext, customAxios } from './AxiosContext';
+import { ApiContext, AxiosContext, createApiInstance, customAxios } from './AxiosContext';
 import { AuthContextValue } from './AuthContext';
 import { useAuth } from 'common/hooks/useAuth';
+import { useConfig } from 'common/hooks/useConfig';
+import { toApiError } from 'common/utils/apiError';
+import { API_SERVICE_NAMES, ApiServiceName, getApiService, isApiUrl } from 'common/utils/apiServices';
+import { Config } from 'common/utils/config';
+import {
+  IDEMPOTENCY_KEY_HEADER,
+  IMPERSONATION_HEADER,
+  REQUEST_ID_HEADER,
+  TRACEPARENT_HEADER,
+} from 'common/utils/constants';
+import requestLog from 'common/utils/requestLog';
+import { getRetryDelay, isRetryable, RetryOptions, wait } from 'common/utils/retry';
+import { createSpanId, createTraceId, createTraceparent } from 'common/utils/tracing';
+
+/**
+ * Request methods which do not change data on the server.
+ */
+const SAFE_METHODS = ['get', 'head', 'options'];
+
+/**
+ * Determines if a request does not change data on the server, either because
+ * of its method or because it is marked `isSafe`.
+ * @param {InternalAxiosRequestConfig} config - The Axios config object for the request.
+ * @returns {boolean} Returns `true` if the request is safe.
+ */
+const isSafeRequest = (config: InternalAxiosRequestConfig): boolean =>
+  !!config.isSafe || SAFE_METHODS.includes(config.method?.toLowerCase() ?? 'get');
+
+/**
+ * Determines if a request is sent to one of the API services.
+ * @param {InternalAxiosRequestConfig} config - The Axios config object for the request.
+ * @param {Config} appConfig - The application `Config`.
+ * @returns {boolean} Returns `true` if the request is sent to an API service.
+ */
+const isApiRequest = (config: InternalAxiosRequestConfig, appConfig: Config): boolean =>
+  isApiUrl(appConfig, customAxios.getUri(config));
 
 /**
  * An Axios request interceptor that adds user authentication headers to
- * the request.
+ * the request. Requests to an API service which is not authenticated with
+ * `bearer` tokens are sent without them.
+ *
+ * While an administrator is viewing the application as another user, API
+ * requests identify that user in the impersonation header. Requests which
+ * would change data on the API are rejected.
  * @param config {InternalAxiosRequestConfig} config - The Axios config object for the request.
  * @param authContext {AuthContextValue} authContext - The `AuthContextValue` containing
  * the current user authentication state.
+ * @param appConfig {Config} appConfig - The application `Config`.
  * @returns {InternalAxiosRequestConfig} The modified Axios config object.
  */
 const authRequestInterceptor = async (
   config: InternalAxiosRequestConfig,
   authContext: AuthContextValue,
+  appConfig: Config,
 ): Promise<InternalAxiosRequestConfig> => {
   const { headers } = config;
-  if (authContext.isAuthenticated) {
-    headers['Authorization'] = `Bearer ${authContext.userToken?.id_token}`;
-    headers['X-Access-Token'] = authContext.userToken?.access_token;
+  if (authContext.isAuthenticated && (config.authStrategy ?? 'bearer') === 'bearer') {
+    // refreshes the tokens when they are about to expire
+    const userTokens = authContext.getUserTokens ? await authContext.getUserTokens() : authContext.userToken;
+    headers['Authorization'] = `Bearer ${userTokens?.id_token}`;
+    headers['X-Access-Token'] = userTokens?.access_token;
+  }
+  if (authContext.impersonatedUser && isApiRequest(config, appConfig)) {
+    if (!isSafeRequest(config)) {
+      throw new Error(`Changes are not allowed while viewing as ${authContext.impersonatedUser.name}.`);
+    }
+    headers[IMPERSONATION_HEADER] = `${authContext.impersonatedUser.id}`;
+  }
+  return config;
+};
+
+/**
+ * An Axios request interceptor that adds an idempotency key to API `POST`
+ * requests which are not marked `isSafe`. The key is added once, so every retry of the request sends the
+ * same key and the API performs the change once.
+ * @param {InternalAxiosRequestConfig} config - The Axios config object for the request.
+ * @param {Config} appConfig - The application `Config`.
+ * @returns {InternalAxiosRequestConfig} The modified Axios config object.
+ */
+const idempotencyRequestInterceptor = (
+  config: InternalAxiosRequestConfig,
+  appConfig: Config,
+): InternalAxiosRequestConfig => {
+  if (
+    config.method?.toLowerCase() === 'post' &&
+    !config.isSafe &&
+    isApiRequest(config, appConfig) &&
+    !config.headers[IDEMPOTENCY_KEY_HEADER]
+  ) {
+    config.headers[IDEMPOTENCY_KEY_HEADER] = crypto.randomUUID();
+  }
+  return config;
+};
+
+/**
+ * An Axios request interceptor that identifies each attempt of a request. API
+ * requests carry the identifiers in the `X-Request-Id` and W3C `traceparent`
+ * headers, so that a failure may be matched to the backend logs. Retries
+ * share the trace of the original request.
+ * @param {InternalAxiosRequestConfig} config - The Axios config object for the request.
+ * @param {Config} appConfig - The application `Config`.
+ * @returns {InternalAxiosRequestConfig} The modified Axios config object.
+ */
+const tracingRequestInterceptor = (
+  config: InternalAxiosRequestConfig,
+  appConfig: Config,
+): InternalAxiosRequestConfig => {
+  config.requestId = crypto.randomUUID();
+  config.traceId = config.traceId ?? createTraceId();
+  config.startedAt = Date.now();
+  if (isApiRequest(config, appConfig)) {
+    config.headers[REQUEST_ID_HEADER] = config.requestId;
+    config.headers[TRACEPARENT_HEADER] = createTraceparent(config.traceId, createSpanId());
   }
   return config;
 };
 
+/**
+ * Records a completed request in the `requestLog`.
+ * @param {InternalAxiosRequestConfig} [config] - The Axios config object for the request.
+ * @param {number} [status] - Optional. The HTTP status code of the response.
+ */
+const recordRequest = (config?: InternalAxiosRequestConfig, status?: number): void => {
+  if (config?.requestId && config.traceId && config.startedAt) {
+    requestLog.add({
+      requestId: config.requestId,
+      traceId: config.traceId,
+      method: (config.method ?? 'get').toUpperCase(),
+      url: customAxios.getUri(config),
+      status,
+      durationMillis: Date.now() - config.startedAt,
+      timestamp: new Date(config.startedAt).toISOString(),
+    });
+  }
+};
+
+/**
+ * An Axios response interceptor called for successful responses. Records
+ * the request.
+ * @param {AxiosResponse} response - The response.
+ * @returns {AxiosResponse} The unchanged response.
+ */
+const tracingResponseInterceptor = (response: AxiosResponse): AxiosResponse => {
+  recordRequest(response.config, response.status);
+  return response;
+};
+
+/**
+ * An Axios response interceptor called for responses in error. Records the
+ * request.
+ * @param {unknown} error - The failure.
+ * @returns {Promise<never>} A Promise rejected with the unchanged failure.
+ */
+const tracingErrorInterceptor = async (error: unknown): Promise<never> => {
+  if (error instanceof AxiosError) {
+    recordRequest(error.config, error.response?.status);
+  }
+  return Promise.reject(error);
+};
+
+/**
+ * An Axios response interceptor called for responses in error. Converts the
+ * failure to an `ApiError`.
+ * @param {unknown} error - The failure.
+ * @returns {Promise<never>} A Promise rejected with the `ApiError`.
+ */
+const apiErrorInterceptor = async (error: unknown): Promise<never> => {
+  return Promise.reject(toApiError(error));
+};
+
 /**
  * An Axios response interceptor called for responses in error. If the http status
- * code is `401`, attempts to refresh the authentication tokens and retry the request.
+ * code is `401`, attempts to refresh the authentication tokens and retry the request
+ * once. Concurrent `401` responses share a single token refresh.
+ *
+ * The request is retried with `customAxios` so that every interceptor, including
+ * the one which adds the refreshed authentication headers, is applied.
  * @param {AxiosError} error - The AxiosError instance.
  * @param {AuthContextValue} authContext - The `AuthContextValue` containing
  * the current user authentication state.
@@ -35,52 +189,146 @@ const authRequestInterceptor = async (
  */
 const notAuthenticatedErrorInterceptor = async (error: AxiosError, authContext: AuthContextValue) => {
   const config = error.config;
-  if (error.response?.status === 401) {
-    if (authContext.isAuthenticated && authContext.refetchUserTokens) {
-      const { data } = await authContext.refetchUserTokens();
-
-      return axios({
-        ...config,
-        headers: {
-          ...config?.headers,
-          Authorization: `Bearer ${data?.id_token}`,
-          'X-Access-Token': data?.access_token,
-        },
-      });
+  if (error.response?.status === 401 && config && !config.isRetry) {
+    if (authContext.isAuthenticated && authContext.refreshUserTokens) {
+      try {
+        await authContext.refreshUserTokens();
+      } catch {
+        // the user is signed out when the refresh fails
+        return Promise.reject(error);
+      }
+
+      return customAxios.request({ ...config, isRetry: true });
     }
   }
 
   return Promise.reject(error);
 };
 
+/**
+ * An Axios response interceptor called for responses in error. If the request
+ * failed with a network error or a transient HTTP status, and may be repeated
+ * safely, waits and retries the request. Retries continue, with exponential
+ * backoff, until the request succeeds or the retry limit is reached. When the
+ * request `signal` aborts while waiting, the request is rejected at once with a
+ * `CanceledError`.
+ *
+ * The request is retried with `customAxios` so that every interceptor is applied.
+ * @param {AxiosError} error - The AxiosError instance.
+ * @param {Config} appConfig - The application `Config`.
+ * @returns {AxiosResponse} An AxiosResponse representing the retried request.
+ */
+const retryErrorInterceptor = async (error: AxiosError, appConfig: Config) => {
+  const config = error.config;
+  if (!config || config.retry === false || !isRetryable(error)) {
+    return Promise.reject(error);
+  }
+
+  const options: RetryOptions = {
+    limit: appConfig.VITE_API_RETRY_LIMIT,
+    delayMillis: appConfig.VITE_API_RETRY_DELAY_MILLIS,
+    maxDelayMillis: appConfig.VITE_API_RETRY_MAX_DELAY_MILLIS,
+    ...config.retry,
+  };
+  const retryCount = config.retryCount ?? 0;
+  const delay = getRetryDelay(error, retryCount, options);
+  if (retryCount >= options.limit || delay > options.maxDelayMillis) {
+    return Promise.reject(error);
+  }
+
+  await wait(delay, config.signal);
+  return customAxios.request({ ...config, retryCount: retryCount + 1 });
+};
+
+/**
+ * Registers the application interceptors on an Axios instance.
+ * @param {AxiosInstance} instance - The Axios instance.
+ * @param {AuthContextValue} authContext - The `AuthContextValue` containing
+ * the current user authentication state.
+ * @param {Config} appConfig - The application `Config`.
+ * @returns {Function} A function which ejects the interceptors.
+ */
+const registerInterceptors = (
+  instance: AxiosInstance,
+  authContext: AuthContextValue,
+  appConfig: Config,
+): (() => void) => {
+  // registered first, so that it is applied last and the duration excludes the other interceptors
+  const tracingRequestInterceptorId = instance.interceptors.request.use((config) =>
+    tracingRequestInterceptor(config, appConfig),
+  );
+  const authRequestInterceptorId = instance.interceptors.request.use(async (config) =>
+    authRequestInterceptor(config, authContext, appConfig),
+  );
+  const idempotencyRequestInterceptorId = instance.interceptors.request.use((config) =>
+    idempotencyRequestInterceptor(config, appConfig),
+  );
+
+  // registered first, so that each attempt of a request is recorded
+  const tracingResponseInterceptorId = instance.interceptors.response.use(
+    tracingResponseInterceptor,
+    tracingErrorInterceptor,
+  );
+
+  // registered before the interceptors which retry, so that they receive an `ApiError`
+  const apiErrorInterceptorId = instance.interceptors.response.use((response) => response, apiErrorInterceptor);
+
+  const notAuthenticatedErrorInterceptorId = instance.interceptors.response.use(
+    (response) => response,
+    async (error) => notAuthenticatedErrorInterceptor(error, authContext),
+  );
+
+  const retryErrorInterceptorId = instance.interceptors.response.use(
+    (response) => response,
+    async (error) => retryErrorInterceptor(error, appConfig),
+  );
+
+  return () => {
+    instance.interceptors.request.eject(tracingRequestInterceptorId);
+    instance.interceptors.request.eject(authRequestInterceptorId);
+    instance.interceptors.request.eject(idempotencyRequestInterceptorId);
+    instance.interceptors.response.eject(tracingResponseInterceptorId);
+    instance.interceptors.response.eject(apiErrorInterceptorId);
+    instance.interceptors.response.eject(notAuthenticatedErrorInterceptorId);
+    instance.interceptors.response.eject(retryErrorInterceptorId);
+  };
+};
+
 /**
  * The `AxiosContextProvider` React component creates, maintains, and provides
- * access to the `AxiosContext` value.
+ * access to the `AxiosContext` value and the `ApiContext` value, the Axios
+ * instance of each API service. The application interceptors are registered
+ * on every instance.
  * @param {PropsWithChildren} props - Component properties, `PropsWithChildren`.
  */
 const AxiosContextProvider = ({ children }: PropsWithChildren) => {
   const [isReady, setIsReady] = useState(false);
   const authContext = useAuth();
+  const appConfig = useConfig();
 
-  useEffect(() => {
-    const authRequestInterceptorId = customAxios.interceptors.request.use(async (config) =>
-      authRequestInterceptor(config, authContext),
-    );
+  const apiInstances = useMemo(
+    () =>
+      Object.fromEntries(
+        API_SERVICE_NAMES.map((name) => [name, createApiInstance(getApiService(appConfig, name))]),
+      ) as Record<ApiServiceName, AxiosInstance>,
+    [appConfig],
+  );
 
-    const notAuthenticatedErrorInterceptorId = customAxios.interceptors.response.use(
-      (response) => response,
-      async (error) => notAuthenticatedErrorInterceptor(error, authContext),
+  useEffect(() => {
+    const ejectInterceptors = [customAxios, ...Object.values(apiInstances)].map((instance) =>
+      registerInterceptors(instance, authContext, appConfig),
     );
 
     setIsReady(true);
 
-    return () => {
-      customAxios.interceptors.request.eject(authRequestInterceptorId);
-      customAxios.interceptors.response.eject(notAuthenticatedErrorInterceptorId);
-    };
-  }, [authContext]);
+    return () => ejectInterceptors.forEach((eject) => eject());
+  }, [authContext, appConfig, apiInstances]);
 
-  return <AxiosContext.Provider value={customAxios}>{isReady && <>{children}</>}</AxiosContext.Provider>;
+  return (
+    <AxiosContext.Provider value={customAxios}>
+      <ApiContext.Provider value={apiInstances}>{isReady && <>{children}</>}</ApiContext.Provider>
+    </AxiosContext.Provider>
+  );
 };
 
 export default AxiosContextProvider;
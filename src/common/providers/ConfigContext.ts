@@ -0,0 +1,8 @@
+import { createContext } from 'react';
+
+import { Config } from 'common/utils/config';
+
+/**
+ * The `ConfigContext` instance.
+ */
+export const ConfigContext = createContext<Config | undefined>(undefined);
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { render as renderWithoutWrapper } from '@testing-library/react';
+import { http, HttpResponse } from 'msw';
+
+import { screen } from 'test/test-utils';
+import { server } from 'test/mocks/server';
+import WithQueryClientProvider from 'test/wrappers/WithQueryClientProvider';
+
+import ConfigContextProvider from 'common/providers/ConfigProvider';
+
+describe('ConfigProvider', () => {
+  it('should render successfully', async () => {
+    // ARRANGE
+    renderWithoutWrapper(
+      <ConfigContextProvider>
+        <div data-testid="provider-config"></div>
+      </ConfigContextProvider>,
+      { wrapper: WithQueryClientProvider },
+    );
+    await screen.findByTestId('provider-config');
+
+    // ASSERT
+    expect(screen.getByTestId('provider-config')).toBeDefined();
+  });
+
+  it('should render error fallback when configuration is invalid', async () => {
+    // ARRANGE
+    server.use(http.get('/config.json', () => HttpResponse.json({ VITE_BASE_URL_API: 'not-a-url' })));
+    renderWithoutWrapper(
+      <ConfigContextProvider>
+        <div data-testid="provider-config"></div>
+      </ConfigContextProvider>,
+      { wrapper: WithQueryClientProvider },
+    );
+    await screen.findByTestId('error-fallback-config');
+
+    // ASSERT
+    expect(screen.getByTestId('error-fallback-config-details')).toHaveTextContent(/VITE_BASE_URL_API/);
+    expect(screen.queryByTestId('provider-config')).toBeNull();
+  });
+});
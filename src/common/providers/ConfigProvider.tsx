@@ -0,0 +1,25 @@
+import { PropsWithChildren } from 'react';
+
+import { useGetConfig } from 'common/api/useGetConfig';
+import ConfigErrorFallback from 'common/components/Errors/ConfigErrorFallback';
+import { ConfigContext } from './ConfigContext';
+
+/**
+ * The `ConfigContextProvider` React component loads, validates, and provides
+ * access to the `ConfigContext` value, the application `Config`.
+ *
+ * Children are rendered once the configuration is loaded. When the
+ * configuration is invalid, a `ConfigErrorFallback` is rendered instead.
+ * @param {PropsWithChildren} props - Component properties, `PropsWithChildren`.
+ */
+const ConfigContextProvider = ({ children }: PropsWithChildren) => {
+  const { data: config, error } = useGetConfig();
+
+  if (error) {
+    return <ConfigErrorFallback error={error} />;
+  }
+
+  return <ConfigContext.Provider value={config}>{config && <>{children}</>}</ConfigContext.Provider>;
+};
+
+export default ConfigContextProvider;
@@ -0,0 +1,27 @@
+import { createContext } from 'react';
+
+import { FeatureFlag, FeatureFlags, FeatureFlagValues } from 'common/utils/flags';
+
+/**
+ * The `FeatureFlagsContext` value.
+ * @param flags - The resolved value of every feature flag.
+ * @param overrides - The local overrides, i.e. flag values set on this
+ * device.
+ * @param isOverrideAllowed - Indicates if local overrides are available in
+ * this environment.
+ * @param setOverride - A function which sets the local override of a flag.
+ * Supply `undefined` to remove the override.
+ * @param clearOverrides - A function which removes all local overrides.
+ */
+export interface FeatureFlagsContextValue {
+  flags: FeatureFlags;
+  overrides: FeatureFlagValues;
+  isOverrideAllowed: boolean;
+  setOverride: (flag: FeatureFlag, value?: boolean) => void;
+  clearOverrides: () => void;
+}
+
+/**
+ * The `FeatureFlagsContext` instance.
+ */
+export const FeatureFlagsContext = createContext<FeatureFlagsContextValue | undefined>(undefined);
@@ -0,0 +1,114 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { render as renderWithoutWrapper } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { http, HttpResponse } from 'msw';
+
+import { screen } from 'test/test-utils';
+import { server } from 'test/mocks/server';
+import WithQueryClientProvider from 'test/wrappers/WithQueryClientProvider';
+import { configFixture } from '__fixtures__/config';
+import * as UseConfig from 'common/hooks/useConfig';
+import { useFeatureFlags } from 'common/hooks/useFeatureFlags';
+import { StorageKey } from 'common/utils/constants';
+import storage from 'common/utils/storage';
+
+import FeatureFlagsContextProvider from 'common/providers/FeatureFlagsProvider';
+
+describe('FeatureFlagsProvider', () => {
+  const useConfigSpy = vi.spyOn(UseConfig, 'useConfig');
+
+  const FlagsTester = () => {
+    const { flags, overrides, setOverride, clearOverrides } = useFeatureFlags();
+    return (
+      <div data-testid="provider-feature-flags">
+        <div data-testid="flag-passkeys">{String(flags.passkeys)}</div>
+        <div data-testid="flag-sessions">{String(flags.sessions)}</div>
+        <div data-testid="overrides">{JSON.stringify(overrides)}</div>
+        <button onClick={() => setOverride('passkeys', true)} data-testid="button-override"></button>
+        <button onClick={() => clearOverrides()} data-testid="button-clear"></button>
+      </div>
+    );
+  };
+
+  const renderProvider = () =>
+    renderWithoutWrapper(
+      <FeatureFlagsContextProvider>
+        <FlagsTester />
+      </FeatureFlagsContextProvider>,
+      { wrapper: WithQueryClientProvider },
+    );
+
+  afterEach(() => {
+    storage.removeItem(StorageKey.FeatureFlagOverrides);
+  });
+
+  it('should render successfully', async () => {
+    // ARRANGE
+    renderProvider();
+    await screen.findByTestId('provider-feature-flags');
+
+    // ASSERT
+    expect(screen.getByTestId('flag-passkeys')).toHaveTextContent('true');
+    expect(screen.getByTestId('flag-sessions')).toHaveTextContent('true');
+  });
+
+  it('should layer configured, remote, and overridden values', async () => {
+    // ARRANGE
+    const user = userEvent.setup();
+    const url = 'https://flags.example.com/flags';
+    useConfigSpy.mockReturnValue({
+      ...configFixture,
+      VITE_FEATURE_FLAGS: { passkeys: false, sessions: false },
+      VITE_FEATURE_FLAGS_URL: url,
+    });
+    server.use(http.get(url, () => HttpResponse.json({ sessions: true })));
+    renderProvider();
+    await screen.findByTestId('provider-feature-flags');
+
+    // ASSERT
+    expect(screen.getByTestId('flag-passkeys')).toHaveTextContent('false');
+    expect(screen.getByTestId('flag-sessions')).toHaveTextContent('true');
+
+    // ACT
+    await user.click(screen.getByTestId('button-override'));
+
+    // ASSERT
+    expect(screen.getByTestId('flag-passkeys')).toHaveTextContent('true');
+    expect(storage.getJsonItem(StorageKey.FeatureFlagOverrides)).toEqual({ passkeys: true });
+
+    // ACT
+    await user.click(screen.getByTestId('button-clear'));
+
+    // ASSERT
+    expect(screen.getByTestId('flag-passkeys')).toHaveTextContent('false');
+    expect(storage.getJsonItem(StorageKey.FeatureFlagOverrides)).toBeNull();
+  });
+
+  it('should apply configured values when remote endpoint fails', async () => {
+    // ARRANGE
+    const url = 'https://flags.example.com/flags';
+    useConfigSpy.mockReturnValue({
+      ...configFixture,
+      VITE_FEATURE_FLAGS: { passkeys: false },
+      VITE_FEATURE_FLAGS_URL: url,
+    });
+    server.use(http.get(url, () => new HttpResponse(null, { status: 500 })));
+    renderProvider();
+    await screen.findByTestId('provider-feature-flags');
+
+    // ASSERT
+    expect(screen.getByTestId('flag-passkeys')).toHaveTextContent('false');
+  });
+
+  it('should ignore overrides in production', async () => {
+    // ARRANGE
+    storage.setJsonItem(StorageKey.FeatureFlagOverrides, { sessions: false });
+    useConfigSpy.mockReturnValue({ ...configFixture, VITE_BUILD_ENV_CODE: 'prd' });
+    renderProvider();
+    await screen.findByTestId('provider-feature-flags');
+
+    // ASSERT
+    expect(screen.getByTestId('flag-sessions')).toHaveTextContent('true');
+    expect(screen.getByTestId('overrides')).toHaveTextContent('{}');
+  });
+});
@@ -0,0 +1,68 @@
+import { PropsWithChildren, useCallback, useMemo, useState } from 'react';
+import omit from 'lodash/omit';
+
+import { FeatureFlagsContext, FeatureFlagsContextValue } from './FeatureFlagsContext';
+import { useGetFeatureFlags } from 'common/api/useGetFeatureFlags';
+import { useConfig } from 'common/hooks/useConfig';
+import { StorageKey } from 'common/utils/constants';
+import { FeatureFlag, FeatureFlagValues, isFeatureFlagOverrideAllowed, resolveFeatureFlags } from 'common/utils/flags';
+import storage from 'common/utils/storage';
+
+/**
+ * The `FeatureFlagsContextProvider` React component resolves, maintains, and
+ * provides access to the `FeatureFlagsContext` value.
+ *
+ * Flag values are layered. Each source overrides the values set by the
+ * sources before it:
+ * 1. The flag defaults, `FEATURE_FLAGS`.
+ * 2. The configuration, `VITE_FEATURE_FLAGS`.
+ * 3. The remote endpoint, `VITE_FEATURE_FLAGS_URL`, when configured.
+ * 4. The local overrides, which are persisted on this device. Local overrides
+ *    are not available in production.
+ *
+ * Children are rendered once the remote flag values are loaded. When the
+ * remote endpoint fails, the remaining sources apply.
+ * @param {PropsWithChildren} props - Component properties, `PropsWithChildren`.
+ */
+const FeatureFlagsContextProvider = ({ children }: PropsWithChildren) => {
+  const config = useConfig();
+  const { data: remoteFlags, isLoading } = useGetFeatureFlags();
+  const isOverrideAllowed = isFeatureFlagOverrideAllowed(config.VITE_BUILD_ENV_CODE);
+
+  const [overrides, setOverrides] = useState<FeatureFlagValues>(() => {
+    try {
+      return storage.getJsonItem<FeatureFlagValues>(StorageKey.FeatureFlagOverrides) ?? {};
+    } catch {
+      // the stored overrides are unreadable; use the other sources
+      return {};
+    }
+  });
+
+  const setOverride = useCallback((flag: FeatureFlag, value?: boolean): void => {
+    setOverrides((current) => {
+      const updated = value === undefined ? omit(current, flag) : { ...current, [flag]: value };
+      storage.setJsonItem(StorageKey.FeatureFlagOverrides, updated);
+      return updated;
+    });
+  }, []);
+
+  const clearOverrides = useCallback((): void => {
+    storage.removeItem(StorageKey.FeatureFlagOverrides);
+    setOverrides({});
+  }, []);
+
+  const value = useMemo<FeatureFlagsContextValue>(
+    () => ({
+      flags: resolveFeatureFlags(config.VITE_FEATURE_FLAGS, remoteFlags, isOverrideAllowed ? overrides : undefined),
+      overrides: isOverrideAllowed ? overrides : {},
+      isOverrideAllowed,
+      setOverride,
+      clearOverrides,
+    }),
+    [config, remoteFlags, isOverrideAllowed, overrides, setOverride, clearOverrides],
+  );
+
+  return <FeatureFlagsContext.Provider value={value}>{!isLoading && <>{children}</>}</FeatureFlagsContext.Provider>;
+};
+
+export default FeatureFlagsContextProvider;
@@ -0,0 +1,155 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { act } from 'react';
+import { DehydratedState, onlineManager } from '@tanstack/react-query';
+
+import { render, screen, waitFor } from 'test/test-utils';
+import { queryClient } from 'test/query-client';
+import { todosFixture } from '__fixtures__/todos';
+import { QueryKey, StorageKey } from 'common/utils/constants';
+import idbStorage from 'common/utils/idbStorage';
+import * as UseToasts from 'common/hooks/useToasts';
+import { useUpdateTask } from 'pages/Tasks/api/useUpdateTask';
+
+import MutationQueueProvider from './MutationQueueProvider';
+
+describe('MutationQueueProvider', () => {
+  const getItemSpy = vi.spyOn(idbStorage, 'getItem');
+  const setItemSpy = vi.spyOn(idbStorage, 'setItem');
+  const useToastsSpy = vi.spyOn(UseToasts, 'useToasts');
+  const mockCreateToast = vi.fn();
+
+  /**
+   * Creates a queued `Task` update, as stored by the provider.
+   */
+  const createQueuedUpdate = (taskId: number): DehydratedState['mutations'][number] => ({
+    mutationKey: [QueryKey.Tasks, 'updateTask'],
+    scope: { id: QueryKey.Tasks },
+    state: {
+      context: { taskId },
+      data: undefined,
+      error: null,
+      failureCount: 0,
+      failureReason: null,
+      isPaused: true,
+      status: 'pending',
+      variables: { task: { ...todosFixture[0], id: taskId, title: 'updated offline' } },
+      submittedAt: Date.now(),
+    },
+  });
+
+  /**
+   * Updates a `Task` when clicked.
+   */
+  function UpdateTester() {
+    const { mutate } = useUpdateTask();
+    return <button onClick={() => mutate({ task: { ...todosFixture[0], completed: true } })}>update</button>;
+  }
+
+  beforeEach(() => {
+    getItemSpy.mockResolvedValue(null);
+    setItemSpy.mockResolvedValue();
+    useToastsSpy.mockReturnValue({
+      createToast: mockCreateToast,
+      removeToast: vi.fn(),
+      toasts: [],
+    });
+  });
+
+  it('should render successfully', async () => {
+    // ARRANGE
+    render(
+      <MutationQueueProvider>
+        <div data-testid="provider-mutation-queue"></div>
+      </MutationQueueProvider>,
+    );
+    await screen.findByTestId('provider-mutation-queue');
+
+    // ASSERT
+    expect(screen.getByTestId('provider-mutation-queue')).toBeDefined();
+    expect(getItemSpy).toHaveBeenCalled();
+  });
+
+  it('should render children when storage is not available', async () => {
+    // ARRANGE
+    getItemSpy.mockRejectedValue(new Error('IndexedDB is not available.'));
+    render(
+      <MutationQueueProvider>
+        <div data-testid="provider-mutation-queue"></div>
+      </MutationQueueProvider>,
+    );
+    await screen.findByTestId('provider-mutation-queue');
+
+    // ASSERT
+    expect(screen.getByTestId('provider-mutation-queue')).toBeDefined();
+  });
+
+  it('should resume restored mutations', async () => {
+    // ARRANGE
+    getItemSpy.mockResolvedValue([createQueuedUpdate(1)]);
+    render(
+      <MutationQueueProvider>
+        <div data-testid="provider-mutation-queue"></div>
+      </MutationQueueProvider>,
+    );
+    await screen.findByTestId('provider-mutation-queue');
+
+    // ASSERT
+    await waitFor(() =>
+      expect(queryClient.getQueryData([QueryKey.Tasks, 1])).toEqual(
+        expect.objectContaining({ id: 1, title: 'updated offline' }),
+      ),
+    );
+  });
+
+  it('should persist mutations queued while offline', async () => {
+    // ARRANGE
+    render(
+      <MutationQueueProvider>
+        <UpdateTester />
+      </MutationQueueProvider>,
+    );
+    await screen.findByText('update');
+    act(() => onlineManager.setOnline(false));
+
+    // ACT
+    act(() => screen.getByText('update').click());
+
+    // ASSERT
+    await waitFor(() =>
+      expect(setItemSpy).toHaveBeenLastCalledWith(StorageKey.MutationQueue, [
+        expect.objectContaining({
+          mutationKey: [QueryKey.Tasks, 'updateTask'],
+          state: expect.objectContaining({ isPaused: true, context: { taskId: 1 } }),
+        }),
+      ]),
+    );
+
+    // ACT
+    act(() => onlineManager.setOnline(true));
+
+    // ASSERT
+    await waitFor(() => expect(setItemSpy).toHaveBeenLastCalledWith(StorageKey.MutationQueue, []));
+  });
+
+  it('should notify the user when a restored mutation fails', async () => {
+    // ARRANGE
+    getItemSpy.mockResolvedValue([createQueuedUpdate(999)]);
+    render(
+      <MutationQueueProvider>
+        <div data-testid="provider-mutation-queue"></div>
+      </MutationQueueProvider>,
+    );
+    await screen.findByTestId('provider-mutation-queue');
+
+    // ASSERT
+    await waitFor(() =>
+      expect(mockCreateToast).toHaveBeenCalledWith(
+        expect.objectContaining({
+          text: expect.stringMatching(/change made while offline could not be saved/),
+          variant: 'danger',
+        }),
+      ),
+    );
+    expect(mockCreateToast).toHaveBeenCalledTimes(1);
+  });
+});
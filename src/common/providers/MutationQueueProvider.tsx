@@ -0,0 +1,115 @@
+import { PropsWithChildren, useEffect, useRef, useState } from 'react';
+import { DehydratedState, dehydrate, hydrate, onlineManager, QueryClient, useQueryClient } from '@tanstack/react-query';
+import { useTranslation } from 'react-i18next';
+
+import { useApi } from 'common/hooks/useApi';
+import { useToasts } from 'common/hooks/useToasts';
+import { getErrorMessage } from 'common/utils/apiError';
+import { StorageKey } from 'common/utils/constants';
+import idbStorage from 'common/utils/idbStorage';
+import { setTaskMutationDefaults } from 'pages/Tasks/api/taskMutationDefaults';
+
+/**
+ * Restores the queued mutations from storage into the mutation cache.
+ * @param {QueryClient} queryClient - The React Query client.
+ * @returns {Promise<void>} A Promise which resolves when the mutations are restored.
+ */
+const restoreMutations = async (queryClient: QueryClient): Promise<void> => {
+  const mutations = await idbStorage.getItem<DehydratedState['mutations']>(StorageKey.MutationQueue);
+  if (mutations?.length) {
+    hydrate(queryClient, { mutations, queries: [] });
+  }
+};
+
+/**
+ * Stores the queued mutations, i.e. those which are paused. Errors are not
+ * stored; they may not be cloned.
+ * @param {QueryClient} queryClient - The React Query client.
+ * @returns {Promise<void>} A Promise which resolves when the mutations are stored.
+ */
+const persistMutations = async (queryClient: QueryClient): Promise<void> => {
+  const { mutations } = dehydrate(queryClient, { shouldDehydrateQuery: () => false });
+  await idbStorage.setItem(
+    StorageKey.MutationQueue,
+    mutations.map((mutation) => ({ ...mutation, state: { ...mutation.state, error: null, failureReason: null } })),
+  );
+};
+
+/**
+ * The `MutationQueueProvider` React component persists the mutations which
+ * are queued while the browser is offline, so that they survive a reload, and
+ * resumes them when the browser is back online.
+ *
+ * Children are rendered once the queued mutations are restored. When a
+ * queued mutation fails on replay, e.g. because it conflicts with a change
+ * made elsewhere, the user is notified.
+ * @param {PropsWithChildren} props - Component properties, `PropsWithChildren`.
+ */
+const MutationQueueProvider = ({ children }: PropsWithChildren) => {
+  const [isRestored, setIsRestored] = useState(false);
+  const restorePromise = useRef<Promise<void>>(null);
+  const queuedMutationIdsRef = useRef(new Set<number>());
+  const isRestoredRef = useRef(false);
+  const queryClient = useQueryClient();
+  const api = useApi('tasks');
+  const { createToast } = useToasts();
+  const { t } = useTranslation();
+
+  useEffect(() => {
+    // restored mutations are resumed with the defaults for their mutation key
+    setTaskMutationDefaults({ api, queryClient });
+  }, [api, queryClient]);
+
+  // subscribed before the queued mutations are restored, so that a restored mutation which fails is reported
+  useEffect(() => {
+    const mutationCache = queryClient.getMutationCache();
+    return mutationCache.subscribe((event) => {
+      const queuedMutationIds = queuedMutationIdsRef.current;
+      if (event.type === 'added' && event.mutation.state.isPaused) {
+        // a restored mutation
+        queuedMutationIds.add(event.mutation.mutationId);
+      } else if (event.type === 'updated') {
+        const { action, mutation } = event;
+        if (action.type === 'pause') {
+          queuedMutationIds.add(mutation.mutationId);
+        } else if (action.type === 'error' && queuedMutationIds.delete(mutation.mutationId)) {
+          createToast({
+            text: `${t('offline.replay-failed')} ${getErrorMessage(action.error, t)}`,
+            isAutoDismiss: false,
+            variant: 'danger',
+          });
+        } else if (action.type === 'success') {
+          queuedMutationIds.delete(mutation.mutationId);
+        }
+      }
+      // until the queued mutations are restored, the stored mutations must not be replaced
+      if (isRestoredRef.current) {
+        persistMutations(queryClient).catch(() => {
+          // storage is not available; mutations are queued in memory only
+        });
+      }
+    });
+  }, [createToast, queryClient, t]);
+
+  useEffect(() => {
+    if (!restorePromise.current) {
+      // the browser may have started offline
+      onlineManager.setOnline(navigator.onLine);
+      restorePromise.current = restoreMutations(queryClient)
+        .catch(() => {
+          // storage is not available; mutations are queued in memory only
+        })
+        .then(() => {
+          isRestoredRef.current = true;
+          if (onlineManager.isOnline()) {
+            queryClient.resumePausedMutations();
+          }
+        });
+    }
+    restorePromise.current.then(() => setIsRestored(true));
+  }, [queryClient]);
+
+  return <>{isRestored && children}</>;
+};
+
+export default MutationQueueProvider;
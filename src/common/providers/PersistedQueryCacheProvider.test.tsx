@@ -0,0 +1,186 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { act } from 'react';
+
+import { render, screen, waitFor } from 'test/test-utils';
+import { queryClient } from 'test/query-client';
+import { configFixture } from '__fixtures__/config';
+import { todosFixture } from '__fixtures__/todos';
+import { userTokensFixture } from '__fixtures__/tokens';
+import { QueryKey, StorageKey } from 'common/utils/constants';
+import idbStorage from 'common/utils/idbStorage';
+import storage from 'common/utils/storage';
+import * as UseConfig from 'common/hooks/useConfig';
+
+import PersistedQueryCacheProvider, { PersistedQueryCache } from './PersistedQueryCacheProvider';
+
+describe('PersistedQueryCacheProvider', () => {
+  const getItemSpy = vi.spyOn(idbStorage, 'getItem');
+  const removeItemSpy = vi.spyOn(idbStorage, 'removeItem');
+  const setItemSpy = vi.spyOn(idbStorage, 'setItem');
+  const storageGetItemSpy = vi.spyOn(storage, 'getItem');
+  const useConfigSpy = vi.spyOn(UseConfig, 'useConfig');
+
+  /**
+   * Creates a persisted query cache which holds the `Task` list of a user.
+   */
+  const createPersistedCache = ({
+    buster = configFixture.VITE_BUILD_COMMIT_SHA,
+    timestamp = Date.now(),
+  } = {}): PersistedQueryCache => ({
+    buster,
+    timestamp,
+    state: {
+      mutations: [],
+      queries: [
+        {
+          queryHash: JSON.stringify([QueryKey.Tasks, { userId: 1 }]),
+          queryKey: [QueryKey.Tasks, { userId: 1 }],
+          state: {
+            data: todosFixture,
+            dataUpdateCount: 1,
+            dataUpdatedAt: timestamp,
+            error: null,
+            errorUpdateCount: 0,
+            errorUpdatedAt: 0,
+            fetchFailureCount: 0,
+            fetchFailureReason: null,
+            fetchMeta: null,
+            fetchStatus: 'idle',
+            isInvalidated: false,
+            status: 'success',
+          },
+        },
+      ],
+    },
+  });
+
+  /**
+   * Renders the provider and waits for the persisted queries to be restored.
+   */
+  const renderProvider = async () => {
+    render(
+      <PersistedQueryCacheProvider>
+        <div data-testid="provider-persisted-query-cache"></div>
+      </PersistedQueryCacheProvider>,
+    );
+    await screen.findByTestId('provider-persisted-query-cache');
+  };
+
+  beforeEach(() => {
+    getItemSpy.mockResolvedValue(null);
+    removeItemSpy.mockResolvedValue();
+    setItemSpy.mockResolvedValue();
+    storageGetItemSpy.mockReturnValue(JSON.stringify(userTokensFixture));
+    useConfigSpy.mockReturnValue(configFixture);
+  });
+
+  it('should render successfully', async () => {
+    // ARRANGE
+    await renderProvider();
+
+    // ASSERT
+    expect(screen.getByTestId('provider-persisted-query-cache')).toBeDefined();
+    expect(getItemSpy).toHaveBeenCalledWith(StorageKey.QueryCache);
+  });
+
+  it('should render children when storage is not available', async () => {
+    // ARRANGE
+    getItemSpy.mockRejectedValue(new Error('IndexedDB is not available.'));
+    await renderProvider();
+
+    // ASSERT
+    expect(screen.getByTestId('provider-persisted-query-cache')).toBeDefined();
+  });
+
+  it('should restore persisted queries', async () => {
+    // ARRANGE
+    getItemSpy.mockResolvedValue(createPersistedCache());
+    await renderProvider();
+
+    // ASSERT
+    expect(queryClient.getQueryData([QueryKey.Tasks, { userId: 1 }])).toEqual(todosFixture);
+  });
+
+  it('should discard a cache persisted by another build', async () => {
+    // ARRANGE
+    getItemSpy.mockResolvedValue(createPersistedCache({ buster: 'another-build' }));
+    await renderProvider();
+
+    // ASSERT
+    expect(queryClient.getQueryData([QueryKey.Tasks, { userId: 1 }])).toBeUndefined();
+    expect(removeItemSpy).toHaveBeenCalledWith(StorageKey.QueryCache);
+  });
+
+  it('should discard an expired cache', async () => {
+    // ARRANGE
+    getItemSpy.mockResolvedValue(
+      createPersistedCache({ timestamp: Date.now() - configFixture.VITE_QUERY_CACHE_MAX_AGE_MILLIS - 1 }),
+    );
+    await renderProvider();
+
+    // ASSERT
+    expect(queryClient.getQueryData([QueryKey.Tasks, { userId: 1 }])).toBeUndefined();
+    expect(removeItemSpy).toHaveBeenCalledWith(StorageKey.QueryCache);
+  });
+
+  it('should persist successful queries', async () => {
+    // ARRANGE
+    await renderProvider();
+
+    // ACT
+    act(() => {
+      queryClient.setQueryData([QueryKey.Config], configFixture);
+      queryClient.setQueryData([QueryKey.Tasks, { userId: 1 }], todosFixture);
+    });
+
+    // ASSERT
+    // writes are throttled
+    await waitFor(
+      () =>
+        expect(setItemSpy).toHaveBeenLastCalledWith(
+          StorageKey.QueryCache,
+          expect.objectContaining({
+            buster: configFixture.VITE_BUILD_COMMIT_SHA,
+            state: expect.objectContaining({
+              queries: expect.arrayContaining([expect.objectContaining({ queryKey: [QueryKey.Tasks, { userId: 1 }] })]),
+            }),
+          }),
+        ),
+      { timeout: 2000 },
+    );
+    const { state } = setItemSpy.mock.lastCall?.[1] as PersistedQueryCache;
+    expect(state.queries.map(({ queryKey }) => queryKey[0])).not.toContain(QueryKey.Config);
+  });
+
+  it('should not persist queries when no user is signed in', async () => {
+    // ARRANGE
+    storageGetItemSpy.mockReturnValue(null);
+    await renderProvider();
+
+    // ACT
+    act(() => {
+      queryClient.setQueryData([QueryKey.Tasks, { userId: 1 }], todosFixture);
+    });
+
+    // ASSERT
+    await waitFor(() => expect(removeItemSpy).toHaveBeenCalledWith(StorageKey.QueryCache));
+    expect(setItemSpy).not.toHaveBeenCalled();
+  });
+
+  it('should not restore queries when disabled', async () => {
+    // ARRANGE
+    useConfigSpy.mockReturnValue({ ...configFixture, VITE_QUERY_CACHE_MAX_AGE_MILLIS: 0 });
+    getItemSpy.mockResolvedValue(createPersistedCache());
+    await renderProvider();
+
+    // ACT
+    act(() => {
+      queryClient.setQueryData([QueryKey.Tasks, { userId: 1 }], todosFixture);
+    });
+
+    // ASSERT
+    expect(getItemSpy).not.toHaveBeenCalled();
+    expect(removeItemSpy).toHaveBeenCalledWith(StorageKey.QueryCache);
+    expect(setItemSpy).not.toHaveBeenCalled();
+  });
+});
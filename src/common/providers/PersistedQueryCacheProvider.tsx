@@ -0,0 +1,140 @@
+import { PropsWithChildren, useEffect, useRef, useState } from 'react';
+import {
+  DehydratedState,
+  defaultShouldDehydrateQuery,
+  dehydrate,
+  hydrate,
+  QueryClient,
+  useQueryClient,
+} from '@tanstack/react-query';
+import throttle from 'lodash/throttle';
+
+import { useConfig } from 'common/hooks/useConfig';
+import { QueryKey, StorageKey } from 'common/utils/constants';
+import idbStorage from 'common/utils/idbStorage';
+import storage from 'common/utils/storage';
+
+/**
+ * The query cache, as stored.
+ * @param buster - Identifies the build which stored the cache.
+ * @param timestamp - The time, in milliseconds, when the cache was stored.
+ * @param state - The dehydrated queries.
+ */
+export type PersistedQueryCache = {
+  buster: string;
+  timestamp: number;
+  state: DehydratedState;
+};
+
+/**
+ * The minimum interval in milliseconds between writes of the query cache.
+ */
+const PERSIST_INTERVAL_MILLIS = 1000;
+
+/**
+ * Queries which are never persisted. Tokens are kept in browser storage by
+ * the authentication flow and the configuration must be current.
+ */
+const UNPERSISTED_QUERY_KEYS: string[] = [QueryKey.Config, QueryKey.UserTokens];
+
+/**
+ * Restores the persisted queries into the query cache. A persisted cache
+ * which is older than the maximum age, or which was stored by another build,
+ * is discarded.
+ * @param {QueryClient} queryClient - The React Query client.
+ * @param {string} buster - Identifies the current build.
+ * @param {number} maxAge - The maximum age of the persisted cache in milliseconds.
+ * @returns {Promise<void>} A Promise which resolves when the queries are restored.
+ */
+const restoreQueries = async (queryClient: QueryClient, buster: string, maxAge: number): Promise<void> => {
+  const persistedCache = await idbStorage.getItem<PersistedQueryCache>(StorageKey.QueryCache);
+  if (!persistedCache) {
+    return;
+  }
+  if (persistedCache.buster !== buster || Date.now() - persistedCache.timestamp > maxAge) {
+    await idbStorage.removeItem(StorageKey.QueryCache);
+    return;
+  }
+  hydrate(queryClient, persistedCache.state);
+};
+
+/**
+ * Stores the successful queries. The cache is stored only while a user is
+ * signed in, so that their data does not outlive their session.
+ * @param {QueryClient} queryClient - The React Query client.
+ * @param {string} buster - Identifies the current build.
+ * @returns {Promise<void>} A Promise which resolves when the queries are stored.
+ */
+const persistQueries = async (queryClient: QueryClient, buster: string): Promise<void> => {
+  if (!storage.getItem(StorageKey.UserTokens)) {
+    await idbStorage.removeItem(StorageKey.QueryCache);
+    return;
+  }
+  const state = dehydrate(queryClient, {
+    shouldDehydrateMutation: () => false,
+    shouldDehydrateQuery: (query) =>
+      defaultShouldDehydrateQuery(query) && !UNPERSISTED_QUERY_KEYS.includes(`${query.queryKey[0]}`),
+  });
+  await idbStorage.setItem<PersistedQueryCache>(StorageKey.QueryCache, { buster, timestamp: Date.now(), state });
+};
+
+/**
+ * The `PersistedQueryCacheProvider` React component persists the query cache,
+ * so that a returning user sees the data of their last visit immediately.
+ * Restored data which is stale is refetched when it is used.
+ *
+ * Children are rendered once the persisted queries are restored. The
+ * persisted cache expires after `VITE_QUERY_CACHE_MAX_AGE_MILLIS` and is
+ * discarded when `VITE_BUILD_COMMIT_SHA` changes.
+ * @param {PropsWithChildren} props - Component properties, `PropsWithChildren`.
+ */
+const PersistedQueryCacheProvider = ({ children }: PropsWithChildren) => {
+  const [isRestored, setIsRestored] = useState(false);
+  const restorePromise = useRef<Promise<void>>(null);
+  const isRestoredRef = useRef(false);
+  const queryClient = useQueryClient();
+  const config = useConfig();
+  const buster = config.VITE_BUILD_COMMIT_SHA;
+  const maxAge = config.VITE_QUERY_CACHE_MAX_AGE_MILLIS;
+
+  useEffect(() => {
+    if (!maxAge) {
+      return;
+    }
+    const persist = throttle(() => {
+      persistQueries(queryClient, buster).catch(() => {
+        // storage is not available; queries are cached in memory only
+      });
+    }, PERSIST_INTERVAL_MILLIS);
+    const unsubscribe = queryClient.getQueryCache().subscribe(() => {
+      // until the persisted queries are restored, the persisted cache must not be replaced
+      if (isRestoredRef.current) {
+        persist();
+      }
+    });
+
+    return () => {
+      unsubscribe();
+      persist.flush();
+    };
+  }, [buster, maxAge, queryClient]);
+
+  useEffect(() => {
+    if (!restorePromise.current) {
+      restorePromise.current = (
+        maxAge ? restoreQueries(queryClient, buster, maxAge) : idbStorage.removeItem(StorageKey.QueryCache)
+      )
+        .catch(() => {
+          // storage is not available; queries are cached in memory only
+        })
+        .then(() => {
+          isRestoredRef.current = true;
+        });
+    }
+    restorePromise.current.then(() => setIsRestored(true));
+  }, [buster, maxAge, queryClient]);
+
+  return <>{isRestored && children}</>;
+};
+
+export default PersistedQueryCacheProvider;
@@ -2,6 +2,7 @@ import { beforeEach, describe, expect, it, vi } from 'vitest';
 import { render as renderWithoutWrapper } from '@testing-library/react';
 
 import { screen } from 'test/test-utils';
+import WithQueryClientProvider from 'test/wrappers/WithQueryClientProvider';
 
 import SettingsContextProvider from 'common/providers/SettingsProvider';
 import { settingsFixture } from '__fixtures__/settings';
@@ -24,6 +25,7 @@ describe('SettingsProvider', () => {
       <SettingsContextProvider>
         <div data-testid="provider-settings"></div>
       </SettingsContextProvider>,
+      { wrapper: WithQueryClientProvider },
     );
     await screen.findByTestId('provider-settings');
 
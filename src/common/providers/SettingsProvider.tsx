@@ -1,15 +1,20 @@
 import { PropsWithChildren, useMemo } from 'react';
 
 import { useGetSettings } from 'common/api/useGetSettings';
+import { useStorageSync } from 'common/hooks/useStorageSync';
+import { QueryKey, StorageKey } from 'common/utils/constants';
 import { SettingsContext } from './SettingsContext';
 
 /**
  * The `SettingsContextProvider` React component creates, maintains, and provides
  * access to the `SettingsContext` value.
+ *
+ * Changes to the settings in other tabs are applied immediately.
  * @param {PropsWithChildren} props - Component properties, `PropsWithChildren`.
  */
 const SettingsContextProvider = ({ children }: PropsWithChildren) => {
   const { data: settings, isLoading } = useGetSettings();
+  useStorageSync(StorageKey.Settings, [QueryKey.Settings]);
 
   const value = useMemo(() => settings, [settings]);
 
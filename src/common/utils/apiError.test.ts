@@ -0,0 +1,224 @@
+import { describe, expect, it, vi } from 'vitest';
+import { AxiosError, AxiosResponse, CanceledError } from 'axios';
+
+import {
+  ApiError,
+  ERR_GRAPHQL,
+  ERR_SCHEMA_DRIFT,
+  getErrorMessage,
+  getErrorMessageKey,
+  GraphQLResponseError,
+  ProblemDetails,
+  SchemaDriftError,
+  setFormErrors,
+  toApiError,
+} from './apiError';
+
+describe('apiError', () => {
+  const createAxiosError = (status: number, data?: unknown, contentType = 'application/problem+json') =>
+    new AxiosError(`Request failed with status code ${status}`, AxiosError.ERR_BAD_REQUEST, undefined, undefined, {
+      status,
+      data,
+      headers: { 'content-type': contentType },
+    } as unknown as AxiosResponse);
+
+  const problem: ProblemDetails = {
+    type: 'https://api.example.com/problems/validation',
+    title: 'Validation failed',
+    status: 422,
+    detail: 'The task is not valid.',
+    code: 'validation_failed',
+    errors: { title: ['Required.', 'Too short.'], completed: 'Must be a boolean.' },
+  };
+
+  describe('ApiError', () => {
+    it('should normalize a problem+json response', () => {
+      // ACT
+      const error = new ApiError(createAxiosError(422, problem));
+
+      // ASSERT
+      expect(error).toBeInstanceOf(AxiosError);
+      expect(error.name).toBe('ApiError');
+      expect(error.message).toBe('The task is not valid.');
+      expect(error.status).toBe(422);
+      expect(error.code).toBe('validation_failed');
+      expect(error.problem).toEqual(problem);
+      expect(error.errors).toEqual({ title: ['Required.', 'Too short.'], completed: ['Must be a boolean.'] });
+      expect(error.response?.status).toBe(422);
+    });
+
+    it('should normalize invalid-params field errors', () => {
+      // ACT
+      const error = new ApiError(
+        createAxiosError(400, { title: 'Bad request', 'invalid-params': [{ name: 'title', reason: 'Required.' }] }),
+      );
+
+      // ASSERT
+      expect(error.message).toBe('Bad request');
+      expect(error.errors).toEqual({ title: ['Required.'] });
+    });
+
+    it('should not read problem details from other responses', () => {
+      // ACT
+      const error = new ApiError(createAxiosError(500, { detail: 'Oops' }, 'application/json'));
+
+      // ASSERT
+      expect(error.message).toBe('Request failed with status code 500');
+      expect(error.code).toBe(AxiosError.ERR_BAD_REQUEST);
+      expect(error.status).toBe(500);
+      expect(error.problem).toBeUndefined();
+      expect(error.errors).toEqual({});
+    });
+  });
+
+  describe('SchemaDriftError', () => {
+    it('should describe the schema issues', () => {
+      // ARRANGE
+      const response = {
+        status: 200,
+        data: { id: 'one' },
+        headers: {},
+        config: { method: 'get', url: '/todos/1' },
+      } as unknown as AxiosResponse;
+
+      // ACT
+      const error = new SchemaDriftError(response, [
+        { code: 'invalid_type', expected: 'number', path: ['id'], message: 'Invalid input', input: 'one' },
+      ]);
+
+      // ASSERT
+      expect(error).toBeInstanceOf(ApiError);
+      expect(error.name).toBe('SchemaDriftError');
+      expect(error.code).toBe(ERR_SCHEMA_DRIFT);
+      expect(error.status).toBe(200);
+      expect(error.message).toBe('The response to GET /todos/1 does not match the schema. Details: id: Invalid input');
+      expect(error.issues).toHaveLength(1);
+      expect(getErrorMessageKey(error)).toBe('errors.api.unexpected-response');
+    });
+  });
+
+  describe('GraphQLResponseError', () => {
+    const response = { status: 200, data: {}, headers: {}, config: {} } as unknown as AxiosResponse;
+
+    it('should use the code of the first error', () => {
+      // ACT
+      const error = new GraphQLResponseError(response, [
+        { message: 'Not signed in.', extensions: { code: 'UNAUTHENTICATED' } },
+        { message: 'Task not found.' },
+      ]);
+
+      // ASSERT
+      expect(error).toBeInstanceOf(ApiError);
+      expect(error.name).toBe('GraphQLResponseError');
+      expect(error.code).toBe('UNAUTHENTICATED');
+      expect(error.message).toBe('Not signed in.; Task not found.');
+      expect(error.graphQLErrors).toHaveLength(2);
+      expect(getErrorMessageKey(error)).toBe('errors.api.unauthenticated');
+    });
+
+    it('should use the default code when the errors have no code', () => {
+      // ACT
+      const error = new GraphQLResponseError(response, [{ message: 'Oops' }]);
+
+      // ASSERT
+      expect(error.code).toBe(ERR_GRAPHQL);
+      expect(getErrorMessageKey(error)).toBe('errors.unable-to-process');
+    });
+  });
+
+  describe('toApiError', () => {
+    it('should convert an AxiosError', () => {
+      // ASSERT
+      expect(toApiError(createAxiosError(404))).toBeInstanceOf(ApiError);
+    });
+
+    it('should not convert other errors', () => {
+      // ARRANGE
+      const error = new Error('Changes are not allowed.');
+      const canceled = new CanceledError();
+
+      // ASSERT
+      expect(toApiError(error)).toBe(error);
+      expect(toApiError(canceled)).toBe(canceled);
+    });
+  });
+
+  describe('getErrorMessageKey', () => {
+    it('should return key for code', () => {
+      // ASSERT
+      expect(getErrorMessageKey(new ApiError(createAxiosError(400, problem)))).toBe('errors.api.validation');
+      expect(getErrorMessageKey(new ApiError(new AxiosError('Network Error', AxiosError.ERR_NETWORK)))).toBe(
+        'errors.api.network',
+      );
+    });
+
+    it('should return key for status', () => {
+      // ASSERT
+      expect(getErrorMessageKey(new ApiError(createAxiosError(404)))).toBe('errors.api.not-found');
+      expect(getErrorMessageKey(new ApiError(createAxiosError(409)))).toBe('errors.api.conflict');
+      expect(getErrorMessageKey(new ApiError(createAxiosError(503)))).toBe('errors.api.server');
+    });
+
+    it('should return default key for other errors', () => {
+      // ASSERT
+      expect(getErrorMessageKey(new ApiError(createAxiosError(418)))).toBe('errors.unable-to-process');
+      expect(getErrorMessageKey(new Error('Oops'))).toBe('errors.unable-to-process');
+    });
+  });
+
+  describe('getErrorMessage', () => {
+    const t = (key: string) => `[${key}]`;
+
+    it('should return message with problem detail', () => {
+      // ASSERT
+      expect(getErrorMessage(new ApiError(createAxiosError(422, problem)), t)).toBe(
+        '[errors.api.validation] The task is not valid.',
+      );
+    });
+
+    it('should return message without detail', () => {
+      // ASSERT
+      expect(getErrorMessage(new ApiError(createAxiosError(404)), t)).toBe('[errors.api.not-found]');
+    });
+
+    it('should return message with error message', () => {
+      // ASSERT
+      expect(getErrorMessage(new Error('Oops'), t)).toBe('[errors.unable-to-process] Oops');
+    });
+  });
+
+  describe('setFormErrors', () => {
+    it('should set errors of form fields', () => {
+      // ARRANGE
+      const setError = vi.fn();
+
+      // ACT
+      const result = setFormErrors<{ title: string; userId: number }>(
+        new ApiError(createAxiosError(422, problem)),
+        setError,
+        ['title', 'userId'],
+      );
+
+      // ASSERT
+      expect(result).toBe(true);
+      expect(setError).toHaveBeenCalledTimes(1);
+      expect(setError).toHaveBeenCalledWith(
+        'title',
+        { type: 'server', message: 'Required. Too short.' },
+        { shouldFocus: true },
+      );
+    });
+
+    it('should not set errors when not an ApiError', () => {
+      // ARRANGE
+      const setError = vi.fn();
+
+      // ACT
+      const result = setFormErrors<{ title: string }>(new Error('Oops'), setError, ['title']);
+
+      // ASSERT
+      expect(result).toBe(false);
+      expect(setError).not.toHaveBeenCalled();
+    });
+  });
+});
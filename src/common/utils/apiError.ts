@@ -0,0 +1,300 @@
+import { AxiosError, AxiosResponse, isAxiosError, isCancel } from 'axios';
+import { FieldValues, Path, UseFormSetError } from 'react-hook-form';
+import isPlainObject from 'lodash/isPlainObject';
+import { z } from 'zod';
+
+/**
+ * An RFC 7807 problem details object, the body of an
+ * `application/problem+json` response.
+ * @param [type] - Optional. A URI reference which identifies the problem type.
+ * @param [title] - Optional. A short summary of the problem type.
+ * @param [status] - Optional. The HTTP status code.
+ * @param [detail] - Optional. An explanation specific to this occurrence.
+ * @param [instance] - Optional. A URI reference which identifies this occurrence.
+ * @param [code] - Optional. Extension. A machine-readable error code.
+ * @param [errors] - Optional. Extension. Messages for each invalid field.
+ * @see {@link https://www.rfc-editor.org/rfc/rfc7807 | RFC 7807}
+ */
+export type ProblemDetails = {
+  type?: string;
+  title?: string;
+  status?: number;
+  detail?: string;
+  instance?: string;
+  code?: string;
+  errors?: Record<string, string | string[]>;
+  [extension: string]: unknown;
+};
+
+/**
+ * An error in the `errors` of a GraphQL response.
+ * @param message - A description of the error.
+ * @param [locations] - Optional. The locations in the document of the error.
+ * @param [path] - Optional. The path of the response field which failed.
+ * @param [extensions] - Optional. Additional information, e.g. a `code`.
+ * @see {@link https://spec.graphql.org/October2021/#sec-Errors | GraphQL Errors}
+ */
+export type GraphQLError = {
+  message: string;
+  locations?: { line: number; column: number }[];
+  path?: (string | number)[];
+  extensions?: Record<string, unknown>;
+};
+
+/**
+ * Messages for each invalid field, keyed by field name.
+ */
+export type ApiFieldErrors = Record<string, string[]>;
+
+/**
+ * The media type of an RFC 7807 problem details response.
+ */
+const PROBLEM_JSON = 'application/problem+json';
+
+/**
+ * The error code of a `SchemaDriftError`.
+ */
+export const ERR_SCHEMA_DRIFT = 'ERR_SCHEMA_DRIFT';
+
+/**
+ * The error code of a `GraphQLResponseError` whose errors have no code.
+ */
+export const ERR_GRAPHQL = 'ERR_GRAPHQL';
+
+/**
+ * i18n keys of the messages for error codes. Codes are supplied by the API
+ * in the problem `code` or the GraphQL error `extensions.code`, or by Axios,
+ * e.g. `ERR_NETWORK`.
+ */
+const CODE_KEYS: Record<string, string> = {
+  [AxiosError.ERR_NETWORK]: 'errors.api.network',
+  [AxiosError.ECONNABORTED]: 'errors.api.timeout',
+  [AxiosError.ETIMEDOUT]: 'errors.api.timeout',
+  [ERR_SCHEMA_DRIFT]: 'errors.api.unexpected-response',
+  validation_failed: 'errors.api.validation',
+  BAD_USER_INPUT: 'errors.api.validation',
+  FORBIDDEN: 'errors.api.forbidden',
+  NOT_FOUND: 'errors.api.not-found',
+  UNAUTHENTICATED: 'errors.api.unauthenticated',
+};
+
+/**
+ * i18n keys of the messages for HTTP status codes. Used when the error code
+ * has no message of its own.
+ */
+const STATUS_KEYS: Record<number, string> = {
+  400: 'errors.api.bad-request',
+  401: 'errors.api.unauthenticated',
+  403: 'errors.api.forbidden',
+  404: 'errors.api.not-found',
+  409: 'errors.api.conflict',
+  422: 'errors.api.validation',
+  429: 'errors.api.rate-limited',
+};
+
+/**
+ * Reads the problem details from a response. Only `application/problem+json`
+ * responses carry problem details.
+ * @param {AxiosResponse} [response] - The response.
+ * @returns {ProblemDetails | undefined} The `ProblemDetails` or `undefined`.
+ */
+const getProblemDetails = (response?: AxiosResponse): ProblemDetails | undefined => {
+  const contentType = `${response?.headers?.['content-type'] ?? ''}`;
+  if (contentType.includes(PROBLEM_JSON) && isPlainObject(response?.data)) {
+    return response?.data as ProblemDetails;
+  }
+};
+
+/**
+ * Normalizes the field errors of a problem. Supports the `errors` map
+ * extension and the `invalid-params` array of RFC 7807 section 3.
+ * @param {ProblemDetails} [problem] - The problem details.
+ * @returns {ApiFieldErrors} The messages for each invalid field.
+ */
+const getFieldErrors = (problem?: ProblemDetails): ApiFieldErrors => {
+  const fieldErrors: ApiFieldErrors = {};
+  if (isPlainObject(problem?.errors)) {
+    Object.entries(problem?.errors ?? {}).forEach(([field, messages]) => {
+      fieldErrors[field] = ([] as string[]).concat(messages);
+    });
+  }
+  if (Array.isArray(problem?.['invalid-params'])) {
+    (problem['invalid-params'] as { name?: string; reason?: string }[]).forEach(({ name, reason }) => {
+      if (name && reason) {
+        fieldErrors[name] = [...(fieldErrors[name] ?? []), reason];
+      }
+    });
+  }
+  return fieldErrors;
+};
+
+/**
+ * The `ApiError` is a failed API request. It normalizes the failure: the
+ * `status`, the `code`, the `errors` for each invalid field and, when the
+ * API responds with `application/problem+json`, the `problem` details.
+ *
+ * An `ApiError` is an `AxiosError`, so the original `config` and `response`
+ * remain available.
+ */
+export class ApiError<T = unknown> extends AxiosError<T> {
+  /** The problem details, when the response is `application/problem+json`. */
+  readonly problem?: ProblemDetails;
+  /** Messages for each invalid field, keyed by field name. */
+  readonly errors: ApiFieldErrors;
+
+  /**
+   * Creates an `ApiError` from an `AxiosError`.
+   * @param {AxiosError} error - The `AxiosError`.
+   */
+  constructor(error: AxiosError<T>) {
+    const problem = getProblemDetails(error.response);
+    super(
+      problem?.detail || problem?.title || error.message,
+      problem?.code || error.code,
+      error.config,
+      error.request,
+      error.response,
+    );
+    this.name = 'ApiError';
+    this.status = error.response?.status ?? problem?.status ?? error.status;
+    this.problem = problem;
+    this.errors = getFieldErrors(problem);
+    this.cause = error;
+  }
+}
+
+/**
+ * The `SchemaDriftError` is a successful API response whose data does not
+ * match the expected schema, e.g. because the API renamed or removed a field.
+ * The `issues` describe each mismatch.
+ *
+ * A `SchemaDriftError` is an `ApiError`, so the request identifiers and the
+ * `response` remain available for a support ticket.
+ */
+export class SchemaDriftError<T = unknown> extends ApiError<T> {
+  /** The zod validation issues, one for each mismatch. */
+  readonly issues: z.core.$ZodIssue[];
+
+  /**
+   * Creates a `SchemaDriftError` for a response.
+   * @param {AxiosResponse} response - The response whose data does not match the schema.
+   * @param {z.core.$ZodIssue[]} issues - The zod validation issues.
+   */
+  constructor(response: AxiosResponse<T>, issues: z.core.$ZodIssue[]) {
+    const { method = 'get', url } = response.config;
+    const details = issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join('; ');
+    super(
+      new AxiosError(
+        `The response to ${method.toUpperCase()} ${url} does not match the schema. Details: ${details}`,
+        ERR_SCHEMA_DRIFT,
+        response.config,
+        response.request,
+        response,
+      ),
+    );
+    this.name = 'SchemaDriftError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * The `GraphQLResponseError` is a GraphQL response with `errors`. GraphQL APIs
+ * report errors in the body of a successful HTTP response, so they are not
+ * normalized by the response interceptors.
+ *
+ * The `code` is the `extensions.code` of the first error, when present.
+ */
+export class GraphQLResponseError<T = unknown> extends ApiError<T> {
+  /** The errors of the GraphQL response. */
+  readonly graphQLErrors: GraphQLError[];
+
+  /**
+   * Creates a `GraphQLResponseError` for a response.
+   * @param {AxiosResponse} response - The GraphQL response.
+   * @param {GraphQLError[]} graphQLErrors - The errors of the response.
+   */
+  constructor(response: AxiosResponse<T>, graphQLErrors: GraphQLError[]) {
+    const code = graphQLErrors[0]?.extensions?.code;
+    super(
+      new AxiosError(
+        graphQLErrors.map((error) => error.message).join('; '),
+        typeof code === 'string' ? code : ERR_GRAPHQL,
+        response.config,
+        response.request,
+        response,
+      ),
+    );
+    this.name = 'GraphQLResponseError';
+    this.graphQLErrors = graphQLErrors;
+  }
+}
+
+/**
+ * Converts a failure to an `ApiError`. Cancelled requests and errors which are
+ * not `AxiosError`, e.g. those thrown by a request interceptor, are returned
+ * unchanged.
+ * @param {unknown} error - The failure.
+ * @returns {unknown} An `ApiError` or the unchanged failure.
+ */
+export const toApiError = (error: unknown): unknown => {
+  if (error instanceof ApiError || isCancel(error) || !isAxiosError(error)) {
+    return error;
+  }
+  return new ApiError(error);
+};
+
+/**
+ * Returns the i18n key of the message which describes an error. The key is
+ * chosen by the error `code` and then by the HTTP `status`.
+ * @param {unknown} error - The error.
+ * @returns {string} An i18n key in the `common` namespace.
+ */
+export const getErrorMessageKey = (error: unknown): string => {
+  if (error instanceof ApiError) {
+    if (error.code && CODE_KEYS[error.code]) {
+      return CODE_KEYS[error.code];
+    }
+    if (error.status && STATUS_KEYS[error.status]) {
+      return STATUS_KEYS[error.status];
+    }
+    if (error.status && error.status >= 500) {
+      return 'errors.api.server';
+    }
+  }
+  return 'errors.unable-to-process';
+};
+
+/**
+ * Returns a translated message which describes an error, followed by the
+ * problem detail or error message.
+ * @param {unknown} error - The error.
+ * @param {function} t - The i18n translation function.
+ * @returns {string} The message.
+ */
+export const getErrorMessage = (error: unknown, t: (key: string) => string): string => {
+  const detail = error instanceof ApiError ? error.problem?.detail : error instanceof Error ? error.message : '';
+  return [t(getErrorMessageKey(error)), detail].filter(Boolean).join(' ');
+};
+
+/**
+ * Sets the field errors of an `ApiError` on a React Hook Form form. Only the
+ * errors of the supplied form fields are set.
+ * @param {unknown} error - The error.
+ * @param {UseFormSetError} setError - The form `setError` function.
+ * @param {Path[]} fields - The names of the form fields.
+ * @returns {boolean} Returns `true` if any field error was set.
+ */
+export const setFormErrors = <T extends FieldValues>(
+  error: unknown,
+  setError: UseFormSetError<T>,
+  fields: Path<T>[],
+): boolean => {
+  if (!(error instanceof ApiError)) {
+    return false;
+  }
+  const invalidFields = fields.filter((field) => error.errors[field]?.length);
+  invalidFields.forEach((field, index) => {
+    setError(field, { type: 'server', message: error.errors[field].join(' ') }, { shouldFocus: index === 0 });
+  });
+  return invalidFields.length > 0;
+};
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+
+import { configFixture } from '__fixtures__/config';
+
+import { apiServicesSchema, getApiService, isApiUrl } from './apiServices';
+
+describe('apiServices', () => {
+  const config = {
+    ...configFixture,
+    VITE_API_SERVICES: {
+      files: { baseUrl: 'https://files.example.com', timeoutMillis: 60000 },
+      notifications: { auth: 'none' as const },
+    },
+  };
+
+  describe('apiServicesSchema', () => {
+    it('should accept configured services', () => {
+      // ACT
+      const result = apiServicesSchema.safeParse({ tasks: { baseUrl: 'https://tasks.example.com', auth: 'cookie' } });
+
+      // ASSERT
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject an unknown service', () => {
+      // ACT
+      const result = apiServicesSchema.safeParse({ unknown: { baseUrl: 'https://unknown.example.com' } });
+
+      // ASSERT
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject an unknown auth strategy', () => {
+      // ACT
+      const result = apiServicesSchema.safeParse({ tasks: { auth: 'basic' } });
+
+      // ASSERT
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('getApiService', () => {
+    it('should resolve the defaults of a service which is not configured', () => {
+      // ACT
+      const service = getApiService(config, 'tasks');
+
+      // ASSERT
+      expect(service).toEqual({ baseUrl: configFixture.VITE_BASE_URL_API, timeoutMillis: 0, auth: 'bearer' });
+    });
+
+    it('should resolve the configured attributes of a service', () => {
+      // ASSERT
+      expect(getApiService(config, 'files')).toEqual({
+        baseUrl: 'https://files.example.com',
+        timeoutMillis: 60000,
+        auth: 'bearer',
+      });
+      expect(getApiService(config, 'notifications')).toEqual({
+        baseUrl: configFixture.VITE_BASE_URL_API,
+        timeoutMillis: 0,
+        auth: 'none',
+      });
+    });
+  });
+
+  describe('isApiUrl', () => {
+    it('should match the URL of an API service', () => {
+      // ASSERT
+      expect(isApiUrl(config, `${configFixture.VITE_BASE_URL_API}/todos/1`)).toBe(true);
+      expect(isApiUrl(config, 'https://files.example.com/files/1')).toBe(true);
+    });
+
+    it('should not match another URL', () => {
+      // ASSERT
+      expect(isApiUrl(config, 'https://example.com/config.json')).toBe(false);
+      expect(isApiUrl(config, '/todos/1')).toBe(false);
+    });
+
+    it('should not match a URL of another origin which begins with the base URL', () => {
+      // ASSERT
+      expect(isApiUrl(config, `${configFixture.VITE_BASE_URL_API}.evil.io/todos/1`)).toBe(false);
+      expect(isApiUrl(config, 'https://files.example.com:8443/files/1')).toBe(false);
+    });
+
+    it('should match the path of the base URL at a segment boundary', () => {
+      // ARRANGE
+      const versionedConfig = {
+        ...configFixture,
+        VITE_API_SERVICES: { notifications: { baseUrl: 'https://notifications.example.com/v1' } },
+      };
+
+      // ASSERT
+      expect(isApiUrl(versionedConfig, 'https://notifications.example.com/v1')).toBe(true);
+      expect(isApiUrl(versionedConfig, 'https://notifications.example.com/v1/messages')).toBe(true);
+      expect(isApiUrl(versionedConfig, 'https://notifications.example.com/v10/messages')).toBe(false);
+      expect(isApiUrl(versionedConfig, 'https://notifications.example.com/messages')).toBe(false);
+    });
+  });
+});
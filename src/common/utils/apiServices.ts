@@ -0,0 +1,99 @@
+import { z } from 'zod';
+
+import type { Config } from './config';
+
+/**
+ * The names of the backend API services.
+ */
+export const API_SERVICE_NAMES = ['tasks', 'identity', 'files', 'notifications'] as const;
+
+/**
+ * The name of a backend API service.
+ */
+export type ApiServiceName = (typeof API_SERVICE_NAMES)[number];
+
+/**
+ * How requests to an API service are authenticated.
+ * - `bearer` - The user tokens are sent in the `Authorization` and
+ * `X-Access-Token` headers.
+ * - `cookie` - Credentials, i.e. cookies, are sent with cross-origin requests.
+ * - `none` - Requests are not authenticated.
+ */
+export const API_AUTH_STRATEGIES = ['bearer', 'cookie', 'none'] as const;
+
+/**
+ * An API service authentication strategy.
+ */
+export type ApiAuthStrategy = (typeof API_AUTH_STRATEGIES)[number];
+
+/**
+ * Zod schema for the configuration of a single API service. Every attribute
+ * is optional; see `getApiService` for the defaults.
+ */
+const apiServiceSchema = z.object({
+  baseUrl: z.url().optional().describe('The base URL of the service'),
+  timeoutMillis: z
+    .number()
+    .int()
+    .nonnegative()
+    .optional()
+    .describe('Duration in milliseconds before a request to the service is aborted; 0 disables'),
+  auth: z.enum(API_AUTH_STRATEGIES).optional().describe('How requests to the service are authenticated'),
+});
+
+/**
+ * Zod schema for the API service registry, the configuration of each API
+ * service keyed by service name.
+ */
+export const apiServicesSchema = z.partialRecord(z.enum(API_SERVICE_NAMES), apiServiceSchema);
+
+/**
+ * A resolved API service.
+ * @param baseUrl - The base URL of the service.
+ * @param timeoutMillis - Duration in milliseconds before a request is aborted;
+ * `0` disables.
+ * @param auth - How requests to the service are authenticated.
+ */
+export type ApiService = {
+  baseUrl: string;
+  timeoutMillis: number;
+  auth: ApiAuthStrategy;
+};
+
+/**
+ * Returns an API service from the registry. A service which is not
+ * configured, or an attribute which is omitted, falls back to
+ * `VITE_BASE_URL_API`, no timeout, and `bearer` authentication.
+ * @param {Config} config - The application `Config`.
+ * @param {ApiServiceName} name - The service name.
+ * @returns {ApiService} The resolved service.
+ */
+export const getApiService = (config: Config, name: ApiServiceName): ApiService => {
+  const service = config.VITE_API_SERVICES[name];
+  return {
+    baseUrl: service?.baseUrl ?? config.VITE_BASE_URL_API,
+    timeoutMillis: service?.timeoutMillis ?? 0,
+    auth: service?.auth ?? 'bearer',
+  };
+};
+
+/**
+ * Determines if a URL addresses one of the API services. The URL must have
+ * the origin of the service base URL, and its path must be, or be below, the
+ * path of the base URL, e.g. `https://api.example.com/v1` addresses
+ * `/v1/todos` but not `/v10/todos`.
+ * @param {Config} config - The application `Config`.
+ * @param {string} url - An absolute URL.
+ * @returns {boolean} Returns `true` if the URL addresses an API service.
+ */
+export const isApiUrl = (config: Config, url: string): boolean => {
+  if (!URL.canParse(url)) {
+    return false;
+  }
+  const { origin, pathname } = new URL(url);
+  return API_SERVICE_NAMES.some((name) => {
+    const baseUrl = new URL(getApiService(config, name).baseUrl);
+    const basePath = baseUrl.pathname.replace(/\/+$/, '');
+    return origin === baseUrl.origin && (pathname === basePath || pathname.startsWith(`${basePath}/`));
+  });
+};
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+
+import { Permission, Role } from './constants';
+
+import { hasEveryPermission, hasSomeRole } from './authorization';
+
+describe('authorization', () => {
+  it('should determine if user has some role', () => {
+    // ASSERT
+    expect(hasSomeRole([Role.User], [Role.Admin, Role.User])).toBe(true);
+    expect(hasSomeRole([Role.User], [Role.Admin])).toBe(false);
+    expect(hasSomeRole([], [])).toBe(true);
+    expect(hasSomeRole()).toBe(true);
+  });
+
+  it('should determine if user has every permission', () => {
+    // ASSERT
+    expect(hasEveryPermission([Permission.TasksRead, Permission.TasksUpdate], [Permission.TasksRead])).toBe(true);
+    expect(hasEveryPermission([Permission.TasksRead], [Permission.TasksRead, Permission.TasksUpdate])).toBe(false);
+    expect(hasEveryPermission()).toBe(true);
+  });
+});
@@ -0,0 +1,31 @@
+import { Permission, Role } from './constants';
+
+/**
+ * The authorization requirements which a route object may declare in its
+ * `handle`. The user must hold at least one of the `roles` and all of the
+ * `permissions`.
+ */
+export type RouteHandle = {
+  roles?: Role[];
+  permissions?: Permission[];
+};
+
+/**
+ * Determines if a user holds at least one of the required roles.
+ * @param {string[]} [roles] - The roles granted to the user.
+ * @param {Role[]} [required] - The required roles. When empty, no role is required.
+ * @returns {boolean} Returns `true` if the requirement is met.
+ */
+export const hasSomeRole = (roles: string[] = [], required: Role[] = []): boolean => {
+  return required.length === 0 || required.some((role) => roles.includes(role));
+};
+
+/**
+ * Determines if a user holds all of the required permissions.
+ * @param {string[]} [permissions] - The permissions granted to the user.
+ * @param {Permission[]} [required] - The required permissions.
+ * @returns {boolean} Returns `true` if the requirement is met.
+ */
+export const hasEveryPermission = (permissions: string[] = [], required: Permission[] = []): boolean => {
+  return required.every((permission) => permissions.includes(permission));
+};
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import dayjs from 'dayjs';
+
+import { createMockIdToken, createMockJwt } from 'test/mocks/idp';
+import { Permission, Role } from './constants';
+
+import { getExpiresAt, parseClaims, safeParseClaims } from './claims';
+
+describe('claims', () => {
+  it('should parse claims', () => {
+    // ARRANGE
+    const claims = parseClaims(createMockIdToken(1));
+
+    // ASSERT
+    expect(claims.sub).toBe('1');
+    expect(claims.preferred_username).toBe('Bret');
+    expect(claims.roles).toEqual([Role.Admin, Role.User]);
+    expect(claims.permissions).toEqual(Object.values(Permission));
+  });
+
+  it('should parse space-delimited roles and permissions', () => {
+    // ARRANGE
+    const claims = parseClaims(createMockIdToken(1, { roles: 'admin user', permissions: 'tasks:read' }));
+
+    // ASSERT
+    expect(claims.roles).toEqual([Role.Admin, Role.User]);
+    expect(claims.permissions).toEqual([Permission.TasksRead]);
+  });
+
+  it('should default missing roles and permissions', () => {
+    // ARRANGE
+    const claims = parseClaims(createMockIdToken(1, { roles: undefined, permissions: undefined }));
+
+    // ASSERT
+    expect(claims.roles).toEqual([]);
+    expect(claims.permissions).toEqual([]);
+  });
+
+  it('should throw when claims are invalid', () => {
+    // ASSERT
+    expect(() => parseClaims(createMockJwt({ sub: '1' }))).toThrowError('The id token is invalid.');
+    expect(() => parseClaims('id-token')).toThrowError('The id token is invalid.');
+  });
+
+  it('should safely parse claims', () => {
+    // ASSERT
+    expect(safeParseClaims(createMockIdToken(1))?.sub).toBe('1');
+    expect(safeParseClaims('id-token')).toBeUndefined();
+    expect(safeParseClaims()).toBeUndefined();
+  });
+
+  it('should get expiration time', () => {
+    // ARRANGE
+    const exp = dayjs().add(1, 'hour').unix();
+
+    // ASSERT
+    expect(getExpiresAt(createMockIdToken(1, { exp }))).toBe(exp * 1000);
+    expect(getExpiresAt('id-token')).toBe(0);
+  });
+});
@@ -0,0 +1,73 @@
+import { z } from 'zod';
+
+import { decodeJwt } from './oidc';
+
+/**
+ * Zod schema for a claim which may be an array of strings or a space-delimited
+ * string, e.g. `scope`. Parsed to an array of strings.
+ */
+const listClaimSchema = z
+  .union([z.array(z.string()), z.string().transform((value) => value.split(' ').filter(Boolean))])
+  .default([]);
+
+/**
+ * Zod schema for the claims of an OIDC id token.
+ * @see {@link https://openid.net/specs/openid-connect-core-1_0.html#IDToken | ID Token}
+ */
+const claimsSchema = z.object({
+  iss: z.string().describe('The issuer identifier'),
+  sub: z.string().min(1).describe('The subject identifier, i.e. the user identifier'),
+  aud: z.union([z.string(), z.array(z.string())]).describe('The audience(s), i.e. the client identifier'),
+  exp: z.number().describe('The expiration time in seconds since the epoch'),
+  iat: z.number().describe('The time of issue in seconds since the epoch'),
+  nonce: z.string().optional().describe('The nonce supplied in the authorization request'),
+  name: z.string().optional().describe('The full name of the user'),
+  preferred_username: z.string().optional().describe('The username of the user'),
+  email: z.string().optional().describe('The email address of the user'),
+  roles: listClaimSchema.describe('The roles granted to the user'),
+  permissions: listClaimSchema.describe('The permissions granted to the user'),
+});
+
+/**
+ * The validated claims of an OIDC id token.
+ */
+export type Claims = z.infer<typeof claimsSchema>;
+
+/**
+ * Decodes and validates the claims of an id token.
+ * @param {string} idToken - The id token.
+ * @returns {Claims} The claims.
+ * @throws Throws an `Error` if the token cannot be decoded or the claims are
+ * invalid.
+ */
+export const parseClaims = (idToken: string): Claims => {
+  try {
+    return claimsSchema.parse(decodeJwt(idToken));
+  } catch {
+    throw new Error('The id token is invalid.');
+  }
+};
+
+/**
+ * Decodes and validates the claims of an id token.
+ * @param {string} [idToken] - Optional. The id token.
+ * @returns {Claims | undefined} The claims, or `undefined` if the token is
+ * missing or invalid.
+ */
+export const safeParseClaims = (idToken?: string): Claims | undefined => {
+  try {
+    return idToken ? parseClaims(idToken) : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Returns the time at which an id token expires, from the `exp` claim.
+ * @param {string} idToken - The id token.
+ * @returns {number} The expiration time in milliseconds since the epoch, or
+ * `0`, i.e. expired, if the token is invalid.
+ */
+export const getExpiresAt = (idToken: string): number => {
+  return (safeParseClaims(idToken)?.exp ?? 0) * 1000;
+};
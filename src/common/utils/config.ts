@@ -1,16 +1,35 @@
 /**
  * Application configuration utility using Zod schema validation.
- * Validates and exports environment variables as a type-safe config object.
+ * Validates configuration values, the build-time environment variables and
+ * the runtime `config.json`, as a type-safe config object.
+ *
+ * The validated configuration is provided by the `ConfigContextProvider`;
+ * use the `useConfig` hook to access it.
  */
 
 import { z } from 'zod';
 
+import { apiServicesSchema } from './apiServices';
+import { featureFlagValuesSchema } from './flags';
+
+/**
+ * Zod schema for a single OpenID Connect (OIDC) identity provider.
+ */
+const oidcProviderSchema = z.object({
+  id: z.string().min(1).describe('A unique identifier for the provider'),
+  name: z.string().min(1).describe('The display name of the provider'),
+  issuer: z.url().describe('The OIDC issuer URL used for discovery'),
+  clientId: z.string().min(1).describe('The OAuth client identifier registered with the provider'),
+  scope: z.string().default('openid profile email').describe('The space-delimited OAuth scopes to request'),
+});
+
 /**
  * Zod schema for environment variables validation.
  * All environment variables must be prefixed with VITE_ for Vite compatibility.
+ * The runtime `config.json` uses the same names and value formats.
  * @see https://vite.dev/guide/env-and-mode
  */
-const configSchema = z.object({
+export const configSchema = z.object({
   /** Build configuration */
   VITE_BUILD_DATE: z.iso.date().describe('The date and time when the application was built'),
   VITE_BUILD_TIME: z.iso.time().describe('The time when the application was built'),
@@ -29,14 +48,89 @@ const configSchema = z.object({
     .nonnegative()
     .describe('The attempt number of the CI/CD workflow run that produced the build'),
   /** API configuration */
-  VITE_BASE_URL_API: z.url().describe('Base URL for REST API service'),
+  VITE_BASE_URL_API: z.url().describe('Default base URL for REST API services'),
+  VITE_API_SERVICES: z
+    .string()
+    .default('{}')
+    .transform((value, ctx) => {
+      try {
+        return JSON.parse(value);
+      } catch {
+        ctx.addIssue({ code: 'custom', message: 'Invalid JSON' });
+        return z.NEVER;
+      }
+    })
+    .pipe(apiServicesSchema)
+    .describe(
+      'JSON object of API services keyed by service name; each overrides the default base URL, timeout, and auth',
+    ),
+  VITE_API_RETRY_LIMIT: z.coerce
+    .number()
+    .int()
+    .nonnegative()
+    .default(3)
+    .describe('The maximum number of times a failed API request is retried; 0 disables'),
+  VITE_API_RETRY_DELAY_MILLIS: z.coerce
+    .number()
+    .int()
+    .nonnegative()
+    .default(500)
+    .describe('The base delay in milliseconds before a failed API request is retried; doubles with each retry'),
+  VITE_API_RETRY_MAX_DELAY_MILLIS: z.coerce
+    .number()
+    .int()
+    .nonnegative()
+    .default(30000)
+    .describe('The maximum delay in milliseconds before a failed API request is retried'),
+  /** Authentication configuration */
+  VITE_OIDC_PROVIDERS: z
+    .string()
+    .transform((value, ctx) => {
+      try {
+        return JSON.parse(value);
+      } catch {
+        ctx.addIssue({ code: 'custom', message: 'Invalid JSON' });
+        return z.NEVER;
+      }
+    })
+    .pipe(z.array(oidcProviderSchema).min(1))
+    .describe('JSON array of OIDC identity providers; the first is the default provider'),
+  VITE_IDLE_TIMEOUT_MILLIS: z.coerce
+    .number()
+    .int()
+    .nonnegative()
+    .default(1800000)
+    .describe('Duration in milliseconds of inactivity before the user is signed out; 0 disables'),
   /** Application configuration */
+  VITE_FEATURE_FLAGS: z
+    .string()
+    .default('{}')
+    .transform((value, ctx) => {
+      try {
+        return JSON.parse(value);
+      } catch {
+        ctx.addIssue({ code: 'custom', message: 'Invalid JSON' });
+        return z.NEVER;
+      }
+    })
+    .pipe(featureFlagValuesSchema)
+    .describe('JSON object of feature flag values which override the flag defaults'),
+  VITE_FEATURE_FLAGS_URL: z
+    .url()
+    .optional()
+    .describe('URL of a remote endpoint which supplies feature flag values; overrides the configured values'),
   VITE_TOAST_AUTO_DISMISS_MILLIS: z.coerce
     .number()
     .int()
     .nonnegative()
     .default(5000)
     .describe('Duration in milliseconds before toast notifications auto-dismiss'),
+  VITE_QUERY_CACHE_MAX_AGE_MILLIS: z.coerce
+    .number()
+    .int()
+    .nonnegative()
+    .default(86400000)
+    .describe('Duration in milliseconds for which cached API data is persisted across visits; 0 disables'),
 });
 
 /**
@@ -45,27 +139,38 @@ const configSchema = z.object({
 export type Config = z.infer<typeof configSchema>;
 
 /**
- * Parse and validate environment variables
+ * Type inference for a configured OIDC identity provider
+ */
+export type OidcProviderConfig = z.infer<typeof oidcProviderSchema>;
+
+/**
+ * The URL of the runtime configuration file. The file is written when the
+ * application is deployed, so that one build may be promoted through every
+ * environment.
+ */
+export const CONFIG_URL = `${import.meta.env.BASE_URL}config.json`;
+
+/**
+ * Parse and validate configuration values.
+ * @param {unknown} values - The configuration values, e.g. the build-time
+ * environment variables merged with the runtime configuration.
+ * @returns {Config} The validated configuration.
+ * @throws Throws an `Error` describing each validation issue when the values
+ * are invalid.
  */
-const parseConfig = (): Config => {
-  console.debug('Parsing environment variables with Zod schema validation...');
+export const parseConfig = (values: unknown): Config => {
+  console.debug('Parsing configuration with Zod schema validation...');
   try {
-    // Parse environment variables using Zod schema
-    const parsed = configSchema.parse(import.meta.env);
+    // Parse configuration values using Zod schema
+    const parsed = configSchema.parse(values);
 
     return parsed;
   } catch (error) {
     if (error instanceof z.ZodError) {
       const validationIssues = error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join('; ');
-      console.error(`Environment variable validation failed with the following issues: ${validationIssues}`);
+      console.error(`Configuration validation failed with the following issues: ${validationIssues}`);
       throw new Error(`Invalid configuration. Details: ${validationIssues}`);
     }
     throw error;
   }
 };
-
-/**
- * Validated and type-safe configuration object.
- * This is the main export that should be used throughout the application.
- */
-export const config = parseConfig();
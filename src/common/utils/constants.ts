@@ -4,6 +4,12 @@ import { Settings } from 'common/api/useGetSettings';
  * Keys used with React Query cache.
  */
 export enum QueryKey {
+  Config = 'Config',
+  FeatureFlags = 'FeatureFlags',
+  MfaFactors = 'MfaFactors',
+  OidcConfiguration = 'OidcConfiguration',
+  Passkeys = 'Passkeys',
+  Sessions = 'Sessions',
   Settings = 'Settings',
   Tasks = 'Tasks',
   Users = 'Users',
@@ -14,9 +20,14 @@ export enum QueryKey {
  * Keys used for browser storage.
  */
 export enum StorageKey {
+  AuthTransaction = 'react-starter.auth-transaction',
+  FeatureFlagOverrides = 'react-starter.feature-flag-overrides',
+  Impersonation = 'react-starter.impersonation',
   Language = 'react-starter.language',
+  LastActivity = 'react-starter.last-activity',
+  MutationQueue = 'react-starter.mutation-queue',
+  QueryCache = 'react-starter.query-cache',
   Settings = 'react-starter.settings',
-  User = 'react-starter.user',
   UserTokens = 'react-starter.user-tokens',
 }
 
@@ -27,11 +38,59 @@ export const DEFAULT_SETTINGS: Settings = {
   theme: 'system',
 };
 
+/**
+ * Roles which may be granted to a user by the identity provider in the
+ * `roles` claim of the id token.
+ */
+export enum Role {
+  Admin = 'admin',
+  User = 'user',
+}
+
+/**
+ * Permissions which may be granted to a user by the identity provider in the
+ * `permissions` claim of the id token.
+ */
+export enum Permission {
+  TasksCreate = 'tasks:create',
+  TasksDelete = 'tasks:delete',
+  TasksRead = 'tasks:read',
+  TasksUpdate = 'tasks:update',
+}
+
+/**
+ * The request header which identifies the user whom an administrator is
+ * viewing the application as. Sent with API requests only.
+ */
+export const IMPERSONATION_HEADER = 'X-Impersonate-User';
+
+/**
+ * The request header which identifies a request that changes data, so that
+ * the API performs the change once however many times the request is retried.
+ * Sent with API `POST` requests only.
+ */
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+/**
+ * The request header which correlates a request with the backend logs. Sent
+ * with API requests only.
+ */
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+/**
+ * The W3C Trace Context request header which propagates the trace of a
+ * request to the backend. Sent with API requests only.
+ * @see {@link https://www.w3.org/TR/trace-context/ | Trace Context}
+ */
+export const TRACEPARENT_HEADER = 'traceparent';
+
 /**
  * URL search parameter, i.e. query string, keys.
  */
 export enum SearchParam {
+  returnTo = 'returnTo',
   tab = 'tab',
+  token = 'token',
 }
 
 /**
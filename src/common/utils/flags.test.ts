@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+
+import { FEATURE_FLAGS, isFeatureFlagOverrideAllowed, resolveFeatureFlags } from './flags';
+
+describe('flags', () => {
+  describe('resolveFeatureFlags', () => {
+    it('should resolve default values when no source sets a flag', () => {
+      // ACT
+      const flags = resolveFeatureFlags();
+
+      // ASSERT
+      expect(flags.passkeys).toBe(FEATURE_FLAGS.passkeys.defaultValue);
+      expect(flags.sessions).toBe(FEATURE_FLAGS.sessions.defaultValue);
+    });
+
+    it('should resolve values from later sources over earlier sources', () => {
+      // ACT
+      const flags = resolveFeatureFlags({ passkeys: false, sessions: false }, undefined, { sessions: true });
+
+      // ASSERT
+      expect(flags.passkeys).toBe(false);
+      expect(flags.sessions).toBe(true);
+    });
+
+    it('should ignore values which are not defined flags', () => {
+      // ACT
+      const flags = resolveFeatureFlags({ unknown: true });
+
+      // ASSERT
+      expect(flags).not.toHaveProperty('unknown');
+      expect(Object.keys(flags)).toEqual(Object.keys(FEATURE_FLAGS));
+    });
+  });
+
+  describe('isFeatureFlagOverrideAllowed', () => {
+    it('should allow overrides outside production', () => {
+      // ASSERT
+      expect(isFeatureFlagOverrideAllowed('local')).toBe(true);
+      expect(isFeatureFlagOverrideAllowed('qa')).toBe(true);
+    });
+
+    it('should not allow overrides in production', () => {
+      // ASSERT
+      expect(isFeatureFlagOverrideAllowed('prd')).toBe(false);
+    });
+  });
+});
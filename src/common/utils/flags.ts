@@ -0,0 +1,85 @@
+import { z } from 'zod';
+
+/**
+ * The definition of a feature flag.
+ * @param description - Describes the feature which the flag controls.
+ * @param defaultValue - The value of the flag when no source sets it.
+ */
+export type FeatureFlagDefinition = {
+  description: string;
+  defaultValue: boolean;
+};
+
+/**
+ * The feature flags. A flag must be defined here before it is used; flag
+ * names are type-checked wherever they are used.
+ */
+export const FEATURE_FLAGS = {
+  passkeys: {
+    description: 'Sign in with a passkey and manage passkeys in settings.',
+    defaultValue: true,
+  },
+  sessions: {
+    description: 'List and revoke active sessions in security settings.',
+    defaultValue: true,
+  },
+} as const satisfies Record<string, FeatureFlagDefinition>;
+
+/**
+ * The name of a feature flag.
+ */
+export type FeatureFlag = keyof typeof FEATURE_FLAGS;
+
+/**
+ * The resolved value of every feature flag.
+ */
+export type FeatureFlags = Record<FeatureFlag, boolean>;
+
+/**
+ * Zod schema for the feature flag values supplied by a source, e.g. the
+ * runtime configuration or the remote endpoint. Names which are not defined
+ * flags are ignored when flags are resolved.
+ */
+export const featureFlagValuesSchema = z.record(z.string(), z.boolean());
+
+/**
+ * Feature flag values supplied by a source.
+ */
+export type FeatureFlagValues = z.infer<typeof featureFlagValuesSchema>;
+
+/**
+ * The feature flag requirement which a route object may declare in its
+ * `handle`. The route is only available when the flag is enabled.
+ */
+export type FeatureRouteHandle = {
+  flag?: FeatureFlag;
+};
+
+/**
+ * Resolves the value of every feature flag from layered sources. A flag
+ * begins with its default value; each source, in order, overrides the
+ * values it sets.
+ * @param {(FeatureFlagValues | undefined)[]} sources - The flag values from
+ * each source, lowest precedence first.
+ * @returns {FeatureFlags} The resolved `FeatureFlags`.
+ */
+export const resolveFeatureFlags = (...sources: (FeatureFlagValues | undefined)[]): FeatureFlags => {
+  const names = Object.keys(FEATURE_FLAGS) as FeatureFlag[];
+  return names.reduce((flags, flag) => {
+    flags[flag] = sources.reduce<boolean>(
+      (value, source) => (typeof source?.[flag] === 'boolean' ? source[flag] : value),
+      FEATURE_FLAGS[flag].defaultValue,
+    );
+    return flags;
+  }, {} as FeatureFlags);
+};
+
+/**
+ * Determines if feature flags may be overridden locally, e.g. by QA. Local
+ * overrides are not available in production.
+ * @param {string} envCode - The environment code, e.g. `VITE_BUILD_ENV_CODE`.
+ * @returns {boolean} Returns `true` if local overrides are available.
+ */
+export const isFeatureFlagOverrideAllowed = (envCode: string): boolean => {
+  return envCode !== 'prd';
+};
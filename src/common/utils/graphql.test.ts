@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import axios from 'axios';
+import { graphql, HttpResponse } from 'msw';
+import { z } from 'zod';
+
+import { server } from 'test/mocks/server';
+import { todosFixture } from '__fixtures__/todos';
+import { Task } from 'common/api/generated/models';
+import { taskSchema } from 'common/api/generated/schemas';
+import { GraphQLResponseError, SchemaDriftError } from './apiError';
+
+import { gql, requestGraphQL } from './graphql';
+
+describe('graphql', () => {
+  const api = axios.create({ baseURL: 'https://jsonplaceholder.typicode.com' });
+
+  const GetTaskDocument = gql<{ task: Task | null }, { taskId: number }>`
+    query GetTask($taskId: Int!) {
+      task(id: $taskId) {
+        id
+        title
+      }
+    }
+  `;
+
+  describe('gql', () => {
+    it('should create a document', () => {
+      // ASSERT
+      expect(GetTaskDocument.operationType).toBe('query');
+      expect(GetTaskDocument.operationName).toBe('GetTask');
+      expect(GetTaskDocument.source).toMatch(/^query GetTask/);
+    });
+
+    it('should interpolate fragments', () => {
+      // ARRANGE
+      const fragment = 'fragment TaskFields on Task { id title }';
+
+      // ACT
+      const document = gql`
+        mutation UpdateTask($task: TaskInput!) {
+          updateTask(task: $task) {
+            ...TaskFields
+          }
+        }
+        ${fragment}
+      `;
+
+      // ASSERT
+      expect(document.operationType).toBe('mutation');
+      expect(document.source).toContain(fragment);
+    });
+
+    it('should throw when the operation has no name', () => {
+      // ASSERT
+      expect(
+        () => gql`
+          {
+            tasks {
+              id
+            }
+          }
+        `,
+      ).toThrow(/named query or mutation/);
+    });
+  });
+
+  describe('requestGraphQL', () => {
+    it('should resolve to the result data', async () => {
+      // ACT
+      const data = await requestGraphQL(api, GetTaskDocument, { taskId: 1 });
+
+      // ASSERT
+      expect(data.task).toEqual(todosFixture[0]);
+    });
+
+    it('should throw a GraphQLResponseError when the response has errors', async () => {
+      // ACT
+      const error = await requestGraphQL(api, GetTaskDocument, { taskId: 0 }).catch((err) => err);
+
+      // ASSERT
+      expect(error).toBeInstanceOf(GraphQLResponseError);
+      expect(error.code).toBe('NOT_FOUND');
+      expect(error.message).toBe('Task not found.');
+      expect(error.graphQLErrors).toHaveLength(1);
+    });
+
+    it('should throw a GraphQLResponseError when the response has no data', async () => {
+      // ARRANGE
+      server.use(graphql.query('GetTask', () => HttpResponse.json({ data: null })));
+
+      // ACT
+      const error = await requestGraphQL(api, GetTaskDocument, { taskId: 1 }).catch((err) => err);
+
+      // ASSERT
+      expect(error).toBeInstanceOf(GraphQLResponseError);
+      expect(error.code).toBe('ERR_GRAPHQL');
+    });
+
+    it('should validate the result data with the schema', async () => {
+      // ARRANGE
+      server.use(graphql.query('GetTask', () => HttpResponse.json({ data: { task: { id: 'one' } } })));
+
+      // ACT
+      const error = await requestGraphQL(
+        api,
+        GetTaskDocument,
+        { taskId: 1 },
+        {
+          schema: z.object({ task: taskSchema.nullable() }),
+        },
+      ).catch((err) => err);
+
+      // ASSERT
+      expect(error).toBeInstanceOf(SchemaDriftError);
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import { AxiosInstance } from 'axios';
+import { z } from 'zod';
+
+import { GraphQLError, GraphQLResponseError } from './apiError';
+import { validateResponse } from './responseValidation';
+
+/**
+ * The path of the GraphQL endpoint, relative to the API service base URL.
+ */
+export const GRAPHQL_PATH = '/graphql';
+
+/**
+ * The variables of a GraphQL operation.
+ */
+export type GraphQLVariables = Record<string, unknown>;
+
+/**
+ * A GraphQL operation document. The `TData` and `TVariables` type parameters
+ * carry the types of the result data and the variables of the operation, so
+ * that requests made with the document are typed.
+ * @param source - The GraphQL source text.
+ * @param operationType - The operation type, `query` or `mutation`.
+ * @param operationName - The operation name.
+ * @see {@link gql}
+ */
+export type GraphQLDocument<TData = unknown, TVariables extends GraphQLVariables = GraphQLVariables> = {
+  readonly source: string;
+  readonly operationType: 'query' | 'mutation';
+  readonly operationName: string;
+  /** Never set. Holds the result data and variables types. */
+  readonly __types?: { data: TData; variables: TVariables };
+};
+
+/**
+ * The body of a GraphQL response.
+ * @see {@link https://spec.graphql.org/October2021/#sec-Response-Format | Response Format}
+ */
+export type GraphQLResponse<TData> = {
+  data?: TData | null;
+  errors?: GraphQLError[];
+};
+
+/**
+ * A template literal tag which creates a typed `GraphQLDocument`. The
+ * document must contain a single named query or mutation; fragments may be
+ * interpolated.
+ * @returns {GraphQLDocument} The `GraphQLDocument`.
+ * @throws Throws an `Error` when the document does not start with a named
+ * query or mutation.
+ * @example
+ * const GetTaskDocument = gql<{ task: Task | null }, { taskId: number }>`
+ *   query GetTask($taskId: Int!) {
+ *     task(id: $taskId) { id title completed userId }
+ *   }
+ * `;
+ */
+export const gql = <TData = unknown, TVariables extends GraphQLVariables = GraphQLVariables>(
+  strings: TemplateStringsArray,
+  ...fragments: string[]
+): GraphQLDocument<TData, TVariables> => {
+  const source = strings.reduce((document, string, index) => `${document}${fragments[index - 1]}${string}`).trim();
+  const [, operationType, operationName] = /^(query|mutation)\s+(\w+)/.exec(source) ?? [];
+  if (!operationName) {
+    throw new Error('The GraphQL document must start with a named query or mutation.');
+  }
+  return { source, operationType: operationType as 'query' | 'mutation', operationName };
+};
+
+/**
+ * Options for `requestGraphQL`.
+ * @param [schema] - Optional. The zod schema of the result data. When
+ * present, the data is validated with `validateResponse`.
+ * @param [signal] - Optional. An `AbortSignal` which aborts the request.
+ * @param [url] - Optional. The URL of the GraphQL endpoint. Default: `GRAPHQL_PATH`.
+ */
+export type GraphQLRequestOptions<TData> = {
+  schema?: z.ZodType<TData>;
+  signal?: AbortSignal;
+  url?: string;
+};
+
+/**
+ * Sends a GraphQL operation to an API service.
+ *
+ * The request is sent with the Axios instance of the service, so it is
+ * authenticated, refreshed when unauthorized, and its HTTP failures
+ * normalized like a REST request. Queries are marked `isSafe`, so they are
+ * allowed while viewing as another user and are sent without an
+ * idempotency key.
+ * @param {AxiosInstance} api - The Axios instance of the API service.
+ * @param {GraphQLDocument} document - The operation document.
+ * @param [variables] - Optional. The operation variables.
+ * @param {GraphQLRequestOptions} [options] - Optional. The request options.
+ * @returns {Promise} A Promise which resolves to the result data.
+ * @throws Throws a `GraphQLResponseError` when the response has errors or no
+ * data.
+ */
+export const requestGraphQL = async <TData, TVariables extends GraphQLVariables>(
+  api: AxiosInstance,
+  document: GraphQLDocument<TData, TVariables>,
+  variables?: TVariables,
+  { schema, signal, url = GRAPHQL_PATH }: GraphQLRequestOptions<TData> = {},
+): Promise<TData> => {
+  const response = await api.request<GraphQLResponse<TData>>({
+    method: 'post',
+    url,
+    data: { query: document.source, operationName: document.operationName, variables },
+    // queries do not change data, although they are sent with POST
+    isSafe: document.operationType === 'query',
+    signal,
+  });
+
+  const { data, errors } = response.data ?? {};
+  if (errors?.length) {
+    // partial data is discarded; the operation failed
+    throw new GraphQLResponseError(response, errors);
+  }
+  if (data === undefined || data === null) {
+    throw new GraphQLResponseError(response, [{ message: 'The GraphQL response has no data.' }]);
+  }
+
+  return schema ? validateResponse(schema, { ...response, data }) : data;
+};
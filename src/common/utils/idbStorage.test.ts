@@ -0,0 +1,14 @@
+import { describe, expect, it } from 'vitest';
+
+import { StorageKey } from './constants';
+import idbStorage from './idbStorage';
+
+describe('idbStorage', () => {
+  // the test environment does not implement IndexedDB
+  it('should reject when IndexedDB is not available', async () => {
+    // ASSERT
+    await expect(idbStorage.getItem(StorageKey.MutationQueue)).rejects.toThrow(/not available/);
+    await expect(idbStorage.setItem(StorageKey.MutationQueue, [])).rejects.toThrow(/not available/);
+    await expect(idbStorage.removeItem(StorageKey.MutationQueue)).rejects.toThrow(/not available/);
+  });
+});
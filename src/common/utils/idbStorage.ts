@@ -0,0 +1,105 @@
+import { StorageKey } from './constants';
+
+/**
+ * The name of the IndexedDB database.
+ */
+const DATABASE_NAME = 'react-starter';
+
+/**
+ * The name of the object store which holds the stored items.
+ */
+const STORE_NAME = 'items';
+
+/**
+ * The open database, shared by all callers.
+ */
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Opens the database, creating the object store when the database is new.
+ * @returns {Promise<IDBDatabase>} A Promise which resolves to the database.
+ */
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        throw new Error('IndexedDB is not available.');
+      }
+      const request = indexedDB.open(DATABASE_NAME, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch((err) => {
+      // a later call may succeed, e.g. once private browsing permits storage
+      databasePromise = null;
+      throw err;
+    });
+  }
+  return databasePromise;
+};
+
+/**
+ * Performs a request against the object store within a transaction.
+ * @param {IDBTransactionMode} mode - The transaction mode.
+ * @param {function} operation - A function which issues the request.
+ * @returns {Promise<T>} A Promise which resolves to the result of the request.
+ */
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> => {
+  const database = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const request = operation(database.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Returns the value associated with the given `key`, or `null` if the key
+ * does not exist.
+ * @param {StorageKey} key - The storage `key`.
+ * @returns {Promise<T | null>} A Promise which resolves to the value if
+ * found, otherwise `null`.
+ */
+const getItem = async <T>(key: StorageKey): Promise<T | null> => {
+  const value = await withStore<T | undefined>('readonly', (store) => store.get(key));
+  return value ?? null;
+};
+
+/**
+ * Removes the key/value pair with the given `key`, if a key/value pair with
+ * the given key exists.
+ * @param {StorageKey} key - The storage `key`.
+ * @returns {Promise<void>} A Promise which resolves when the item is removed.
+ */
+const removeItem = async (key: StorageKey): Promise<void> => {
+  await withStore('readwrite', (store) => store.delete(key));
+};
+
+/**
+ * Sets the value of the pair identified by `key` to `value`, creating a new
+ * key/value pair if none existed for the key previously. Values are stored
+ * with the structured clone algorithm, so they need not be serialized.
+ * @param {StorageKey} key - The storage `key`.
+ * @param {T} value - The value to store.
+ * @returns {Promise<void>} A Promise which resolves when the item is stored.
+ */
+const setItem = async <T>(key: StorageKey, value: T): Promise<void> => {
+  await withStore('readwrite', (store) => store.put(value, key));
+};
+
+/**
+ * `idbStorage` stores items in IndexedDB. Unlike `storage`, it holds large
+ * values and is asynchronous. Every function rejects when IndexedDB is not
+ * available.
+ * @see {@link storage}
+ */
+const idbStorage = {
+  getItem,
+  removeItem,
+  setItem,
+};
+
+export default idbStorage;
@@ -0,0 +1,129 @@
+import { afterEach, describe, expect, it } from 'vitest';
+
+import { configFixture } from '__fixtures__/config';
+import { createMockJwt } from 'test/mocks/idp';
+
+import {
+  authTransaction,
+  AuthTransaction,
+  buildAuthorizationUrl,
+  createCodeChallenge,
+  createRandomString,
+  decodeJwt,
+  getOidcProvider,
+  getRedirectUri,
+  OidcConfiguration,
+} from './oidc';
+
+describe('oidc', () => {
+  const transaction: AuthTransaction = {
+    providerId: 'default',
+    state: 'state',
+    nonce: 'nonce',
+    codeVerifier: 'code-verifier',
+    redirectUri: 'http://localhost:3000/auth/callback',
+  };
+
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  it('should get the default provider', () => {
+    // ASSERT
+    expect(getOidcProvider(configFixture.VITE_OIDC_PROVIDERS)).toEqual(configFixture.VITE_OIDC_PROVIDERS[0]);
+  });
+
+  it('should get a provider by identifier', () => {
+    // ARRANGE
+    const provider = configFixture.VITE_OIDC_PROVIDERS[0];
+
+    // ASSERT
+    expect(getOidcProvider(configFixture.VITE_OIDC_PROVIDERS, provider.id)).toEqual(provider);
+  });
+
+  it('should throw when provider is not configured', () => {
+    // ASSERT
+    expect(() => getOidcProvider(configFixture.VITE_OIDC_PROVIDERS, 'not-configured')).toThrowError();
+  });
+
+  it('should get the redirect uri', () => {
+    // ASSERT
+    expect(getRedirectUri()).toBe(`${window.location.origin}/auth/callback`);
+  });
+
+  it('should create url safe random strings', () => {
+    // ARRANGE
+    const value = createRandomString();
+
+    // ASSERT
+    expect(value).toMatch(/^[A-Za-z0-9_-]{43}$/);
+    expect(createRandomString()).not.toBe(value);
+  });
+
+  it('should create the S256 code challenge', async () => {
+    // ARRANGE
+    // test vector from RFC 7636 Appendix B
+    const codeChallenge = await createCodeChallenge('dBjftJeZ4CVP-mB92K27uhbUJU1p1r_wW1gFWFOEjXk');
+
+    // ASSERT
+    expect(codeChallenge).toBe('E9Melhoa2OwvFrEMTJguCHaoeK1t8URWbuGJSstw-cM');
+  });
+
+  it('should decode a jwt', () => {
+    // ARRANGE
+    const token = createMockJwt({ sub: '1', name: 'Zoë' });
+
+    // ASSERT
+    expect(decodeJwt(token)).toEqual({ sub: '1', name: 'Zoë' });
+  });
+
+  it('should throw when jwt is malformed', () => {
+    // ASSERT
+    expect(() => decodeJwt('malformed')).toThrowError();
+  });
+
+  it('should build the authorization url', () => {
+    // ARRANGE
+    const oidcConfiguration: OidcConfiguration = {
+      issuer: 'https://idp.example.com',
+      authorization_endpoint: 'https://idp.example.com/authorize',
+      token_endpoint: 'https://idp.example.com/token',
+    };
+
+    // ACT
+    const url = new URL(
+      buildAuthorizationUrl(
+        oidcConfiguration,
+        configFixture.VITE_OIDC_PROVIDERS[0],
+        transaction,
+        'challenge',
+        'session',
+      ),
+    );
+
+    // ASSERT
+    expect(url.origin + url.pathname).toBe('https://idp.example.com/authorize');
+    expect(url.searchParams.get('response_type')).toBe('code');
+    expect(url.searchParams.get('client_id')).toBe(configFixture.VITE_OIDC_PROVIDERS[0].clientId);
+    expect(url.searchParams.get('redirect_uri')).toBe(transaction.redirectUri);
+    expect(url.searchParams.get('state')).toBe('state');
+    expect(url.searchParams.get('nonce')).toBe('nonce');
+    expect(url.searchParams.get('code_challenge')).toBe('challenge');
+    expect(url.searchParams.get('code_challenge_method')).toBe('S256');
+    expect(url.searchParams.get('session_token')).toBe('session');
+  });
+
+  it('should store, get, and remove the auth transaction', () => {
+    // ACT
+    authTransaction.set(transaction);
+
+    // ASSERT
+    expect(authTransaction.get()).toEqual(transaction);
+
+    // ACT
+    authTransaction.remove();
+
+    // ASSERT
+    expect(authTransaction.get()).toBeNull();
+  });
+});
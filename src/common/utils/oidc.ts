@@ -0,0 +1,289 @@
+import { queryOptions } from '@tanstack/react-query';
+import { AxiosInstance } from 'axios';
+import find from 'lodash/find';
+import { z } from 'zod';
+
+import { OidcProviderConfig } from './config';
+import { QueryKey, StorageKey } from './constants';
+import { validateResponse } from './responseValidation';
+import storage from './storage';
+
+/**
+ * The path of the application route which receives the authorization
+ * response from the identity provider.
+ */
+export const OIDC_CALLBACK_PATH = '/auth/callback';
+
+/**
+ * The subset of the OpenID Provider Metadata used by the application.
+ *
+ * The `authn_endpoint`, `factors_endpoint`, `webauthn_endpoint`, and
+ * `sessions_endpoint` are not part of the standard. Providers which offer a
+ * credentials API, e.g. Okta Authn, publish them so the application may
+ * collect the username, password, one-time codes, and passkeys itself and so
+ * that users may enroll authenticators and manage their sessions.
+ * @see {@link https://openid.net/specs/openid-connect-discovery-1_0.html#ProviderMetadata | Provider Metadata}
+ */
+export interface OidcConfiguration {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  userinfo_endpoint?: string;
+  end_session_endpoint?: string;
+  authn_endpoint?: string;
+  factors_endpoint?: string;
+  webauthn_endpoint?: string;
+  sessions_endpoint?: string;
+}
+
+/**
+ * Zod schema for the OpenID Provider Metadata used by the application.
+ */
+export const oidcConfigurationSchema = z.object({
+  issuer: z.string(),
+  authorization_endpoint: z.string(),
+  token_endpoint: z.string(),
+  userinfo_endpoint: z.string().optional(),
+  end_session_endpoint: z.string().optional(),
+  authn_endpoint: z.string().optional(),
+  factors_endpoint: z.string().optional(),
+  webauthn_endpoint: z.string().optional(),
+  sessions_endpoint: z.string().optional(),
+}) satisfies z.ZodType<OidcConfiguration>;
+
+/**
+ * A successful token endpoint response.
+ * @see {@link https://openid.net/specs/openid-connect-core-1_0.html#TokenResponse | Token Response}
+ */
+export interface TokenResponse {
+  access_token: string;
+  id_token: string;
+  refresh_token: string;
+  token_type: string;
+  expires_in: number;
+}
+
+/**
+ * Zod schema for a successful token endpoint response.
+ */
+export const tokenResponseSchema = z.object({
+  access_token: z.string(),
+  id_token: z.string(),
+  refresh_token: z.string(),
+  token_type: z.string(),
+  expires_in: z.number(),
+}) satisfies z.ZodType<TokenResponse>;
+
+/**
+ * The `AuthTransaction` holds the state of a sign in which is in progress
+ * while the browser is away at the identity provider.
+ */
+export interface AuthTransaction {
+  providerId: string;
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  redirectUri: string;
+  returnTo?: string;
+}
+
+/**
+ * Returns the configured OIDC provider with the supplied identifier. When no
+ * identifier is supplied, returns the default (first) provider.
+ * @param {OidcProviderConfig[]} providers - The configured providers, i.e.
+ * `VITE_OIDC_PROVIDERS`.
+ * @param {string} [providerId] - Optional. A provider identifier.
+ * @returns {OidcProviderConfig} The provider configuration.
+ * @throws Throws an `Error` when the provider is not configured.
+ */
+export const getOidcProvider = (providers: OidcProviderConfig[], providerId?: string): OidcProviderConfig => {
+  const provider = providerId ? find(providers, { id: providerId }) : providers[0];
+  if (!provider) {
+    throw new Error(`Identity provider "${providerId}" is not configured.`);
+  }
+  return provider;
+};
+
+/**
+ * Returns the absolute redirect URI registered with the identity providers.
+ */
+export const getRedirectUri = (): string => {
+  return `${window.location.origin}${OIDC_CALLBACK_PATH}`;
+};
+
+/**
+ * Encodes bytes as a base64url string without padding.
+ * @param {Uint8Array} bytes - The bytes to encode.
+ * @returns {string} The base64url encoded value.
+ */
+const toBase64Url = (bytes: Uint8Array): string => {
+  const binary = Array.from(bytes, (byte) => String.fromCharCode(byte)).join('');
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+/**
+ * Creates a cryptographically random base64url string. Used for the PKCE
+ * code verifier, the `state`, and the `nonce`.
+ * @param {number} [byteLength] - Optional. The number of random bytes. Default: `32`.
+ * @returns {string} A random string.
+ */
+export const createRandomString = (byteLength: number = 32): string => {
+  return toBase64Url(crypto.getRandomValues(new Uint8Array(byteLength)));
+};
+
+/**
+ * Creates the PKCE `S256` code challenge for a code verifier.
+ * @param {string} codeVerifier - The PKCE code verifier.
+ * @returns {Promise<string>} A Promise which resolves to the code challenge.
+ * @see {@link https://datatracker.ietf.org/doc/html/rfc7636#section-4.2 | RFC 7636}
+ */
+export const createCodeChallenge = async (codeVerifier: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(codeVerifier));
+  return toBase64Url(new Uint8Array(digest));
+};
+
+/**
+ * Decodes the payload of a JSON Web Token. The signature is NOT verified;
+ * tokens are obtained directly from the token endpoint over TLS.
+ * @param {string} token - The encoded JWT.
+ * @returns {T} The decoded payload.
+ * @throws Throws an `Error` when the token is malformed.
+ */
+export const decodeJwt = <T = Record<string, unknown>>(token: string): T => {
+  const [, payload] = token.split('.');
+  if (!payload) {
+    throw new Error('Malformed token.');
+  }
+  const base64 = payload.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '='));
+  const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+  return JSON.parse(new TextDecoder().decode(bytes));
+};
+
+/**
+ * Fetches the OpenID Provider Metadata for an issuer.
+ * @param {AxiosInstance} axios - The Axios instance used to perform the request.
+ * @param {string} issuer - The issuer URL.
+ * @param {AbortSignal} [signal] - Optional. Aborts the request.
+ * @returns {Promise<OidcConfiguration>} A Promise which resolves to the provider metadata.
+ */
+export const fetchOidcConfiguration = async (
+  axios: AxiosInstance,
+  issuer: string,
+  signal?: AbortSignal,
+): Promise<OidcConfiguration> => {
+  const response = await axios.request({
+    url: `${issuer.replace(/\/$/, '')}/.well-known/openid-configuration`,
+    signal,
+  });
+  return validateResponse(oidcConfigurationSchema, response);
+};
+
+/**
+ * Returns the React Query options which fetch, and cache indefinitely, the
+ * OpenID Provider Metadata for a provider. Use with `queryClient.fetchQuery`.
+ * @param {AxiosInstance} axios - The Axios instance used to perform the request.
+ * @param {OidcProviderConfig} provider - The provider configuration.
+ */
+export const oidcConfigurationQueryOptions = (axios: AxiosInstance, provider: OidcProviderConfig) =>
+  queryOptions({
+    queryKey: [QueryKey.OidcConfiguration, provider.id],
+    queryFn: ({ signal }) => fetchOidcConfiguration(axios, provider.issuer, signal),
+    staleTime: Infinity,
+  });
+
+/**
+ * Builds the authorization endpoint URL for an Authorization Code with PKCE
+ * request.
+ * @param {OidcConfiguration} oidcConfiguration - The provider metadata.
+ * @param {OidcProviderConfig} provider - The provider configuration.
+ * @param {AuthTransaction} transaction - The sign in transaction.
+ * @param {string} codeChallenge - The PKCE code challenge.
+ * @param {string} [sessionToken] - Optional. A session token from the provider
+ * credentials API which allows the provider to skip its own sign in page.
+ * @returns {string} The authorization URL.
+ */
+export const buildAuthorizationUrl = (
+  oidcConfiguration: OidcConfiguration,
+  provider: OidcProviderConfig,
+  transaction: AuthTransaction,
+  codeChallenge: string,
+  sessionToken?: string,
+): string => {
+  const url = new URL(oidcConfiguration.authorization_endpoint);
+  url.searchParams.set('response_type', 'code');
+  url.searchParams.set('client_id', provider.clientId);
+  url.searchParams.set('redirect_uri', transaction.redirectUri);
+  url.searchParams.set('scope', provider.scope);
+  url.searchParams.set('state', transaction.state);
+  url.searchParams.set('nonce', transaction.nonce);
+  url.searchParams.set('code_challenge', codeChallenge);
+  url.searchParams.set('code_challenge_method', 'S256');
+  if (sessionToken) {
+    url.searchParams.set('session_token', sessionToken);
+  }
+  return url.toString();
+};
+
+/**
+ * Returns the stored sign in transaction, or `null` if none exists.
+ */
+const getTransaction = (): AuthTransaction | null => {
+  return storage.getJsonItem<AuthTransaction>(StorageKey.AuthTransaction);
+};
+
+/**
+ * Stores the sign in transaction, replacing any existing transaction.
+ * @param {AuthTransaction} transaction - The sign in transaction.
+ */
+const setTransaction = (transaction: AuthTransaction): void => {
+  storage.setJsonItem(StorageKey.AuthTransaction, transaction);
+};
+
+/**
+ * Removes the stored sign in transaction.
+ */
+const removeTransaction = (): void => {
+  storage.removeItem(StorageKey.AuthTransaction);
+};
+
+export const authTransaction = {
+  get: getTransaction,
+  set: setTransaction,
+  remove: removeTransaction,
+};
+
+/**
+ * Begins an Authorization Code with PKCE request. Stores a new sign in
+ * transaction and redirects the browser to the provider authorization
+ * endpoint.
+ * @param {OidcConfiguration} oidcConfiguration - The provider metadata.
+ * @param {OidcProviderConfig} provider - The provider configuration.
+ * @param {string} returnTo - The same-origin location to which the user is
+ * returned after sign in.
+ * @param {string} [sessionToken] - Optional. A session token from the provider
+ * credentials API.
+ * @returns {Promise<string>} A Promise which resolves to the authorization URL.
+ */
+export const redirectToAuthorization = async (
+  oidcConfiguration: OidcConfiguration,
+  provider: OidcProviderConfig,
+  returnTo: string,
+  sessionToken?: string,
+): Promise<string> => {
+  const transaction: AuthTransaction = {
+    providerId: provider.id,
+    state: createRandomString(),
+    nonce: createRandomString(),
+    codeVerifier: createRandomString(),
+    redirectUri: getRedirectUri(),
+    returnTo,
+  };
+  const codeChallenge = await createCodeChallenge(transaction.codeVerifier);
+  authTransaction.set(transaction);
+
+  const authorizationUrl = buildAuthorizationUrl(oidcConfiguration, provider, transaction, codeChallenge, sessionToken);
+  window.location.assign(authorizationUrl);
+
+  return authorizationUrl;
+};
@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+
+import { getPasswordStrength } from './password';
+
+describe('password', () => {
+  it('should score short passwords as very weak', () => {
+    // ASSERT
+    expect(getPasswordStrength('')).toBe(0);
+    expect(getPasswordStrength('aB1!')).toBe(0);
+  });
+
+  it('should score password strength', () => {
+    // ASSERT
+    expect(getPasswordStrength('password')).toBe(0);
+    expect(getPasswordStrength('Password')).toBe(1);
+    expect(getPasswordStrength('Password1')).toBe(2);
+    expect(getPasswordStrength('Password1!')).toBe(3);
+    expect(getPasswordStrength('Password1!23')).toBe(4);
+  });
+});
@@ -0,0 +1,34 @@
+/**
+ * The minimum length of a password.
+ */
+export const PASSWORD_MIN_LENGTH = 8;
+
+/**
+ * The strength of a password, from `0`, very weak, to `4`, strong.
+ */
+export type PasswordStrength = 0 | 1 | 2 | 3 | 4;
+
+/**
+ * The minimum `PasswordStrength` accepted for a new password.
+ */
+export const PASSWORD_MIN_STRENGTH: PasswordStrength = 3;
+
+/**
+ * Estimates the strength of a password. A password of less than the minimum
+ * length is very weak; otherwise one point is scored for each of mixed case,
+ * a digit, a symbol, and a length of at least 12 characters.
+ * @param {string} password - The password.
+ * @returns {PasswordStrength} The strength.
+ */
+export const getPasswordStrength = (password: string): PasswordStrength => {
+  if (password.length < PASSWORD_MIN_LENGTH) {
+    return 0;
+  }
+  const score = [
+    /[a-z]/.test(password) && /[A-Z]/.test(password),
+    /\d/.test(password),
+    /[^a-zA-Z\d]/.test(password),
+    password.length >= 12,
+  ].filter(Boolean).length;
+  return score as PasswordStrength;
+};
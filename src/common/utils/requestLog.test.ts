@@ -0,0 +1,52 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import requestLog, { REQUEST_LOG_CAPACITY, RequestLogEntry } from './requestLog';
+
+describe('requestLog', () => {
+  const createEntry = (index: number): RequestLogEntry => ({
+    requestId: `request-${index}`,
+    traceId: 'trace',
+    method: 'GET',
+    url: `https://api.example.com/items/${index}`,
+    status: 200,
+    durationMillis: 10,
+    timestamp: '2026-01-01T00:00:00.000Z',
+  });
+
+  beforeEach(() => {
+    requestLog.clear();
+  });
+
+  it('should return the recorded requests, oldest first', () => {
+    // ACT
+    requestLog.add(createEntry(1));
+    requestLog.add(createEntry(2));
+
+    // ASSERT
+    expect(requestLog.getEntries()).toEqual([createEntry(1), createEntry(2)]);
+  });
+
+  it('should discard the oldest requests when full', () => {
+    // ACT
+    for (let index = 1; index <= REQUEST_LOG_CAPACITY + 2; index++) {
+      requestLog.add(createEntry(index));
+    }
+
+    // ASSERT
+    const entries = requestLog.getEntries();
+    expect(entries).toHaveLength(REQUEST_LOG_CAPACITY);
+    expect(entries[0]).toEqual(createEntry(3));
+    expect(entries[REQUEST_LOG_CAPACITY - 1]).toEqual(createEntry(REQUEST_LOG_CAPACITY + 2));
+  });
+
+  it('should clear the recorded requests', () => {
+    // ARRANGE
+    requestLog.add(createEntry(1));
+
+    // ACT
+    requestLog.clear();
+
+    // ASSERT
+    expect(requestLog.getEntries()).toEqual([]);
+  });
+});
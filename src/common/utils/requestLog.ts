@@ -0,0 +1,74 @@
+/**
+ * A completed request, recorded so that support may match a failure reported
+ * by a user to the backend logs.
+ * @param requestId - The correlation identifier, sent in the `X-Request-Id` header.
+ * @param traceId - The W3C trace identifier, sent in the `traceparent` header.
+ * @param method - The request method, e.g. `GET`.
+ * @param url - The request URL.
+ * @param [status] - Optional. The HTTP status code. Absent when the request
+ * failed without a response.
+ * @param durationMillis - The duration of the request in milliseconds.
+ * @param timestamp - The time the request started, an ISO 8601 string.
+ */
+export type RequestLogEntry = {
+  requestId: string;
+  traceId: string;
+  method: string;
+  url: string;
+  status?: number;
+  durationMillis: number;
+  timestamp: string;
+};
+
+/**
+ * The number of requests retained. When full, the oldest request is discarded.
+ */
+export const REQUEST_LOG_CAPACITY = 50;
+
+/**
+ * The ring buffer of recorded requests.
+ */
+const entries: (RequestLogEntry | undefined)[] = new Array(REQUEST_LOG_CAPACITY);
+
+/**
+ * The index of the next entry to be written.
+ */
+let next = 0;
+
+/**
+ * Records a completed request, replacing the oldest entry when the log is full.
+ * @param {RequestLogEntry} entry - The `RequestLogEntry`.
+ */
+const add = (entry: RequestLogEntry): void => {
+  entries[next % REQUEST_LOG_CAPACITY] = entry;
+  next++;
+};
+
+/**
+ * Returns the recorded requests, oldest first.
+ * @returns {RequestLogEntry[]} The `RequestLogEntry` objects.
+ */
+const getEntries = (): RequestLogEntry[] => {
+  const start = Math.max(0, next - REQUEST_LOG_CAPACITY);
+  const result: RequestLogEntry[] = [];
+  for (let index = start; index < next; index++) {
+    result.push(entries[index % REQUEST_LOG_CAPACITY] as RequestLogEntry);
+  }
+  return result;
+};
+
+/**
+ * Removes all recorded requests.
+ */
+const clear = (): void => {
+  entries.fill(undefined);
+  next = 0;
+};
+
+const requestLog = {
+  add,
+  clear,
+  getEntries,
+};
+
+export default requestLog;
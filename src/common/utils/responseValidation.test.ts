@@ -0,0 +1,63 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { AxiosResponse } from 'axios';
+import { z } from 'zod';
+
+import { SchemaDriftError } from './apiError';
+import { getValidationMode, validateResponse } from './responseValidation';
+
+describe('responseValidation', () => {
+  const schema = z.object({ id: z.number(), title: z.string() });
+
+  const createResponse = (data: unknown) =>
+    ({ status: 200, data, headers: {}, config: { method: 'get', url: '/todos/1' } }) as unknown as AxiosResponse;
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  describe('getValidationMode', () => {
+    it('should be strict in development', () => {
+      // ARRANGE
+      vi.stubEnv('PROD', false);
+
+      // ASSERT
+      expect(getValidationMode()).toBe('strict');
+    });
+
+    it('should be lenient in production', () => {
+      // ARRANGE
+      vi.stubEnv('PROD', true);
+
+      // ASSERT
+      expect(getValidationMode()).toBe('lenient');
+    });
+  });
+
+  describe('validateResponse', () => {
+    it('should return the parsed data', () => {
+      // ACT
+      const data = validateResponse(schema, createResponse({ id: 1, title: 'Task', extra: true }));
+
+      // ASSERT
+      expect(data).toEqual({ id: 1, title: 'Task' });
+    });
+
+    it('should throw a SchemaDriftError in strict mode', () => {
+      // ASSERT
+      expect(() => validateResponse(schema, createResponse({ id: '1' }), 'strict')).toThrow(SchemaDriftError);
+    });
+
+    it('should log and return the data in lenient mode', () => {
+      // ARRANGE
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const response = createResponse({ id: '1' });
+
+      // ACT
+      const data = validateResponse(schema, response, 'lenient');
+
+      // ASSERT
+      expect(data).toBe(response.data);
+      expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining('does not match the schema'));
+    });
+  });
+});
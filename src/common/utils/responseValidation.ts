@@ -0,0 +1,50 @@
+import { AxiosResponse } from 'axios';
+import { z } from 'zod';
+
+import { SchemaDriftError } from './apiError';
+
+/**
+ * How the data of API responses is validated.
+ * - `strict` - Data which does not match the schema fails the request with a
+ * `SchemaDriftError`.
+ * - `lenient` - The `SchemaDriftError` is logged and the data is used as is.
+ */
+export type ValidationMode = 'strict' | 'lenient';
+
+/**
+ * Returns the validation mode of the build. Validation is strict in
+ * development, so that schema drift is noticed at once, and lenient in a
+ * production build, so that users may continue with data which is mostly
+ * usable.
+ * @returns {ValidationMode} The `ValidationMode`.
+ */
+export const getValidationMode = (): ValidationMode => (import.meta.env.PROD ? 'lenient' : 'strict');
+
+/**
+ * Validates the data of an API response with a zod schema.
+ * @param {z.ZodType} schema - The zod schema of the response data.
+ * @param {AxiosResponse} response - The response.
+ * @param {ValidationMode} [mode] - Optional. The `ValidationMode`. Default:
+ * the validation mode of the build.
+ * @returns The validated data. In `lenient` mode, data which does not match
+ * the schema is returned unchanged.
+ * @throws Throws a `SchemaDriftError` in `strict` mode when the data does not
+ * match the schema.
+ */
+export const validateResponse = <T>(
+  schema: z.ZodType<T>,
+  response: AxiosResponse,
+  mode: ValidationMode = getValidationMode(),
+): T => {
+  const result = schema.safeParse(response.data);
+  if (result.success) {
+    return result.data;
+  }
+
+  const error = new SchemaDriftError(response, result.error.issues);
+  if (mode === 'strict') {
+    throw error;
+  }
+  console.warn(error.message);
+  return response.data as T;
+};
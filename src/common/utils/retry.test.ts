@@ -0,0 +1,171 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { AxiosError, AxiosHeaders, AxiosResponse, CanceledError, InternalAxiosRequestConfig, isCancel } from 'axios';
+
+import { IDEMPOTENCY_KEY_HEADER } from './constants';
+import { getRetryDelay, isRetryable, parseRetryAfter, RetryOptions, wait } from './retry';
+
+describe('retry', () => {
+  const options: RetryOptions = { limit: 3, delayMillis: 500, maxDelayMillis: 30000 };
+
+  const createAxiosError = (
+    method: string,
+    status?: number,
+    { code = AxiosError.ERR_BAD_RESPONSE, headers = {}, requestHeaders = {}, isSafe = false } = {},
+  ) =>
+    new AxiosError(
+      'Request failed',
+      status ? code : AxiosError.ERR_NETWORK,
+      { method, headers: new AxiosHeaders(requestHeaders), isSafe } as InternalAxiosRequestConfig,
+      undefined,
+      status ? ({ status, headers } as unknown as AxiosResponse) : undefined,
+    );
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('isRetryable', () => {
+    it('should retry idempotent requests which failed with a transient status', () => {
+      // ASSERT
+      expect(isRetryable(createAxiosError('get', 503))).toBe(true);
+      expect(isRetryable(createAxiosError('put', 429))).toBe(true);
+      expect(isRetryable(createAxiosError('delete', 502))).toBe(true);
+    });
+
+    it('should retry idempotent requests which failed with a network error', () => {
+      // ASSERT
+      expect(isRetryable(createAxiosError('get'))).toBe(true);
+    });
+
+    it('should not retry requests which failed with a client error', () => {
+      // ASSERT
+      expect(isRetryable(createAxiosError('get', 400))).toBe(false);
+      expect(isRetryable(createAxiosError('get', 404))).toBe(false);
+    });
+
+    it('should not retry a POST without an idempotency key', () => {
+      // ASSERT
+      expect(isRetryable(createAxiosError('post', 503))).toBe(false);
+      expect(isRetryable(createAxiosError('post'))).toBe(false);
+    });
+
+    it('should retry a POST with an idempotency key', () => {
+      // ASSERT
+      expect(isRetryable(createAxiosError('post', 503, { requestHeaders: { [IDEMPOTENCY_KEY_HEADER]: 'key' } }))).toBe(
+        true,
+      );
+    });
+
+    it('should retry a POST which is marked safe', () => {
+      // ASSERT
+      expect(isRetryable(createAxiosError('post', 503, { isSafe: true }))).toBe(true);
+    });
+
+    it('should not retry cancelled requests', () => {
+      // ASSERT
+      expect(isRetryable(new CanceledError())).toBe(false);
+    });
+  });
+
+  describe('parseRetryAfter', () => {
+    it('should parse seconds', () => {
+      // ASSERT
+      expect(parseRetryAfter('120')).toBe(120000);
+      expect(parseRetryAfter(' 0 ')).toBe(0);
+    });
+
+    it('should parse an HTTP date', () => {
+      // ARRANGE
+      const now = Date.parse('Wed, 21 Oct 2015 07:28:00 GMT');
+
+      // ASSERT
+      expect(parseRetryAfter('Wed, 21 Oct 2015 07:28:05 GMT', now)).toBe(5000);
+      expect(parseRetryAfter('Wed, 21 Oct 2015 07:27:00 GMT', now)).toBe(0);
+    });
+
+    it('should return undefined when missing or invalid', () => {
+      // ASSERT
+      expect(parseRetryAfter(undefined)).toBeUndefined();
+      expect(parseRetryAfter('')).toBeUndefined();
+      expect(parseRetryAfter('soon')).toBeUndefined();
+    });
+  });
+
+  describe('getRetryDelay', () => {
+    it('should back off exponentially with jitter', () => {
+      // ARRANGE
+      vi.spyOn(Math, 'random').mockReturnValue(0.5);
+      const error = createAxiosError('get', 503);
+
+      // ASSERT
+      expect(getRetryDelay(error, 0, options)).toBe(250);
+      expect(getRetryDelay(error, 1, options)).toBe(500);
+      expect(getRetryDelay(error, 2, options)).toBe(1000);
+    });
+
+    it('should not exceed the maximum delay', () => {
+      // ARRANGE
+      vi.spyOn(Math, 'random').mockReturnValue(0.999);
+
+      // ASSERT
+      expect(getRetryDelay(createAxiosError('get', 503), 10, options)).toBe(29970);
+    });
+
+    it('should honour Retry-After of a 429 or 503 response', () => {
+      // ASSERT
+      expect(getRetryDelay(createAxiosError('get', 429, { headers: { 'retry-after': '2' } }), 0, options)).toBe(2000);
+      expect(getRetryDelay(createAxiosError('get', 503, { headers: { 'retry-after': '60' } }), 0, options)).toBe(60000);
+    });
+
+    it('should ignore Retry-After of other responses', () => {
+      // ARRANGE
+      vi.spyOn(Math, 'random').mockReturnValue(0);
+
+      // ASSERT
+      expect(getRetryDelay(createAxiosError('get', 500, { headers: { 'retry-after': '2' } }), 0, options)).toBe(0);
+    });
+  });
+
+  describe('wait', () => {
+    it('should resolve after the delay', async () => {
+      // ARRANGE
+      vi.useFakeTimers();
+      const resolved = vi.fn();
+      wait(1000).then(resolved);
+
+      // ACT
+      await vi.advanceTimersByTimeAsync(999);
+
+      // ASSERT
+      expect(resolved).not.toHaveBeenCalled();
+
+      // ACT
+      await vi.advanceTimersByTimeAsync(1);
+
+      // ASSERT
+      expect(resolved).toHaveBeenCalled();
+    });
+
+    it('should reject when aborted', async () => {
+      // ARRANGE
+      vi.useFakeTimers();
+      const controller = new AbortController();
+      const waiting = wait(1000, controller.signal);
+
+      // ACT
+      controller.abort();
+
+      // ASSERT
+      await expect(waiting).rejects.toSatisfy(isCancel);
+    });
+
+    it('should reject when already aborted', async () => {
+      // ARRANGE
+      const controller = new AbortController();
+      controller.abort();
+
+      // ASSERT
+      await expect(wait(1000, controller.signal)).rejects.toBeInstanceOf(CanceledError);
+    });
+  });
+});
@@ -0,0 +1,126 @@
+import { AxiosError, CanceledError, GenericAbortSignal, isCancel } from 'axios';
+
+import { IDEMPOTENCY_KEY_HEADER } from './constants';
+
+/**
+ * The retry policy of a request.
+ * @param limit - The maximum number of retries; `0` disables retries.
+ * @param delayMillis - The base delay in milliseconds. The delay doubles with
+ * each retry.
+ * @param maxDelayMillis - The maximum delay in milliseconds. A request is not
+ * retried when the server asks the client to wait longer.
+ */
+export type RetryOptions = {
+  limit: number;
+  delayMillis: number;
+  maxDelayMillis: number;
+};
+
+/**
+ * Request methods which may be repeated without changing the outcome.
+ */
+const IDEMPOTENT_METHODS = ['get', 'head', 'options', 'put', 'delete'];
+
+/**
+ * HTTP status codes of transient failures.
+ */
+const RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504];
+
+/**
+ * HTTP status codes of responses whose `Retry-After` header is honoured.
+ */
+const RETRY_AFTER_STATUSES = [429, 503];
+
+/**
+ * Axios error codes of requests which failed without a response.
+ */
+const RETRYABLE_CODES: string[] = [AxiosError.ERR_NETWORK, AxiosError.ECONNABORTED, AxiosError.ETIMEDOUT];
+
+/**
+ * Determines if a failed request may be retried. Only idempotent requests,
+ * including those marked `isSafe` or sent with an `Idempotency-Key` header,
+ * which failed with a
+ * network error or a transient HTTP status are retried.
+ * @param {AxiosError} error - The failure.
+ * @returns {boolean} Returns `true` if the request may be retried.
+ */
+export const isRetryable = (error: AxiosError): boolean => {
+  const { config, response } = error;
+  if (!config || isCancel(error)) {
+    return false;
+  }
+  const isIdempotent =
+    IDEMPOTENT_METHODS.includes(config.method?.toLowerCase() ?? 'get') ||
+    !!config.isSafe ||
+    !!config.headers?.[IDEMPOTENCY_KEY_HEADER];
+  if (!isIdempotent) {
+    return false;
+  }
+  return response ? RETRYABLE_STATUSES.includes(response.status) : RETRYABLE_CODES.includes(error.code ?? '');
+};
+
+/**
+ * Parses the value of a `Retry-After` header, either a number of seconds or
+ * an HTTP date.
+ * @param {unknown} value - The header value.
+ * @param {number} [now] - Optional. The current time in milliseconds. Default: `Date.now()`.
+ * @returns {number | undefined} The delay in milliseconds or `undefined` if
+ * the value is missing or invalid.
+ */
+export const parseRetryAfter = (value: unknown, now: number = Date.now()): number | undefined => {
+  if (typeof value !== 'string' || !value.trim()) {
+    return undefined;
+  }
+  if (/^\d+$/.test(value.trim())) {
+    return Number(value.trim()) * 1000;
+  }
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - now);
+};
+
+/**
+ * Returns the delay before a retry. When the server supplied a `Retry-After`
+ * header on a `429` or `503` response, its delay is used. Otherwise, the
+ * delay grows exponentially with "full jitter", a random delay between zero
+ * and the exponential delay, so that clients do not retry in unison.
+ * @param {AxiosError} error - The failure.
+ * @param {number} retryCount - The number of retries already attempted.
+ * @param {RetryOptions} options - The retry policy.
+ * @returns {number} The delay in milliseconds.
+ */
+export const getRetryDelay = (error: AxiosError, retryCount: number, options: RetryOptions): number => {
+  const { response } = error;
+  const retryAfter =
+    response && RETRY_AFTER_STATUSES.includes(response.status)
+      ? parseRetryAfter(response.headers?.['retry-after'])
+      : undefined;
+  if (retryAfter !== undefined) {
+    return retryAfter;
+  }
+  return Math.floor(Math.random() * Math.min(options.maxDelayMillis, options.delayMillis * 2 ** retryCount));
+};
+
+/**
+ * Returns a Promise which resolves after a delay. When the `signal` aborts,
+ * the Promise rejects at once with a `CanceledError`, as an aborted request
+ * does.
+ * @param {number} millis - The delay in milliseconds.
+ * @param {GenericAbortSignal} [signal] - Optional. Aborts the wait.
+ * @returns {Promise<void>} A Promise which resolves after the delay.
+ */
+export const wait = (millis: number, signal?: GenericAbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new CanceledError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(new CanceledError());
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener?.('abort', onAbort);
+      resolve();
+    }, millis);
+    signal?.addEventListener?.('abort', onAbort);
+  });
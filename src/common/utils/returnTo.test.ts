@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+
+import { getSafeReturnTo, getSigninPath, SIGNIN_PATH } from './returnTo';
+
+describe('returnTo', () => {
+  it('should accept a same-origin path', () => {
+    // ASSERT
+    expect(getSafeReturnTo('/app/tasks/42/edit')).toBe('/app/tasks/42/edit');
+    expect(getSafeReturnTo('/app/settings?tab=1#top')).toBe('/app/settings?tab=1#top');
+    expect(getSafeReturnTo(`${window.location.origin}/app/tasks`)).toBe('/app/tasks');
+  });
+
+  it('should reject a cross-origin location', () => {
+    // ASSERT
+    expect(getSafeReturnTo('https://example.com/app/tasks')).toBe('/');
+    expect(getSafeReturnTo('//example.com/app/tasks')).toBe('/');
+    expect(getSafeReturnTo('javascript:alert(1)')).toBe('/');
+  });
+
+  it('should reject auth routes', () => {
+    // ASSERT
+    expect(getSafeReturnTo('/auth/signin')).toBe('/');
+    expect(getSafeReturnTo('/auth')).toBe('/');
+  });
+
+  it('should return fallback when missing', () => {
+    // ASSERT
+    expect(getSafeReturnTo()).toBe('/');
+    expect(getSafeReturnTo(null, '/app')).toBe('/app');
+  });
+
+  it('should get signin path', () => {
+    // ASSERT
+    expect(getSigninPath('/app/tasks/42/edit')).toBe(`${SIGNIN_PATH}?returnTo=%2Fapp%2Ftasks%2F42%2Fedit`);
+    expect(getSigninPath('https://example.com')).toBe(SIGNIN_PATH);
+    expect(getSigninPath()).toBe(SIGNIN_PATH);
+  });
+});
@@ -0,0 +1,45 @@
+import { SearchParam } from './constants';
+
+/**
+ * The path of the sign in page.
+ */
+export const SIGNIN_PATH = '/auth/signin';
+
+/**
+ * Validates a location to which the user is returned after sign in. Only
+ * same-origin locations outside of the `/auth` routes are accepted, so that
+ * the value, which arrives in the URL, cannot redirect the user to another
+ * site or back into the sign in flow.
+ * @param {string | null} [returnTo] - Optional. A path or URL.
+ * @param {string} [fallback] - Optional. Returned when `returnTo` is missing or
+ * invalid. Default: `/`.
+ * @returns {string} A same-origin path, including the search and hash.
+ */
+export const getSafeReturnTo = (returnTo?: string | null, fallback: string = '/'): string => {
+  if (!returnTo) {
+    return fallback;
+  }
+  try {
+    const url = new URL(returnTo, window.location.origin);
+    if (url.origin !== window.location.origin || url.pathname.startsWith('/auth/') || url.pathname === '/auth') {
+      return fallback;
+    }
+    return `${url.pathname}${url.search}${url.hash}`;
+  } catch {
+    return fallback;
+  }
+};
+
+/**
+ * Returns the path of the sign in page which, after sign in, returns the user
+ * to the supplied location.
+ * @param {string} [returnTo] - Optional. The location to return to.
+ * @returns {string} The sign in path.
+ */
+export const getSigninPath = (returnTo?: string): string => {
+  const safeReturnTo = getSafeReturnTo(returnTo);
+  if (safeReturnTo === '/') {
+    return SIGNIN_PATH;
+  }
+  return `${SIGNIN_PATH}?${new URLSearchParams({ [SearchParam.returnTo]: safeReturnTo })}`;
+};
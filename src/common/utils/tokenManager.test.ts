@@ -0,0 +1,120 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import dayjs from 'dayjs';
+
+import { queryClient } from 'test/query-client';
+import { createMockIdToken, createMockRefreshToken } from 'test/mocks/idp';
+import { userTokensFixture } from '__fixtures__/tokens';
+import { UserTokens } from 'common/api/useGetUserTokens';
+import { configFixture } from '__fixtures__/config';
+import { QueryKey, StorageKey } from './constants';
+import storage from './storage';
+
+import tokenManager, { TOKEN_REFRESH_LEEWAY_SECONDS } from './tokenManager';
+
+describe('tokenManager', () => {
+  const provider = configFixture.VITE_OIDC_PROVIDERS[0];
+
+  beforeEach(() => {
+    localStorage.clear();
+    storage.setJsonItem<UserTokens>(StorageKey.UserTokens, {
+      ...userTokensFixture,
+      provider_id: provider.id,
+      refresh_token: createMockRefreshToken({ clientId: provider.clientId, issuer: provider.issuer, userId: 1 }),
+    });
+  });
+
+  it('should determine refresh is due when tokens expire within leeway', () => {
+    // ASSERT
+    expect(
+      tokenManager.isRefreshDue({ ...userTokensFixture, id_token: createMockIdToken(1, { exp: dayjs().unix() }) }),
+    ).toBe(true);
+    expect(
+      tokenManager.isRefreshDue({
+        ...userTokensFixture,
+        id_token: createMockIdToken(1, {
+          exp: dayjs()
+            .add(TOKEN_REFRESH_LEEWAY_SECONDS - 1, 'second')
+            .unix(),
+        }),
+      }),
+    ).toBe(true);
+  });
+
+  it('should determine refresh is due when id token is invalid', () => {
+    // ASSERT
+    expect(tokenManager.isRefreshDue({ ...userTokensFixture, id_token: 'id-token' })).toBe(true);
+  });
+
+  it('should determine refresh is not due', () => {
+    // ASSERT
+    expect(
+      tokenManager.isRefreshDue({
+        ...userTokensFixture,
+        id_token: createMockIdToken(1, { exp: dayjs().add(1, 'hour').unix() }),
+      }),
+    ).toBe(false);
+  });
+
+  it('should get refresh delay', () => {
+    // ARRANGE
+    const delay = tokenManager.getRefreshDelay({
+      ...userTokensFixture,
+      id_token: createMockIdToken(1, { exp: dayjs().add(1, 'hour').unix() }),
+    });
+
+    // ASSERT
+    expect(delay).toBeGreaterThan((3600 - TOKEN_REFRESH_LEEWAY_SECONDS - 1) * 1000);
+    expect(delay).toBeLessThanOrEqual((3600 - TOKEN_REFRESH_LEEWAY_SECONDS) * 1000);
+    expect(tokenManager.getRefreshDelay({ ...userTokensFixture, id_token: createMockIdToken(1, { exp: 0 }) })).toBe(0);
+  });
+
+  it('should refresh and rotate tokens', async () => {
+    // ARRANGE
+    const storedTokens = storage.getJsonItem<UserTokens>(StorageKey.UserTokens);
+
+    // ACT
+    const tokens = await tokenManager.refresh(queryClient, configFixture.VITE_OIDC_PROVIDERS);
+
+    // ASSERT
+    expect(tokens.refresh_token).not.toBe(storedTokens?.refresh_token);
+    expect(tokens.provider_id).toBe(provider.id);
+    expect(tokenManager.isRefreshDue(tokens)).toBe(false);
+    expect(storage.getJsonItem(StorageKey.UserTokens)).toEqual(tokens);
+    expect(queryClient.getQueryData([QueryKey.UserTokens])).toEqual(tokens);
+  });
+
+  it('should share a single refresh among concurrent callers', async () => {
+    // ACT
+    const refresh1 = tokenManager.refresh(queryClient, configFixture.VITE_OIDC_PROVIDERS);
+    const refresh2 = tokenManager.refresh(queryClient, configFixture.VITE_OIDC_PROVIDERS);
+
+    // ASSERT
+    expect(refresh1).toBe(refresh2);
+    await expect(refresh1).resolves.toBeDefined();
+  });
+
+  it('should reject and call failure callback once when refresh fails', async () => {
+    // ARRANGE
+    storage.setJsonItem<UserTokens>(StorageKey.UserTokens, { ...userTokensFixture, refresh_token: 'revoked' });
+    const onFailure = vi.fn();
+
+    // ACT
+    const refresh1 = tokenManager.refresh(queryClient, configFixture.VITE_OIDC_PROVIDERS, onFailure);
+    const refresh2 = tokenManager.refresh(queryClient, configFixture.VITE_OIDC_PROVIDERS, onFailure);
+
+    // ASSERT
+    await expect(refresh1).rejects.toThrowError();
+    await expect(refresh2).rejects.toThrowError();
+    expect(onFailure).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject when refresh token not found', async () => {
+    // ARRANGE
+    localStorage.clear();
+
+    // ASSERT
+    await expect(tokenManager.refresh(queryClient, configFixture.VITE_OIDC_PROVIDERS)).rejects.toThrowError(
+      'Refresh token not found.',
+    );
+  });
+});
@@ -0,0 +1,124 @@
+import { QueryClient } from '@tanstack/react-query';
+import axios from 'axios';
+import dayjs from 'dayjs';
+
+import { UserTokens } from 'common/api/useGetUserTokens';
+import { getExpiresAt } from './claims';
+import { OidcProviderConfig } from './config';
+import { QueryKey, StorageKey } from './constants';
+import { getOidcProvider, oidcConfigurationQueryOptions, tokenResponseSchema } from './oidc';
+import { validateResponse } from './responseValidation';
+import storage from './storage';
+
+/**
+ * The number of seconds before the id token `exp` when tokens are refreshed.
+ */
+export const TOKEN_REFRESH_LEEWAY_SECONDS = 60;
+
+/**
+ * The refresh which is in progress, if any. Shared by all callers so that
+ * concurrent requests for new tokens result in a single refresh.
+ */
+let refreshPromise: Promise<UserTokens> | null = null;
+
+/**
+ * Determines if tokens have expired or will expire within the refresh leeway.
+ * Expiry is read from the `exp` claim of the id token; an invalid id token is
+ * treated as expired.
+ * @param {UserTokens} tokens - The `UserTokens`.
+ * @returns {boolean} Returns `true` if the tokens should be refreshed.
+ */
+const isRefreshDue = (tokens: UserTokens): boolean => {
+  return !dayjs().add(TOKEN_REFRESH_LEEWAY_SECONDS, 'second').isBefore(getExpiresAt(tokens.id_token));
+};
+
+/**
+ * Returns the number of milliseconds until the tokens should be refreshed.
+ * @param {UserTokens} tokens - The `UserTokens`.
+ * @returns {number} Milliseconds, or `0` if a refresh is due now.
+ */
+const getRefreshDelay = (tokens: UserTokens): number => {
+  return Math.max(
+    dayjs(getExpiresAt(tokens.id_token)).subtract(TOKEN_REFRESH_LEEWAY_SECONDS, 'second').diff(dayjs()),
+    0,
+  );
+};
+
+/**
+ * Exchanges the stored refresh token for new tokens at the token endpoint of
+ * the provider which issued them. Providers which rotate refresh tokens return
+ * a new refresh token; otherwise the current refresh token is retained.
+ *
+ * The refresh request uses a bare Axios instance so that the application
+ * interceptors, which would add expiring credentials, are not applied.
+ * @param {QueryClient} queryClient - The React Query client.
+ * @param {OidcProviderConfig[]} providers - The configured OIDC providers.
+ * @returns {Promise<UserTokens>} A Promise which resolves to the new tokens.
+ */
+const requestRefresh = async (queryClient: QueryClient, providers: OidcProviderConfig[]): Promise<UserTokens> => {
+  const tokens = storage.getJsonItem<UserTokens>(StorageKey.UserTokens);
+  if (!tokens?.refresh_token) {
+    throw new Error('Refresh token not found.');
+  }
+
+  const provider = getOidcProvider(providers, tokens.provider_id);
+  const oidcConfiguration = await queryClient.fetchQuery(oidcConfigurationQueryOptions(axios, provider));
+
+  const response = await axios.request({
+    method: 'post',
+    url: oidcConfiguration.token_endpoint,
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    data: new URLSearchParams({
+      grant_type: 'refresh_token',
+      refresh_token: tokens.refresh_token,
+      client_id: provider.clientId,
+    }),
+  });
+  // the refresh token is not always rotated
+  const tokenResponse = validateResponse(tokenResponseSchema.partial({ refresh_token: true }), response);
+
+  const refreshedTokens: UserTokens = {
+    ...tokens,
+    ...tokenResponse,
+    refresh_token: tokenResponse.refresh_token ?? tokens.refresh_token,
+  };
+  storage.setJsonItem(StorageKey.UserTokens, refreshedTokens);
+  queryClient.setQueryData([QueryKey.UserTokens], refreshedTokens);
+
+  return refreshedTokens;
+};
+
+/**
+ * Refreshes the user tokens. While a refresh is in progress, every caller
+ * receives the same Promise.
+ * @param {QueryClient} queryClient - The React Query client.
+ * @param {OidcProviderConfig[]} providers - The configured OIDC providers.
+ * @param {Function} [onFailure] - Optional. Called once when the refresh fails,
+ * e.g. to sign out the user.
+ * @returns {Promise<UserTokens>} A Promise which resolves to the new tokens.
+ */
+const refresh = (
+  queryClient: QueryClient,
+  providers: OidcProviderConfig[],
+  onFailure?: (error: unknown) => void,
+): Promise<UserTokens> => {
+  if (!refreshPromise) {
+    refreshPromise = requestRefresh(queryClient, providers)
+      .catch((error) => {
+        onFailure?.(error);
+        throw error;
+      })
+      .finally(() => {
+        refreshPromise = null;
+      });
+  }
+  return refreshPromise;
+};
+
+const tokenManager = {
+  getRefreshDelay,
+  isRefreshDue,
+  refresh,
+};
+
+export default tokenManager;
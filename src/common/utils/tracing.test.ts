@@ -0,0 +1,131 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+
+import requestLog from './requestLog';
+import { createSpanId, createTraceId, createTraceparent, getErrorDetails, getRequestId, redactUrl } from './tracing';
+
+describe('tracing', () => {
+  const createAxiosError = () =>
+    new AxiosError(
+      'Request failed with status code 503',
+      AxiosError.ERR_BAD_RESPONSE,
+      {
+        method: 'get',
+        url: 'https://api.example.com/items',
+        requestId: 'request-id',
+        traceId: 'trace-id',
+      } as InternalAxiosRequestConfig,
+      undefined,
+      { status: 503 } as AxiosResponse,
+    );
+
+  beforeEach(() => {
+    requestLog.clear();
+  });
+
+  it('should create trace and span identifiers', () => {
+    // ASSERT
+    expect(createTraceId()).toMatch(/^[0-9a-f]{32}$/);
+    expect(createSpanId()).toMatch(/^[0-9a-f]{16}$/);
+    expect(createTraceId()).not.toBe(createTraceId());
+  });
+
+  it('should create a traceparent', () => {
+    // ASSERT
+    expect(createTraceparent('4bf92f3577b34da6a3ce929d0e0e4736', '00f067aa0ba902b7')).toBe(
+      '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01',
+    );
+  });
+
+  it('should return the request identifier of a failed request', () => {
+    // ASSERT
+    expect(getRequestId(createAxiosError())).toBe('request-id');
+    expect(getRequestId(new Error('test'))).toBeUndefined();
+    expect(getRequestId(undefined)).toBeUndefined();
+  });
+
+  it('should describe a failed request', () => {
+    // ARRANGE
+    requestLog.add({
+      requestId: 'request-id',
+      traceId: 'trace-id',
+      method: 'GET',
+      url: 'https://api.example.com/items',
+      status: 503,
+      durationMillis: 25,
+      timestamp: '2026-01-01T00:00:00.000Z',
+    });
+
+    // ACT
+    const details = getErrorDetails(createAxiosError());
+
+    // ASSERT
+    expect(details).toContain('Error: Request failed with status code 503');
+    expect(details).toContain('Request: GET https://api.example.com/items');
+    expect(details).toContain('Status: 503');
+    expect(details).toContain('Request ID: request-id');
+    expect(details).toContain('Trace ID: trace-id');
+    expect(details).toContain('2026-01-01T00:00:00.000Z GET https://api.example.com/items 503 25ms request-id');
+  });
+
+  it('should describe other errors', () => {
+    // ACT
+    const details = getErrorDetails(new Error('test error'));
+
+    // ASSERT
+    expect(details).toContain('Error: test error');
+    expect(details).toContain(`Page: ${window.location.href}`);
+    expect(details).not.toContain('Request ID');
+    expect(details).not.toContain('Recent requests');
+  });
+
+  it('should remove the query string and fragment from a URL', () => {
+    // ASSERT
+    expect(redactUrl('https://app.example.com/auth/callback?code=secret-code&state=secret-state')).toBe(
+      'https://app.example.com/auth/callback',
+    );
+    expect(redactUrl('/auth/reset-password?token=reset-1#top')).toBe('/auth/reset-password');
+    expect(redactUrl('https://api.example.com/items')).toBe('https://api.example.com/items');
+  });
+
+  it('should redact the password reset token in a URL', () => {
+    // ASSERT
+    expect(redactUrl('https://api.example.com/password-resets/reset-1')).toBe(
+      'https://api.example.com/password-resets/[redacted]',
+    );
+    expect(redactUrl('/password-resets')).toBe('/password-resets');
+  });
+
+  it('should not include secrets in the error details', () => {
+    // ARRANGE
+    const location = window.location.href;
+    window.history.replaceState(null, '', '/auth/reset-password?token=reset-1');
+    requestLog.add({
+      requestId: 'callback-request-id',
+      traceId: 'trace-id',
+      method: 'POST',
+      url: 'https://idp.example.com/token?code=secret-code&state=secret-state',
+      status: 200,
+      durationMillis: 25,
+      timestamp: '2026-01-01T00:00:00.000Z',
+    });
+    const error = new AxiosError(
+      'Request failed with status code 400',
+      AxiosError.ERR_BAD_REQUEST,
+      { method: 'put', url: '/password-resets/reset-1', requestId: 'request-id' } as InternalAxiosRequestConfig,
+      undefined,
+      { status: 400 } as AxiosResponse,
+    );
+
+    // ACT
+    const details = getErrorDetails(error);
+    window.history.replaceState(null, '', location);
+
+    // ASSERT
+    expect(details).toContain(`Page: ${window.location.origin}/auth/reset-password\n`);
+    expect(details).toContain('Request: PUT /password-resets/[redacted]');
+    expect(details).toContain('POST https://idp.example.com/token 200 25ms callback-request-id');
+    expect(details).not.toContain('reset-1');
+    expect(details).not.toContain('secret');
+  });
+});
@@ -0,0 +1,105 @@
+import { isAxiosError } from 'axios';
+
+import requestLog, { RequestLogEntry } from './requestLog';
+
+/**
+ * Returns a random identifier of the given number of bytes, as lowercase
+ * hexadecimal.
+ * @param {number} byteLength - The number of random bytes.
+ * @returns {string} The identifier.
+ */
+const createHexId = (byteLength: number): string => {
+  return Array.from(crypto.getRandomValues(new Uint8Array(byteLength)), (byte) =>
+    byte.toString(16).padStart(2, '0'),
+  ).join('');
+};
+
+/**
+ * Creates a W3C trace identifier, 16 random bytes.
+ * @returns {string} The trace identifier, 32 hexadecimal characters.
+ */
+export const createTraceId = (): string => createHexId(16);
+
+/**
+ * Creates a W3C span identifier, 8 random bytes. Each request is a span.
+ * @returns {string} The span identifier, 16 hexadecimal characters.
+ */
+export const createSpanId = (): string => createHexId(8);
+
+/**
+ * Creates the value of a W3C `traceparent` header for a sampled trace.
+ * @param {string} traceId - The trace identifier.
+ * @param {string} spanId - The span identifier.
+ * @returns {string} The `traceparent` header value.
+ * @see {@link https://www.w3.org/TR/trace-context/#traceparent-header | traceparent Header}
+ */
+export const createTraceparent = (traceId: string, spanId: string): string => `00-${traceId}-${spanId}-01`;
+
+/**
+ * Returns the correlation identifier of the request which failed, if any.
+ * @param {unknown} error - The error.
+ * @returns {string | undefined} The request identifier or `undefined`.
+ */
+export const getRequestId = (error: unknown): string | undefined => {
+  return isAxiosError(error) ? error.config?.requestId : undefined;
+};
+
+/**
+ * Path segments which are followed by a secret, e.g. the password reset token
+ * in `/password-resets/{token}`.
+ */
+const SECRET_PATH_SEGMENTS = ['password-resets'];
+
+/**
+ * Removes secrets from a URL for a support ticket. The query string and
+ * fragment, which may hold e.g. a password reset `token` or an authorization
+ * `code` and `state`, are removed. A path segment which follows one of the
+ * `SECRET_PATH_SEGMENTS` is replaced with `[redacted]`.
+ * @param {string} url - The URL.
+ * @returns {string} The redacted URL.
+ */
+export const redactUrl = (url: string): string => {
+  const [path = ''] = url.split(/[?#]/);
+  return path
+    .split('/')
+    .map((segment, index, segments) =>
+      index > 0 && SECRET_PATH_SEGMENTS.includes(segments[index - 1]) && segment ? '[redacted]' : segment,
+    )
+    .join('/');
+};
+
+/**
+ * Formats a recorded request as a single line.
+ * @param {RequestLogEntry} entry - The `RequestLogEntry`.
+ * @returns {string} The formatted request.
+ */
+const formatEntry = ({ durationMillis, method, requestId, status, timestamp, url }: RequestLogEntry): string =>
+  `${timestamp} ${method} ${redactUrl(url)} ${status ?? 'no response'} ${durationMillis}ms ${requestId}`;
+
+/**
+ * Returns a plain text description of an error for a support ticket. The
+ * description includes the correlation identifiers of the failed request and
+ * the recently recorded requests. Secrets are removed from the URLs.
+ * @param {unknown} error - The error.
+ * @returns {string} The error details.
+ */
+export const getErrorDetails = (error: unknown): string => {
+  const lines = [`Time: ${new Date().toISOString()}`, `Page: ${redactUrl(window.location.href)}`];
+  if (error instanceof Error) {
+    lines.push(`Error: ${error.message}`);
+  }
+  if (isAxiosError(error) && error.config) {
+    const { method = 'get', requestId, traceId, url } = error.config;
+    lines.push(
+      `Request: ${method.toUpperCase()} ${redactUrl(url ?? '')}`,
+      `Status: ${error.response?.status ?? 'no response'}`,
+      `Request ID: ${requestId ?? 'unknown'}`,
+      `Trace ID: ${traceId ?? 'unknown'}`,
+    );
+  }
+  const entries = requestLog.getEntries();
+  if (entries.length) {
+    lines.push('Recent requests:', ...entries.map(formatEntry));
+  }
+  return lines.join('\n');
+};
@@ -0,0 +1,99 @@
+import { beforeEach, describe, expect, it, Mock } from 'vitest';
+
+import { mockWebAuthn, unmockWebAuthn } from 'test/mocks/webauthn';
+import { MOCK_PASSKEY_ID } from 'test/mocks/idp';
+
+import {
+  base64UrlDecode,
+  base64UrlEncode,
+  createPasskeyCredential,
+  getPasskeyCredential,
+  isWebAuthnSupported,
+  PublicKeyCredentialCreationOptionsJSON,
+} from './webauthn';
+
+describe('webauthn', () => {
+  let getMock: Mock;
+  let createMock: Mock;
+
+  const creationOptions: PublicKeyCredentialCreationOptionsJSON = {
+    challenge: 'Y2hhbGxlbmdl',
+    rp: { name: 'React Starter' },
+    user: { id: 'MQ', name: 'Bret', displayName: 'Leanne Graham' },
+    pubKeyCredParams: [{ type: 'public-key', alg: -7 }],
+    excludeCredentials: [{ id: MOCK_PASSKEY_ID, type: 'public-key' }],
+  };
+
+  beforeEach(() => {
+    const webAuthn = mockWebAuthn();
+    getMock = webAuthn.get;
+    createMock = webAuthn.create;
+  });
+
+  it('should encode and decode base64url', () => {
+    // ARRANGE
+    const bytes = new Uint8Array([251, 255, 191, 0, 1]);
+
+    // ACT
+    const encoded = base64UrlEncode(bytes.buffer);
+
+    // ASSERT
+    expect(encoded).toBe('-_-_AAE');
+    expect(new Uint8Array(base64UrlDecode(encoded))).toEqual(bytes);
+  });
+
+  it('should determine if WebAuthn is supported', () => {
+    // ASSERT
+    expect(isWebAuthnSupported()).toBe(true);
+    unmockWebAuthn();
+    expect(isWebAuthnSupported()).toBe(false);
+  });
+
+  it('should get a passkey credential', async () => {
+    // ACT
+    const credential = await getPasskeyCredential({ challenge: 'Y2hhbGxlbmdl', userVerification: 'preferred' });
+
+    // ASSERT
+    expect(getMock).toHaveBeenCalledWith({
+      publicKey: expect.objectContaining({ challenge: base64UrlDecode('Y2hhbGxlbmdl'), userVerification: 'preferred' }),
+    });
+    expect(credential.id).toBe(MOCK_PASSKEY_ID);
+    expect(credential.rawId).toBe(MOCK_PASSKEY_ID);
+    expect(JSON.parse(new TextDecoder().decode(base64UrlDecode(credential.response.clientDataJSON)))).toEqual(
+      expect.objectContaining({ type: 'webauthn.get', challenge: 'Y2hhbGxlbmdl' }),
+    );
+  });
+
+  it('should create a passkey credential', async () => {
+    // ACT
+    const credential = await createPasskeyCredential(creationOptions);
+
+    // ASSERT
+    expect(createMock).toHaveBeenCalledWith({
+      publicKey: expect.objectContaining({
+        user: expect.objectContaining({ id: base64UrlDecode('MQ') }),
+        excludeCredentials: [{ id: base64UrlDecode(MOCK_PASSKEY_ID), type: 'public-key' }],
+      }),
+    });
+    expect(credential.response.attestationObject).toBeDefined();
+    expect(credential.response.transports).toEqual(['internal']);
+  });
+
+  it('should throw when the user cancels', async () => {
+    // ARRANGE
+    getMock.mockRejectedValueOnce(new DOMException('Cancelled', 'NotAllowedError'));
+
+    // ASSERT
+    await expect(getPasskeyCredential({ challenge: 'Y2hhbGxlbmdl' })).rejects.toThrowError(
+      'The passkey request was cancelled or timed out.',
+    );
+  });
+
+  it('should throw when the passkey is already registered', async () => {
+    // ARRANGE
+    createMock.mockRejectedValueOnce(new DOMException('Exists', 'InvalidStateError'));
+
+    // ASSERT
+    await expect(createPasskeyCredential(creationOptions)).rejects.toThrowError('This passkey is already registered.');
+  });
+});
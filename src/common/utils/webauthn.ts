@@ -0,0 +1,237 @@
+import { z } from 'zod';
+
+/**
+ * The JSON form of `PublicKeyCredentialRequestOptions` issued by a server.
+ * Binary values are base64url encoded.
+ */
+export interface PublicKeyCredentialRequestOptionsJSON {
+  challenge: string;
+  rpId?: string;
+  timeout?: number;
+  userVerification?: UserVerificationRequirement;
+  allowCredentials?: PublicKeyCredentialDescriptorJSON[];
+}
+
+/**
+ * The JSON form of `PublicKeyCredentialCreationOptions` issued by a server.
+ * Binary values are base64url encoded.
+ */
+export interface PublicKeyCredentialCreationOptionsJSON {
+  challenge: string;
+  rp: PublicKeyCredentialRpEntity;
+  user: { id: string; name: string; displayName: string };
+  pubKeyCredParams: PublicKeyCredentialParameters[];
+  timeout?: number;
+  excludeCredentials?: PublicKeyCredentialDescriptorJSON[];
+  authenticatorSelection?: AuthenticatorSelectionCriteria;
+  attestation?: AttestationConveyancePreference;
+}
+
+/**
+ * The JSON form of a `PublicKeyCredentialDescriptor`.
+ */
+export interface PublicKeyCredentialDescriptorJSON {
+  id: string;
+  type: 'public-key';
+  transports?: AuthenticatorTransport[];
+}
+
+/**
+ * Zod schema for a `PublicKeyCredentialDescriptorJSON`.
+ */
+const publicKeyCredentialDescriptorSchema = z.object({
+  id: z.string(),
+  type: z.literal('public-key'),
+  transports: z.array(z.enum(['ble', 'hybrid', 'internal', 'nfc', 'usb'])).optional(),
+}) satisfies z.ZodType<PublicKeyCredentialDescriptorJSON>;
+
+/**
+ * Zod schema for the `PublicKeyCredentialRequestOptionsJSON` issued by a server.
+ */
+export const publicKeyCredentialRequestOptionsSchema = z.object({
+  challenge: z.string(),
+  rpId: z.string().optional(),
+  timeout: z.number().optional(),
+  userVerification: z.enum(['discouraged', 'preferred', 'required']).optional(),
+  allowCredentials: z.array(publicKeyCredentialDescriptorSchema).optional(),
+}) satisfies z.ZodType<PublicKeyCredentialRequestOptionsJSON>;
+
+/**
+ * Zod schema for the `PublicKeyCredentialCreationOptionsJSON` issued by a server.
+ */
+export const publicKeyCredentialCreationOptionsSchema = z.object({
+  challenge: z.string(),
+  rp: z.object({ id: z.string().optional(), name: z.string() }),
+  user: z.object({ id: z.string(), name: z.string(), displayName: z.string() }),
+  pubKeyCredParams: z.array(z.object({ type: z.literal('public-key'), alg: z.number() })),
+  timeout: z.number().optional(),
+  excludeCredentials: z.array(publicKeyCredentialDescriptorSchema).optional(),
+  authenticatorSelection: z
+    .object({
+      authenticatorAttachment: z.enum(['cross-platform', 'platform']).optional(),
+      requireResidentKey: z.boolean().optional(),
+      residentKey: z.enum(['discouraged', 'preferred', 'required']).optional(),
+      userVerification: z.enum(['discouraged', 'preferred', 'required']).optional(),
+    })
+    .optional(),
+  attestation: z.enum(['direct', 'enterprise', 'indirect', 'none']).optional(),
+}) satisfies z.ZodType<PublicKeyCredentialCreationOptionsJSON>;
+
+/**
+ * The JSON form of a credential returned by `navigator.credentials.get`,
+ * which is sent to the server for verification.
+ */
+export interface AuthenticationCredentialJSON {
+  id: string;
+  rawId: string;
+  type: string;
+  response: {
+    clientDataJSON: string;
+    authenticatorData: string;
+    signature: string;
+    userHandle?: string;
+  };
+}
+
+/**
+ * The JSON form of a credential returned by `navigator.credentials.create`,
+ * which is sent to the server for verification.
+ */
+export interface RegistrationCredentialJSON {
+  id: string;
+  rawId: string;
+  type: string;
+  response: {
+    clientDataJSON: string;
+    attestationObject: string;
+    transports?: string[];
+  };
+}
+
+/**
+ * Base64url encodes binary data, without padding.
+ * @param {ArrayBuffer} buffer - The data.
+ * @returns {string} The encoded string.
+ */
+export const base64UrlEncode = (buffer: ArrayBuffer): string => {
+  const binary = Array.from(new Uint8Array(buffer), (byte) => String.fromCharCode(byte)).join('');
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+/**
+ * Decodes a base64url encoded string to binary data.
+ * @param {string} value - The encoded string.
+ * @returns {ArrayBuffer} The data.
+ */
+export const base64UrlDecode = (value: string): ArrayBuffer => {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0)).buffer;
+};
+
+/**
+ * Determines if the browser supports passkeys, i.e. the WebAuthn API.
+ * @returns {boolean} Returns `true` if supported.
+ */
+export const isWebAuthnSupported = (): boolean => {
+  return typeof window.PublicKeyCredential !== 'undefined' && !!navigator.credentials;
+};
+
+/**
+ * Translates an error thrown by the WebAuthn API into an `Error` with a
+ * message which may be displayed to the user.
+ */
+const toWebAuthnError = (err: unknown): unknown => {
+  if (err instanceof DOMException && err.name === 'NotAllowedError') {
+    return new Error('The passkey request was cancelled or timed out.');
+  }
+  if (err instanceof DOMException && err.name === 'InvalidStateError') {
+    return new Error('This passkey is already registered.');
+  }
+  return err;
+};
+
+/**
+ * Asks the browser for a passkey which satisfies the server-issued options.
+ * The browser prompts the user to choose a passkey and verify their identity.
+ * @param {PublicKeyCredentialRequestOptionsJSON} options - The request options.
+ * @returns {Promise<AuthenticationCredentialJSON>} A Promise which resolves to
+ * the credential, otherwise throws an Error.
+ */
+export const getPasskeyCredential = async (
+  options: PublicKeyCredentialRequestOptionsJSON,
+): Promise<AuthenticationCredentialJSON> => {
+  let credential: PublicKeyCredential | null;
+  try {
+    credential = (await navigator.credentials.get({
+      publicKey: {
+        ...options,
+        challenge: base64UrlDecode(options.challenge),
+        allowCredentials: options.allowCredentials?.map((descriptor) => ({
+          ...descriptor,
+          id: base64UrlDecode(descriptor.id),
+        })),
+      },
+    })) as PublicKeyCredential | null;
+  } catch (err) {
+    throw toWebAuthnError(err);
+  }
+  if (!credential) {
+    throw new Error('The passkey request was cancelled or timed out.');
+  }
+
+  const response = credential.response as AuthenticatorAssertionResponse;
+  return {
+    id: credential.id,
+    rawId: base64UrlEncode(credential.rawId),
+    type: credential.type,
+    response: {
+      clientDataJSON: base64UrlEncode(response.clientDataJSON),
+      authenticatorData: base64UrlEncode(response.authenticatorData),
+      signature: base64UrlEncode(response.signature),
+      userHandle: response.userHandle ? base64UrlEncode(response.userHandle) : undefined,
+    },
+  };
+};
+
+/**
+ * Asks the browser to create a passkey which satisfies the server-issued
+ * options. The browser prompts the user to verify their identity.
+ * @param {PublicKeyCredentialCreationOptionsJSON} options - The creation options.
+ * @returns {Promise<RegistrationCredentialJSON>} A Promise which resolves to
+ * the new credential, otherwise throws an Error.
+ */
+export const createPasskeyCredential = async (
+  options: PublicKeyCredentialCreationOptionsJSON,
+): Promise<RegistrationCredentialJSON> => {
+  let credential: PublicKeyCredential | null;
+  try {
+    credential = (await navigator.credentials.create({
+      publicKey: {
+        ...options,
+        challenge: base64UrlDecode(options.challenge),
+        user: { ...options.user, id: base64UrlDecode(options.user.id) },
+        excludeCredentials: options.excludeCredentials?.map((descriptor) => ({
+          ...descriptor,
+          id: base64UrlDecode(descriptor.id),
+        })),
+      },
+    })) as PublicKeyCredential | null;
+  } catch (err) {
+    throw toWebAuthnError(err);
+  }
+  if (!credential) {
+    throw new Error('The passkey request was cancelled or timed out.');
+  }
+
+  const response = credential.response as AuthenticatorAttestationResponse;
+  return {
+    id: credential.id,
+    rawId: base64UrlEncode(credential.rawId),
+    type: credential.type,
+    response: {
+      clientDataJSON: base64UrlEncode(response.clientDataJSON),
+      attestationObject: base64UrlEncode(response.attestationObject),
+      transports: response.getTransports?.(),
+    },
+  };
+};
@@ -5,8 +5,26 @@ import 'common/utils/i18n';
 import App from './App.tsx';
 import './index.css';
 
-ReactDOM.createRoot(document.getElementById('root')!).render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>,
-);
+/**
+ * Starts the mock identity provider when `VITE_MOCK_IDP` is `true` in local
+ * development. The mock is not included in a production build.
+ * @returns A Promise which resolves to `true` when the application should be
+ * rendered.
+ */
+const enableMocking = async (): Promise<boolean> => {
+  if (!import.meta.env.DEV || import.meta.env.VITE_MOCK_IDP !== 'true') {
+    return true;
+  }
+  const { startMockIdp } = await import('test/mocks/browser');
+  return startMockIdp();
+};
+
+enableMocking().then((shouldRender) => {
+  if (shouldRender) {
+    ReactDOM.createRoot(document.getElementById('root')!).render(
+      <React.StrictMode>
+        <App />
+      </React.StrictMode>,
+    );
+  }
+});
@@ -1,25 +1,26 @@
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 import { render, screen } from 'test/test-utils';
 
-import AboutPage from './AboutPage';
+import { configFixture } from '__fixtures__/config';
+import * as UseConfig from 'common/hooks/useConfig';
 
-// Mock the config module
-vi.mock('common/utils/config', () => ({
-  config: {
-    VITE_BUILD_DATE: '2026-07-22',
-    VITE_BUILD_TIME: '12:00:00',
-    VITE_BUILD_TS: '2026-07-22T12:00:00Z',
-    VITE_BUILD_COMMIT_SHA: 'abc123def456',
-    VITE_BUILD_ENV_CODE: 'test',
-    VITE_BUILD_WORKFLOW_NAME: 'CI/CD Pipeline',
-    VITE_BUILD_WORKFLOW_RUN_NUMBER: 42,
-    VITE_BUILD_WORKFLOW_RUN_ATTEMPT: 1,
-  },
-}));
+import AboutPage from './AboutPage';
 
 describe('AboutPage', () => {
+  const useConfigSpy = vi.spyOn(UseConfig, 'useConfig');
+
   beforeEach(() => {
-    vi.clearAllMocks();
+    useConfigSpy.mockReturnValue({
+      ...configFixture,
+      VITE_BUILD_DATE: '2026-07-22',
+      VITE_BUILD_TIME: '12:00:00',
+      VITE_BUILD_TS: '2026-07-22T12:00:00Z',
+      VITE_BUILD_COMMIT_SHA: 'abc123def456',
+      VITE_BUILD_ENV_CODE: 'test',
+      VITE_BUILD_WORKFLOW_NAME: 'CI/CD Pipeline',
+      VITE_BUILD_WORKFLOW_RUN_NUMBER: 42,
+      VITE_BUILD_WORKFLOW_RUN_ATTEMPT: 1,
+    });
   });
 
   it('should render successfully', async () => {
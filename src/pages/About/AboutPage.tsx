@@ -2,7 +2,7 @@ import { ColumnDef } from '@tanstack/react-table';
 import { useTranslation } from 'react-i18next';
 import dayjs from 'dayjs';
 
-import { config } from 'common/utils/config';
+import { useConfig } from 'common/hooks/useConfig';
 import Page from 'common/components/Content/Page';
 import Container from 'common/components/Content/Container';
 import Heading from 'common/components/Text/Heading';
@@ -26,6 +26,7 @@ interface BuildInfoAttribute {
  */
 const AboutPage = () => {
   const { t } = useTranslation();
+  const config = useConfig();
 
   // Build info data
   const buildInfoData: BuildInfoAttribute[] = [
@@ -0,0 +1,111 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { MemoryRouter, Route, Routes } from 'react-router-dom';
+
+import { render, screen } from 'test/test-utils';
+import AllProvidersExceptRouter from 'test/wrappers/AllProvidersExceptRouter';
+import { createMockAuthorizationCode } from 'test/mocks/idp';
+import { configFixture } from '__fixtures__/config';
+import { authTransaction, AuthTransaction, createCodeChallenge } from 'common/utils/oidc';
+
+import CallbackPage from './CallbackPage';
+
+describe('CallbackPage', () => {
+  const provider = configFixture.VITE_OIDC_PROVIDERS[0];
+  const transaction: AuthTransaction = {
+    providerId: provider.id,
+    state: 'state',
+    nonce: 'nonce',
+    codeVerifier: 'code-verifier',
+    redirectUri: 'http://localhost:3000/auth/callback',
+  };
+
+  const renderAt = (url: string) =>
+    render(
+      <MemoryRouter initialEntries={[url]}>
+        <Routes>
+          <Route path="/" element={<div data-testid="page-landing" />} />
+          <Route path="/app/tasks/:taskId" element={<div data-testid="page-task" />} />
+          <Route path="/auth/callback" element={<CallbackPage />} />
+          <Route path="/auth/signin" element={<div data-testid="page-signin" />} />
+        </Routes>
+      </MemoryRouter>,
+      { wrapper: AllProvidersExceptRouter },
+    );
+
+  beforeEach(() => {
+    localStorage.clear();
+    authTransaction.set(transaction);
+  });
+
+  it('should render successfully', async () => {
+    // ARRANGE
+    renderAt('/auth/callback?code=code&state=state');
+    await screen.findByTestId('page-callback');
+
+    // ASSERT
+    expect(screen.getByTestId('page-callback')).toBeDefined();
+  });
+
+  it('should navigate upon successful code exchange', async () => {
+    // ARRANGE
+    const code = createMockAuthorizationCode({
+      clientId: provider.clientId,
+      codeChallenge: await createCodeChallenge(transaction.codeVerifier),
+      issuer: provider.issuer,
+      nonce: transaction.nonce,
+      redirectUri: transaction.redirectUri,
+      userId: 1,
+    });
+    renderAt(`/auth/callback?code=${code}&state=${transaction.state}`);
+    await screen.findByTestId('page-landing');
+
+    // ASSERT
+    expect(screen.getByTestId('page-landing')).toBeDefined();
+  });
+
+  it('should navigate to the return location upon successful code exchange', async () => {
+    // ARRANGE
+    authTransaction.set({ ...transaction, returnTo: '/app/tasks/42' });
+    const code = createMockAuthorizationCode({
+      clientId: provider.clientId,
+      codeChallenge: await createCodeChallenge(transaction.codeVerifier),
+      issuer: provider.issuer,
+      nonce: transaction.nonce,
+      redirectUri: transaction.redirectUri,
+      userId: 1,
+    });
+    renderAt(`/auth/callback?code=${code}&state=${transaction.state}`);
+    await screen.findByTestId('page-task');
+
+    // ASSERT
+    expect(screen.getByTestId('page-task')).toBeDefined();
+  });
+
+  it('should display alert when code exchange fails', async () => {
+    // ARRANGE
+    renderAt('/auth/callback?code=invalid&state=state');
+    await screen.findByTestId('page-callback-error');
+
+    // ASSERT
+    expect(screen.getByTestId('page-callback-error')).toBeDefined();
+  });
+
+  it('should display alert when provider returns an error', async () => {
+    // ARRANGE
+    renderAt('/auth/callback?error=access_denied&error_description=Denied&state=state');
+    await screen.findByTestId('page-callback-error');
+
+    // ASSERT
+    expect(screen.getByTestId('page-callback-error-description')).toHaveTextContent('Denied');
+    expect(authTransaction.get()).not.toBeNull();
+  });
+
+  it('should display alert when response is incomplete', async () => {
+    // ARRANGE
+    renderAt('/auth/callback');
+    await screen.findByTestId('page-callback-error');
+
+    // ASSERT
+    expect(screen.getByTestId('page-callback-error')).toBeDefined();
+  });
+});
@@ -0,0 +1,75 @@
+import { useEffect, useRef } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+
+import { useSigninCallback } from './api/useSigninCallback';
+import Page from 'common/components/Content/Page';
+import Container from 'common/components/Content/Container';
+import Spinner from 'common/components/Loader/Spinner';
+import ErrorAlert from 'common/components/Alert/ErrorAlert';
+import Link from 'common/components/Link/Link';
+
+/**
+ * The `CallbackPage` component receives the authorization response from the
+ * OIDC provider. It exchanges the authorization code for tokens and then
+ * navigates to the location from which sign in began, or the base URL.
+ *
+ * Upon error, displays messages.
+ */
+const CallbackPage = () => {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const { mutate: signinCallback, error } = useSigninCallback();
+  const isExchangeStarted = useRef(false);
+
+  const code = searchParams.get('code');
+  const state = searchParams.get('state');
+  const providerError = searchParams.get('error_description') ?? searchParams.get('error');
+
+  useEffect(() => {
+    // an authorization code may be exchanged only once
+    if (isExchangeStarted.current || !code || !state || providerError) {
+      return;
+    }
+    isExchangeStarted.current = true;
+
+    signinCallback(
+      { code, state },
+      {
+        onSuccess: ({ returnTo }) => {
+          navigate(returnTo, { replace: true });
+        },
+      },
+    );
+  }, [code, state, providerError, signinCallback, navigate]);
+
+  const errorMessage =
+    providerError ?? (!code || !state ? 'The sign in response is incomplete. Please sign in again.' : error?.message);
+
+  return (
+    <Page testId="page-callback">
+      <Container className="h-[50vh]">
+        {errorMessage ? (
+          <div className="my-6 lg:w-2/3 xl:w-1/2">
+            <ErrorAlert
+              title="Authentication failed"
+              description={errorMessage}
+              className="mb-4"
+              testId="page-callback-error"
+            />
+            <Link to="/auth/signin" replace>
+              Return to sign in
+            </Link>
+          </div>
+        ) : (
+          <div className="flex h-full items-center justify-center text-2xl">
+            <Spinner>
+              <Spinner.Text>Signing in...</Spinner.Text>
+            </Spinner>
+          </div>
+        )}
+      </Container>
+    </Page>
+  );
+};
+
+export default CallbackPage;
@@ -0,0 +1,95 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import { renderHook, waitFor } from 'test/test-utils';
+import { createMockAuthorizationCode } from 'test/mocks/idp';
+import { configFixture } from '__fixtures__/config';
+import { StorageKey } from 'common/utils/constants';
+import { authTransaction, AuthTransaction, createCodeChallenge } from 'common/utils/oidc';
+import storage from 'common/utils/storage';
+
+import { useSigninCallback } from './useSigninCallback';
+
+describe('useSigninCallback', () => {
+  const provider = configFixture.VITE_OIDC_PROVIDERS[0];
+  const transaction: AuthTransaction = {
+    providerId: provider.id,
+    state: 'state',
+    nonce: 'nonce',
+    codeVerifier: 'code-verifier',
+    redirectUri: 'http://localhost:3000/auth/callback',
+  };
+
+  const createCode = async (nonce: string = transaction.nonce) =>
+    createMockAuthorizationCode({
+      clientId: provider.clientId,
+      codeChallenge: await createCodeChallenge(transaction.codeVerifier),
+      issuer: provider.issuer,
+      nonce,
+      redirectUri: transaction.redirectUri,
+      userId: 1,
+    });
+
+  beforeEach(() => {
+    localStorage.clear();
+    authTransaction.set(transaction);
+  });
+
+  it('should exchange code for tokens', async () => {
+    // ARRANGE
+    const code = await createCode();
+    const { result } = renderHook(() => useSigninCallback());
+    await waitFor(() => expect(result.current).not.toBeNull());
+
+    // ACT
+    result.current.mutate({ code, state: transaction.state });
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+    // ASSERT
+    expect(result.current.data?.claims.preferred_username).toBe('Bret');
+    expect(result.current.data?.returnTo).toBe('/');
+    expect(storage.getJsonItem(StorageKey.UserTokens)).toMatchObject({ provider_id: provider.id });
+    expect(authTransaction.get()).toBeNull();
+  });
+
+  it('should error if state does not match', async () => {
+    // ARRANGE
+    const code = await createCode();
+    const { result } = renderHook(() => useSigninCallback());
+    await waitFor(() => expect(result.current).not.toBeNull());
+
+    // ACT
+    result.current.mutate({ code, state: 'not-the-state' });
+    await waitFor(() => expect(result.current.isError).toBe(true));
+
+    // ASSERT
+    expect(storage.getJsonItem(StorageKey.UserTokens)).toBeNull();
+    expect(authTransaction.get()).toBeNull();
+  });
+
+  it('should error if nonce does not match', async () => {
+    // ARRANGE
+    const code = await createCode('not-the-nonce');
+    const { result } = renderHook(() => useSigninCallback());
+    await waitFor(() => expect(result.current).not.toBeNull());
+
+    // ACT
+    result.current.mutate({ code, state: transaction.state });
+    await waitFor(() => expect(result.current.isError).toBe(true));
+
+    // ASSERT
+    expect(storage.getJsonItem(StorageKey.UserTokens)).toBeNull();
+  });
+
+  it('should error if code is invalid', async () => {
+    // ARRANGE
+    const { result } = renderHook(() => useSigninCallback());
+    await waitFor(() => expect(result.current).not.toBeNull());
+
+    // ACT
+    result.current.mutate({ code: 'invalid', state: transaction.state });
+    await waitFor(() => expect(result.current.isError).toBe(true));
+
+    // ASSERT
+    expect(storage.getJsonItem(StorageKey.UserTokens)).toBeNull();
+  });
+});
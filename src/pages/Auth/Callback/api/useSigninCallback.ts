@@ -0,0 +1,101 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+
+import { UserTokens } from 'common/api/useGetUserTokens';
+import { useAxios } from 'common/hooks/useAxios';
+import { useConfig } from 'common/hooks/useConfig';
+import { Claims, parseClaims } from 'common/utils/claims';
+import { QueryKey, StorageKey } from 'common/utils/constants';
+import {
+  authTransaction,
+  getOidcProvider,
+  oidcConfigurationQueryOptions,
+  tokenResponseSchema,
+} from 'common/utils/oidc';
+import { validateResponse } from 'common/utils/responseValidation';
+import { getSafeReturnTo } from 'common/utils/returnTo';
+import storage from 'common/utils/storage';
+
+/**
+ * The `useSigninCallback` mutation function variables. The values are the
+ * authorization response parameters received from the provider.
+ */
+export type SigninCallbackVariables = {
+  code: string;
+  state: string;
+};
+
+/**
+ * The `useSigninCallback` mutation result.
+ * @param claims - The validated claims of the id token.
+ * @param returnTo - The same-origin location to which the user is returned.
+ */
+export type SigninCallbackResult = {
+  claims: Claims;
+  returnTo: string;
+};
+
+/**
+ * An API hook which completes an OIDC Authorization Code with PKCE sign in.
+ * Exchanges the authorization code for tokens, validates the id token claims,
+ * then stores the tokens.
+ * @returns Returns a `UseMutationResult` with `SigninCallbackResult` data.
+ */
+export const useSigninCallback = () => {
+  const queryClient = useQueryClient();
+  const axios = useAxios();
+  const config = useConfig();
+
+  /**
+   * Exchanges the authorization code for tokens.
+   * @param {SigninCallbackVariables} variables - The mutation function variables.
+   * @returns Returns a Promise which resolves to the id token claims and the
+   * location to return to if successful, otherwise throws an Error.
+   */
+  const signinCallback = async ({ code, state }: SigninCallbackVariables): Promise<SigninCallbackResult> => {
+    // the transaction is single use; remove it before the code is exchanged
+    const transaction = authTransaction.get();
+    authTransaction.remove();
+    if (!transaction || transaction.state !== state) {
+      throw new Error('The sign in request is invalid or has expired. Please sign in again.');
+    }
+
+    const provider = getOidcProvider(config.VITE_OIDC_PROVIDERS, transaction.providerId);
+    const oidcConfiguration = await queryClient.fetchQuery(oidcConfigurationQueryOptions(axios, provider));
+
+    const response = await axios.request({
+      method: 'post',
+      url: oidcConfiguration.token_endpoint,
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      data: new URLSearchParams({
+        grant_type: 'authorization_code',
+        code,
+        redirect_uri: transaction.redirectUri,
+        client_id: provider.clientId,
+        code_verifier: transaction.codeVerifier,
+      }),
+    });
+    const tokenResponse = validateResponse(tokenResponseSchema, response);
+
+    const claims = parseClaims(tokenResponse.id_token);
+    if (claims.nonce !== transaction.nonce) {
+      throw new Error('The sign in response could not be verified. Please sign in again.');
+    }
+
+    const tokens: UserTokens = {
+      ...tokenResponse,
+      provider_id: provider.id,
+    };
+
+    storage.setJsonItem(StorageKey.UserTokens, tokens);
+
+    return { claims, returnTo: getSafeReturnTo(transaction.returnTo) };
+  };
+
+  return useMutation({
+    mutationFn: signinCallback,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [QueryKey.UserTokens] });
+      queryClient.invalidateQueries({ queryKey: [QueryKey.Users, 'current'] });
+    },
+  });
+};
@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest';
+
+import { render, screen } from 'test/test-utils';
+
+import ForgotPasswordPage from './ForgotPasswordPage';
+
+describe('ForgotPasswordPage', () => {
+  it('should render successfully', async () => {
+    // ARRANGE
+    render(<ForgotPasswordPage />);
+    await screen.findByTestId('page-forgot-password');
+
+    // ASSERT
+    expect(screen.getByTestId('page-forgot-password')).toBeDefined();
+    expect(screen.getByTestId('form-forgot-password')).toBeDefined();
+  });
+});
@@ -0,0 +1,31 @@
+import Page from 'common/components/Content/Page';
+import Container from 'common/components/Content/Container';
+import Heading from 'common/components/Text/Heading';
+import Link from 'common/components/Link/Link';
+import { SIGNIN_PATH } from 'common/utils/returnTo';
+import ForgotPasswordForm from './components/ForgotPasswordForm';
+
+/**
+ * The `ForgotPasswordPage` component renders the content for a page on which
+ * a user requests a password reset email.
+ */
+const ForgotPasswordPage = () => {
+  return (
+    <Page testId="page-forgot-password">
+      <Container className="my-6 min-h-[50vh]">
+        <Heading level={1} className="mb-4 border-b border-neutral-500/50 pb-2">
+          Forgot Password
+        </Heading>
+        <ForgotPasswordForm />
+        <div className="text-sm">
+          Remember your password?{' '}
+          <Link to={SIGNIN_PATH} testId="page-forgot-password-link-signin">
+            Sign In
+          </Link>
+        </div>
+      </Container>
+    </Page>
+  );
+};
+
+export default ForgotPasswordPage;
@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+
+import { renderHook, waitFor } from 'test/test-utils';
+
+import { useRequestPasswordReset } from './useRequestPasswordReset';
+
+describe('useRequestPasswordReset', () => {
+  it('should request password reset', async () => {
+    // ARRANGE
+    const { result } = renderHook(() => useRequestPasswordReset());
+    await waitFor(() => expect(result.current).not.toBeNull());
+
+    // ACT
+    result.current.mutate({ email: 'Sincere@april.biz' });
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+    // ASSERT
+    expect(result.current.isSuccess).toBe(true);
+  });
+});
@@ -0,0 +1,41 @@
+import { useMutation } from '@tanstack/react-query';
+
+import { useApi } from 'common/hooks/useApi';
+
+/**
+ * The `useRequestPasswordReset` mutation function variables.
+ */
+export type RequestPasswordResetVariables = {
+  email: string;
+};
+
+/**
+ * An API hook which requests a password reset email. When an account exists
+ * for the email address, an email containing a link to the
+ * `/auth/reset-password` route with a single use `token` is sent.
+ *
+ * The API responds identically whether or not an account exists so that the
+ * registered email addresses are not revealed.
+ * @returns Returns a `UseMutationResult`.
+ */
+export const useRequestPasswordReset = () => {
+  const api = useApi('identity');
+
+  /**
+   * Requests a password reset email.
+   * @param {RequestPasswordResetVariables} variables - The mutation function variables.
+   * @returns Returns a Promise which resolves empty if successful, otherwise
+   * throws an Error.
+   */
+  const requestPasswordReset = async ({ email }: RequestPasswordResetVariables): Promise<void> => {
+    await api.request({
+      method: 'post',
+      url: `/password-resets`,
+      data: { email },
+    });
+  };
+
+  return useMutation({
+    mutationFn: requestPasswordReset,
+  });
+};
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import userEvent from '@testing-library/user-event';
+
+import { render, screen } from 'test/test-utils';
+
+import ForgotPasswordForm from './ForgotPasswordForm';
+
+describe('ForgotPasswordForm', () => {
+  it('should render successfully', async () => {
+    // ARRANGE
+    render(<ForgotPasswordForm />);
+    await screen.findByTestId('form-forgot-password');
+
+    // ASSERT
+    expect(screen.getByTestId('form-forgot-password')).toBeDefined();
+  });
+
+  it('should use custom testId', async () => {
+    // ARRANGE
+    render(<ForgotPasswordForm testId="custom-testId" />);
+    await screen.findByTestId('custom-testId');
+
+    // ASSERT
+    expect(screen.getByTestId('custom-testId')).toBeDefined();
+  });
+
+  it('should use custom className', async () => {
+    // ARRANGE
+    render(<ForgotPasswordForm className="custom-className" />);
+    await screen.findByTestId('form-forgot-password');
+
+    // ASSERT
+    expect(screen.getByTestId('form-forgot-password').classList).toContain('custom-className');
+  });
+
+  it('should validate email address', async () => {
+    // ARRANGE
+    const user = userEvent.setup();
+    render(<ForgotPasswordForm />);
+    await screen.findByTestId('form-forgot-password');
+
+    // ACT
+    await user.type(screen.getByLabelText(/^Email/), 'not-an-email');
+    await user.tab();
+
+    // ASSERT
+    expect(await screen.findByTestId('form-forgot-password-input-email-error')).toHaveTextContent(
+      'Must be a valid email address.',
+    );
+  });
+
+  it('should display confirmation upon success', async () => {
+    // ARRANGE
+    const user = userEvent.setup();
+    render(<ForgotPasswordForm />);
+    await screen.findByTestId('form-forgot-password');
+
+    // ACT
+    await user.type(screen.getByLabelText(/^Email/), 'jane@example.com');
+    await user.click(screen.getByTestId('form-forgot-password-button-submit'));
+    await screen.findByTestId('form-forgot-password-success');
+
+    // ASSERT
+    expect(screen.getByTestId('form-forgot-password-success')).toHaveTextContent('jane@example.com');
+  });
+});
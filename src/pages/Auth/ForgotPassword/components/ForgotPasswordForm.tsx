@@ -0,0 +1,128 @@
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { useTranslation } from 'react-i18next';
+import { z } from 'zod';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { MailCheckIcon } from 'lucide-react';
+
+import { cn } from 'common/utils/css';
+import { BaseComponentProps } from 'common/utils/types';
+import { useRequestPasswordReset } from '../api/useRequestPasswordReset';
+import { Alert, AlertDescription, AlertTitle } from 'common/components/shadcn/alert';
+import Input from 'common/components/Form/Input';
+import Button from 'common/components/Button/Button';
+import ErrorAlert from 'common/components/Alert/ErrorAlert';
+
+/**
+ * Forgot password form values.
+ */
+type ForgotPasswordFormValues = {
+  email: string;
+};
+
+/**
+ * The `ForgotPasswordForm` component renders a form to request a password
+ * reset email.
+ *
+ * Upon success, displays a confirmation in place of the form.
+ *
+ * Upon error, displays messages.
+ *
+ * @param {BaseComponentProps} props - Component properties.
+ */
+const ForgotPasswordForm = ({ className, testId = 'form-forgot-password' }: BaseComponentProps) => {
+  const [error, setError] = useState<string>('');
+  const [sentTo, setSentTo] = useState<string>('');
+  const { mutate: requestPasswordReset } = useRequestPasswordReset();
+  const { t } = useTranslation();
+
+  /**
+   * Forgot password form validation schema.
+   */
+  const schema = z.object({
+    email: z
+      .string()
+      .min(1, { message: t('validation.required') })
+      .pipe(z.email({ message: t('validation.email') })),
+  });
+
+  /**
+   * Initialize management of the form.
+   */
+  const { control, formState, handleSubmit } = useForm<ForgotPasswordFormValues>({
+    defaultValues: { email: '' },
+    mode: 'all',
+    resolver: zodResolver(schema),
+  });
+
+  /**
+   * Handles the form submission.
+   * @returns A Promise which resolves empty when the mutation function completes.
+   */
+  const onFormSubmit = ({ email }: ForgotPasswordFormValues): Promise<void> => {
+    setError('');
+    return new Promise<void>((resolve) => {
+      requestPasswordReset(
+        { email },
+        {
+          onSuccess: () => {
+            setSentTo(email);
+          },
+          onError: (err: Error) => {
+            setError(err.message);
+          },
+          onSettled: () => {
+            resolve();
+          },
+        },
+      );
+    });
+  };
+
+  if (sentTo) {
+    return (
+      <div className={cn('lg:w-2/3 xl:w-1/2', className)} data-testid={testId}>
+        <Alert className="mb-4" data-testid={`${testId}-success`}>
+          <MailCheckIcon />
+          <AlertTitle>Check your email</AlertTitle>
+          <AlertDescription>
+            If an account exists for {sentTo}, we have sent a link to reset your password.
+          </AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+
+  return (
+    <div className={cn('lg:w-2/3 xl:w-1/2', className)} data-testid={testId}>
+      {error && <ErrorAlert title="Request failed" description={error} className="mb-4" testId={`${testId}-error`} />}
+
+      <form onSubmit={handleSubmit(onFormSubmit)} noValidate>
+        <Input
+          control={control}
+          type="email"
+          name="email"
+          label="Email"
+          supportingText="Enter the email address for your account and we will send you a link to reset your password."
+          className="mb-4"
+          autoFocus
+          autoComplete="email"
+          required
+          disabled={formState.isSubmitting}
+          testId={`${testId}-input-email`}
+        />
+
+        <Button
+          type="submit"
+          className="my-8 w-full sm:w-40"
+          disabled={formState.isSubmitting || !formState.isDirty}
+          testId={`${testId}-button-submit`}
+        >
+          Send Reset Link
+        </Button>
+      </form>
+    </div>
+  );
+};
+
+export default ForgotPasswordForm;
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { MemoryRouter, Route, Routes } from 'react-router-dom';
+
+import { render, screen } from 'test/test-utils';
+import AllProvidersExceptRouter from 'test/wrappers/AllProvidersExceptRouter';
+
+import ResetPasswordPage from './ResetPasswordPage';
+
+describe('ResetPasswordPage', () => {
+  it('should render form when token present', async () => {
+    // ARRANGE
+    render(
+      <MemoryRouter initialEntries={['/auth/reset-password?token=reset-1']}>
+        <Routes>
+          <Route path="/auth/reset-password" element={<ResetPasswordPage />} />
+        </Routes>
+      </MemoryRouter>,
+      { wrapper: AllProvidersExceptRouter },
+    );
+    await screen.findByTestId('page-reset-password');
+
+    // ASSERT
+    expect(screen.getByTestId('form-reset-password')).toBeDefined();
+  });
+
+  it('should render error when token missing', async () => {
+    // ARRANGE
+    render(<ResetPasswordPage />);
+    await screen.findByTestId('page-reset-password');
+
+    // ASSERT
+    expect(screen.getByTestId('page-reset-password-error')).toBeDefined();
+    expect(screen.queryByTestId('form-reset-password')).toBeNull();
+  });
+});
@@ -0,0 +1,48 @@
+import { useSearchParams } from 'react-router-dom';
+
+import { SearchParam } from 'common/utils/constants';
+import Page from 'common/components/Content/Page';
+import Container from 'common/components/Content/Container';
+import Heading from 'common/components/Text/Heading';
+import ErrorAlert from 'common/components/Alert/ErrorAlert';
+import Link from 'common/components/Link/Link';
+import ResetPasswordForm from './components/ResetPasswordForm';
+
+/**
+ * The `ResetPasswordPage` component renders the content for a page on which
+ * a user sets a new password.
+ *
+ * The `token` search parameter holds the password reset token from the reset
+ * email. When it is missing, the link is invalid.
+ */
+const ResetPasswordPage = () => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get(SearchParam.token);
+
+  return (
+    <Page testId="page-reset-password">
+      <Container className="my-6 min-h-[50vh]">
+        <Heading level={1} className="mb-4 border-b border-neutral-500/50 pb-2">
+          Reset Password
+        </Heading>
+        {token ? (
+          <ResetPasswordForm token={token} />
+        ) : (
+          <div className="lg:w-2/3 xl:w-1/2">
+            <ErrorAlert
+              title="Password reset failed"
+              description="This password reset link is invalid. Please request a new one."
+              className="mb-2"
+              testId="page-reset-password-error"
+            />
+            <Link to="/auth/forgot-password" className="text-sm" testId="page-reset-password-link-forgot-password">
+              Request a new link
+            </Link>
+          </div>
+        )}
+      </Container>
+    </Page>
+  );
+};
+
+export default ResetPasswordPage;
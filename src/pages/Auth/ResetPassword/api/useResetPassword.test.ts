@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+
+import { renderHook, waitFor } from 'test/test-utils';
+
+import { useResetPassword } from './useResetPassword';
+
+describe('useResetPassword', () => {
+  it('should reset password', async () => {
+    // ARRANGE
+    const { result } = renderHook(() => useResetPassword());
+    await waitFor(() => expect(result.current).not.toBeNull());
+
+    // ACT
+    result.current.mutate({ token: 'reset-1', password: 'aB1!12345678' });
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+    // ASSERT
+    expect(result.current.isSuccess).toBe(true);
+  });
+
+  it('should error when token is expired', async () => {
+    // ARRANGE
+    const { result } = renderHook(() => useResetPassword());
+    await waitFor(() => expect(result.current).not.toBeNull());
+
+    // ACT
+    result.current.mutate({ token: 'reset-expired', password: 'aB1!12345678' });
+    await waitFor(() => expect(result.current.isError).toBe(true));
+
+    // ASSERT
+    expect(result.current.error?.message).toMatch(/expired/);
+  });
+
+  it('should error when token is invalid', async () => {
+    // ARRANGE
+    const { result } = renderHook(() => useResetPassword());
+    await waitFor(() => expect(result.current).not.toBeNull());
+
+    // ACT
+    result.current.mutate({ token: 'not-a-token', password: 'aB1!12345678' });
+    await waitFor(() => expect(result.current.isError).toBe(true));
+
+    // ASSERT
+    expect(result.current.error?.message).toMatch(/invalid/);
+  });
+});
@@ -0,0 +1,50 @@
+import { useMutation } from '@tanstack/react-query';
+import { isAxiosError } from 'axios';
+
+import { useApi } from 'common/hooks/useApi';
+
+/**
+ * The `useResetPassword` mutation function variables.
+ * @param token - The single use password reset token from the reset email.
+ * @param password - The new password.
+ */
+export type ResetPasswordVariables = {
+  token: string;
+  password: string;
+};
+
+/**
+ * An API hook which sets a new password using a password reset token.
+ * @returns Returns a `UseMutationResult`.
+ */
+export const useResetPassword = () => {
+  const api = useApi('identity');
+
+  /**
+   * Sets a new password.
+   * @param {ResetPasswordVariables} variables - The mutation function variables.
+   * @returns Returns a Promise which resolves empty if successful, otherwise
+   * throws an Error.
+   */
+  const resetPassword = async ({ token, password }: ResetPasswordVariables): Promise<void> => {
+    try {
+      await api.request({
+        method: 'put',
+        url: `/password-resets/${encodeURIComponent(token)}`,
+        data: { password },
+      });
+    } catch (err) {
+      if (isAxiosError(err) && err.response?.status === 410) {
+        throw new Error('This password reset link has expired. Please request a new one.');
+      }
+      if (isAxiosError(err) && (err.response?.status === 400 || err.response?.status === 404)) {
+        throw new Error('This password reset link is invalid. Please request a new one.');
+      }
+      throw err;
+    }
+  };
+
+  return useMutation({
+    mutationFn: resetPassword,
+  });
+};
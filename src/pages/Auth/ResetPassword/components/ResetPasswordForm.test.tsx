@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { MemoryRouter, Route, Routes } from 'react-router-dom';
+import userEvent from '@testing-library/user-event';
+
+import { render, screen } from 'test/test-utils';
+import AllProvidersExceptRouter from 'test/wrappers/AllProvidersExceptRouter';
+
+import ResetPasswordForm from './ResetPasswordForm';
+
+describe('ResetPasswordForm', () => {
+  it('should render successfully', async () => {
+    // ARRANGE
+    render(<ResetPasswordForm token="reset-1" />);
+    await screen.findByTestId('form-reset-password');
+
+    // ASSERT
+    expect(screen.getByTestId('form-reset-password')).toBeDefined();
+  });
+
+  it('should use custom testId', async () => {
+    // ARRANGE
+    render(<ResetPasswordForm token="reset-1" testId="custom-testId" />);
+    await screen.findByTestId('custom-testId');
+
+    // ASSERT
+    expect(screen.getByTestId('custom-testId')).toBeDefined();
+  });
+
+  it('should use custom className', async () => {
+    // ARRANGE
+    render(<ResetPasswordForm token="reset-1" className="custom-className" />);
+    await screen.findByTestId('form-reset-password');
+
+    // ASSERT
+    expect(screen.getByTestId('form-reset-password').classList).toContain('custom-className');
+  });
+
+  it('should require passwords to match', async () => {
+    // ARRANGE
+    const user = userEvent.setup();
+    render(<ResetPasswordForm token="reset-1" />);
+    await screen.findByTestId('form-reset-password');
+
+    // ACT
+    await user.type(screen.getByTestId('form-reset-password-input-password-input'), 'aB1!12345678');
+    await user.type(screen.getByTestId('form-reset-password-input-confirm-password-input'), 'aB1!1234567');
+    await user.click(screen.getByTestId('form-reset-password-button-submit'));
+
+    // ASSERT
+    expect(await screen.findByTestId('form-reset-password-input-confirm-password-error')).toHaveTextContent(
+      'Passwords must match.',
+    );
+  });
+
+  it('should direct user to sign in upon success', async () => {
+    // ARRANGE
+    const user = userEvent.setup();
+    render(
+      <MemoryRouter initialEntries={['/auth/reset-password']}>
+        <Routes>
+          <Route path="/auth/reset-password" element={<ResetPasswordForm token="reset-1" />} />
+          <Route path="/auth/signin" element={<div data-testid="page-signin" />} />
+        </Routes>
+      </MemoryRouter>,
+      { wrapper: AllProvidersExceptRouter },
+    );
+    await screen.findByTestId('form-reset-password');
+
+    // ACT
+    await user.type(screen.getByTestId('form-reset-password-input-password-input'), 'aB1!12345678');
+    await user.type(screen.getByTestId('form-reset-password-input-confirm-password-input'), 'aB1!12345678');
+    await user.click(screen.getByTestId('form-reset-password-button-submit'));
+    await screen.findByTestId('page-signin');
+
+    // ASSERT
+    expect(screen.getByTestId('page-signin')).toBeDefined();
+  });
+
+  it('should display alert when token is expired', async () => {
+    // ARRANGE
+    const user = userEvent.setup();
+    render(<ResetPasswordForm token="reset-expired" />);
+    await screen.findByTestId('form-reset-password');
+
+    // ACT
+    await user.type(screen.getByTestId('form-reset-password-input-password-input'), 'aB1!12345678');
+    await user.type(screen.getByTestId('form-reset-password-input-confirm-password-input'), 'aB1!12345678');
+    await user.click(screen.getByTestId('form-reset-password-button-submit'));
+    await screen.findByTestId('form-reset-password-error');
+
+    // ASSERT
+    expect(screen.getByTestId('form-reset-password-error')).toHaveTextContent(/expired/);
+    expect(screen.getByTestId('form-reset-password-link-forgot-password')).toHaveAttribute(
+      'href',
+      '/auth/forgot-password',
+    );
+  });
+});
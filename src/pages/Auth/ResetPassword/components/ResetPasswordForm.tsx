@@ -0,0 +1,166 @@
+import { useState } from 'react';
+import { useForm, useWatch } from 'react-hook-form';
+import { useNavigate } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { z } from 'zod';
+import { zodResolver } from '@hookform/resolvers/zod';
+
+import { cn } from 'common/utils/css';
+import { getPasswordStrength, PASSWORD_MIN_LENGTH, PASSWORD_MIN_STRENGTH } from 'common/utils/password';
+import { SIGNIN_PATH } from 'common/utils/returnTo';
+import { BaseComponentProps } from 'common/utils/types';
+import { useToasts } from 'common/hooks/useToasts';
+import { useResetPassword } from '../api/useResetPassword';
+import Input from 'common/components/Form/Input';
+import PasswordStrengthMeter from 'common/components/Form/PasswordStrengthMeter';
+import Button from 'common/components/Button/Button';
+import ErrorAlert from 'common/components/Alert/ErrorAlert';
+import Link from 'common/components/Link/Link';
+
+/**
+ * Properties for the `ResetPasswordForm` component.
+ * @param {string} token - The password reset token.
+ * @see {@link BaseComponentProps}
+ */
+interface ResetPasswordFormProps extends BaseComponentProps {
+  token: string;
+}
+
+/**
+ * Reset password form values.
+ */
+type ResetPasswordFormValues = {
+  password: string;
+  confirmPassword: string;
+};
+
+/**
+ * The `ResetPasswordForm` component renders a form to set a new password
+ * using a password reset token.
+ *
+ * Upon success, the user is directed to sign in with the new password.
+ *
+ * Upon error, e.g. an expired or invalid token, displays messages.
+ *
+ * @param {ResetPasswordFormProps} props - Component properties.
+ */
+const ResetPasswordForm = ({ className, testId = 'form-reset-password', token }: ResetPasswordFormProps) => {
+  const [error, setError] = useState<string>('');
+  const { mutate: resetPassword } = useResetPassword();
+  const { createToast } = useToasts();
+  const navigate = useNavigate();
+  const { t } = useTranslation();
+
+  /**
+   * Reset password form validation schema.
+   */
+  const schema = z
+    .object({
+      password: z
+        .string()
+        .min(PASSWORD_MIN_LENGTH, { message: t('validation.min', { count: PASSWORD_MIN_LENGTH }) })
+        .max(64, { message: t('validation.max', { count: 64 }) })
+        .refine((value) => getPasswordStrength(value) >= PASSWORD_MIN_STRENGTH, {
+          message: t('validation.passwordStrength'),
+        }),
+      confirmPassword: z.string().min(1, { message: t('validation.required') }),
+    })
+    .refine((values) => values.password === values.confirmPassword, {
+      message: t('validation.passwordMatch'),
+      path: ['confirmPassword'],
+    });
+
+  /**
+   * Initialize management of the form.
+   */
+  const { control, formState, handleSubmit } = useForm<ResetPasswordFormValues>({
+    defaultValues: { password: '', confirmPassword: '' },
+    mode: 'all',
+    resolver: zodResolver(schema),
+  });
+  const password = useWatch({ control, name: 'password' });
+
+  /**
+   * Handles the form submission.
+   * @returns A Promise which resolves empty when the mutation function completes.
+   */
+  const onFormSubmit = ({ password }: ResetPasswordFormValues): Promise<void> => {
+    setError('');
+    return new Promise<void>((resolve) => {
+      resetPassword(
+        { token, password },
+        {
+          onSuccess: () => {
+            createToast({
+              text: 'Your password has been reset. Please sign in.',
+              isAutoDismiss: true,
+              variant: 'success',
+            });
+            navigate(SIGNIN_PATH);
+          },
+          onError: (err: Error) => {
+            setError(err.message);
+          },
+          onSettled: () => {
+            resolve();
+          },
+        },
+      );
+    });
+  };
+
+  return (
+    <div className={cn('lg:w-2/3 xl:w-1/2', className)} data-testid={testId}>
+      {error && (
+        <div className="mb-4">
+          <ErrorAlert title="Password reset failed" description={error} className="mb-2" testId={`${testId}-error`} />
+          <Link to="/auth/forgot-password" className="text-sm" testId={`${testId}-link-forgot-password`}>
+            Request a new link
+          </Link>
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit(onFormSubmit)} noValidate>
+        <Input
+          control={control}
+          type="password"
+          name="password"
+          label="New password"
+          supportingText={`Use at least ${PASSWORD_MIN_LENGTH} characters with a mix of upper and lower case letters, numbers, and symbols.`}
+          className="mb-2"
+          autoFocus
+          autoComplete="new-password"
+          maxLength={64}
+          required
+          disabled={formState.isSubmitting}
+          testId={`${testId}-input-password`}
+        />
+        <PasswordStrengthMeter password={password} className="mb-4" testId={`${testId}-password-strength`} />
+
+        <Input
+          control={control}
+          type="password"
+          name="confirmPassword"
+          label="Confirm new password"
+          className="mb-4"
+          autoComplete="new-password"
+          maxLength={64}
+          required
+          disabled={formState.isSubmitting}
+          testId={`${testId}-input-confirm-password`}
+        />
+
+        <Button
+          type="submit"
+          className="my-8 w-full sm:w-40"
+          disabled={formState.isSubmitting || !formState.isDirty}
+          testId={`${testId}-button-submit`}
+        >
+          Reset Password
+        </Button>
+      </form>
+    </div>
+  );
+};
+
+export default ResetPasswordForm;
@@ -1,6 +1,9 @@
-import { describe, expect, it } from 'vitest';
+import { describe, expect, it, vi } from 'vitest';
+import { MemoryRouter, Route, Routes } from 'react-router-dom';
 
 import { render, screen } from 'test/test-utils';
+import AllProvidersExceptRouter from 'test/wrappers/AllProvidersExceptRouter';
+import * as UseAuth from 'common/hooks/useAuth';
 
 import SigninPage from './SigninPage';
 
@@ -13,4 +16,22 @@ describe('SigninPage', () => {
     // ASSERT
     expect(screen.getByTestId('page-signin')).toBeDefined();
   });
+
+  it('should return an authenticated user to the return location', async () => {
+    // ARRANGE
+    vi.spyOn(UseAuth, 'useAuth').mockReturnValue({ isAuthenticated: true });
+    render(
+      <MemoryRouter initialEntries={['/auth/signin?returnTo=%2Fapp%2Ftasks']}>
+        <Routes>
+          <Route path="/auth/signin" element={<SigninPage />} />
+          <Route path="/app/tasks" element={<div data-testid="page-tasks" />} />
+        </Routes>
+      </MemoryRouter>,
+      { wrapper: AllProvidersExceptRouter },
+    );
+    await screen.findByTestId('page-tasks');
+
+    // ASSERT
+    expect(screen.getByTestId('page-tasks')).toBeDefined();
+  });
 });
@@ -1,20 +1,44 @@
+import { Navigate, useSearchParams } from 'react-router-dom';
+
+import { useAuth } from 'common/hooks/useAuth';
+import { SearchParam } from 'common/utils/constants';
+import { getSafeReturnTo } from 'common/utils/returnTo';
 import Page from 'common/components/Content/Page';
 import Container from 'common/components/Content/Container';
 import Heading from 'common/components/Text/Heading';
+import Feature from 'common/components/Feature/Feature';
 import SigninForm from './components/SigninForm';
+import SigninProviders from './components/SigninProviders';
+import PasskeySignin from './components/PasskeySignin';
 
 /**
  * The `SigninPage` component renders the content for a user authentication
  * page.
+ *
+ * The `returnTo` search parameter holds the location to which the user is
+ * returned after sign in. An authenticated user is returned immediately.
  */
 const SigninPage = () => {
+  const { isAuthenticated } = useAuth();
+  const [searchParams] = useSearchParams();
+  const returnTo = searchParams.get(SearchParam.returnTo);
+
+  if (isAuthenticated) {
+    return <Navigate to={getSafeReturnTo(returnTo)} replace />;
+  }
+
   return (
     <Page testId="page-signin">
       <Container className="my-6 min-h-[50vh]">
         <Heading level={1} className="mb-4 border-b border-neutral-500/50 pb-2">
           Sign In
         </Heading>
-        <SigninForm />
+        <SigninForm returnTo={returnTo} />
+        <Feature flag="passkeys">
+          <PasskeySignin returnTo={returnTo} />
+        </Feature>
+        <div className="mb-4 text-sm text-neutral-500">Or sign in with your organization</div>
+        <SigninProviders returnTo={returnTo} />
       </Container>
     </Page>
   );
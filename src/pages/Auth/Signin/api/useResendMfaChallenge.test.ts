@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import dayjs from 'dayjs';
+
+import { renderHook, waitFor } from 'test/test-utils';
+import { createMockStateToken } from 'test/mocks/idp';
+import { configFixture } from '__fixtures__/config';
+import { MfaChallenge } from './useSignin';
+
+import { useResendMfaChallenge } from './useResendMfaChallenge';
+
+describe('useResendMfaChallenge', () => {
+  const createChallenge = (expiresAt: number): MfaChallenge => ({
+    providerId: configFixture.VITE_OIDC_PROVIDERS[0].id,
+    stateToken: createMockStateToken(2, expiresAt),
+    expiresAt: dayjs(expiresAt).toISOString(),
+    returnTo: '/',
+  });
+
+  it('should extend the challenge', async () => {
+    // ARRANGE
+    const challenge = createChallenge(dayjs().add(10, 'second').valueOf());
+    const { result } = renderHook(() => useResendMfaChallenge());
+    await waitFor(() => expect(result.current).not.toBeNull());
+
+    // ACT
+    result.current.mutate(challenge);
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+    // ASSERT
+    expect(result.current.data?.stateToken).toBe(challenge.stateToken);
+    expect(dayjs(result.current.data?.expiresAt).isAfter(challenge.expiresAt)).toBe(true);
+  });
+
+  it('should error when challenge is expired', async () => {
+    // ARRANGE
+    const { result } = renderHook(() => useResendMfaChallenge());
+    await waitFor(() => expect(result.current).not.toBeNull());
+
+    // ACT
+    result.current.mutate(createChallenge(dayjs().subtract(1, 'second').valueOf()));
+    await waitFor(() => expect(result.current.isError).toBe(true));
+
+    // ASSERT
+    expect(result.current.error?.message).toBe('Your sign in has expired. Please sign in again.');
+  });
+});
@@ -0,0 +1,52 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { isAxiosError } from 'axios';
+
+import { useAxios } from 'common/hooks/useAxios';
+import { useConfig } from 'common/hooks/useConfig';
+import { getOidcProvider, oidcConfigurationQueryOptions } from 'common/utils/oidc';
+import { validateResponse } from 'common/utils/responseValidation';
+import { authnResponseSchema, MfaChallenge } from './useSignin';
+
+/**
+ * An API hook which asks the provider to send a new one-time code for a
+ * multi-factor authentication challenge. The provider extends the challenge.
+ * @returns Returns a `UseMutationResult` with the renewed `MfaChallenge` as data.
+ */
+export const useResendMfaChallenge = () => {
+  const queryClient = useQueryClient();
+  const axios = useAxios();
+  const config = useConfig();
+
+  /**
+   * Requests a new one-time code.
+   * @param {MfaChallenge} challenge - The `MfaChallenge`.
+   * @returns Returns a Promise which resolves to the renewed `MfaChallenge` if
+   * successful, otherwise throws an Error.
+   */
+  const resendMfaChallenge = async (challenge: MfaChallenge): Promise<MfaChallenge> => {
+    const provider = getOidcProvider(config.VITE_OIDC_PROVIDERS, challenge.providerId);
+    const oidcConfiguration = await queryClient.fetchQuery(oidcConfigurationQueryOptions(axios, provider));
+
+    try {
+      const response = await axios.request({
+        method: 'post',
+        url: `${oidcConfiguration.authn_endpoint}/resend`,
+        data: { stateToken: challenge.stateToken },
+      });
+      const authnResponse = validateResponse(authnResponseSchema, response);
+      if (authnResponse.status !== 'MFA_REQUIRED') {
+        throw new Error('We are unable to send a new code. Please sign in again.');
+      }
+      return { ...challenge, stateToken: authnResponse.stateToken, expiresAt: authnResponse.expiresAt };
+    } catch (err) {
+      if (isAxiosError(err) && err.response?.status === 410) {
+        throw new Error('Your sign in has expired. Please sign in again.');
+      }
+      throw err;
+    }
+  };
+
+  return useMutation({
+    mutationFn: resendMfaChallenge,
+  });
+};
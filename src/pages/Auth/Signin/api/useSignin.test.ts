@@ -1,30 +1,96 @@
-import { describe, expect, it, vi } from 'vitest';
+import { beforeEach, describe, expect, it, Mock } from 'vitest';
 
 import { renderHook, waitFor } from 'test/test-utils';
-import storage from 'common/utils/storage';
+import { mockLocationAssign } from 'test/mocks/window';
+import { authTransaction } from 'common/utils/oidc';
 
 import { useSignin } from './useSignin';
 
 describe('useSignin', () => {
-  const setItemSpy = vi.spyOn(storage, 'setJsonItem');
+  let assignMock: Mock;
 
-  it('should signin successfully', async () => {
+  beforeEach(() => {
+    localStorage.clear();
+    assignMock = mockLocationAssign();
+  });
+
+  it('should redirect to the provider with a session token', async () => {
     // ARRANGE
-    let isSuccess = false;
     const { result } = renderHook(() => useSignin());
     await waitFor(() => expect(result.current).not.toBeNull());
 
     // ACT
-    result.current.mutate('Bret', {
-      onSuccess: () => {
-        isSuccess = true;
-      },
-    });
+    result.current.mutate({ username: 'Bret', password: 'aB1!12345678' });
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+    // ASSERT
+    expect(result.current.data?.status).toBe('SUCCESS');
+    const authorizationUrl = result.current.data?.status === 'SUCCESS' ? result.current.data.authorizationUrl : '';
+    expect(assignMock).toHaveBeenCalledWith(authorizationUrl);
+    const url = new URL(authorizationUrl);
+    expect(url.pathname).toBe('/authorize');
+    expect(url.searchParams.get('session_token')).toBe('session-1');
+    expect(url.searchParams.get('code_challenge')).toBeTruthy();
+    expect(url.searchParams.get('state')).toBe(authTransaction.get()?.state);
+  });
+
+  it('should redirect to the provider without credentials', async () => {
+    // ARRANGE
+    const { result } = renderHook(() => useSignin());
+    await waitFor(() => expect(result.current).not.toBeNull());
+
+    // ACT
+    result.current.mutate({});
     await waitFor(() => expect(result.current.isSuccess).toBe(true));
 
+    // ASSERT
+    expect(assignMock).toHaveBeenCalled();
+    expect(assignMock.mock.calls[0][0]).not.toContain('session_token');
+    expect(authTransaction.get()).not.toBeNull();
+  });
+
+  it('should store a safe return location', async () => {
     // ARRANGE
-    expect(isSuccess).toBe(true);
-    expect(setItemSpy).toHaveBeenCalledTimes(2);
+    const { result } = renderHook(() => useSignin());
+    await waitFor(() => expect(result.current).not.toBeNull());
+
+    // ACT
+    result.current.mutate({ returnTo: '/app/tasks/42/edit' });
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+    // ASSERT
+    expect(authTransaction.get()?.returnTo).toBe('/app/tasks/42/edit');
+  });
+
+  it('should not store a cross-origin return location', async () => {
+    // ARRANGE
+    const { result } = renderHook(() => useSignin());
+    await waitFor(() => expect(result.current).not.toBeNull());
+
+    // ACT
+    result.current.mutate({ returnTo: 'https://example.com/app/tasks' });
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+    // ASSERT
+    expect(authTransaction.get()?.returnTo).toBe('/');
+  });
+
+  it('should return a challenge when multi-factor authentication is required', async () => {
+    // ARRANGE
+    const { result } = renderHook(() => useSignin());
+    await waitFor(() => expect(result.current).not.toBeNull());
+
+    // ACT
+    result.current.mutate({ username: 'Antonette', password: 'aB1!12345678', returnTo: '/app/tasks' });
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+    // ASSERT
+    expect(result.current.data).toEqual({
+      status: 'MFA_REQUIRED',
+      challenge: expect.objectContaining({ stateToken: expect.any(String), returnTo: '/app/tasks' }),
+    });
+    expect(assignMock).not.toHaveBeenCalled();
+    expect(authTransaction.get()).toBeNull();
   });
 
   it('should error if user not found', async () => {
@@ -33,10 +99,24 @@ describe('useSignin', () => {
     await waitFor(() => expect(result.current).not.toBeNull());
 
     // ACT
-    result.current.mutate('NotFound');
+    result.current.mutate({ username: 'NotFound', password: 'aB1!12345678' });
     await waitFor(() => expect(result.current.isError).toBe(true));
 
+    // ASSERT
+    expect(assignMock).not.toHaveBeenCalled();
+    expect(authTransaction.get()).toBeNull();
+  });
+
+  it('should error if provider not configured', async () => {
     // ARRANGE
-    expect(setItemSpy).not.toHaveBeenCalled();
+    const { result } = renderHook(() => useSignin());
+    await waitFor(() => expect(result.current).not.toBeNull());
+
+    // ACT
+    result.current.mutate({ providerId: 'not-configured' });
+    await waitFor(() => expect(result.current.isError).toBe(true));
+
+    // ASSERT
+    expect(assignMock).not.toHaveBeenCalled();
   });
 });
@@ -1,67 +1,142 @@
 import { useMutation, useQueryClient } from '@tanstack/react-query';
-import dayjs from 'dayjs';
-import find from 'lodash/find';
+import { isAxiosError } from 'axios';
+import { z } from 'zod';
 
-import { User } from 'common/api/useGetUser';
-import { UserTokens } from 'common/api/useGetUserTokens';
 import { useAxios } from 'common/hooks/useAxios';
-import { config } from 'common/utils/config';
-import storage from 'common/utils/storage';
-import { QueryKey, StorageKey } from 'common/utils/constants';
+import { useConfig } from 'common/hooks/useConfig';
+import { getOidcProvider, oidcConfigurationQueryOptions, redirectToAuthorization } from 'common/utils/oidc';
+import { validateResponse } from 'common/utils/responseValidation';
+import { getSafeReturnTo } from 'common/utils/returnTo';
 
 /**
- * An API hook which performs user authentication.
- * @returns Returns a `UseMutationResult` with `User` data.
+ * The `useSignin` mutation function variables.
+ * @param [providerId] - Optional. The identifier of the OIDC provider. Default:
+ * the first configured provider.
+ * @param [username] - Optional. A username. When supplied with a `password`,
+ * the credentials are verified with the provider credentials API before
+ * redirecting so the provider does not display its own sign in page.
+ * @param [password] - Optional. A password.
+ * @param [returnTo] - Optional. The location to which the user is returned
+ * after sign in. Must be same-origin. Default: `/`.
+ */
+export type SigninVariables = {
+  providerId?: string;
+  username?: string;
+  password?: string;
+  returnTo?: string | null;
+};
+
+/**
+ * A multi-factor authentication challenge which the user must complete, with
+ * a one-time code or a recovery code, before the sign in continues.
+ * @param providerId - The identifier of the OIDC provider.
+ * @param stateToken - The provider token which identifies the challenge.
+ * @param expiresAt - The timestamp at which the challenge expires.
+ * @param returnTo - The same-origin location to which the user is returned.
+ */
+export type MfaChallenge = {
+  providerId: string;
+  stateToken: string;
+  expiresAt: string;
+  returnTo: string;
+};
+
+/**
+ * The `useSignin` mutation result. When the credentials are verified, the
+ * browser is redirected to the `authorizationUrl`; when the provider requires
+ * a second factor, the `challenge` must be completed first.
+ */
+export type SigninResult =
+  { status: 'SUCCESS'; authorizationUrl: string } | { status: 'MFA_REQUIRED'; challenge: MfaChallenge };
+
+/**
+ * The provider credentials API response.
+ */
+export type AuthnResponse =
+  { status: 'SUCCESS'; sessionToken: string } | { status: 'MFA_REQUIRED'; stateToken: string; expiresAt: string };
+
+/**
+ * Zod schema for the provider credentials API response.
+ */
+export const authnResponseSchema = z.discriminatedUnion('status', [
+  z.object({ status: z.literal('SUCCESS'), sessionToken: z.string() }),
+  z.object({ status: z.literal('MFA_REQUIRED'), stateToken: z.string(), expiresAt: z.string() }),
+]) satisfies z.ZodType<AuthnResponse>;
+
+/**
+ * An API hook which begins an OIDC Authorization Code with PKCE sign in. The
+ * browser is redirected to the provider authorization endpoint and returns to
+ * the `/auth/callback` route where the code is exchanged for tokens.
+ *
+ * When the provider requires multi-factor authentication, the browser is not
+ * redirected; the result contains the `MfaChallenge` to complete.
+ * @returns Returns a `UseMutationResult` with `SigninResult` data.
  */
 export const useSignin = () => {
   const queryClient = useQueryClient();
   const axios = useAxios();
+  const config = useConfig();
 
   /**
-   * Attempts to authenticate a user.
-   * @param username - A username value.
-   * @returns Returns a Promise which resolves to a `User` if successful,
-   * otherwise throws an Error.
+   * Verifies the user credentials with the provider credentials API.
+   * @returns Returns a Promise which resolves to the credentials API response.
    */
-  const signin = async (username: string): Promise<User> => {
-    // REPLACE: This is a contrived "signin" approach for demonstration purposes.
-    //          You should implement authentication functionality in accordance
-    //          with your IdP.
-
-    // fetch all users
-    const response = await axios.request<User[]>({
-      url: `${config.VITE_BASE_URL_API}/users`,
-    });
-
-    // if user matching 'username' is found, consider the user to be authenticated.
-    const user = find<User>(response.data, { username });
-    if (user) {
-      // store current user in localstorage
-      storage.setJsonItem(StorageKey.User, user);
+  const authenticate = async (
+    authnEndpoint: string,
+    username: string,
+    password: string = '',
+  ): Promise<AuthnResponse> => {
+    try {
+      const response = await axios.request({
+        method: 'post',
+        url: authnEndpoint,
+        data: { username, password },
+      });
+      return validateResponse(authnResponseSchema, response);
+    } catch (err) {
+      if (isAxiosError(err) && err.response?.status === 401) {
+        throw new Error('We are unable to authenticate you. Please verify your credentials and try again.');
+      }
+      throw err;
+    }
+  };
 
-      // simlate the creation of authentication tokens
-      const expires_at = dayjs().add(1, 'hour').toISOString();
-      const tokens: UserTokens = {
-        access_token: 'access-token',
-        id_token: 'id-token',
-        refresh_token: 'refresh-token',
-        token_type: 'bearer',
-        expires_in: 3600,
-        expires_at,
-      };
-      storage.setJsonItem(StorageKey.UserTokens, tokens);
+  /**
+   * Begins authentication of a user with an OIDC provider.
+   * @param {SigninVariables} variables - The mutation function variables.
+   * @returns Returns a Promise which resolves to the `SigninResult` if
+   * successful, otherwise throws an Error.
+   */
+  const signin = async ({ providerId, username, password, returnTo }: SigninVariables): Promise<SigninResult> => {
+    const provider = getOidcProvider(config.VITE_OIDC_PROVIDERS, providerId);
+    const oidcConfiguration = await queryClient.fetchQuery(oidcConfigurationQueryOptions(axios, provider));
+    const safeReturnTo = getSafeReturnTo(returnTo);
 
-      return user;
-    } else {
-      throw new Error('We are unable to authenticate you. Please verify your credentials and try again.');
+    let sessionToken: string | undefined;
+    if (username) {
+      if (!oidcConfiguration.authn_endpoint) {
+        throw new Error(`${provider.name} does not support signing in with a username and password.`);
+      }
+      const authnResponse = await authenticate(oidcConfiguration.authn_endpoint, username, password);
+      if (authnResponse.status === 'MFA_REQUIRED') {
+        return {
+          status: 'MFA_REQUIRED',
+          challenge: {
+            providerId: provider.id,
+            stateToken: authnResponse.stateToken,
+            expiresAt: authnResponse.expiresAt,
+            returnTo: safeReturnTo,
+          },
+        };
+      }
+      sessionToken = authnResponse.sessionToken;
     }
+
+    const authorizationUrl = await redirectToAuthorization(oidcConfiguration, provider, safeReturnTo, sessionToken);
+    return { status: 'SUCCESS', authorizationUrl };
   };
 
   return useMutation({
     mutationFn: signin,
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: [QueryKey.UserTokens] });
-      queryClient.invalidateQueries({ queryKey: [QueryKey.Users, 'current'] });
-    },
   });
 };
@@ -0,0 +1,69 @@
+import { beforeEach, describe, expect, it, Mock } from 'vitest';
+
+import { renderHook, waitFor } from 'test/test-utils';
+import { mockLocationAssign } from 'test/mocks/window';
+import { mockWebAuthn } from 'test/mocks/webauthn';
+import { authTransaction } from 'common/utils/oidc';
+
+import { useSigninWithPasskey } from './useSigninWithPasskey';
+
+describe('useSigninWithPasskey', () => {
+  let assignMock: Mock;
+  let getMock: Mock;
+
+  beforeEach(() => {
+    localStorage.clear();
+    assignMock = mockLocationAssign();
+    getMock = mockWebAuthn().get;
+  });
+
+  it('should redirect to the provider when passkey verified', async () => {
+    // ARRANGE
+    const { result } = renderHook(() => useSigninWithPasskey());
+    await waitFor(() => expect(result.current).not.toBeNull());
+
+    // ACT
+    result.current.mutate({ returnTo: '/app/tasks' });
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+    // ASSERT
+    expect(getMock).toHaveBeenCalledTimes(1);
+    expect(assignMock).toHaveBeenCalledWith(result.current.data);
+    expect(new URL(result.current.data ?? '').searchParams.get('session_token')).toBe('session-1');
+    expect(authTransaction.get()?.returnTo).toBe('/app/tasks');
+  });
+
+  it('should error when passkey not recognized', async () => {
+    // ARRANGE
+    const getPasskey = getMock.getMockImplementation()!;
+    getMock.mockImplementationOnce(async (options: CredentialRequestOptions) => ({
+      ...(await getPasskey(options)),
+      id: 'dW5rbm93bg',
+    }));
+    const { result } = renderHook(() => useSigninWithPasskey());
+    await waitFor(() => expect(result.current).not.toBeNull());
+
+    // ACT
+    result.current.mutate({});
+    await waitFor(() => expect(result.current.isError).toBe(true));
+
+    // ASSERT
+    expect(result.current.error?.message).toMatch(/passkey is not recognized/);
+    expect(assignMock).not.toHaveBeenCalled();
+  });
+
+  it('should error when the user cancels', async () => {
+    // ARRANGE
+    getMock.mockRejectedValueOnce(new DOMException('Cancelled', 'NotAllowedError'));
+    const { result } = renderHook(() => useSigninWithPasskey());
+    await waitFor(() => expect(result.current).not.toBeNull());
+
+    // ACT
+    result.current.mutate({});
+    await waitFor(() => expect(result.current.isError).toBe(true));
+
+    // ASSERT
+    expect(result.current.error?.message).toBe('The passkey request was cancelled or timed out.');
+    expect(assignMock).not.toHaveBeenCalled();
+  });
+});
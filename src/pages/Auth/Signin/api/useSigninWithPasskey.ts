@@ -0,0 +1,103 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { isAxiosError } from 'axios';
+import { z } from 'zod';
+
+import { useAxios } from 'common/hooks/useAxios';
+import { useConfig } from 'common/hooks/useConfig';
+import { getOidcProvider, oidcConfigurationQueryOptions, redirectToAuthorization } from 'common/utils/oidc';
+import { validateResponse } from 'common/utils/responseValidation';
+import { getSafeReturnTo } from 'common/utils/returnTo';
+import {
+  getPasskeyCredential,
+  PublicKeyCredentialRequestOptionsJSON,
+  publicKeyCredentialRequestOptionsSchema,
+} from 'common/utils/webauthn';
+import { authnResponseSchema } from './useSignin';
+
+/**
+ * The `useSigninWithPasskey` mutation function variables.
+ * @param [providerId] - Optional. The identifier of the OIDC provider. Default:
+ * the first configured provider.
+ * @param [returnTo] - Optional. The location to which the user is returned
+ * after sign in. Must be same-origin. Default: `/`.
+ */
+export type SigninWithPasskeyVariables = {
+  providerId?: string;
+  returnTo?: string | null;
+};
+
+/**
+ * The WebAuthn authentication options issued by the provider. The
+ * `challengeId` identifies the challenge when the credential is verified.
+ */
+type AuthenticationOptionsResponse = {
+  challengeId: string;
+  publicKey: PublicKeyCredentialRequestOptionsJSON;
+};
+
+/**
+ * Zod schema for an `AuthenticationOptionsResponse`.
+ */
+const authenticationOptionsResponseSchema = z.object({
+  challengeId: z.string(),
+  publicKey: publicKeyCredentialRequestOptionsSchema,
+}) satisfies z.ZodType<AuthenticationOptionsResponse>;
+
+/**
+ * An API hook which signs in a user with a passkey instead of a username and
+ * password. The provider issues a challenge which the browser signs with a
+ * passkey chosen by the user. When the provider verifies the signature, the
+ * browser is redirected to the provider authorization endpoint.
+ * @returns Returns a `UseMutationResult` with the authorization URL as data.
+ */
+export const useSigninWithPasskey = () => {
+  const queryClient = useQueryClient();
+  const axios = useAxios();
+  const config = useConfig();
+
+  /**
+   * Begins authentication of a user with a passkey.
+   * @param {SigninWithPasskeyVariables} variables - The mutation function variables.
+   * @returns Returns a Promise which resolves to the authorization URL if
+   * successful, otherwise throws an Error.
+   */
+  const signinWithPasskey = async ({ providerId, returnTo }: SigninWithPasskeyVariables): Promise<string> => {
+    const provider = getOidcProvider(config.VITE_OIDC_PROVIDERS, providerId);
+    const oidcConfiguration = await queryClient.fetchQuery(oidcConfigurationQueryOptions(axios, provider));
+    if (!oidcConfiguration.webauthn_endpoint) {
+      throw new Error(`${provider.name} does not support signing in with a passkey.`);
+    }
+
+    const optionsResponse = await axios.request({
+      method: 'post',
+      url: `${oidcConfiguration.webauthn_endpoint}/authentication/options`,
+    });
+    const options = validateResponse(authenticationOptionsResponseSchema, optionsResponse);
+    const credential = await getPasskeyCredential(options.publicKey);
+
+    let sessionToken: string;
+    try {
+      const response = await axios.request({
+        method: 'post',
+        url: `${oidcConfiguration.webauthn_endpoint}/authentication/verify`,
+        data: { challengeId: options.challengeId, credential },
+      });
+      const authnResponse = validateResponse(authnResponseSchema, response);
+      if (authnResponse.status !== 'SUCCESS') {
+        throw new Error('We are unable to verify your passkey. Please try again.');
+      }
+      sessionToken = authnResponse.sessionToken;
+    } catch (err) {
+      if (isAxiosError(err) && err.response?.status === 401) {
+        throw new Error('This passkey is not recognized. Please sign in with your username and password.');
+      }
+      throw err;
+    }
+
+    return redirectToAuthorization(oidcConfiguration, provider, getSafeReturnTo(returnTo), sessionToken);
+  };
+
+  return useMutation({
+    mutationFn: signinWithPasskey,
+  });
+};
@@ -0,0 +1,85 @@
+import { beforeEach, describe, expect, it, Mock } from 'vitest';
+import dayjs from 'dayjs';
+
+import { renderHook, waitFor } from 'test/test-utils';
+import { createMockStateToken, MOCK_RECOVERY_CODE, MOCK_TOTP_PASSCODE } from 'test/mocks/idp';
+import { mockLocationAssign } from 'test/mocks/window';
+import { configFixture } from '__fixtures__/config';
+import { authTransaction } from 'common/utils/oidc';
+import { MfaChallenge } from './useSignin';
+
+import { useVerifyMfaChallenge } from './useVerifyMfaChallenge';
+
+describe('useVerifyMfaChallenge', () => {
+  let assignMock: Mock;
+
+  const createChallenge = (expiresAt: number = dayjs().add(5, 'minute').valueOf()): MfaChallenge => ({
+    providerId: configFixture.VITE_OIDC_PROVIDERS[0].id,
+    stateToken: createMockStateToken(2, expiresAt),
+    expiresAt: dayjs(expiresAt).toISOString(),
+    returnTo: '/app/tasks',
+  });
+
+  beforeEach(() => {
+    localStorage.clear();
+    assignMock = mockLocationAssign();
+  });
+
+  it('should redirect to the provider when passcode verified', async () => {
+    // ARRANGE
+    const { result } = renderHook(() => useVerifyMfaChallenge());
+    await waitFor(() => expect(result.current).not.toBeNull());
+
+    // ACT
+    result.current.mutate({ challenge: createChallenge(), passCode: MOCK_TOTP_PASSCODE });
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+    // ASSERT
+    expect(assignMock).toHaveBeenCalledWith(result.current.data);
+    expect(new URL(result.current.data ?? '').searchParams.get('session_token')).toBe('session-2');
+    expect(authTransaction.get()?.returnTo).toBe('/app/tasks');
+  });
+
+  it('should redirect to the provider when recovery code verified', async () => {
+    // ARRANGE
+    const { result } = renderHook(() => useVerifyMfaChallenge());
+    await waitFor(() => expect(result.current).not.toBeNull());
+
+    // ACT
+    result.current.mutate({ challenge: createChallenge(), recoveryCode: MOCK_RECOVERY_CODE });
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+    // ASSERT
+    expect(assignMock).toHaveBeenCalled();
+  });
+
+  it('should error when code is incorrect', async () => {
+    // ARRANGE
+    const { result } = renderHook(() => useVerifyMfaChallenge());
+    await waitFor(() => expect(result.current).not.toBeNull());
+
+    // ACT
+    result.current.mutate({ challenge: createChallenge(), passCode: '000000' });
+    await waitFor(() => expect(result.current.isError).toBe(true));
+
+    // ASSERT
+    expect(result.current.error?.message).toBe('The code is incorrect. Please try again.');
+    expect(assignMock).not.toHaveBeenCalled();
+  });
+
+  it('should error when challenge is expired', async () => {
+    // ARRANGE
+    const { result } = renderHook(() => useVerifyMfaChallenge());
+    await waitFor(() => expect(result.current).not.toBeNull());
+
+    // ACT
+    result.current.mutate({
+      challenge: createChallenge(dayjs().subtract(1, 'second').valueOf()),
+      passCode: MOCK_TOTP_PASSCODE,
+    });
+    await waitFor(() => expect(result.current.isError).toBe(true));
+
+    // ASSERT
+    expect(result.current.error?.message).toBe('Your sign in has expired. Please sign in again.');
+  });
+});
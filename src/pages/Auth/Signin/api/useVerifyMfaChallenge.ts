@@ -0,0 +1,76 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { isAxiosError } from 'axios';
+
+import { useAxios } from 'common/hooks/useAxios';
+import { useConfig } from 'common/hooks/useConfig';
+import { getOidcProvider, oidcConfigurationQueryOptions, redirectToAuthorization } from 'common/utils/oidc';
+import { validateResponse } from 'common/utils/responseValidation';
+import { authnResponseSchema, MfaChallenge } from './useSignin';
+
+/**
+ * The `useVerifyMfaChallenge` mutation function variables. Supply either a
+ * `passCode` from an authenticator app or a `recoveryCode`.
+ * @param challenge - The `MfaChallenge` to complete.
+ * @param [passCode] - Optional. A one-time code.
+ * @param [recoveryCode] - Optional. A single use recovery code.
+ */
+export type VerifyMfaChallengeVariables = {
+  challenge: MfaChallenge;
+  passCode?: string;
+  recoveryCode?: string;
+};
+
+/**
+ * An API hook which completes a multi-factor authentication challenge with
+ * the provider credentials API, then continues the sign in by redirecting to
+ * the provider authorization endpoint.
+ * @returns Returns a `UseMutationResult` with the authorization URL as data.
+ */
+export const useVerifyMfaChallenge = () => {
+  const queryClient = useQueryClient();
+  const axios = useAxios();
+  const config = useConfig();
+
+  /**
+   * Verifies a one-time code or recovery code.
+   * @param {VerifyMfaChallengeVariables} variables - The mutation function variables.
+   * @returns Returns a Promise which resolves to the authorization URL if
+   * successful, otherwise throws an Error.
+   */
+  const verifyMfaChallenge = async ({
+    challenge,
+    passCode,
+    recoveryCode,
+  }: VerifyMfaChallengeVariables): Promise<string> => {
+    const provider = getOidcProvider(config.VITE_OIDC_PROVIDERS, challenge.providerId);
+    const oidcConfiguration = await queryClient.fetchQuery(oidcConfigurationQueryOptions(axios, provider));
+
+    let sessionToken: string;
+    try {
+      const response = await axios.request({
+        method: 'post',
+        url: `${oidcConfiguration.authn_endpoint}/verify`,
+        data: { stateToken: challenge.stateToken, passCode, recoveryCode },
+      });
+      const authnResponse = validateResponse(authnResponseSchema, response);
+      if (authnResponse.status !== 'SUCCESS') {
+        throw new Error('We are unable to verify your code. Please sign in again.');
+      }
+      sessionToken = authnResponse.sessionToken;
+    } catch (err) {
+      if (isAxiosError(err) && err.response?.status === 401) {
+        throw new Error('The code is incorrect. Please try again.');
+      }
+      if (isAxiosError(err) && err.response?.status === 410) {
+        throw new Error('Your sign in has expired. Please sign in again.');
+      }
+      throw err;
+    }
+
+    return redirectToAuthorization(oidcConfiguration, provider, challenge.returnTo, sessionToken);
+  };
+
+  return useMutation({
+    mutationFn: verifyMfaChallenge,
+  });
+};
@@ -0,0 +1,125 @@
+import { beforeEach, describe, expect, it, Mock, vi } from 'vitest';
+import userEvent from '@testing-library/user-event';
+import dayjs from 'dayjs';
+
+import { render, screen, waitFor } from 'test/test-utils';
+import { mockLocationAssign } from 'test/mocks/window';
+import { createMockStateToken, MOCK_RECOVERY_CODE, MOCK_TOTP_PASSCODE } from 'test/mocks/idp';
+import { configFixture } from '__fixtures__/config';
+import { MfaChallenge } from '../api/useSignin';
+
+import MfaChallengeForm from './MfaChallengeForm';
+
+describe('MfaChallengeForm', () => {
+  let assignMock: Mock;
+
+  const createChallenge = (expiresAt: number = dayjs().add(5, 'minute').valueOf()): MfaChallenge => ({
+    providerId: configFixture.VITE_OIDC_PROVIDERS[0].id,
+    stateToken: createMockStateToken(2, expiresAt),
+    expiresAt: dayjs(expiresAt).toISOString(),
+    returnTo: '/',
+  });
+
+  beforeEach(() => {
+    assignMock = mockLocationAssign();
+  });
+
+  it('should render successfully', async () => {
+    // ARRANGE
+    render(<MfaChallengeForm challenge={createChallenge()} onCancel={vi.fn()} />);
+    await screen.findByTestId('form-mfa-challenge');
+
+    // ASSERT
+    expect(screen.getByTestId('form-mfa-challenge')).toBeDefined();
+    expect(screen.getByTestId('form-mfa-challenge-input-code')).toBeDefined();
+    expect(Number(screen.getByTestId('form-mfa-challenge-countdown').textContent)).toBeGreaterThan(290);
+  });
+
+  it('should redirect to the provider upon successful verification', async () => {
+    // ARRANGE
+    const user = userEvent.setup();
+    render(<MfaChallengeForm challenge={createChallenge()} onCancel={vi.fn()} />);
+    await screen.findByTestId('form-mfa-challenge');
+
+    // ACT
+    await user.click(screen.getByTestId('form-mfa-challenge-input-code-digit-0'));
+    await user.keyboard(MOCK_TOTP_PASSCODE);
+    await user.click(screen.getByTestId('form-mfa-challenge-button-submit'));
+    await waitFor(() => expect(assignMock).toHaveBeenCalled());
+
+    // ASSERT
+    expect(assignMock).toHaveBeenCalledWith(expect.stringContaining('session_token=session-2'));
+  });
+
+  it('should display alert when code is incorrect', async () => {
+    // ARRANGE
+    const user = userEvent.setup();
+    render(<MfaChallengeForm challenge={createChallenge()} onCancel={vi.fn()} />);
+    await screen.findByTestId('form-mfa-challenge');
+
+    // ACT
+    await user.click(screen.getByTestId('form-mfa-challenge-input-code-digit-0'));
+    await user.keyboard('000000');
+    await user.click(screen.getByTestId('form-mfa-challenge-button-submit'));
+    await screen.findByTestId('form-mfa-challenge-error');
+
+    // ASSERT
+    expect(screen.getByTestId('form-mfa-challenge-error')).toHaveTextContent(/code is incorrect/i);
+    expect(assignMock).not.toHaveBeenCalled();
+  });
+
+  it('should verify with a recovery code', async () => {
+    // ARRANGE
+    const user = userEvent.setup();
+    render(<MfaChallengeForm challenge={createChallenge()} onCancel={vi.fn()} />);
+    await screen.findByTestId('form-mfa-challenge');
+
+    // ACT
+    await user.click(screen.getByTestId('form-mfa-challenge-button-toggle'));
+    await user.type(screen.getByLabelText(/Recovery code/), MOCK_RECOVERY_CODE);
+    await user.click(screen.getByTestId('form-mfa-challenge-button-submit'));
+    await waitFor(() => expect(assignMock).toHaveBeenCalled());
+
+    // ASSERT
+    expect(assignMock).toHaveBeenCalledWith(expect.stringContaining('session_token=session-2'));
+  });
+
+  it('should disable resend during the cooldown', async () => {
+    // ARRANGE
+    render(<MfaChallengeForm challenge={createChallenge()} onCancel={vi.fn()} />);
+    await screen.findByTestId('form-mfa-challenge');
+
+    // ASSERT
+    expect(screen.getByTestId('form-mfa-challenge-button-resend')).toBeDisabled();
+  });
+
+  it('should call onCancel when cancelled', async () => {
+    // ARRANGE
+    const user = userEvent.setup();
+    const onCancel = vi.fn();
+    render(<MfaChallengeForm challenge={createChallenge()} onCancel={onCancel} />);
+    await screen.findByTestId('form-mfa-challenge');
+
+    // ACT
+    await user.click(screen.getByTestId('form-mfa-challenge-button-cancel'));
+
+    // ASSERT
+    expect(onCancel).toHaveBeenCalledTimes(1);
+  });
+
+  it('should start over when the challenge has expired', async () => {
+    // ARRANGE
+    const user = userEvent.setup();
+    const onCancel = vi.fn();
+    render(
+      <MfaChallengeForm challenge={createChallenge(dayjs().subtract(1, 'second').valueOf())} onCancel={onCancel} />,
+    );
+    await screen.findByTestId('form-mfa-challenge-expired');
+
+    // ACT
+    await user.click(screen.getByTestId('form-mfa-challenge-button-start-over'));
+
+    // ASSERT
+    expect(onCancel).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,253 @@
+import { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { useTranslation } from 'react-i18next';
+import { z } from 'zod';
+import { zodResolver } from '@hookform/resolvers/zod';
+import dayjs from 'dayjs';
+
+import { cn } from 'common/utils/css';
+import { BaseComponentProps } from 'common/utils/types';
+import { MfaChallenge } from '../api/useSignin';
+import { useVerifyMfaChallenge } from '../api/useVerifyMfaChallenge';
+import { useResendMfaChallenge } from '../api/useResendMfaChallenge';
+import OneTimeCodeInput from 'common/components/Form/OneTimeCodeInput';
+import Input from 'common/components/Form/Input';
+import Button from 'common/components/Button/Button';
+import ErrorAlert from 'common/components/Alert/ErrorAlert';
+
+/**
+ * The number of seconds which must elapse before a new code may be requested.
+ */
+export const MFA_RESEND_COOLDOWN_SECONDS = 30;
+
+/**
+ * Properties for the `MfaChallengeForm` component.
+ * @param {MfaChallenge} challenge - The multi-factor authentication challenge.
+ * @param {function} onCancel - Called when the user abandons the challenge to
+ * start the sign in again.
+ * @see {@link BaseComponentProps}
+ */
+interface MfaChallengeFormProps extends BaseComponentProps {
+  challenge: MfaChallenge;
+  onCancel: () => void;
+}
+
+/**
+ * Multi-factor challenge form values.
+ */
+type MfaChallengeFormValues = {
+  code: string;
+};
+
+/**
+ * The `MfaChallengeForm` component renders a form which completes a
+ * multi-factor authentication challenge with a one-time code from an
+ * authenticator app or, alternatively, with a recovery code.
+ *
+ * Displays the time remaining to complete the challenge. Once the challenge
+ * expires, the user must start the sign in again.
+ *
+ * Upon successful verification of the code, the browser is redirected to the
+ * provider to complete the sign in.
+ *
+ * @param {MfaChallengeFormProps} props - Component properties.
+ */
+const MfaChallengeForm = ({
+  challenge: initialChallenge,
+  className,
+  onCancel,
+  testId = 'form-mfa-challenge',
+}: MfaChallengeFormProps) => {
+  const [challenge, setChallenge] = useState<MfaChallenge>(initialChallenge);
+  const [isRecoveryCode, setIsRecoveryCode] = useState<boolean>(false);
+  const [error, setError] = useState<string>('');
+  const [now, setNow] = useState<number>(() => Date.now());
+  const [resendAvailableAt, setResendAvailableAt] = useState<number>(() =>
+    dayjs().add(MFA_RESEND_COOLDOWN_SECONDS, 'second').valueOf(),
+  );
+  const { mutate: verifyMfaChallenge } = useVerifyMfaChallenge();
+  const { mutate: resendMfaChallenge, isPending: isResending } = useResendMfaChallenge();
+  const { t } = useTranslation();
+
+  const remainingSeconds = Math.max(dayjs(challenge.expiresAt).diff(now, 'second'), 0);
+  const resendSeconds = Math.max(Math.ceil((resendAvailableAt - now) / 1000), 0);
+  const isExpired = remainingSeconds === 0;
+
+  /**
+   * Ticks the countdown every second until the challenge expires.
+   */
+  useEffect(() => {
+    if (isExpired) return;
+    const intervalId = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(intervalId);
+  }, [isExpired]);
+
+  /**
+   * Multi-factor challenge form validation schema.
+   */
+  const schema = z.object({
+    code: isRecoveryCode
+      ? z
+          .string()
+          .trim()
+          .min(1, { message: t('validation.required') })
+      : z.string().regex(/^\d{6}$/, { message: t('validation.oneTimeCode') }),
+  });
+
+  /**
+   * Initialize management of the form.
+   */
+  const { control, formState, handleSubmit, reset } = useForm<MfaChallengeFormValues>({
+    defaultValues: { code: '' },
+    mode: 'all',
+    resolver: zodResolver(schema),
+  });
+
+  /**
+   * Toggles between a one-time code and a recovery code.
+   */
+  const onToggleRecoveryCode = () => {
+    setError('');
+    setIsRecoveryCode((value) => !value);
+    reset({ code: '' });
+  };
+
+  /**
+   * Requests a new one-time code and restarts the resend cooldown.
+   */
+  const onResend = () => {
+    setError('');
+    resendMfaChallenge(challenge, {
+      onSuccess: (renewedChallenge) => {
+        setChallenge(renewedChallenge);
+        setResendAvailableAt(dayjs().add(MFA_RESEND_COOLDOWN_SECONDS, 'second').valueOf());
+      },
+      onError: (err: Error) => {
+        setError(err.message);
+      },
+    });
+  };
+
+  /**
+   * Handles the form submission.
+   */
+  const onFormSubmit = (data: MfaChallengeFormValues) => {
+    setError('');
+    return new Promise<void>((resolve) => {
+      verifyMfaChallenge(
+        isRecoveryCode ? { challenge, recoveryCode: data.code.trim() } : { challenge, passCode: data.code },
+        {
+          onError: (err: Error) => {
+            setError(err.message);
+          },
+          onSettled: () => {
+            resolve();
+          },
+        },
+      );
+    });
+  };
+
+  if (isExpired) {
+    return (
+      <div className={cn('lg:w-2/3 xl:w-1/2', className)} data-testid={testId}>
+        <ErrorAlert
+          title="Sign in expired"
+          description="Your sign in has expired. Please sign in again."
+          className="mb-4"
+          testId={`${testId}-expired`}
+        />
+        <Button onClick={onCancel} className="w-full sm:w-40" testId={`${testId}-button-start-over`}>
+          Start over
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className={cn('lg:w-2/3 xl:w-1/2', className)} data-testid={testId}>
+      {error && (
+        <ErrorAlert title="Verification failed" description={error} className="mb-4" testId={`${testId}-error`} />
+      )}
+
+      <div className="mb-4 text-sm opacity-85">
+        Complete sign in within <span data-testid={`${testId}-countdown`}>{remainingSeconds}</span> seconds.
+      </div>
+
+      <form onSubmit={handleSubmit(onFormSubmit)} noValidate>
+        {isRecoveryCode ? (
+          <Input
+            control={control}
+            name="code"
+            label="Recovery code"
+            supportingText="Enter one of the recovery codes you saved when you set up your authenticator app."
+            className="mb-4"
+            autoFocus
+            autoComplete="off"
+            maxLength={30}
+            required
+            disabled={formState.isSubmitting}
+            testId={`${testId}-input-recovery-code`}
+          />
+        ) : (
+          <OneTimeCodeInput
+            control={control}
+            name="code"
+            label="Verification code"
+            supportingText="Enter the 6-digit code from your authenticator app."
+            className="mb-4"
+            autoFocus
+            required
+            disabled={formState.isSubmitting}
+            testId={`${testId}-input-code`}
+          />
+        )}
+
+        <div className="flex flex-wrap gap-2 text-sm">
+          <Button
+            variant="text"
+            size="sm"
+            onClick={onToggleRecoveryCode}
+            disabled={formState.isSubmitting}
+            testId={`${testId}-button-toggle`}
+          >
+            {isRecoveryCode ? 'Use a verification code' : 'Use a recovery code'}
+          </Button>
+          {!isRecoveryCode && (
+            <Button
+              variant="text"
+              size="sm"
+              onClick={onResend}
+              disabled={formState.isSubmitting || isResending || resendSeconds > 0}
+              testId={`${testId}-button-resend`}
+            >
+              {resendSeconds > 0 ? `Resend code in ${resendSeconds}s` : 'Resend code'}
+            </Button>
+          )}
+        </div>
+
+        <div className="my-8 flex flex-wrap gap-2">
+          <Button
+            type="submit"
+            className="w-full sm:w-40"
+            disabled={formState.isSubmitting || !formState.isDirty}
+            testId={`${testId}-button-submit`}
+          >
+            Verify
+          </Button>
+          <Button
+            variant="outline"
+            className="w-full sm:w-40"
+            onClick={onCancel}
+            disabled={formState.isSubmitting}
+            testId={`${testId}-button-cancel`}
+          >
+            Cancel
+          </Button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default MfaChallengeForm;
@@ -0,0 +1,67 @@
+import { beforeEach, describe, expect, it, Mock } from 'vitest';
+import userEvent from '@testing-library/user-event';
+
+import { render, screen, waitFor } from 'test/test-utils';
+import { mockLocationAssign } from 'test/mocks/window';
+import { mockWebAuthn, unmockWebAuthn } from 'test/mocks/webauthn';
+
+import PasskeySignin from './PasskeySignin';
+
+describe('PasskeySignin', () => {
+  let assignMock: Mock;
+  let getMock: Mock;
+
+  beforeEach(() => {
+    assignMock = mockLocationAssign();
+    getMock = mockWebAuthn().get;
+  });
+
+  it('should render successfully', async () => {
+    // ARRANGE
+    render(<PasskeySignin />);
+    await screen.findByTestId('signin-passkey');
+
+    // ASSERT
+    expect(screen.getByTestId('signin-passkey-button')).toHaveTextContent('Sign in with a passkey');
+  });
+
+  it('should render nothing when passkeys are not supported', async () => {
+    // ARRANGE
+    unmockWebAuthn();
+    render(<PasskeySignin />);
+    await waitFor(() => expect(screen.queryByTestId('signin-passkey')).toBeNull());
+
+    // ASSERT
+    expect(screen.queryByTestId('signin-passkey')).toBeNull();
+  });
+
+  it('should redirect to the provider', async () => {
+    // ARRANGE
+    const user = userEvent.setup();
+    render(<PasskeySignin />);
+    await screen.findByTestId('signin-passkey');
+
+    // ACT
+    await user.click(screen.getByTestId('signin-passkey-button'));
+    await waitFor(() => expect(assignMock).toHaveBeenCalled());
+
+    // ASSERT
+    expect(assignMock).toHaveBeenCalledWith(expect.stringContaining('session_token=session-1'));
+  });
+
+  it('should display alert on error', async () => {
+    // ARRANGE
+    const user = userEvent.setup();
+    getMock.mockRejectedValueOnce(new DOMException('Cancelled', 'NotAllowedError'));
+    render(<PasskeySignin />);
+    await screen.findByTestId('signin-passkey');
+
+    // ACT
+    await user.click(screen.getByTestId('signin-passkey-button'));
+    await screen.findByTestId('signin-passkey-error');
+
+    // ASSERT
+    expect(screen.getByTestId('signin-passkey-error')).toHaveTextContent(/cancelled or timed out/);
+    expect(assignMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,73 @@
+import { useState } from 'react';
+
+import { cn } from 'common/utils/css';
+import { BaseComponentProps } from 'common/utils/types';
+import { isWebAuthnSupported } from 'common/utils/webauthn';
+import { useSigninWithPasskey } from '../api/useSigninWithPasskey';
+import Button from 'common/components/Button/Button';
+import ErrorAlert from 'common/components/Alert/ErrorAlert';
+import FAIcon from 'common/components/Icon/FAIcon';
+
+/**
+ * Properties for the `PasskeySignin` component.
+ * @param {string | null} [returnTo] - Optional. The location to which the user
+ * is returned after sign in.
+ * @see {@link BaseComponentProps}
+ */
+interface PasskeySigninProps extends BaseComponentProps {
+  returnTo?: string | null;
+}
+
+/**
+ * The `PasskeySignin` component renders a button which signs in the user with
+ * a passkey, an alternative to a username and password. Renders nothing when
+ * the browser does not support passkeys.
+ *
+ * Upon error, displays messages.
+ *
+ * @param {PasskeySigninProps} props - Component properties.
+ */
+const PasskeySignin = ({ className, returnTo, testId = 'signin-passkey' }: PasskeySigninProps) => {
+  const [error, setError] = useState<string>('');
+  const { mutate: signinWithPasskey, isPending } = useSigninWithPasskey();
+
+  if (!isWebAuthnSupported()) {
+    return null;
+  }
+
+  /**
+   * Handles the passkey button click.
+   */
+  const onPasskeyClick = () => {
+    setError('');
+    signinWithPasskey(
+      { returnTo },
+      {
+        onError: (err: Error) => {
+          setError(err.message);
+        },
+      },
+    );
+  };
+
+  return (
+    <div className={cn('lg:w-2/3 xl:w-1/2', className)} data-testid={testId}>
+      {error && (
+        <ErrorAlert title="Authentication failed" description={error} className="mb-4" testId={`${testId}-error`} />
+      )}
+
+      <Button
+        variant="outline"
+        className="mb-8 flex w-full items-center justify-center gap-2 sm:w-80"
+        onClick={onPasskeyClick}
+        disabled={isPending}
+        testId={`${testId}-button`}
+      >
+        <FAIcon icon="key" />
+        Sign in with a passkey
+      </Button>
+    </div>
+  );
+};
+
+export default PasskeySignin;
@@ -1,21 +1,19 @@
-import { describe, expect, it, vi } from 'vitest';
+import { beforeEach, describe, expect, it, Mock } from 'vitest';
 import userEvent from '@testing-library/user-event';
 
-import { render, screen } from 'test/test-utils';
+import { render, screen, waitFor } from 'test/test-utils';
+import { mockLocationAssign } from 'test/mocks/window';
+import { MOCK_TOTP_PASSCODE } from 'test/mocks/idp';
 
 import SigninForm from './SigninForm';
 
-// mock select functions from react-router-dom
-const mockNavigate = vi.fn();
-vi.mock('react-router-dom', async () => {
-  const original = await vi.importActual('react-router-dom');
-  return {
-    ...original,
-    useNavigate: () => mockNavigate,
-  };
-});
-
 describe('SigninForm', () => {
+  let assignMock: Mock;
+
+  beforeEach(() => {
+    assignMock = mockLocationAssign();
+  });
+
   it('should render successfully', async () => {
     // ARRANGE
     render(<SigninForm />);
@@ -43,7 +41,16 @@ describe('SigninForm', () => {
     expect(screen.getByTestId('form-signin').classList).toContain('custom-className');
   });
 
-  it('should navigate upon successful signin', async () => {
+  it('should link to forgot password', async () => {
+    // ARRANGE
+    render(<SigninForm />);
+    await screen.findByTestId('form-signin');
+
+    // ASSERT
+    expect(screen.getByTestId('form-signin-link-forgot-password')).toHaveAttribute('href', '/auth/forgot-password');
+  });
+
+  it('should redirect to the provider upon successful signin', async () => {
     // ARRANGE
     const user = userEvent.setup();
     render(<SigninForm />);
@@ -53,9 +60,30 @@ describe('SigninForm', () => {
     await user.type(screen.getByLabelText('Username'), 'Bret');
     await user.type(screen.getByLabelText('Password'), 'aB1!12345678');
     await user.click(screen.getByTestId('form-signin-button-submit'));
+    await waitFor(() => expect(assignMock).toHaveBeenCalled());
+
+    // ASSERT
+    expect(assignMock).toHaveBeenCalledWith(expect.stringContaining('session_token=session-1'));
+  });
+
+  it('should display the multi-factor challenge when required', async () => {
+    // ARRANGE
+    const user = userEvent.setup();
+    render(<SigninForm />);
+    await screen.findByTestId('form-signin');
+
+    // ACT
+    await user.type(screen.getByLabelText('Username'), 'Antonette');
+    await user.type(screen.getByLabelText('Password'), 'aB1!12345678');
+    await user.click(screen.getByTestId('form-signin-button-submit'));
+    await screen.findByTestId('form-signin-mfa');
+    await user.click(screen.getByTestId('form-signin-mfa-input-code-digit-0'));
+    await user.keyboard(MOCK_TOTP_PASSCODE);
+    await user.click(screen.getByTestId('form-signin-mfa-button-submit'));
+    await waitFor(() => expect(assignMock).toHaveBeenCalled());
 
     // ASSERT
-    expect(mockNavigate).toHaveBeenCalledWith('/');
+    expect(assignMock).toHaveBeenCalledWith(expect.stringContaining('session_token=session-2'));
   });
 
   it('should display alert on error', async () => {
@@ -72,5 +100,6 @@ describe('SigninForm', () => {
 
     // ASSERT
     expect(screen.getByTestId('form-signin-error')).toBeDefined();
+    expect(assignMock).not.toHaveBeenCalled();
   });
 });
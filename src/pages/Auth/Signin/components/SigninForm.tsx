@@ -1,5 +1,4 @@
 import { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
 import { useForm } from 'react-hook-form';
 import { useTranslation } from 'react-i18next';
 import { z } from 'zod';
@@ -7,10 +6,22 @@ import { zodResolver } from '@hookform/resolvers/zod';
 
 import { cn } from 'common/utils/css';
 import { BaseComponentProps } from 'common/utils/types';
-import { useSignin } from '../api/useSignin';
+import { MfaChallenge, useSignin } from '../api/useSignin';
 import Input from 'common/components/Form/Input';
 import Button from 'common/components/Button/Button';
 import ErrorAlert from 'common/components/Alert/ErrorAlert';
+import Link from 'common/components/Link/Link';
+import MfaChallengeForm from './MfaChallengeForm';
+
+/**
+ * Properties for the `SigninForm` component.
+ * @param {string | null} [returnTo] - Optional. The location to which the user
+ * is returned after sign in.
+ * @see {@link BaseComponentProps}
+ */
+interface SigninFormProps extends BaseComponentProps {
+  returnTo?: string | null;
+}
 
 /**
  * Signin form values.
@@ -22,19 +33,21 @@ type SigninFormValues = {
 };
 
 /**
- * The `SigninForm` component renders a form for user authentication.
+ * The `SigninForm` component renders a form for user authentication with the
+ * default OIDC provider.
  *
- * Upon successful authentication, navigates the user to the authenticated
- * landing page of the application.
+ * Upon successful verification of the credentials, the browser is redirected
+ * to the provider to complete the sign in. When the provider requires a second
+ * factor, the `MfaChallengeForm` is displayed in place of the credentials.
  *
  * Upon error, displays messages.
  *
- * @param {BaseComponentProps} props - Component properties.
+ * @param {SigninFormProps} props - Component properties.
  */
-const SigninForm = ({ className, testId = 'form-signin' }: BaseComponentProps) => {
+const SigninForm = ({ className, returnTo, testId = 'form-signin' }: SigninFormProps) => {
   const [error, setError] = useState<string>('');
+  const [challenge, setChallenge] = useState<MfaChallenge>();
   const { mutate: signin } = useSignin();
-  const navigate = useNavigate();
   const { t } = useTranslation();
 
   /**
@@ -62,16 +75,32 @@ const SigninForm = ({ className, testId = 'form-signin' }: BaseComponentProps) =
    */
   const onFormSubmit = (data: SigninFormValues) => {
     setError('');
-    signin(data.username, {
-      onSuccess: () => {
-        navigate('/');
+    signin(
+      { ...data, returnTo },
+      {
+        onSuccess: (result) => {
+          if (result.status === 'MFA_REQUIRED') {
+            setChallenge(result.challenge);
+          }
+        },
+        onError: (err: Error) => {
+          setError(err.message);
+        },
       },
-      onError: (err: Error) => {
-        setError(err.message);
-      },
-    });
+    );
   };
 
+  if (challenge) {
+    return (
+      <MfaChallengeForm
+        challenge={challenge}
+        onCancel={() => setChallenge(undefined)}
+        className={className}
+        testId={`${testId}-mfa`}
+      />
+    );
+  }
+
   return (
     <div className={cn('lg:w-2/3 xl:w-1/2', className)} data-testid={testId}>
       {error && (
@@ -98,13 +127,18 @@ const SigninForm = ({ className, testId = 'form-signin' }: BaseComponentProps) =
           type="password"
           name="password"
           label="Password"
-          className="mb-4"
+          className="mb-2"
           autoComplete="off"
           maxLength={30}
           required
           disabled={formState.isSubmitting}
           testId={`${testId}-input-password`}
         />
+        <div className="mb-4 text-sm">
+          <Link to="/auth/forgot-password" testId={`${testId}-link-forgot-password`}>
+            Forgot password?
+          </Link>
+        </div>
 
         <Button
           type="submit"
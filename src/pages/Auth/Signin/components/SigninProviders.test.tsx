@@ -0,0 +1,59 @@
+import { beforeEach, describe, expect, it, Mock } from 'vitest';
+import userEvent from '@testing-library/user-event';
+
+import { render, screen, waitFor } from 'test/test-utils';
+import { mockLocationAssign } from 'test/mocks/window';
+import { configFixture } from '__fixtures__/config';
+
+import SigninProviders from './SigninProviders';
+
+describe('SigninProviders', () => {
+  const provider = configFixture.VITE_OIDC_PROVIDERS[0];
+  let assignMock: Mock;
+
+  beforeEach(() => {
+    assignMock = mockLocationAssign();
+  });
+
+  it('should render successfully', async () => {
+    // ARRANGE
+    render(<SigninProviders />);
+    await screen.findByTestId('signin-providers');
+
+    // ASSERT
+    expect(screen.getByTestId('signin-providers')).toBeDefined();
+  });
+
+  it('should use custom testId', async () => {
+    // ARRANGE
+    render(<SigninProviders testId="custom-testId" />);
+    await screen.findByTestId('custom-testId');
+
+    // ASSERT
+    expect(screen.getByTestId('custom-testId')).toBeDefined();
+  });
+
+  it('should render a button for each provider', async () => {
+    // ARRANGE
+    render(<SigninProviders />);
+    await screen.findByTestId('signin-providers');
+
+    // ASSERT
+    expect(screen.getAllByRole('button').length).toBe(configFixture.VITE_OIDC_PROVIDERS.length);
+    expect(screen.getByTestId(`signin-providers-button-${provider.id}`)).toHaveTextContent(provider.name);
+  });
+
+  it('should redirect to the provider', async () => {
+    // ARRANGE
+    const user = userEvent.setup();
+    render(<SigninProviders />);
+    await screen.findByTestId('signin-providers');
+
+    // ACT
+    await user.click(screen.getByTestId(`signin-providers-button-${provider.id}`));
+    await waitFor(() => expect(assignMock).toHaveBeenCalled());
+
+    // ASSERT
+    expect(assignMock).toHaveBeenCalledWith(expect.stringContaining(`${provider.issuer}/authorize`));
+  });
+});
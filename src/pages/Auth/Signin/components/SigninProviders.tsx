@@ -0,0 +1,74 @@
+import { useState } from 'react';
+
+import { cn } from 'common/utils/css';
+import { BaseComponentProps } from 'common/utils/types';
+import { useConfig } from 'common/hooks/useConfig';
+import { useSignin } from '../api/useSignin';
+import Button from 'common/components/Button/Button';
+import ErrorAlert from 'common/components/Alert/ErrorAlert';
+
+/**
+ * Properties for the `SigninProviders` component.
+ * @param {string | null} [returnTo] - Optional. The location to which the user
+ * is returned after sign in.
+ * @see {@link BaseComponentProps}
+ */
+interface SigninProvidersProps extends BaseComponentProps {
+  returnTo?: string | null;
+}
+
+/**
+ * The `SigninProviders` component renders a button for each configured OIDC
+ * provider. Selecting a provider redirects the browser to the provider sign
+ * in page.
+ *
+ * Upon error, displays messages.
+ *
+ * @param {SigninProvidersProps} props - Component properties.
+ */
+const SigninProviders = ({ className, returnTo, testId = 'signin-providers' }: SigninProvidersProps) => {
+  const [error, setError] = useState<string>('');
+  const config = useConfig();
+  const { mutate: signin, isPending } = useSignin();
+
+  /**
+   * Handles the selection of a provider.
+   * @param {string} providerId - The provider identifier.
+   */
+  const onProviderClick = (providerId: string) => {
+    setError('');
+    signin(
+      { providerId, returnTo },
+      {
+        onError: (err: Error) => {
+          setError(err.message);
+        },
+      },
+    );
+  };
+
+  return (
+    <div className={cn('lg:w-2/3 xl:w-1/2', className)} data-testid={testId}>
+      {error && (
+        <ErrorAlert title="Authentication failed" description={error} className="mb-4" testId={`${testId}-error`} />
+      )}
+
+      <div className="flex flex-col gap-2">
+        {config.VITE_OIDC_PROVIDERS.map((provider) => (
+          <Button
+            key={provider.id}
+            variant="outline"
+            className="w-full sm:w-80"
+            onClick={() => onProviderClick(provider.id)}
+            disabled={isPending}
+            testId={`${testId}-button-${provider.id}`}
+          >
+            Continue with {provider.name}
+          </Button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default SigninProviders;
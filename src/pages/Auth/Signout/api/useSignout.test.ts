@@ -1,7 +1,11 @@
 import { describe, expect, it, vi } from 'vitest';
 
+import { QueryKey, StorageKey } from 'common/utils/constants';
+import idbStorage from 'common/utils/idbStorage';
 import storage from 'common/utils/storage';
+import { todosFixture } from '__fixtures__/todos';
 import { renderHook, waitFor } from 'test/test-utils';
+import { queryClient } from 'test/query-client';
 
 import { useSignout } from './useSignout';
 
@@ -24,7 +28,7 @@ describe('useSignout', () => {
 
     // ARRANGE
     expect(isSuccess).toBe(true);
-    expect(removeItemSpy).toHaveBeenCalledTimes(2);
+    expect(removeItemSpy).toHaveBeenCalledTimes(3);
   });
 
   it('should error on failure to signout', async () => {
@@ -42,4 +46,48 @@ describe('useSignout', () => {
     // ARRANGE
     expect(removeItemSpy).toHaveBeenCalled();
   });
+
+  it('should discard queued mutations', async () => {
+    // ARRANGE
+    const { result } = renderHook(() => useSignout());
+    await waitFor(() => expect(result.current).not.toBeNull());
+    queryClient.getMutationCache().build(
+      queryClient,
+      { mutationKey: ['queued'] },
+      {
+        context: undefined,
+        data: undefined,
+        error: null,
+        failureCount: 0,
+        failureReason: null,
+        isPaused: true,
+        status: 'pending',
+        variables: undefined,
+        submittedAt: Date.now(),
+      },
+    );
+
+    // ACT
+    result.current.mutate();
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+    // ASSERT
+    expect(queryClient.getMutationCache().find({ mutationKey: ['queued'] })).toBeUndefined();
+  });
+
+  it('should discard cached data', async () => {
+    // ARRANGE
+    const idbRemoveItemSpy = vi.spyOn(idbStorage, 'removeItem').mockResolvedValue();
+    const { result } = renderHook(() => useSignout());
+    await waitFor(() => expect(result.current).not.toBeNull());
+    queryClient.setQueryData([QueryKey.Tasks, { userId: 1 }], todosFixture);
+
+    // ACT
+    result.current.mutate();
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+    // ASSERT
+    expect(queryClient.getQueryData([QueryKey.Tasks, { userId: 1 }])).toBeUndefined();
+    expect(idbRemoveItemSpy).toHaveBeenCalledWith(StorageKey.QueryCache);
+  });
 });
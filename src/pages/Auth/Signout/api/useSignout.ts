@@ -1,5 +1,6 @@
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { QueryKey, StorageKey } from 'common/utils/constants';
+import idbStorage from 'common/utils/idbStorage';
 import storage from 'common/utils/storage';
 
 /**
@@ -22,7 +23,8 @@ export const useSignout = () => {
     return new Promise((resolve, reject) => {
       try {
         storage.removeItem(StorageKey.UserTokens);
-        storage.removeItem(StorageKey.User);
+        storage.removeItem(StorageKey.LastActivity);
+        storage.removeItem(StorageKey.Impersonation);
         resolve();
       } catch (err) {
         reject(err);
@@ -35,6 +37,16 @@ export const useSignout = () => {
     onSuccess: () => {
       queryClient.resetQueries({ queryKey: [QueryKey.UserTokens] });
       queryClient.resetQueries({ queryKey: [QueryKey.Users] });
+      // discard the changes queued while offline, so they are not sent for another user
+      const mutationCache = queryClient.getMutationCache();
+      mutationCache.findAll({ predicate: (mutation) => mutation.state.isPaused }).forEach((mutation) => {
+        mutationCache.remove(mutation);
+      });
+      // discard the cached data, so it is not shown to another user
+      queryClient.removeQueries({ type: 'inactive' });
+      idbStorage.removeItem(StorageKey.QueryCache).catch(() => {
+        // storage is not available; nothing was persisted
+      });
     },
   });
 };
@@ -0,0 +1,57 @@
+import { describe, expect, it, vi } from 'vitest';
+import { MemoryRouter, Route, Routes } from 'react-router-dom';
+
+import { render, screen } from 'test/test-utils';
+import AllProvidersExceptRouter from 'test/wrappers/AllProvidersExceptRouter';
+import * as UseAuth from 'common/hooks/useAuth';
+
+import SignupPage from './SignupPage';
+
+describe('SignupPage', () => {
+  it('should render successfully', async () => {
+    // ARRANGE
+    render(<SignupPage />);
+    await screen.findByTestId('page-signup');
+
+    // ASSERT
+    expect(screen.getByTestId('page-signup')).toBeDefined();
+    expect(screen.getByTestId('page-signup-link-signin')).toHaveAttribute('href', '/auth/signin');
+  });
+
+  it('should carry the return location to sign in', async () => {
+    // ARRANGE
+    render(
+      <MemoryRouter initialEntries={['/auth/signup?returnTo=%2Fapp%2Ftasks']}>
+        <Routes>
+          <Route path="/auth/signup" element={<SignupPage />} />
+        </Routes>
+      </MemoryRouter>,
+      { wrapper: AllProvidersExceptRouter },
+    );
+    await screen.findByTestId('page-signup');
+
+    // ASSERT
+    expect(screen.getByTestId('page-signup-link-signin')).toHaveAttribute(
+      'href',
+      '/auth/signin?returnTo=%2Fapp%2Ftasks',
+    );
+  });
+
+  it('should return an authenticated user to the return location', async () => {
+    // ARRANGE
+    vi.spyOn(UseAuth, 'useAuth').mockReturnValue({ isAuthenticated: true });
+    render(
+      <MemoryRouter initialEntries={['/auth/signup?returnTo=%2Fapp%2Ftasks']}>
+        <Routes>
+          <Route path="/auth/signup" element={<SignupPage />} />
+          <Route path="/app/tasks" element={<div data-testid="page-tasks" />} />
+        </Routes>
+      </MemoryRouter>,
+      { wrapper: AllProvidersExceptRouter },
+    );
+    await screen.findByTestId('page-tasks');
+
+    // ASSERT
+    expect(screen.getByTestId('page-tasks')).toBeDefined();
+  });
+});
@@ -0,0 +1,47 @@
+import { Navigate, useSearchParams } from 'react-router-dom';
+
+import { useAuth } from 'common/hooks/useAuth';
+import { SearchParam } from 'common/utils/constants';
+import { getSafeReturnTo, getSigninPath } from 'common/utils/returnTo';
+import Page from 'common/components/Content/Page';
+import Container from 'common/components/Content/Container';
+import Heading from 'common/components/Text/Heading';
+import Link from 'common/components/Link/Link';
+import SignupForm from './components/SignupForm';
+
+/**
+ * The `SignupPage` component renders the content for a user registration
+ * page.
+ *
+ * The `returnTo` search parameter holds the location to which the user is
+ * returned after signing in with the new account. An authenticated user is
+ * returned immediately.
+ */
+const SignupPage = () => {
+  const { isAuthenticated } = useAuth();
+  const [searchParams] = useSearchParams();
+  const returnTo = searchParams.get(SearchParam.returnTo);
+
+  if (isAuthenticated) {
+    return <Navigate to={getSafeReturnTo(returnTo)} replace />;
+  }
+
+  return (
+    <Page testId="page-signup">
+      <Container className="my-6 min-h-[50vh]">
+        <Heading level={1} className="mb-4 border-b border-neutral-500/50 pb-2">
+          Sign Up
+        </Heading>
+        <SignupForm returnTo={returnTo} />
+        <div className="text-sm">
+          Already have an account?{' '}
+          <Link to={getSigninPath(returnTo ?? undefined)} testId="page-signup-link-signin">
+            Sign In
+          </Link>
+        </div>
+      </Container>
+    </Page>
+  );
+};
+
+export default SignupPage;
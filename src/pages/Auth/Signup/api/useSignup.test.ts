@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+
+import { renderHook, waitFor } from 'test/test-utils';
+import { userFixture1 } from '__fixtures__/users';
+import { ApiError } from 'common/utils/apiError';
+
+import { useSignup } from './useSignup';
+
+describe('useSignup', () => {
+  it('should register user', async () => {
+    // ARRANGE
+    const { result } = renderHook(() => useSignup());
+    await waitFor(() => expect(result.current).not.toBeNull());
+
+    // ACT
+    result.current.mutate({ name: 'Jane Doe', username: 'jdoe', email: 'jane@example.com', password: 'aB1!12345678' });
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+    // ASSERT
+    expect(result.current.data).toMatchObject({ name: 'Jane Doe', username: 'jdoe', email: 'jane@example.com' });
+    expect(result.current.data?.id).toBeDefined();
+  });
+
+  it('should error with field errors when already registered', async () => {
+    // ARRANGE
+    const { result } = renderHook(() => useSignup());
+    await waitFor(() => expect(result.current).not.toBeNull());
+
+    // ACT
+    result.current.mutate({
+      name: 'Jane Doe',
+      username: userFixture1.username,
+      email: userFixture1.email,
+      password: 'aB1!12345678',
+    });
+    await waitFor(() => expect(result.current.isError).toBe(true));
+
+    // ASSERT
+    expect(result.current.error).toBeInstanceOf(ApiError);
+    expect((result.current.error as ApiError).status).toBe(409);
+    expect((result.current.error as ApiError).errors).toEqual({
+      username: [expect.any(String)],
+      email: [expect.any(String)],
+    });
+  });
+});
@@ -0,0 +1,51 @@
+import { useMutation } from '@tanstack/react-query';
+
+import { User } from 'common/api/generated/models';
+import { userSchema } from 'common/api/generated/schemas';
+import { useApi } from 'common/hooks/useApi';
+import { toApiError } from 'common/utils/apiError';
+import { validateResponse } from 'common/utils/responseValidation';
+
+/**
+ * The `useSignup` mutation function variables.
+ */
+export type SignupVariables = {
+  name: string;
+  username: string;
+  email: string;
+  password: string;
+};
+
+/**
+ * An API hook which registers a new user account.
+ *
+ * When the username or email address is already registered, the mutation
+ * fails with an `ApiError` whose `errors` describe the conflicting attributes.
+ * @returns Returns a `UseMutationResult` with the registered `User` as data.
+ */
+export const useSignup = () => {
+  const api = useApi('identity');
+
+  /**
+   * Registers a user.
+   * @param {SignupVariables} variables - The mutation function variables.
+   * @returns Returns a Promise which resolves to the registered `User` if
+   * successful, otherwise throws an `ApiError`.
+   */
+  const signup = async (variables: SignupVariables): Promise<Pick<User, 'id' | 'name' | 'username' | 'email'>> => {
+    try {
+      const response = await api.request({
+        method: 'post',
+        url: `/users`,
+        data: variables,
+      });
+      return validateResponse(userSchema.pick({ id: true, name: true, username: true, email: true }), response);
+    } catch (err) {
+      throw toApiError(err);
+    }
+  };
+
+  return useMutation({
+    mutationFn: signup,
+  });
+};
@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+import { MemoryRouter, Route, Routes } from 'react-router-dom';
+import userEvent from '@testing-library/user-event';
+
+import { render, screen, waitFor } from 'test/test-utils';
+import AllProvidersExceptRouter from 'test/wrappers/AllProvidersExceptRouter';
+import { userFixture1 } from '__fixtures__/users';
+
+import SignupForm from './SignupForm';
+
+describe('SignupForm', () => {
+  /**
+   * Completes the form with valid values, except as overridden.
+   */
+  const fillForm = async (
+    user: ReturnType<typeof userEvent.setup>,
+    values: { username?: string; email?: string } = {},
+  ) => {
+    await user.type(screen.getByTestId('form-signup-input-name-input'), 'Jane Doe');
+    await user.type(screen.getByTestId('form-signup-input-username-input'), values.username ?? 'jdoe');
+    await user.type(screen.getByTestId('form-signup-input-email-input'), values.email ?? 'jane@example.com');
+    await user.type(screen.getByTestId('form-signup-input-password-input'), 'aB1!12345678');
+    await user.click(screen.getByTestId('form-signup-checkbox-terms-button'));
+  };
+
+  it('should render successfully', async () => {
+    // ARRANGE
+    render(<SignupForm />);
+    await screen.findByTestId('form-signup');
+
+    // ASSERT
+    expect(screen.getByTestId('form-signup')).toBeDefined();
+  });
+
+  it('should use custom testId', async () => {
+    // ARRANGE
+    render(<SignupForm testId="custom-testId" />);
+    await screen.findByTestId('custom-testId');
+
+    // ASSERT
+    expect(screen.getByTestId('custom-testId')).toBeDefined();
+  });
+
+  it('should use custom className', async () => {
+    // ARRANGE
+    render(<SignupForm className="custom-className" />);
+    await screen.findByTestId('form-signup');
+
+    // ASSERT
+    expect(screen.getByTestId('form-signup').classList).toContain('custom-className');
+  });
+
+  it('should display password strength', async () => {
+    // ARRANGE
+    const user = userEvent.setup();
+    render(<SignupForm />);
+    await screen.findByTestId('form-signup');
+
+    // ACT
+    await user.type(screen.getByTestId('form-signup-input-password-input'), 'password');
+
+    // ASSERT
+    expect(screen.getByTestId('form-signup-password-strength-label')).toHaveTextContent('Very weak');
+    expect(screen.getByTestId('form-signup-input-password-error')).toHaveTextContent('Choose a stronger password.');
+  });
+
+  it('should require terms acceptance', async () => {
+    // ARRANGE
+    const user = userEvent.setup();
+    render(<SignupForm />);
+    await screen.findByTestId('form-signup');
+
+    // ACT
+    await fillForm(user);
+    await user.click(screen.getByTestId('form-signup-checkbox-terms-button'));
+    await user.click(screen.getByTestId('form-signup-button-submit'));
+
+    // ASSERT
+    expect(await screen.findByTestId('form-signup-checkbox-terms-error')).toHaveTextContent(
+      'You must accept the terms and conditions.',
+    );
+  });
+
+  it('should direct user to sign in upon successful signup', async () => {
+    // ARRANGE
+    const user = userEvent.setup();
+    render(
+      <MemoryRouter initialEntries={['/auth/signup']}>
+        <Routes>
+          <Route path="/auth/signup" element={<SignupForm returnTo="/app/tasks" />} />
+          <Route path="/auth/signin" element={<div data-testid="page-signin" />} />
+        </Routes>
+      </MemoryRouter>,
+      { wrapper: AllProvidersExceptRouter },
+    );
+    await screen.findByTestId('form-signup');
+
+    // ACT
+    await fillForm(user);
+    await user.click(screen.getByTestId('form-signup-button-submit'));
+    await screen.findByTestId('page-signin');
+
+    // ASSERT
+    expect(screen.getByTestId('page-signin')).toBeDefined();
+  });
+
+  it('should display field errors when already registered', async () => {
+    // ARRANGE
+    const user = userEvent.setup();
+    render(<SignupForm />);
+    await screen.findByTestId('form-signup');
+
+    // ACT
+    await fillForm(user, { username: userFixture1.username, email: userFixture1.email });
+    await user.click(screen.getByTestId('form-signup-button-submit'));
+    await waitFor(() => expect(screen.getByTestId('form-signup-input-username-error')).toBeDefined());
+
+    // ASSERT
+    expect(screen.getByTestId('form-signup-input-username-error')).toHaveTextContent('This username is already taken.');
+    expect(screen.getByTestId('form-signup-input-email-error')).toHaveTextContent(
+      'An account already exists with this email address.',
+    );
+    expect(screen.queryByTestId('form-signup-error')).toBeNull();
+  });
+});
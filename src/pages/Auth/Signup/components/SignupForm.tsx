@@ -0,0 +1,214 @@
+import { useState } from 'react';
+import { useForm, useWatch } from 'react-hook-form';
+import { useNavigate } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { z } from 'zod';
+import { zodResolver } from '@hookform/resolvers/zod';
+
+import { setFormErrors } from 'common/utils/apiError';
+import { cn } from 'common/utils/css';
+import { getPasswordStrength, PASSWORD_MIN_LENGTH, PASSWORD_MIN_STRENGTH } from 'common/utils/password';
+import { getSigninPath } from 'common/utils/returnTo';
+import { BaseComponentProps } from 'common/utils/types';
+import { useToasts } from 'common/hooks/useToasts';
+import { useSignup } from '../api/useSignup';
+import Input from 'common/components/Form/Input';
+import Checkbox from 'common/components/Form/Checkbox';
+import PasswordStrengthMeter from 'common/components/Form/PasswordStrengthMeter';
+import Button from 'common/components/Button/Button';
+import ErrorAlert from 'common/components/Alert/ErrorAlert';
+
+/**
+ * Properties for the `SignupForm` component.
+ * @param {string | null} [returnTo] - Optional. The location to which the user
+ * is returned after signing in with the new account.
+ * @see {@link BaseComponentProps}
+ */
+interface SignupFormProps extends BaseComponentProps {
+  returnTo?: string | null;
+}
+
+/**
+ * Signup form values.
+ */
+type SignupFormValues = {
+  name: string;
+  username: string;
+  email: string;
+  password: string;
+  acceptTerms: boolean;
+};
+
+/**
+ * The `SignupForm` component renders a form for user registration.
+ *
+ * Upon successful registration, the user is directed to sign in with the new
+ * account.
+ *
+ * Upon error, displays messages. When the username or email address is
+ * already registered, the message is displayed with the field.
+ *
+ * @param {SignupFormProps} props - Component properties.
+ */
+const SignupForm = ({ className, returnTo, testId = 'form-signup' }: SignupFormProps) => {
+  const [error, setError] = useState<string>('');
+  const { mutate: signup } = useSignup();
+  const { createToast } = useToasts();
+  const navigate = useNavigate();
+  const { t } = useTranslation();
+
+  /**
+   * Signup form validation schema.
+   */
+  const schema = z.object({
+    name: z
+      .string()
+      .min(1, { message: t('validation.required') })
+      .max(100, { message: t('validation.max', { count: 100 }) }),
+    username: z
+      .string()
+      .min(1, { message: t('validation.required') })
+      .max(30, { message: t('validation.max', { count: 30 }) }),
+    email: z
+      .string()
+      .min(1, { message: t('validation.required') })
+      .pipe(z.email({ message: t('validation.email') })),
+    password: z
+      .string()
+      .min(PASSWORD_MIN_LENGTH, { message: t('validation.min', { count: PASSWORD_MIN_LENGTH }) })
+      .max(64, { message: t('validation.max', { count: 64 }) })
+      .refine((value) => getPasswordStrength(value) >= PASSWORD_MIN_STRENGTH, {
+        message: t('validation.passwordStrength'),
+      }),
+    acceptTerms: z.boolean().refine((value) => value, { message: t('validation.acceptTerms') }),
+  });
+
+  /**
+   * Initialize management of the form.
+   */
+  const {
+    control,
+    formState,
+    handleSubmit,
+    setError: setFieldError,
+  } = useForm<SignupFormValues>({
+    defaultValues: { name: '', username: '', email: '', password: '', acceptTerms: false },
+    mode: 'all',
+    resolver: zodResolver(schema),
+  });
+  const password = useWatch({ control, name: 'password' });
+
+  /**
+   * Handles the form submission.
+   * @returns A Promise which resolves empty when the mutation function completes.
+   */
+  const onFormSubmit = ({ name, username, email, password }: SignupFormValues): Promise<void> => {
+    setError('');
+    return new Promise<void>((resolve) => {
+      signup(
+        { name, username, email, password },
+        {
+          onSuccess: () => {
+            createToast({
+              text: 'Your account has been created. Please sign in.',
+              isAutoDismiss: true,
+              variant: 'success',
+            });
+            navigate(getSigninPath(returnTo ?? undefined));
+          },
+          onError: (err: Error) => {
+            // display the conflicts with the fields
+            if (!setFormErrors(err, setFieldError, ['username', 'email'])) {
+              setError(err.message);
+            }
+          },
+          onSettled: () => {
+            resolve();
+          },
+        },
+      );
+    });
+  };
+
+  return (
+    <div className={cn('lg:w-2/3 xl:w-1/2', className)} data-testid={testId}>
+      {error && (
+        <ErrorAlert title="Registration failed" description={error} className="mb-4" testId={`${testId}-error`} />
+      )}
+
+      <form onSubmit={handleSubmit(onFormSubmit)} noValidate>
+        <Input
+          control={control}
+          name="name"
+          label="Name"
+          className="mb-4"
+          autoFocus
+          autoComplete="name"
+          maxLength={100}
+          required
+          disabled={formState.isSubmitting}
+          testId={`${testId}-input-name`}
+        />
+
+        <Input
+          control={control}
+          name="username"
+          label="Username"
+          className="mb-4"
+          autoComplete="username"
+          maxLength={30}
+          required
+          disabled={formState.isSubmitting}
+          testId={`${testId}-input-username`}
+        />
+
+        <Input
+          control={control}
+          type="email"
+          name="email"
+          label="Email"
+          className="mb-4"
+          autoComplete="email"
+          required
+          disabled={formState.isSubmitting}
+          testId={`${testId}-input-email`}
+        />
+
+        <Input
+          control={control}
+          type="password"
+          name="password"
+          label="Password"
+          supportingText={`Use at least ${PASSWORD_MIN_LENGTH} characters with a mix of upper and lower case letters, numbers, and symbols.`}
+          className="mb-2"
+          autoComplete="new-password"
+          maxLength={64}
+          required
+          disabled={formState.isSubmitting}
+          testId={`${testId}-input-password`}
+        />
+        <PasswordStrengthMeter password={password} className="mb-4" testId={`${testId}-password-strength`} />
+
+        <Checkbox
+          control={control}
+          name="acceptTerms"
+          label="I accept the terms and conditions"
+          required
+          disabled={formState.isSubmitting}
+          testId={`${testId}-checkbox-terms`}
+        />
+
+        <Button
+          type="submit"
+          className="my-8 w-full sm:w-40"
+          disabled={formState.isSubmitting || !formState.isDirty}
+          testId={`${testId}-button-submit`}
+        >
+          Sign Up
+        </Button>
+      </form>
+    </div>
+  );
+};
+
+export default SignupForm;
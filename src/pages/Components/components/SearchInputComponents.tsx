@@ -40,7 +40,8 @@ const SearchInputComponents = ({ className, testId = 'components-search-input' }
     },
     {
       name: 'onChange',
-      description: 'Function invoked when the input value changes.',
+      description:
+        'Function invoked when the input value changes, with the value and an AbortSignal which aborts when the value changes again.',
     },
     {
       name: 'searchResults',
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { render, screen } from 'test/test-utils';
+
+import ForbiddenPage from './ForbiddenPage';
+
+describe('ForbiddenPage', () => {
+  it('should render successfully', async () => {
+    // ARRANGE
+    render(<ForbiddenPage />);
+    await screen.findByTestId('page-forbidden');
+
+    // ASSERT
+    expect(screen.getByTestId('page-forbidden')).toBeDefined();
+  });
+
+  it('should use custom testId', async () => {
+    // ARRANGE
+    render(<ForbiddenPage testId="custom-testId" />);
+    await screen.findByTestId('custom-testId');
+
+    // ASSERT
+    expect(screen.getByTestId('custom-testId')).toBeDefined();
+  });
+});
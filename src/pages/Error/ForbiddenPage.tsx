@@ -0,0 +1,35 @@
+import { Link } from 'react-router-dom';
+
+import { PropsWithTestId } from 'common/utils/types';
+
+/**
+ * Properties for the `ForbiddenPage` component.
+ * @see {@link PropsWithTestId}
+ */
+interface ForbiddenPageProps extends PropsWithTestId {}
+
+/**
+ * The `ForbiddenPage` component is rendered in place of a route when the
+ * authenticated user does not hold the roles or permissions which the route
+ * requires, i.e. HTTP 403 Forbidden.
+ * @param {ForbiddenPageProps} props - Component properties.
+ */
+const ForbiddenPage = ({ testId = 'page-forbidden' }: ForbiddenPageProps) => {
+  return (
+    <div data-testid={testId} className="flex h-[50vh] flex-col items-center justify-center">
+      <div className="max-w-2xl">
+        <div className="mb-4 flex items-center">
+          <div className="text-xl font-bold md:text-3xl">403 - Access denied</div>
+        </div>
+        <div className="mb-6">You do not have permission to view this page.</div>
+        <div>
+          <Link to="/" className="text-blue-500 hover:opacity-80">
+            Go back
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ForbiddenPage;
@@ -3,9 +3,13 @@ import { UseQueryResult } from '@tanstack/react-query';
 
 import { render, screen } from 'test/test-utils';
 
-import { User } from 'common/api/useGetUser';
+import { User } from 'common/api/generated/models';
 import * as UseGetCurrentUser from 'common/api/useGetCurrentUser';
+import * as UseAuth from 'common/hooks/useAuth';
+import * as UseConfig from 'common/hooks/useConfig';
+import { Role } from 'common/utils/constants';
 import { userFixture1 } from '__fixtures__/users';
+import { configFixture } from '__fixtures__/config';
 
 import SettingsPage from './SettingsPage';
 
@@ -48,4 +52,43 @@ describe('SettingsPage', () => {
     // ASSERT
     expect(screen.getByTestId('page-settings-header-loader')).toBeDefined();
   });
+
+  it('should render view as user menu item for administrators', async () => {
+    // ARRANGE
+    vi.spyOn(UseAuth, 'useAuth').mockReturnValue({ isAuthenticated: true, roles: [Role.Admin, Role.User] });
+    render(<SettingsPage />);
+    await screen.findByTestId('page-settings-menu');
+
+    // ASSERT
+    expect(screen.getByText('View as user')).toBeDefined();
+  });
+
+  it('should not render view as user menu item for other users', async () => {
+    // ARRANGE
+    vi.spyOn(UseAuth, 'useAuth').mockReturnValue({ isAuthenticated: true, roles: [Role.User] });
+    render(<SettingsPage />);
+    await screen.findByTestId('page-settings-menu');
+
+    // ASSERT
+    expect(screen.queryByText('View as user')).toBeNull();
+  });
+
+  it('should render feature flags menu item outside production', async () => {
+    // ARRANGE
+    render(<SettingsPage />);
+    await screen.findByTestId('page-settings-menu');
+
+    // ASSERT
+    expect(screen.getByText('Feature flags')).toBeDefined();
+  });
+
+  it('should not render feature flags menu item in production', async () => {
+    // ARRANGE
+    vi.spyOn(UseConfig, 'useConfig').mockReturnValue({ ...configFixture, VITE_BUILD_ENV_CODE: 'prd' });
+    render(<SettingsPage />);
+    await screen.findByTestId('page-settings-menu');
+
+    // ASSERT
+    expect(screen.queryByText('Feature flags')).toBeNull();
+  });
 });
@@ -1,6 +1,11 @@
 import { Outlet } from 'react-router-dom';
 
 import { useGetCurrentUser } from 'common/api/useGetCurrentUser';
+import { useAuth } from 'common/hooks/useAuth';
+import { useFeatureFlags } from 'common/hooks/useFeatureFlags';
+import { hasSomeRole } from 'common/utils/authorization';
+import { Role } from 'common/utils/constants';
+import Feature from 'common/components/Feature/Feature';
 import Avatar from 'common/components/Icon/Avatar';
 import Skeleton from 'common/components/Loader/Skeleton';
 import MenuNavLink from 'common/components/Menu/MenuNavLink';
@@ -15,6 +20,8 @@ import Container from 'common/components/Content/Container';
  */
 const SettingsPage = () => {
   const { data: user } = useGetCurrentUser();
+  const { roles } = useAuth();
+  const { isOverrideAllowed } = useFeatureFlags();
 
   return (
     <Page testId="page-settings">
@@ -39,6 +46,24 @@ const SettingsPage = () => {
             <MenuNavLink to="appearance" icon="paintbrush" styleActive>
               Appearance
             </MenuNavLink>
+            <MenuNavLink to="security" icon="shieldHalved" styleActive>
+              Security
+            </MenuNavLink>
+            <Feature flag="passkeys">
+              <MenuNavLink to="passkeys" icon="key" styleActive>
+                Passkeys
+              </MenuNavLink>
+            </Feature>
+            {hasSomeRole(roles, [Role.Admin]) && (
+              <MenuNavLink to="impersonation" icon="users" styleActive>
+                View as user
+              </MenuNavLink>
+            )}
+            {isOverrideAllowed && (
+              <MenuNavLink to="feature-flags" icon="toggleOn" styleActive>
+                Feature flags
+              </MenuNavLink>
+            )}
           </Columns.Column>
           <Columns.Column testId="page-settings-content">
             <Outlet />
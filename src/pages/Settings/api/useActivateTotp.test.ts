@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+
+import { renderHook, waitFor } from 'test/test-utils';
+import { mockAuthenticatedUser } from 'test/mocks/auth';
+import { MOCK_TOTP_PASSCODE } from 'test/mocks/idp';
+import { useEnrollTotp } from './useEnrollTotp';
+
+import { useActivateTotp } from './useActivateTotp';
+
+describe('useActivateTotp', () => {
+  const enroll = async () => {
+    const { result } = renderHook(() => useEnrollTotp());
+    await waitFor(() => expect(result.current).not.toBeNull());
+    await result.current.mutateAsync();
+  };
+
+  it('should error when code is incorrect', async () => {
+    // ARRANGE
+    mockAuthenticatedUser(1);
+    await enroll();
+    const { result } = renderHook(() => useActivateTotp());
+    await waitFor(() => expect(result.current).not.toBeNull());
+
+    // ACT
+    result.current.mutate({ passCode: '000000' });
+    await waitFor(() => expect(result.current.isError).toBe(true));
+
+    // ASSERT
+    expect(result.current.error?.message).toBe('The code is incorrect. Please try again.');
+  });
+
+  it('should activate an authenticator app', async () => {
+    // ARRANGE
+    mockAuthenticatedUser(1);
+    await enroll();
+    const { result } = renderHook(() => useActivateTotp());
+    await waitFor(() => expect(result.current).not.toBeNull());
+
+    // ACT
+    result.current.mutate({ passCode: MOCK_TOTP_PASSCODE });
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+    // ASSERT
+    expect(result.current.data?.status).toBe('ACTIVE');
+    expect(result.current.data?.recoveryCodes.length).toBeGreaterThan(0);
+  });
+
+  it('should error when no setup is pending', async () => {
+    // ARRANGE
+    mockAuthenticatedUser(2);
+    const { result } = renderHook(() => useActivateTotp());
+    await waitFor(() => expect(result.current).not.toBeNull());
+
+    // ACT
+    result.current.mutate({ passCode: MOCK_TOTP_PASSCODE });
+    await waitFor(() => expect(result.current.isError).toBe(true));
+
+    // ASSERT
+    expect(result.current.error?.message).toBe('The setup has expired. Please start again.');
+  });
+});
@@ -0,0 +1,76 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { isAxiosError } from 'axios';
+import { z } from 'zod';
+
+import { useAxios } from 'common/hooks/useAxios';
+import { useAuth } from 'common/hooks/useAuth';
+import { QueryKey } from 'common/utils/constants';
+import { validateResponse } from 'common/utils/responseValidation';
+import { getFactorsEndpoint, MfaFactor, mfaFactorSchema } from './useGetMfaFactors';
+
+/**
+ * The `useActivateTotp` mutation function variables.
+ * @param passCode - A one-time code from the authenticator app.
+ */
+export type ActivateTotpVariables = {
+  passCode: string;
+};
+
+/**
+ * The `ActivatedTotp` type. An active authenticator app enrollment with the
+ * single use `recoveryCodes` which the user must save. They are not
+ * displayed again.
+ */
+export type ActivatedTotp = MfaFactor & {
+  recoveryCodes: string[];
+};
+
+/**
+ * Zod schema for an `ActivatedTotp`.
+ */
+const activatedTotpSchema = mfaFactorSchema.extend({
+  recoveryCodes: z.array(z.string()),
+}) satisfies z.ZodType<ActivatedTotp>;
+
+/**
+ * An API hook which activates a pending authenticator app enrollment.
+ *
+ * When successful, the hook invalidates cached `MfaFactor` query data.
+ *
+ * @returns Returns a `UseMutationResult` with `ActivatedTotp` data.
+ */
+export const useActivateTotp = () => {
+  const queryClient = useQueryClient();
+  const axios = useAxios();
+  const { provider } = useAuth();
+
+  /**
+   * Activate an authenticator app.
+   * @param {ActivateTotpVariables} variables - The mutation function variables.
+   */
+  const activateTotp = async ({ passCode }: ActivateTotpVariables): Promise<ActivatedTotp> => {
+    try {
+      const response = await axios.request({
+        method: 'post',
+        url: `${await getFactorsEndpoint(queryClient, axios, provider)}/totp/activate`,
+        data: { passCode },
+      });
+      return validateResponse(activatedTotpSchema, response);
+    } catch (err) {
+      if (isAxiosError(err) && err.response?.status === 401) {
+        throw new Error('The code is incorrect. Please try again.');
+      }
+      if (isAxiosError(err) && err.response?.status === 404) {
+        throw new Error('The setup has expired. Please start again.');
+      }
+      throw err;
+    }
+  };
+
+  return useMutation({
+    mutationFn: activateTotp,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [QueryKey.MfaFactors] });
+    },
+  });
+};
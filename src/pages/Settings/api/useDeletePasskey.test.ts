@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+
+import { renderHook, waitFor } from 'test/test-utils';
+import { mockAuthenticatedUser } from 'test/mocks/auth';
+import { useGetPasskeys } from './useGetPasskeys';
+
+import { useDeletePasskey } from './useDeletePasskey';
+
+describe('useDeletePasskey', () => {
+  it('should revoke a passkey', async () => {
+    // ARRANGE
+    mockAuthenticatedUser(1);
+    const { result } = renderHook(() => ({ passkeys: useGetPasskeys(), deletePasskey: useDeletePasskey() }));
+    await waitFor(() => expect(result.current.passkeys.data).toHaveLength(1));
+
+    // ACT
+    result.current.deletePasskey.mutate({ passkey: result.current.passkeys.data![0] });
+    await waitFor(() => expect(result.current.deletePasskey.isSuccess).toBe(true));
+
+    // ASSERT
+    expect(result.current.passkeys.data).toEqual([]);
+  });
+});
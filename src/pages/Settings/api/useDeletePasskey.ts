@@ -0,0 +1,49 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import reject from 'lodash/reject';
+
+import { useAxios } from 'common/hooks/useAxios';
+import { useAuth } from 'common/hooks/useAuth';
+import { QueryKey } from 'common/utils/constants';
+import { getWebAuthnEndpoint, Passkey } from './useGetPasskeys';
+
+/**
+ * The `useDeletePasskey` mutation function variables.
+ * @param passkey - The `Passkey` to revoke.
+ */
+export type DeletePasskeyVariables = {
+  passkey: Passkey;
+};
+
+/**
+ * An API hook which revokes a passkey. The passkey may no longer be used to
+ * sign in.
+ *
+ * When successful, the hook updates cached `Passkey` query data.
+ *
+ * @returns Returns a `UseMutationResult`.
+ */
+export const useDeletePasskey = () => {
+  const queryClient = useQueryClient();
+  const axios = useAxios();
+  const { provider } = useAuth();
+
+  /**
+   * Revoke a passkey.
+   * @param {DeletePasskeyVariables} variables - The mutation function variables.
+   */
+  const deletePasskey = async ({ passkey }: DeletePasskeyVariables): Promise<void> => {
+    await axios.request({
+      method: 'delete',
+      url: `${await getWebAuthnEndpoint(queryClient, axios, provider)}/credentials/${passkey.id}`,
+    });
+  };
+
+  return useMutation({
+    mutationFn: deletePasskey,
+    onSuccess: (_data, variables) => {
+      queryClient.setQueryData<Passkey[]>([QueryKey.Passkeys], (cachedPasskeys) =>
+        cachedPasskeys ? [...reject(cachedPasskeys, { id: variables.passkey.id })] : [],
+      );
+    },
+  });
+};
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+
+import { renderHook, waitFor } from 'test/test-utils';
+import { mockAuthenticatedUser } from 'test/mocks/auth';
+
+import { useEnrollTotp } from './useEnrollTotp';
+
+describe('useEnrollTotp', () => {
+  it('should enroll an authenticator app', async () => {
+    // ARRANGE
+    mockAuthenticatedUser(1);
+    const { result } = renderHook(() => useEnrollTotp());
+    await waitFor(() => expect(result.current).not.toBeNull());
+
+    // ACT
+    result.current.mutate();
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+    // ASSERT
+    expect(result.current.data?.status).toBe('PENDING_ACTIVATION');
+    expect(result.current.data?.secret).toBeDefined();
+    expect(result.current.data?.qrCode).toMatch(/^data:image/);
+  });
+
+  it('should error when already enrolled', async () => {
+    // ARRANGE
+    mockAuthenticatedUser(2);
+    const { result } = renderHook(() => useEnrollTotp());
+    await waitFor(() => expect(result.current).not.toBeNull());
+
+    // ACT
+    result.current.mutate();
+    await waitFor(() => expect(result.current.isError).toBe(true));
+
+    // ASSERT
+    expect(result.current.isError).toBe(true);
+  });
+});
@@ -0,0 +1,58 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { z } from 'zod';
+
+import { useAxios } from 'common/hooks/useAxios';
+import { useAuth } from 'common/hooks/useAuth';
+import { QueryKey } from 'common/utils/constants';
+import { validateResponse } from 'common/utils/responseValidation';
+import { getFactorsEndpoint, MfaFactor, mfaFactorSchema } from './useGetMfaFactors';
+
+/**
+ * The `TotpEnrollment` type. A pending authenticator app enrollment with the
+ * shared `secret` and a `qrCode` image, as a data URI, which encodes it.
+ */
+export type TotpEnrollment = MfaFactor & {
+  secret: string;
+  qrCode: string;
+};
+
+/**
+ * Zod schema for a `TotpEnrollment`.
+ */
+const totpEnrollmentSchema = mfaFactorSchema.extend({
+  secret: z.string(),
+  qrCode: z.string(),
+}) satisfies z.ZodType<TotpEnrollment>;
+
+/**
+ * An API hook which begins the enrollment of an authenticator app. The
+ * enrollment must be activated with a one-time code from the app.
+ *
+ * When successful, the hook invalidates cached `MfaFactor` query data.
+ *
+ * @returns Returns a `UseMutationResult` with `TotpEnrollment` data.
+ */
+export const useEnrollTotp = () => {
+  const queryClient = useQueryClient();
+  const axios = useAxios();
+  const { provider } = useAuth();
+
+  /**
+   * Enroll an authenticator app.
+   */
+  const enrollTotp = async (): Promise<TotpEnrollment> => {
+    const response = await axios.request({
+      method: 'post',
+      url: await getFactorsEndpoint(queryClient, axios, provider),
+      data: { type: 'token:software:totp' },
+    });
+    return validateResponse(totpEnrollmentSchema, response);
+  };
+
+  return useMutation({
+    mutationFn: enrollTotp,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [QueryKey.MfaFactors] });
+    },
+  });
+};
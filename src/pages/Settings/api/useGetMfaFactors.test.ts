@@ -0,0 +1,41 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { renderHook, waitFor } from 'test/test-utils';
+import { mockAuthenticatedUser } from 'test/mocks/auth';
+import * as UseAuth from 'common/hooks/useAuth';
+
+import { useGetMfaFactors } from './useGetMfaFactors';
+
+describe('useGetMfaFactors', () => {
+  const useAuthSpy = vi.spyOn(UseAuth, 'useAuth');
+
+  it('should get enrolled factors', async () => {
+    // ARRANGE
+    mockAuthenticatedUser(2);
+    const { result } = renderHook(() => useGetMfaFactors());
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+    // ASSERT
+    expect(result.current.data).toEqual([expect.objectContaining({ id: 'totp', status: 'ACTIVE' })]);
+  });
+
+  it('should get no factors when not enrolled', async () => {
+    // ARRANGE
+    mockAuthenticatedUser(1);
+    const { result } = renderHook(() => useGetMfaFactors());
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+    // ASSERT
+    expect(result.current.data).toEqual([]);
+  });
+
+  it('should error when provider does not support factors', async () => {
+    // ARRANGE
+    useAuthSpy.mockReturnValue({ isAuthenticated: true });
+    const { result } = renderHook(() => useGetMfaFactors());
+    await waitFor(() => expect(result.current.isError).toBe(true));
+
+    // ASSERT
+    expect(result.current.error?.message).toBe('Two-factor authentication is not supported.');
+  });
+});
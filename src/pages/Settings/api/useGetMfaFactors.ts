@@ -0,0 +1,78 @@
+import { QueryClient, UseQueryResult, useQuery, useQueryClient } from '@tanstack/react-query';
+import { AxiosInstance } from 'axios';
+import { z } from 'zod';
+
+import { useAxios } from 'common/hooks/useAxios';
+import { useAuth } from 'common/hooks/useAuth';
+import { QueryKey } from 'common/utils/constants';
+import { OidcProviderConfig } from 'common/utils/config';
+import { oidcConfigurationQueryOptions } from 'common/utils/oidc';
+import { validateResponse } from 'common/utils/responseValidation';
+
+/**
+ * The `MfaFactor` type. An authentication factor enrolled by the user in
+ * addition to their password.
+ */
+export type MfaFactor = {
+  id: string;
+  type: string;
+  status: 'PENDING_ACTIVATION' | 'ACTIVE';
+};
+
+/**
+ * Zod schema for an `MfaFactor`.
+ */
+export const mfaFactorSchema = z.object({
+  id: z.string(),
+  type: z.string(),
+  status: z.enum(['PENDING_ACTIVATION', 'ACTIVE']),
+}) satisfies z.ZodType<MfaFactor>;
+
+/**
+ * Returns the factors endpoint published by the provider which issued the
+ * user tokens.
+ * @param {QueryClient} queryClient - The React Query client.
+ * @param {AxiosInstance} axios - The Axios instance.
+ * @param {OidcProviderConfig} [provider] - The OIDC provider.
+ * @returns {Promise<string>} A Promise which resolves to the endpoint URL,
+ * otherwise throws an Error when the provider does not support multi-factor
+ * enrollment.
+ */
+export const getFactorsEndpoint = async (
+  queryClient: QueryClient,
+  axios: AxiosInstance,
+  provider?: OidcProviderConfig,
+): Promise<string> => {
+  const oidcConfiguration = provider
+    ? await queryClient.fetchQuery(oidcConfigurationQueryOptions(axios, provider))
+    : undefined;
+  if (!oidcConfiguration?.factors_endpoint) {
+    throw new Error('Two-factor authentication is not supported.');
+  }
+  return oidcConfiguration.factors_endpoint;
+};
+
+/**
+ * An API hook which fetches the multi-factor authentication factors enrolled
+ * by the current user.
+ * @returns Returns a `UseQueryResult` with `MfaFactor` collection data.
+ */
+export const useGetMfaFactors = (): UseQueryResult<MfaFactor[], Error> => {
+  const queryClient = useQueryClient();
+  const axios = useAxios();
+  const { isAuthenticated, provider } = useAuth();
+
+  const getMfaFactors = async (signal: AbortSignal): Promise<MfaFactor[]> => {
+    const response = await axios.request({
+      url: await getFactorsEndpoint(queryClient, axios, provider),
+      signal,
+    });
+    return validateResponse(z.array(mfaFactorSchema), response);
+  };
+
+  return useQuery({
+    queryKey: [QueryKey.MfaFactors],
+    queryFn: ({ signal }) => getMfaFactors(signal),
+    enabled: isAuthenticated,
+  });
+};
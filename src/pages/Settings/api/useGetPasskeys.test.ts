@@ -0,0 +1,40 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { renderHook, waitFor } from 'test/test-utils';
+import { mockAuthenticatedUser } from 'test/mocks/auth';
+import { MOCK_PASSKEY_ID } from 'test/mocks/idp';
+import * as UseAuth from 'common/hooks/useAuth';
+
+import { useGetPasskeys } from './useGetPasskeys';
+
+describe('useGetPasskeys', () => {
+  it('should get registered passkeys', async () => {
+    // ARRANGE
+    mockAuthenticatedUser(1);
+    const { result } = renderHook(() => useGetPasskeys());
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+    // ASSERT
+    expect(result.current.data).toEqual([expect.objectContaining({ id: MOCK_PASSKEY_ID, name: 'MacBook Touch ID' })]);
+  });
+
+  it('should get no passkeys when none registered', async () => {
+    // ARRANGE
+    mockAuthenticatedUser(2);
+    const { result } = renderHook(() => useGetPasskeys());
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+    // ASSERT
+    expect(result.current.data).toEqual([]);
+  });
+
+  it('should error when provider does not support passkeys', async () => {
+    // ARRANGE
+    vi.spyOn(UseAuth, 'useAuth').mockReturnValue({ isAuthenticated: true });
+    const { result } = renderHook(() => useGetPasskeys());
+    await waitFor(() => expect(result.current.isError).toBe(true));
+
+    // ASSERT
+    expect(result.current.error?.message).toBe('Passkeys are not supported.');
+  });
+});
@@ -0,0 +1,78 @@
+import { QueryClient, UseQueryResult, useQuery, useQueryClient } from '@tanstack/react-query';
+import { AxiosInstance } from 'axios';
+import { z } from 'zod';
+
+import { useAxios } from 'common/hooks/useAxios';
+import { useAuth } from 'common/hooks/useAuth';
+import { QueryKey } from 'common/utils/constants';
+import { OidcProviderConfig } from 'common/utils/config';
+import { oidcConfigurationQueryOptions } from 'common/utils/oidc';
+import { validateResponse } from 'common/utils/responseValidation';
+
+/**
+ * The `Passkey` type. A WebAuthn credential registered by the user which
+ * signs in without a password.
+ */
+export type Passkey = {
+  id: string;
+  name: string;
+  createdAt: string;
+  lastUsedAt?: string;
+};
+
+/**
+ * Zod schema for a `Passkey`.
+ */
+export const passkeySchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  createdAt: z.string(),
+  lastUsedAt: z.string().optional(),
+}) satisfies z.ZodType<Passkey>;
+
+/**
+ * Returns the WebAuthn endpoint published by the provider which issued the
+ * user tokens.
+ * @param {QueryClient} queryClient - The React Query client.
+ * @param {AxiosInstance} axios - The Axios instance.
+ * @param {OidcProviderConfig} [provider] - The OIDC provider.
+ * @returns {Promise<string>} A Promise which resolves to the endpoint URL,
+ * otherwise throws an Error when the provider does not support passkeys.
+ */
+export const getWebAuthnEndpoint = async (
+  queryClient: QueryClient,
+  axios: AxiosInstance,
+  provider?: OidcProviderConfig,
+): Promise<string> => {
+  const oidcConfiguration = provider
+    ? await queryClient.fetchQuery(oidcConfigurationQueryOptions(axios, provider))
+    : undefined;
+  if (!oidcConfiguration?.webauthn_endpoint) {
+    throw new Error('Passkeys are not supported.');
+  }
+  return oidcConfiguration.webauthn_endpoint;
+};
+
+/**
+ * An API hook which fetches the passkeys registered by the current user.
+ * @returns Returns a `UseQueryResult` with `Passkey` collection data.
+ */
+export const useGetPasskeys = (): UseQueryResult<Passkey[], Error> => {
+  const queryClient = useQueryClient();
+  const axios = useAxios();
+  const { isAuthenticated, provider } = useAuth();
+
+  const getPasskeys = async (signal: AbortSignal): Promise<Passkey[]> => {
+    const response = await axios.request({
+      url: `${await getWebAuthnEndpoint(queryClient, axios, provider)}/credentials`,
+      signal,
+    });
+    return validateResponse(z.array(passkeySchema), response);
+  };
+
+  return useQuery({
+    queryKey: [QueryKey.Passkeys],
+    queryFn: ({ signal }) => getPasskeys(signal),
+    enabled: isAuthenticated,
+  });
+};
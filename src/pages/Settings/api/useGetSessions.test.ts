@@ -0,0 +1,52 @@
+import { describe, expect, it, vi } from 'vitest';
+import { http, HttpResponse } from 'msw';
+
+import { renderHook, waitFor } from 'test/test-utils';
+import { mockAuthenticatedUser } from 'test/mocks/auth';
+import { server } from 'test/mocks/server';
+import { configFixture } from '__fixtures__/config';
+import * as UseAuth from 'common/hooks/useAuth';
+import { SchemaDriftError } from 'common/utils/apiError';
+
+import { useGetSessions } from './useGetSessions';
+
+describe('useGetSessions', () => {
+  it('should get active sessions', async () => {
+    // ARRANGE
+    mockAuthenticatedUser(1);
+    const { result } = renderHook(() => useGetSessions());
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+    // ASSERT
+    expect(result.current.data).toHaveLength(3);
+    expect(result.current.data?.[0]).toEqual(
+      expect.objectContaining({ id: 'session-1', device: 'Mac', browser: 'Chrome', current: true }),
+    );
+    expect(result.current.data?.[1]).toEqual(expect.objectContaining({ id: 'session-1-iphone', current: false }));
+  });
+
+  it('should error when the response does not match the schema', async () => {
+    // ARRANGE
+    mockAuthenticatedUser(1);
+    server.use(
+      http.get(`${configFixture.VITE_OIDC_PROVIDERS[0].issuer}/sessions`, () =>
+        HttpResponse.json([{ id: 'session-1', device: 'Mac' }]),
+      ),
+    );
+    const { result } = renderHook(() => useGetSessions());
+    await waitFor(() => expect(result.current.isError).toBe(true));
+
+    // ASSERT
+    expect(result.current.error).toBeInstanceOf(SchemaDriftError);
+  });
+
+  it('should error when provider does not support session management', async () => {
+    // ARRANGE
+    vi.spyOn(UseAuth, 'useAuth').mockReturnValue({ isAuthenticated: true });
+    const { result } = renderHook(() => useGetSessions());
+    await waitFor(() => expect(result.current.isError).toBe(true));
+
+    // ASSERT
+    expect(result.current.error?.message).toBe('Session management is not supported.');
+  });
+});
@@ -0,0 +1,81 @@
+import { QueryClient, UseQueryResult, useQuery, useQueryClient } from '@tanstack/react-query';
+import { AxiosInstance } from 'axios';
+import { z } from 'zod';
+
+import { useAxios } from 'common/hooks/useAxios';
+import { useAuth } from 'common/hooks/useAuth';
+import { QueryKey } from 'common/utils/constants';
+import { OidcProviderConfig } from 'common/utils/config';
+import { oidcConfigurationQueryOptions } from 'common/utils/oidc';
+import { validateResponse } from 'common/utils/responseValidation';
+
+/**
+ * The `Session` type. A sign in of the user on a device. The `current`
+ * session is the session of this browser.
+ */
+export type Session = {
+  id: string;
+  device: string;
+  browser: string;
+  lastSeenAt: string;
+  current: boolean;
+};
+
+/**
+ * Zod schema for a `Session`.
+ */
+export const sessionSchema = z.object({
+  id: z.string(),
+  device: z.string(),
+  browser: z.string(),
+  lastSeenAt: z.string(),
+  current: z.boolean(),
+}) satisfies z.ZodType<Session>;
+
+/**
+ * Returns the sessions endpoint published by the provider which issued the
+ * user tokens.
+ * @param {QueryClient} queryClient - The React Query client.
+ * @param {AxiosInstance} axios - The Axios instance.
+ * @param {OidcProviderConfig} [provider] - The OIDC provider.
+ * @returns {Promise<string>} A Promise which resolves to the endpoint URL,
+ * otherwise throws an Error when the provider does not support session
+ * management.
+ */
+export const getSessionsEndpoint = async (
+  queryClient: QueryClient,
+  axios: AxiosInstance,
+  provider?: OidcProviderConfig,
+): Promise<string> => {
+  const oidcConfiguration = provider
+    ? await queryClient.fetchQuery(oidcConfigurationQueryOptions(axios, provider))
+    : undefined;
+  if (!oidcConfiguration?.sessions_endpoint) {
+    throw new Error('Session management is not supported.');
+  }
+  return oidcConfiguration.sessions_endpoint;
+};
+
+/**
+ * An API hook which fetches the active sessions of the current user.
+ * @returns Returns a `UseQueryResult` with `Session` collection data.
+ */
+export const useGetSessions = (): UseQueryResult<Session[], Error> => {
+  const queryClient = useQueryClient();
+  const axios = useAxios();
+  const { isAuthenticated, provider } = useAuth();
+
+  const getSessions = async (signal: AbortSignal): Promise<Session[]> => {
+    const response = await axios.request({
+      url: await getSessionsEndpoint(queryClient, axios, provider),
+      signal,
+    });
+    return validateResponse(z.array(sessionSchema), response);
+  };
+
+  return useQuery({
+    queryKey: [QueryKey.Sessions],
+    queryFn: ({ signal }) => getSessions(signal),
+    enabled: isAuthenticated,
+  });
+};
@@ -0,0 +1,63 @@
+import { beforeEach, describe, expect, it, Mock } from 'vitest';
+
+import { renderHook, waitFor } from 'test/test-utils';
+import { mockAuthenticatedUser } from 'test/mocks/auth';
+import { mockWebAuthn } from 'test/mocks/webauthn';
+import { MOCK_PASSKEY_ID } from 'test/mocks/idp';
+
+import { useRegisterPasskey } from './useRegisterPasskey';
+
+describe('useRegisterPasskey', () => {
+  let createMock: Mock;
+
+  beforeEach(() => {
+    createMock = mockWebAuthn().create;
+    mockAuthenticatedUser(2);
+  });
+
+  it('should register a passkey', async () => {
+    // ARRANGE
+    const { result } = renderHook(() => useRegisterPasskey());
+    await waitFor(() => expect(result.current).not.toBeNull());
+
+    // ACT
+    result.current.mutate({ name: 'Pixel' });
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+    // ASSERT
+    expect(createMock).toHaveBeenCalledTimes(1);
+    expect(result.current.data).toEqual(expect.objectContaining({ name: 'Pixel', createdAt: expect.any(String) }));
+  });
+
+  it('should error when passkey already registered', async () => {
+    // ARRANGE
+    const createPasskey = createMock.getMockImplementation()!;
+    createMock.mockImplementationOnce(async (options: CredentialCreationOptions) => ({
+      ...(await createPasskey(options)),
+      id: MOCK_PASSKEY_ID,
+    }));
+    const { result } = renderHook(() => useRegisterPasskey());
+    await waitFor(() => expect(result.current).not.toBeNull());
+
+    // ACT
+    result.current.mutate({ name: 'Pixel' });
+    await waitFor(() => expect(result.current.isError).toBe(true));
+
+    // ASSERT
+    expect(result.current.error?.message).toBe('This passkey is already registered.');
+  });
+
+  it('should error when the user cancels', async () => {
+    // ARRANGE
+    createMock.mockRejectedValueOnce(new DOMException('Cancelled', 'NotAllowedError'));
+    const { result } = renderHook(() => useRegisterPasskey());
+    await waitFor(() => expect(result.current).not.toBeNull());
+
+    // ACT
+    result.current.mutate({ name: 'Pixel' });
+    await waitFor(() => expect(result.current.isError).toBe(true));
+
+    // ASSERT
+    expect(result.current.error?.message).toBe('The passkey request was cancelled or timed out.');
+  });
+});
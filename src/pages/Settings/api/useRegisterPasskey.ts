@@ -0,0 +1,92 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { isAxiosError } from 'axios';
+import { z } from 'zod';
+
+import { useAxios } from 'common/hooks/useAxios';
+import { useAuth } from 'common/hooks/useAuth';
+import { QueryKey } from 'common/utils/constants';
+import { validateResponse } from 'common/utils/responseValidation';
+import {
+  createPasskeyCredential,
+  PublicKeyCredentialCreationOptionsJSON,
+  publicKeyCredentialCreationOptionsSchema,
+} from 'common/utils/webauthn';
+import { getWebAuthnEndpoint, Passkey, passkeySchema } from './useGetPasskeys';
+
+/**
+ * The `useRegisterPasskey` mutation function variables.
+ * @param name - A name which helps the user recognize the passkey.
+ */
+export type RegisterPasskeyVariables = {
+  name: string;
+};
+
+/**
+ * The WebAuthn registration options issued by the provider. The
+ * `challengeId` identifies the challenge when the credential is verified.
+ */
+type RegistrationOptionsResponse = {
+  challengeId: string;
+  publicKey: PublicKeyCredentialCreationOptionsJSON;
+};
+
+/**
+ * Zod schema for a `RegistrationOptionsResponse`.
+ */
+const registrationOptionsResponseSchema = z.object({
+  challengeId: z.string(),
+  publicKey: publicKeyCredentialCreationOptionsSchema,
+}) satisfies z.ZodType<RegistrationOptionsResponse>;
+
+/**
+ * An API hook which registers a new passkey for the current user. The
+ * provider issues a challenge; the browser prompts the user to create a
+ * passkey, which the provider then verifies and stores.
+ *
+ * When successful, the hook updates cached `Passkey` query data.
+ *
+ * @returns Returns a `UseMutationResult` with `Passkey` data.
+ */
+export const useRegisterPasskey = () => {
+  const queryClient = useQueryClient();
+  const axios = useAxios();
+  const { provider } = useAuth();
+
+  /**
+   * Register a passkey.
+   * @param {RegisterPasskeyVariables} variables - The mutation function variables.
+   */
+  const registerPasskey = async ({ name }: RegisterPasskeyVariables): Promise<Passkey> => {
+    const webAuthnEndpoint = await getWebAuthnEndpoint(queryClient, axios, provider);
+
+    const optionsResponse = await axios.request({
+      method: 'post',
+      url: `${webAuthnEndpoint}/registration/options`,
+    });
+    const options = validateResponse(registrationOptionsResponseSchema, optionsResponse);
+    const credential = await createPasskeyCredential(options.publicKey);
+
+    try {
+      const response = await axios.request({
+        method: 'post',
+        url: `${webAuthnEndpoint}/registration/verify`,
+        data: { challengeId: options.challengeId, name, credential },
+      });
+      return validateResponse(passkeySchema, response);
+    } catch (err) {
+      if (isAxiosError(err) && err.response?.status === 409) {
+        throw new Error('This passkey is already registered.');
+      }
+      throw err;
+    }
+  };
+
+  return useMutation({
+    mutationFn: registerPasskey,
+    onSuccess: (data) => {
+      queryClient.setQueryData<Passkey[]>([QueryKey.Passkeys], (cachedPasskeys) =>
+        cachedPasskeys ? [...cachedPasskeys, data] : [data],
+      );
+    },
+  });
+};
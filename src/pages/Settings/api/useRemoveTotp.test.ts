@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+
+import { renderHook, waitFor } from 'test/test-utils';
+import { mockAuthenticatedUser } from 'test/mocks/auth';
+import { useGetMfaFactors } from './useGetMfaFactors';
+
+import { useRemoveTotp } from './useRemoveTotp';
+
+describe('useRemoveTotp', () => {
+  it('should remove the authenticator app', async () => {
+    // ARRANGE
+    mockAuthenticatedUser(2);
+    const { result } = renderHook(() => ({ factors: useGetMfaFactors(), removeTotp: useRemoveTotp() }));
+    await waitFor(() => expect(result.current.factors.data).toHaveLength(1));
+
+    // ACT
+    result.current.removeTotp.mutate();
+    await waitFor(() => expect(result.current.removeTotp.isSuccess).toBe(true));
+
+    // ASSERT
+    expect(result.current.factors.data).toEqual([]);
+  });
+});
@@ -0,0 +1,40 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import reject from 'lodash/reject';
+
+import { useAxios } from 'common/hooks/useAxios';
+import { useAuth } from 'common/hooks/useAuth';
+import { QueryKey } from 'common/utils/constants';
+import { getFactorsEndpoint, MfaFactor } from './useGetMfaFactors';
+
+/**
+ * An API hook which removes the authenticator app enrollment, whether pending
+ * or active.
+ *
+ * When successful, the hook updates cached `MfaFactor` query data.
+ *
+ * @returns Returns a `UseMutationResult`.
+ */
+export const useRemoveTotp = () => {
+  const queryClient = useQueryClient();
+  const axios = useAxios();
+  const { provider } = useAuth();
+
+  /**
+   * Remove the authenticator app.
+   */
+  const removeTotp = async (): Promise<void> => {
+    await axios.request({
+      method: 'delete',
+      url: `${await getFactorsEndpoint(queryClient, axios, provider)}/totp`,
+    });
+  };
+
+  return useMutation({
+    mutationFn: removeTotp,
+    onSuccess: () => {
+      queryClient.setQueryData<MfaFactor[]>([QueryKey.MfaFactors], (cachedFactors) =>
+        cachedFactors ? [...reject(cachedFactors, { id: 'totp' })] : [],
+      );
+    },
+  });
+};
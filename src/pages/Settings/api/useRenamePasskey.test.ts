@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+
+import { renderHook, waitFor } from 'test/test-utils';
+import { mockAuthenticatedUser } from 'test/mocks/auth';
+import { MOCK_PASSKEY_ID } from 'test/mocks/idp';
+import { useGetPasskeys } from './useGetPasskeys';
+
+import { useRenamePasskey } from './useRenamePasskey';
+
+describe('useRenamePasskey', () => {
+  it('should rename a passkey', async () => {
+    // ARRANGE
+    mockAuthenticatedUser(1);
+    const { result } = renderHook(() => ({ passkeys: useGetPasskeys(), renamePasskey: useRenamePasskey() }));
+    await waitFor(() => expect(result.current.passkeys.data).toHaveLength(1));
+
+    // ACT
+    result.current.renamePasskey.mutate({ passkey: result.current.passkeys.data![0], name: 'Work laptop' });
+    await waitFor(() => expect(result.current.renamePasskey.isSuccess).toBe(true));
+
+    // ASSERT
+    expect(result.current.renamePasskey.data).toEqual(
+      expect.objectContaining({ id: MOCK_PASSKEY_ID, name: 'Work laptop' }),
+    );
+    expect(result.current.passkeys.data?.[0].name).toBe('Work laptop');
+  });
+
+  it('should error when passkey belongs to another user', async () => {
+    // ARRANGE
+    mockAuthenticatedUser(2);
+    const { result } = renderHook(() => useRenamePasskey());
+    await waitFor(() => expect(result.current).not.toBeNull());
+
+    // ACT
+    result.current.mutate({
+      passkey: { id: MOCK_PASSKEY_ID, name: 'MacBook Touch ID', createdAt: '2026-01-15T10:00:00.000Z' },
+      name: 'Mine',
+    });
+    await waitFor(() => expect(result.current.isError).toBe(true));
+
+    // ASSERT
+    expect(result.current.isError).toBe(true);
+  });
+});
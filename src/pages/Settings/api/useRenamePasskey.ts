@@ -0,0 +1,52 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+
+import { useAxios } from 'common/hooks/useAxios';
+import { useAuth } from 'common/hooks/useAuth';
+import { QueryKey } from 'common/utils/constants';
+import { validateResponse } from 'common/utils/responseValidation';
+import { getWebAuthnEndpoint, Passkey, passkeySchema } from './useGetPasskeys';
+
+/**
+ * The `useRenamePasskey` mutation function variables.
+ * @param passkey - The `Passkey` to rename.
+ * @param name - The new name.
+ */
+export type RenamePasskeyVariables = {
+  passkey: Passkey;
+  name: string;
+};
+
+/**
+ * An API hook which renames a passkey.
+ *
+ * When successful, the hook updates cached `Passkey` query data.
+ *
+ * @returns Returns a `UseMutationResult` with `Passkey` data.
+ */
+export const useRenamePasskey = () => {
+  const queryClient = useQueryClient();
+  const axios = useAxios();
+  const { provider } = useAuth();
+
+  /**
+   * Rename a passkey.
+   * @param {RenamePasskeyVariables} variables - The mutation function variables.
+   */
+  const renamePasskey = async ({ passkey, name }: RenamePasskeyVariables): Promise<Passkey> => {
+    const response = await axios.request({
+      method: 'patch',
+      url: `${await getWebAuthnEndpoint(queryClient, axios, provider)}/credentials/${passkey.id}`,
+      data: { name },
+    });
+    return validateResponse(passkeySchema, response);
+  };
+
+  return useMutation({
+    mutationFn: renamePasskey,
+    onSuccess: (data) => {
+      queryClient.setQueryData<Passkey[]>([QueryKey.Passkeys], (cachedPasskeys) =>
+        cachedPasskeys ? cachedPasskeys.map((passkey) => (passkey.id === data.id ? data : passkey)) : [data],
+      );
+    },
+  });
+};
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+
+import { renderHook, waitFor } from 'test/test-utils';
+import { mockAuthenticatedUser } from 'test/mocks/auth';
+import { useGetSessions } from './useGetSessions';
+
+import { useRevokeOtherSessions } from './useRevokeOtherSessions';
+
+describe('useRevokeOtherSessions', () => {
+  it('should revoke every other session', async () => {
+    // ARRANGE
+    mockAuthenticatedUser(1);
+    const { result } = renderHook(() => ({
+      sessions: useGetSessions(),
+      revokeOtherSessions: useRevokeOtherSessions(),
+    }));
+    await waitFor(() => expect(result.current.sessions.data).toHaveLength(3));
+
+    // ACT
+    result.current.revokeOtherSessions.mutate();
+    await waitFor(() => expect(result.current.revokeOtherSessions.isSuccess).toBe(true));
+
+    // ASSERT
+    expect(result.current.sessions.data).toEqual([expect.objectContaining({ id: 'session-1', current: true })]);
+  });
+});
@@ -0,0 +1,40 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import filter from 'lodash/filter';
+
+import { useAxios } from 'common/hooks/useAxios';
+import { useAuth } from 'common/hooks/useAuth';
+import { QueryKey } from 'common/utils/constants';
+import { getSessionsEndpoint, Session } from './useGetSessions';
+
+/**
+ * An API hook which revokes every session of the current user except the
+ * current session. The user is signed out everywhere else.
+ *
+ * When successful, the hook updates cached `Session` query data.
+ *
+ * @returns Returns a `UseMutationResult`.
+ */
+export const useRevokeOtherSessions = () => {
+  const queryClient = useQueryClient();
+  const axios = useAxios();
+  const { provider } = useAuth();
+
+  /**
+   * Revoke every other session.
+   */
+  const revokeOtherSessions = async (): Promise<void> => {
+    await axios.request({
+      method: 'delete',
+      url: await getSessionsEndpoint(queryClient, axios, provider),
+    });
+  };
+
+  return useMutation({
+    mutationFn: revokeOtherSessions,
+    onSuccess: () => {
+      queryClient.setQueryData<Session[]>([QueryKey.Sessions], (cachedSessions) =>
+        filter(cachedSessions, { current: true }),
+      );
+    },
+  });
+};
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+
+import { renderHook, waitFor } from 'test/test-utils';
+import { mockAuthenticatedUser } from 'test/mocks/auth';
+import { useGetSessions } from './useGetSessions';
+
+import { useRevokeSession } from './useRevokeSession';
+
+describe('useRevokeSession', () => {
+  it('should revoke a session', async () => {
+    // ARRANGE
+    mockAuthenticatedUser(1);
+    const { result } = renderHook(() => ({ sessions: useGetSessions(), revokeSession: useRevokeSession() }));
+    await waitFor(() => expect(result.current.sessions.data).toHaveLength(3));
+
+    // ACT
+    result.current.revokeSession.mutate({ session: result.current.sessions.data![1] });
+    await waitFor(() => expect(result.current.revokeSession.isSuccess).toBe(true));
+
+    // ASSERT
+    expect(result.current.sessions.data).toHaveLength(2);
+    expect(result.current.sessions.data).not.toContainEqual(expect.objectContaining({ id: 'session-1-iphone' }));
+  });
+
+  it('should error when the session is not found', async () => {
+    // ARRANGE
+    mockAuthenticatedUser(2);
+    const { result } = renderHook(() => useRevokeSession());
+    await waitFor(() => expect(result.current).not.toBeNull());
+
+    // ACT
+    result.current.mutate({
+      session: { id: 'session-1', device: 'Mac', browser: 'Chrome', lastSeenAt: '', current: false },
+    });
+    await waitFor(() => expect(result.current.isError).toBe(true));
+
+    // ASSERT
+    expect(result.current.error).toBeDefined();
+  });
+});
@@ -0,0 +1,48 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import reject from 'lodash/reject';
+
+import { useAxios } from 'common/hooks/useAxios';
+import { useAuth } from 'common/hooks/useAuth';
+import { QueryKey } from 'common/utils/constants';
+import { getSessionsEndpoint, Session } from './useGetSessions';
+
+/**
+ * The `useRevokeSession` mutation function variables.
+ * @param session - The `Session` to revoke.
+ */
+export type RevokeSessionVariables = {
+  session: Session;
+};
+
+/**
+ * An API hook which revokes a session. The device is signed out.
+ *
+ * When successful, the hook updates cached `Session` query data.
+ *
+ * @returns Returns a `UseMutationResult`.
+ */
+export const useRevokeSession = () => {
+  const queryClient = useQueryClient();
+  const axios = useAxios();
+  const { provider } = useAuth();
+
+  /**
+   * Revoke a session.
+   * @param {RevokeSessionVariables} variables - The mutation function variables.
+   */
+  const revokeSession = async ({ session }: RevokeSessionVariables): Promise<void> => {
+    await axios.request({
+      method: 'delete',
+      url: `${await getSessionsEndpoint(queryClient, axios, provider)}/${session.id}`,
+    });
+  };
+
+  return useMutation({
+    mutationFn: revokeSession,
+    onSuccess: (_data, variables) => {
+      queryClient.setQueryData<Session[]>([QueryKey.Sessions], (cachedSessions) =>
+        cachedSessions ? [...reject(cachedSessions, { id: variables.session.id })] : [],
+      );
+    },
+  });
+};
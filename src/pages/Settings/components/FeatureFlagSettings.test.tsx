@@ -0,0 +1,76 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import userEvent from '@testing-library/user-event';
+
+import { render, screen } from 'test/test-utils';
+import { configFixture } from '__fixtures__/config';
+import * as UseConfig from 'common/hooks/useConfig';
+import { StorageKey } from 'common/utils/constants';
+import storage from 'common/utils/storage';
+
+import FeatureFlagSettings from './FeatureFlagSettings';
+
+describe('FeatureFlagSettings', () => {
+  const useConfigSpy = vi.spyOn(UseConfig, 'useConfig');
+
+  afterEach(() => {
+    storage.removeItem(StorageKey.FeatureFlagOverrides);
+  });
+
+  it('should render successfully', async () => {
+    // ARRANGE
+    render(<FeatureFlagSettings />);
+    await screen.findByTestId('settings-feature-flags');
+
+    // ASSERT
+    expect(screen.getByTestId('settings-feature-flags-flag-passkeys-value')).toHaveTextContent('On');
+    expect(screen.getByTestId('settings-feature-flags-flag-sessions-value')).toHaveTextContent('On');
+    expect(screen.getByTestId('settings-feature-flags-button-reset-all')).toBeDisabled();
+  });
+
+  it('should override and reset a flag', async () => {
+    // ARRANGE
+    const user = userEvent.setup();
+    render(<FeatureFlagSettings />);
+    await screen.findByTestId('settings-feature-flags');
+
+    // ACT
+    await user.click(screen.getByTestId('settings-feature-flags-flag-sessions-button-toggle'));
+
+    // ASSERT
+    expect(screen.getByTestId('settings-feature-flags-flag-sessions-value')).toHaveTextContent('Off');
+    expect(screen.getByTestId('settings-feature-flags-flag-sessions-overridden')).toBeDefined();
+
+    // ACT
+    await user.click(screen.getByTestId('settings-feature-flags-flag-sessions-button-reset'));
+
+    // ASSERT
+    expect(screen.getByTestId('settings-feature-flags-flag-sessions-value')).toHaveTextContent('On');
+    expect(screen.queryByTestId('settings-feature-flags-flag-sessions-overridden')).toBeNull();
+  });
+
+  it('should reset all overrides', async () => {
+    // ARRANGE
+    const user = userEvent.setup();
+    render(<FeatureFlagSettings />);
+    await screen.findByTestId('settings-feature-flags');
+    await user.click(screen.getByTestId('settings-feature-flags-flag-passkeys-button-toggle'));
+    await user.click(screen.getByTestId('settings-feature-flags-flag-sessions-button-toggle'));
+
+    // ACT
+    await user.click(screen.getByTestId('settings-feature-flags-button-reset-all'));
+
+    // ASSERT
+    expect(screen.getByTestId('settings-feature-flags-flag-passkeys-value')).toHaveTextContent('On');
+    expect(screen.getByTestId('settings-feature-flags-flag-sessions-value')).toHaveTextContent('On');
+  });
+
+  it('should not allow overrides in production', async () => {
+    // ARRANGE
+    useConfigSpy.mockReturnValue({ ...configFixture, VITE_BUILD_ENV_CODE: 'prd' });
+    render(<FeatureFlagSettings />);
+    await screen.findByTestId('settings-feature-flags-unavailable');
+
+    // ASSERT
+    expect(screen.queryByTestId('settings-feature-flags-list')).toBeNull();
+  });
+});
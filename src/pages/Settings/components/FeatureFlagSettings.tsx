@@ -0,0 +1,103 @@
+import isEmpty from 'lodash/isEmpty';
+
+import { PropsWithTestId } from 'common/utils/types';
+import { FEATURE_FLAGS, FeatureFlag } from 'common/utils/flags';
+import { useFeatureFlags } from 'common/hooks/useFeatureFlags';
+import Badge from 'common/components/Badge/Badge';
+import Button from 'common/components/Button/Button';
+import SettingsHeading from './SettingsHeading';
+
+/**
+ * Properties for the `FeatureFlagSettings` component.
+ * @see {@link PropsWithTestId}
+ */
+interface FeatureFlagSettingsProps extends PropsWithTestId {}
+
+/**
+ * The `FeatureFlagSettings` React component renders every feature flag with
+ * controls to override its value on this device, e.g. so that QA may test a
+ * feature before it is released.
+ *
+ * Local overrides are not available in production.
+ * @param {FeatureFlagSettingsProps} props - Component properties, `FeatureFlagSettingsProps`.
+ */
+const FeatureFlagSettings = ({ testId = 'settings-feature-flags' }: FeatureFlagSettingsProps) => {
+  const { flags, overrides, isOverrideAllowed, setOverride, clearOverrides } = useFeatureFlags();
+  const names = Object.keys(FEATURE_FLAGS) as FeatureFlag[];
+
+  return (
+    <div data-testid={testId}>
+      <SettingsHeading testId={`${testId}-settings-heading`}>Feature flags</SettingsHeading>
+
+      <div className="my-4 text-sm">
+        Turn features on or off on this device. Overrides take precedence over the configured and remote values.
+      </div>
+
+      {isOverrideAllowed ? (
+        <>
+          <ul className="my-4" data-testid={`${testId}-list`}>
+            {names.map((flag) => {
+              const isOverridden = flag in overrides;
+              return (
+                <li
+                  key={flag}
+                  className="flex items-center gap-4 border-b border-neutral-500/25 py-4"
+                  data-testid={`${testId}-flag-${flag}`}
+                >
+                  <div className="grow">
+                    <div className="flex items-center gap-2">
+                      <span className="font-mono font-bold">{flag}</span>
+                      <Badge variant={flags[flag] ? 'success' : 'info'} testId={`${testId}-flag-${flag}-value`}>
+                        {flags[flag] ? 'On' : 'Off'}
+                      </Badge>
+                      {isOverridden && (
+                        <Badge variant="warning" testId={`${testId}-flag-${flag}-overridden`}>
+                          Overridden
+                        </Badge>
+                      )}
+                    </div>
+                    <div className="text-sm opacity-85">{FEATURE_FLAGS[flag].description}</div>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setOverride(flag, !flags[flag])}
+                    testId={`${testId}-flag-${flag}-button-toggle`}
+                  >
+                    {flags[flag] ? 'Turn off' : 'Turn on'}
+                  </Button>
+                  {isOverridden && (
+                    <Button
+                      variant="text"
+                      size="sm"
+                      onClick={() => setOverride(flag)}
+                      testId={`${testId}-flag-${flag}-button-reset`}
+                    >
+                      Reset
+                    </Button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+
+          <Button
+            variant="outline"
+            className="w-full sm:w-40"
+            onClick={clearOverrides}
+            disabled={isEmpty(overrides)}
+            testId={`${testId}-button-reset-all`}
+          >
+            Reset all
+          </Button>
+        </>
+      ) : (
+        <div className="text-sm opacity-85" data-testid={`${testId}-unavailable`}>
+          Feature flags may not be overridden in this environment.
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FeatureFlagSettings;
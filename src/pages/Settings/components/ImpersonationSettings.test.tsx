@@ -0,0 +1,74 @@
+import { describe, expect, it, vi } from 'vitest';
+import userEvent from '@testing-library/user-event';
+
+import { render, screen } from 'test/test-utils';
+import { createMockIdToken } from 'test/mocks/idp';
+import * as UseAuth from 'common/hooks/useAuth';
+import { parseClaims } from 'common/utils/claims';
+
+import ImpersonationSettings from './ImpersonationSettings';
+
+// mock select functions from react-router-dom
+const mockNavigate = vi.fn();
+vi.mock('react-router-dom', async () => {
+  const original = await vi.importActual('react-router-dom');
+  return {
+    ...original,
+    useNavigate: () => mockNavigate,
+  };
+});
+
+describe('ImpersonationSettings', () => {
+  const useAuthSpy = vi.spyOn(UseAuth, 'useAuth');
+  const startImpersonationMock = vi.fn();
+
+  it('should render successfully', async () => {
+    // ARRANGE
+    useAuthSpy.mockReturnValue({
+      isAuthenticated: true,
+      claims: parseClaims(createMockIdToken(1)),
+      startImpersonation: startImpersonationMock,
+    });
+    render(<ImpersonationSettings />);
+    await screen.findByTestId('settings-impersonation-list');
+
+    // ASSERT
+    expect(screen.getByTestId('settings-impersonation')).toBeDefined();
+    expect(screen.getByTestId('settings-impersonation-user-2')).toBeDefined();
+    expect(screen.queryByTestId('settings-impersonation-user-1')).toBeNull();
+  });
+
+  it('should view as the selected user', async () => {
+    // ARRANGE
+    const user = userEvent.setup();
+    useAuthSpy.mockReturnValue({
+      isAuthenticated: true,
+      claims: parseClaims(createMockIdToken(1)),
+      startImpersonation: startImpersonationMock,
+    });
+    render(<ImpersonationSettings />);
+    await screen.findByTestId('settings-impersonation-list');
+
+    // ACT
+    await user.click(screen.getByTestId('settings-impersonation-user-2-button-view-as'));
+
+    // ASSERT
+    expect(startImpersonationMock).toHaveBeenCalledWith({ id: 2, name: 'Ervin Howell', username: 'Antonette' });
+    expect(mockNavigate).toHaveBeenCalledWith('/app/tasks');
+  });
+
+  it('should not allow viewing as the impersonated user again', async () => {
+    // ARRANGE
+    useAuthSpy.mockReturnValue({
+      isAuthenticated: true,
+      claims: parseClaims(createMockIdToken(1)),
+      impersonatedUser: { id: 2, name: 'Ervin Howell', username: 'Antonette' },
+      startImpersonation: startImpersonationMock,
+    });
+    render(<ImpersonationSettings />);
+    await screen.findByTestId('settings-impersonation-list');
+
+    // ASSERT
+    expect(screen.getByTestId('settings-impersonation-user-2-button-view-as')).toBeDisabled();
+  });
+});
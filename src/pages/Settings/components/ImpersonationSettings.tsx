@@ -0,0 +1,86 @@
+import { useNavigate } from 'react-router-dom';
+import reject from 'lodash/reject';
+
+import { PropsWithTestId } from 'common/utils/types';
+import { useAuth } from 'common/hooks/useAuth';
+import { User } from 'common/api/generated/models';
+import { useGetUsers } from 'common/api/generated/hooks';
+import Button from 'common/components/Button/Button';
+import ErrorAlert from 'common/components/Alert/ErrorAlert';
+import Skeleton from 'common/components/Loader/Skeleton';
+import Avatar from 'common/components/Icon/Avatar';
+import SettingsHeading from './SettingsHeading';
+
+/**
+ * Properties for the `ImpersonationSettings` component.
+ * @see {@link PropsWithTestId}
+ */
+interface ImpersonationSettingsProps extends PropsWithTestId {}
+
+/**
+ * The `ImpersonationSettings` React component renders the users whom an
+ * administrator may view the application as. Support staff use it to
+ * reproduce what a user sees. Changes are not allowed while viewing as
+ * another user.
+ * @param {ImpersonationSettingsProps} props - Component properties, `ImpersonationSettingsProps`.
+ */
+const ImpersonationSettings = ({ testId = 'settings-impersonation' }: ImpersonationSettingsProps) => {
+  const navigate = useNavigate();
+  const { claims, impersonatedUser, startImpersonation } = useAuth();
+  const { data: users, isPending, error } = useGetUsers();
+
+  /**
+   * Views the application as the selected user.
+   */
+  const onViewAs = (user: User) => {
+    startImpersonation?.({ id: user.id, name: user.name, username: user.username });
+    navigate('/app/tasks');
+  };
+
+  return (
+    <div data-testid={testId}>
+      <SettingsHeading testId={`${testId}-settings-heading`}>View as user</SettingsHeading>
+
+      <div className="my-4 text-sm">
+        See the application as another user sees it. While viewing as another user, changes are not allowed.
+      </div>
+
+      {isPending && (
+        <div data-testid={`${testId}-loader`}>
+          <Skeleton className="h-16" />
+        </div>
+      )}
+
+      {error && <ErrorAlert title="Unable to load users" description={error.message} testId={`${testId}-error`} />}
+
+      {users && (
+        <ul data-testid={`${testId}-list`}>
+          {reject(users, { id: Number(claims?.sub) }).map((user) => (
+            <li
+              key={user.id}
+              className="flex items-center gap-4 border-b border-neutral-500/25 py-2"
+              data-testid={`${testId}-user-${user.id}`}
+            >
+              <Avatar value={user.name} className="rounded-full" />
+              <div className="grow">
+                <div className="font-bold">{user.name}</div>
+                <div className="text-sm opacity-85">{user.username}</div>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => onViewAs(user)}
+                disabled={impersonatedUser?.id === user.id}
+                testId={`${testId}-user-${user.id}-button-view-as`}
+              >
+                View as
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ImpersonationSettings;
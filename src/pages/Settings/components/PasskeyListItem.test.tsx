@@ -0,0 +1,96 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import userEvent from '@testing-library/user-event';
+
+import { render, screen, waitFor } from 'test/test-utils';
+import { mockAuthenticatedUser } from 'test/mocks/auth';
+import { MOCK_PASSKEY_ID } from 'test/mocks/idp';
+import { queryClient } from 'test/query-client';
+import { QueryKey } from 'common/utils/constants';
+import { Passkey } from '../api/useGetPasskeys';
+
+import PasskeyListItem from './PasskeyListItem';
+
+describe('PasskeyListItem', () => {
+  const passkey: Passkey = {
+    id: MOCK_PASSKEY_ID,
+    name: 'MacBook Touch ID',
+    createdAt: '2026-01-15T10:00:00.000Z',
+    lastUsedAt: '2026-02-01T10:00:00.000Z',
+  };
+
+  beforeEach(() => {
+    mockAuthenticatedUser(1);
+    queryClient.setQueryData<Passkey[]>([QueryKey.Passkeys], [passkey]);
+  });
+
+  it('should render successfully', async () => {
+    // ARRANGE
+    render(<PasskeyListItem passkey={passkey} />);
+    await screen.findByTestId('passkey-list-item');
+
+    // ASSERT
+    expect(screen.getByTestId('passkey-list-item-name')).toHaveTextContent('MacBook Touch ID');
+    expect(screen.getByTestId('passkey-list-item-created')).toHaveTextContent('01/15/2026');
+    expect(screen.getByTestId('passkey-list-item-last-used')).toHaveTextContent('02/01/2026');
+  });
+
+  it('should rename the passkey', async () => {
+    // ARRANGE
+    const user = userEvent.setup();
+    render(<PasskeyListItem passkey={passkey} />);
+    await screen.findByTestId('passkey-list-item');
+
+    // ACT
+    await user.click(screen.getByTestId('passkey-list-item-button-rename'));
+    await user.clear(screen.getByLabelText(/Name/));
+    await user.type(screen.getByLabelText(/Name/), 'Work laptop');
+    await user.click(screen.getByTestId('passkey-list-item-button-save'));
+    await waitFor(() => expect(screen.queryByTestId('passkey-list-item-input-name')).toBeNull());
+
+    // ASSERT
+    expect(queryClient.getQueryData<Passkey[]>([QueryKey.Passkeys])?.[0].name).toBe('Work laptop');
+  });
+
+  it('should cancel renaming', async () => {
+    // ARRANGE
+    const user = userEvent.setup();
+    render(<PasskeyListItem passkey={passkey} />);
+    await screen.findByTestId('passkey-list-item');
+
+    // ACT
+    await user.click(screen.getByTestId('passkey-list-item-button-rename'));
+    await user.click(screen.getByTestId('passkey-list-item-button-cancel'));
+
+    // ASSERT
+    expect(screen.getByTestId('passkey-list-item-name')).toHaveTextContent('MacBook Touch ID');
+  });
+
+  it('should revoke the passkey', async () => {
+    // ARRANGE
+    const user = userEvent.setup();
+    render(<PasskeyListItem passkey={passkey} />);
+    await screen.findByTestId('passkey-list-item');
+
+    // ACT
+    await user.click(screen.getByTestId('passkey-list-item-button-remove'));
+    await waitFor(() => expect(queryClient.getQueryData<Passkey[]>([QueryKey.Passkeys])).toEqual([]));
+
+    // ASSERT
+    expect(queryClient.getQueryData<Passkey[]>([QueryKey.Passkeys])).toEqual([]);
+  });
+
+  it('should display alert when revoking fails', async () => {
+    // ARRANGE
+    const user = userEvent.setup();
+    mockAuthenticatedUser(2);
+    render(<PasskeyListItem passkey={passkey} />);
+    await screen.findByTestId('passkey-list-item');
+
+    // ACT
+    await user.click(screen.getByTestId('passkey-list-item-button-remove'));
+    await screen.findByTestId('passkey-list-item-error');
+
+    // ASSERT
+    expect(screen.getByTestId('passkey-list-item-error')).toBeDefined();
+  });
+});
@@ -0,0 +1,204 @@
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { useTranslation } from 'react-i18next';
+import { z } from 'zod';
+import { zodResolver } from '@hookform/resolvers/zod';
+
+import { cn } from 'common/utils/css';
+import { BaseComponentProps } from 'common/utils/types';
+import { Passkey } from '../api/useGetPasskeys';
+import { useRenamePasskey } from '../api/useRenamePasskey';
+import { useDeletePasskey } from '../api/useDeletePasskey';
+import { useToasts } from 'common/hooks/useToasts';
+import Input from 'common/components/Form/Input';
+import Button from 'common/components/Button/Button';
+import ErrorAlert from 'common/components/Alert/ErrorAlert';
+import FAIcon from 'common/components/Icon/FAIcon';
+import Date from 'common/components/Text/Date';
+
+/**
+ * The maximum length of a passkey name.
+ */
+export const PASSKEY_NAME_MAX_LENGTH = 50;
+
+/**
+ * Properties for the `PasskeyListItem` component.
+ * @param {Passkey} passkey - The passkey to display.
+ * @see {@link BaseComponentProps}
+ */
+interface PasskeyListItemProps extends BaseComponentProps {
+  passkey: Passkey;
+}
+
+/**
+ * Rename passkey form values.
+ */
+type RenamePasskeyFormValues = {
+  name: string;
+};
+
+/**
+ * The `PasskeyListItem` component renders a registered passkey with controls
+ * to rename or revoke it.
+ * @param {PasskeyListItemProps} props - Component properties.
+ */
+const PasskeyListItem = ({ className, passkey, testId = 'passkey-list-item' }: PasskeyListItemProps) => {
+  const [isEditing, setIsEditing] = useState<boolean>(false);
+  const [error, setError] = useState<string>('');
+  const { mutate: renamePasskey } = useRenamePasskey();
+  const { mutate: deletePasskey, isPending: isDeleting } = useDeletePasskey();
+  const { createToast } = useToasts();
+  const { t } = useTranslation();
+
+  /**
+   * Rename passkey form validation schema.
+   */
+  const schema = z.object({
+    name: z
+      .string()
+      .trim()
+      .min(1, { message: t('validation.required') })
+      .max(PASSKEY_NAME_MAX_LENGTH, { message: t('validation.max', { count: PASSKEY_NAME_MAX_LENGTH }) }),
+  });
+
+  /**
+   * Initialize management of the form.
+   */
+  const { control, formState, handleSubmit, reset } = useForm<RenamePasskeyFormValues>({
+    defaultValues: { name: passkey.name },
+    mode: 'all',
+    resolver: zodResolver(schema),
+  });
+
+  /**
+   * Closes the rename form, discarding changes.
+   */
+  const onCancel = () => {
+    setIsEditing(false);
+    reset({ name: passkey.name });
+  };
+
+  /**
+   * Revokes the passkey.
+   */
+  const onRemove = () => {
+    setError('');
+    deletePasskey(
+      { passkey },
+      {
+        onSuccess: () => {
+          createToast({ text: `Removed passkey "${passkey.name}".`, isAutoDismiss: true, variant: 'success' });
+        },
+        onError: (err: Error) => {
+          setError(err.message);
+        },
+      },
+    );
+  };
+
+  /**
+   * Handles the rename form submission.
+   */
+  const onFormSubmit = (data: RenamePasskeyFormValues) => {
+    setError('');
+    return new Promise<void>((resolve) => {
+      renamePasskey(
+        { passkey, name: data.name.trim() },
+        {
+          onSuccess: (renamed) => {
+            setIsEditing(false);
+            reset({ name: renamed.name });
+          },
+          onError: (err: Error) => {
+            setError(err.message);
+          },
+          onSettled: () => {
+            resolve();
+          },
+        },
+      );
+    });
+  };
+
+  return (
+    <li className={cn('border-b border-neutral-500/25 py-4', className)} data-testid={testId}>
+      {error && <ErrorAlert title="Request failed" description={error} className="mb-4" testId={`${testId}-error`} />}
+
+      {isEditing ? (
+        <form onSubmit={handleSubmit(onFormSubmit)} noValidate>
+          <Input
+            control={control}
+            name="name"
+            label="Name"
+            className="mb-4"
+            autoFocus
+            autoComplete="off"
+            maxLength={PASSKEY_NAME_MAX_LENGTH}
+            required
+            disabled={formState.isSubmitting}
+            testId={`${testId}-input-name`}
+          />
+          <div className="flex gap-2">
+            <Button
+              type="submit"
+              size="sm"
+              disabled={formState.isSubmitting || !formState.isDirty}
+              testId={`${testId}-button-save`}
+            >
+              Save
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={onCancel}
+              disabled={formState.isSubmitting}
+              testId={`${testId}-button-cancel`}
+            >
+              Cancel
+            </Button>
+          </div>
+        </form>
+      ) : (
+        <div className="flex items-center gap-4">
+          <FAIcon icon="key" className="text-neutral-500" />
+          <div className="grow">
+            <div className="font-bold" data-testid={`${testId}-name`}>
+              {passkey.name}
+            </div>
+            <div className="text-sm opacity-85">
+              Added <Date date={passkey.createdAt} testId={`${testId}-created`} />
+              {passkey.lastUsedAt && (
+                <>
+                  {' '}
+                  &middot; Last used <Date date={passkey.lastUsedAt} testId={`${testId}-last-used`} />
+                </>
+              )}
+            </div>
+          </div>
+          <Button
+            variant="text"
+            size="sm"
+            title="Rename"
+            onClick={() => setIsEditing(true)}
+            disabled={isDeleting}
+            testId={`${testId}-button-rename`}
+          >
+            <FAIcon icon="pencil" />
+          </Button>
+          <Button
+            variant="text"
+            size="sm"
+            title="Remove"
+            onClick={onRemove}
+            disabled={isDeleting}
+            testId={`${testId}-button-remove`}
+          >
+            <FAIcon icon="trash" />
+          </Button>
+        </div>
+      )}
+    </li>
+  );
+};
+
+export default PasskeyListItem;
@@ -0,0 +1,87 @@
+import { beforeEach, describe, expect, it, Mock } from 'vitest';
+import userEvent from '@testing-library/user-event';
+
+import { render, screen } from 'test/test-utils';
+import { mockAuthenticatedUser } from 'test/mocks/auth';
+import { mockWebAuthn, unmockWebAuthn } from 'test/mocks/webauthn';
+import { MOCK_PASSKEY_ID } from 'test/mocks/idp';
+
+import PasskeySettings from './PasskeySettings';
+
+describe('PasskeySettings', () => {
+  let createMock: Mock;
+
+  beforeEach(() => {
+    createMock = mockWebAuthn().create;
+  });
+
+  it('should render successfully', async () => {
+    // ARRANGE
+    mockAuthenticatedUser(1);
+    render(<PasskeySettings />);
+    await screen.findByTestId('settings-passkeys-list');
+
+    // ASSERT
+    expect(screen.getByTestId('settings-passkeys')).toBeDefined();
+    expect(screen.getByTestId(`settings-passkeys-passkey-${MOCK_PASSKEY_ID}-name`)).toHaveTextContent(
+      'MacBook Touch ID',
+    );
+  });
+
+  it('should render empty message', async () => {
+    // ARRANGE
+    mockAuthenticatedUser(2);
+    render(<PasskeySettings />);
+    await screen.findByTestId('settings-passkeys-empty');
+
+    // ASSERT
+    expect(screen.getByTestId('settings-passkeys-empty')).toBeDefined();
+  });
+
+  it('should add a passkey', async () => {
+    // ARRANGE
+    const user = userEvent.setup();
+    mockAuthenticatedUser(2);
+    render(<PasskeySettings />);
+    await screen.findByTestId('settings-passkeys-empty');
+
+    // ACT
+    await user.type(screen.getByLabelText(/Passkey name/), 'Pixel');
+    await user.click(screen.getByTestId('settings-passkeys-button-add'));
+    await screen.findByTestId('settings-passkeys-list');
+
+    // ASSERT
+    expect(createMock).toHaveBeenCalledTimes(1);
+    expect(screen.getByTestId('settings-passkeys-list')).toHaveTextContent('Pixel');
+    expect(screen.getByTestId('settings-passkeys-input-name-input')).toHaveValue('');
+  });
+
+  it('should display alert when adding fails', async () => {
+    // ARRANGE
+    const user = userEvent.setup();
+    createMock.mockRejectedValueOnce(new DOMException('Cancelled', 'NotAllowedError'));
+    mockAuthenticatedUser(2);
+    render(<PasskeySettings />);
+    await screen.findByTestId('settings-passkeys-input-name');
+
+    // ACT
+    await user.type(screen.getByLabelText(/Passkey name/), 'Pixel');
+    await user.click(screen.getByTestId('settings-passkeys-button-add'));
+    await screen.findByTestId('settings-passkeys-error');
+
+    // ASSERT
+    expect(screen.getByTestId('settings-passkeys-error')).toHaveTextContent(/cancelled or timed out/);
+  });
+
+  it('should not allow adding when passkeys are not supported', async () => {
+    // ARRANGE
+    unmockWebAuthn();
+    mockAuthenticatedUser(1);
+    render(<PasskeySettings />);
+    await screen.findByTestId('settings-passkeys-unsupported');
+
+    // ASSERT
+    expect(screen.queryByTestId('settings-passkeys-button-add')).toBeNull();
+    expect(screen.getByTestId('settings-passkeys-list')).toBeDefined();
+  });
+});
@@ -0,0 +1,173 @@
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { useTranslation } from 'react-i18next';
+import { z } from 'zod';
+import { zodResolver } from '@hookform/resolvers/zod';
+
+import { PropsWithTestId } from 'common/utils/types';
+import { isWebAuthnSupported } from 'common/utils/webauthn';
+import { useToasts } from 'common/hooks/useToasts';
+import { useGetPasskeys } from '../api/useGetPasskeys';
+import { useRegisterPasskey } from '../api/useRegisterPasskey';
+import Input from 'common/components/Form/Input';
+import Button from 'common/components/Button/Button';
+import ErrorAlert from 'common/components/Alert/ErrorAlert';
+import Skeleton from 'common/components/Loader/Skeleton';
+import PasskeyListItem, { PASSKEY_NAME_MAX_LENGTH } from './PasskeyListItem';
+import SettingsHeading from './SettingsHeading';
+
+/**
+ * Properties for the `PasskeySettings` component.
+ * @see {@link PropsWithTestId}
+ */
+interface PasskeySettingsProps extends PropsWithTestId {}
+
+/**
+ * Add passkey form values.
+ */
+type AddPasskeyFormValues = {
+  name: string;
+};
+
+/**
+ * The `PasskeySettings` React component renders the passkeys registered by
+ * the user, with controls to name and revoke them, and a form to add a
+ * passkey. A passkey signs in without a password.
+ *
+ * A passkey may not be added when the browser does not support passkeys.
+ * @param {PasskeySettingsProps} props - Component properties, `PasskeySettingsProps`.
+ */
+const PasskeySettings = ({ testId = 'settings-passkeys' }: PasskeySettingsProps) => {
+  const [error, setError] = useState<string>('');
+  const { data: passkeys, isPending, error: passkeysError } = useGetPasskeys();
+  const { mutate: registerPasskey } = useRegisterPasskey();
+  const { createToast } = useToasts();
+  const { t } = useTranslation();
+  const isSupported = isWebAuthnSupported();
+
+  /**
+   * Add passkey form validation schema.
+   */
+  const schema = z.object({
+    name: z
+      .string()
+      .trim()
+      .min(1, { message: t('validation.required') })
+      .max(PASSKEY_NAME_MAX_LENGTH, { message: t('validation.max', { count: PASSKEY_NAME_MAX_LENGTH }) }),
+  });
+
+  /**
+   * Initialize management of the form.
+   */
+  const { control, formState, handleSubmit, reset } = useForm<AddPasskeyFormValues>({
+    defaultValues: { name: '' },
+    mode: 'all',
+    resolver: zodResolver(schema),
+  });
+
+  /**
+   * Handles the add passkey form submission.
+   */
+  const onFormSubmit = (data: AddPasskeyFormValues) => {
+    setError('');
+    return new Promise<void>((resolve) => {
+      registerPasskey(
+        { name: data.name.trim() },
+        {
+          onSuccess: (passkey) => {
+            reset();
+            createToast({ text: `Added passkey "${passkey.name}".`, isAutoDismiss: true, variant: 'success' });
+          },
+          onError: (err: Error) => {
+            setError(err.message);
+          },
+          onSettled: () => {
+            resolve();
+          },
+        },
+      );
+    });
+  };
+
+  return (
+    <div data-testid={testId}>
+      <SettingsHeading testId={`${testId}-settings-heading`}>Passkeys</SettingsHeading>
+
+      <div className="my-4 text-sm">
+        Sign in with your fingerprint, face, or screen lock instead of a password. Passkeys are stored on your devices
+        or in your password manager.
+      </div>
+
+      {isPending && (
+        <div data-testid={`${testId}-loader`}>
+          <Skeleton className="h-16" />
+        </div>
+      )}
+
+      {passkeysError && (
+        <ErrorAlert
+          title="Unable to load passkeys"
+          description={passkeysError.message}
+          testId={`${testId}-error-list`}
+        />
+      )}
+
+      {passkeys && (
+        <>
+          {passkeys.length === 0 ? (
+            <div className="my-4 text-sm italic" data-testid={`${testId}-empty`}>
+              You have not added a passkey.
+            </div>
+          ) : (
+            <ul className="my-4" data-testid={`${testId}-list`}>
+              {passkeys.map((passkey) => (
+                <PasskeyListItem key={passkey.id} passkey={passkey} testId={`${testId}-passkey-${passkey.id}`} />
+              ))}
+            </ul>
+          )}
+
+          {isSupported ? (
+            <>
+              {error && (
+                <ErrorAlert
+                  title="Unable to add passkey"
+                  description={error}
+                  className="mb-4"
+                  testId={`${testId}-error`}
+                />
+              )}
+              <form onSubmit={handleSubmit(onFormSubmit)} className="lg:w-2/3" noValidate>
+                <Input
+                  control={control}
+                  name="name"
+                  label="Passkey name"
+                  supportingText="A name which helps you recognize the passkey, e.g. the name of the device."
+                  className="mb-4"
+                  autoComplete="off"
+                  maxLength={PASSKEY_NAME_MAX_LENGTH}
+                  required
+                  disabled={formState.isSubmitting}
+                  testId={`${testId}-input-name`}
+                />
+                <Button
+                  type="submit"
+                  className="w-full sm:w-40"
+                  disabled={formState.isSubmitting || !formState.isDirty}
+                  testId={`${testId}-button-add`}
+                >
+                  Add passkey
+                </Button>
+              </form>
+            </>
+          ) : (
+            <div className="text-sm opacity-85" data-testid={`${testId}-unsupported`}>
+              This browser does not support passkeys.
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PasskeySettings;
@@ -0,0 +1,102 @@
+import { describe, expect, it, vi } from 'vitest';
+import userEvent from '@testing-library/user-event';
+
+import { render, screen } from 'test/test-utils';
+import { mockAuthenticatedUser } from 'test/mocks/auth';
+import { MOCK_RECOVERY_CODE, MOCK_TOTP_PASSCODE } from 'test/mocks/idp';
+import * as UseAuth from 'common/hooks/useAuth';
+
+import SecuritySettings from './SecuritySettings';
+
+describe('SecuritySettings', () => {
+  const useAuthSpy = vi.spyOn(UseAuth, 'useAuth');
+
+  it('should render successfully', async () => {
+    // ARRANGE
+    mockAuthenticatedUser(1);
+    render(<SecuritySettings />);
+    await screen.findByTestId('settings-security-status');
+
+    // ASSERT
+    expect(screen.getByTestId('settings-security')).toBeDefined();
+    expect(screen.getByTestId('settings-security-status')).toHaveTextContent('Off');
+    expect(screen.getByTestId('settings-security-button-enroll')).toBeDefined();
+  });
+
+  it('should display alert when activation code is incorrect', async () => {
+    // ARRANGE
+    const user = userEvent.setup();
+    mockAuthenticatedUser(1);
+    render(<SecuritySettings />);
+    await screen.findByTestId('settings-security-button-enroll');
+
+    // ACT
+    await user.click(screen.getByTestId('settings-security-button-enroll'));
+    await screen.findByTestId('settings-security-enrollment');
+    await user.click(screen.getByTestId('settings-security-input-code-digit-0'));
+    await user.keyboard('000000');
+    await user.click(screen.getByTestId('settings-security-button-activate'));
+    await screen.findByTestId('settings-security-error');
+
+    // ASSERT
+    expect(screen.getByTestId('settings-security-error')).toHaveTextContent(/code is incorrect/i);
+    expect(screen.getByTestId('settings-security-enrollment')).toBeDefined();
+  });
+
+  it('should set up an authenticator app', async () => {
+    // ARRANGE
+    const user = userEvent.setup();
+    mockAuthenticatedUser(1);
+    render(<SecuritySettings />);
+    await screen.findByTestId('settings-security-button-enroll');
+
+    // ACT
+    await user.click(screen.getByTestId('settings-security-button-enroll'));
+    await screen.findByTestId('settings-security-enrollment');
+
+    // ASSERT
+    expect(screen.getByTestId('settings-security-qr-code')).toHaveAttribute('src', expect.stringMatching(/^data:/));
+    expect(screen.getByTestId('settings-security-secret')).toHaveTextContent(/\w+/);
+
+    // ACT
+    await user.click(screen.getByTestId('settings-security-input-code-digit-0'));
+    await user.keyboard(MOCK_TOTP_PASSCODE);
+    await user.click(screen.getByTestId('settings-security-button-activate'));
+    await screen.findByTestId('settings-security-recovery-codes');
+
+    // ASSERT
+    expect(screen.getByTestId('settings-security-recovery-codes')).toHaveTextContent(MOCK_RECOVERY_CODE);
+    expect(await screen.findByTestId('settings-security-status')).toHaveTextContent('On');
+
+    // ACT
+    await user.click(screen.getByTestId('settings-security-button-done'));
+
+    // ASSERT
+    expect(screen.queryByTestId('settings-security-recovery-codes')).toBeNull();
+  });
+
+  it('should turn off an authenticator app', async () => {
+    // ARRANGE
+    const user = userEvent.setup();
+    mockAuthenticatedUser(2);
+    render(<SecuritySettings />);
+    await screen.findByTestId('settings-security-button-remove');
+
+    // ACT
+    await user.click(screen.getByTestId('settings-security-button-remove'));
+    await screen.findByTestId('settings-security-button-enroll');
+
+    // ASSERT
+    expect(screen.getByTestId('settings-security-status')).toHaveTextContent('Off');
+  });
+
+  it('should display alert when factors cannot be loaded', async () => {
+    // ARRANGE
+    useAuthSpy.mockReturnValue({ isAuthenticated: true });
+    render(<SecuritySettings />);
+    await screen.findByTestId('settings-security-error-factors');
+
+    // ASSERT
+    expect(screen.getByTestId('settings-security-error-factors')).toHaveTextContent(/not supported/i);
+  });
+});
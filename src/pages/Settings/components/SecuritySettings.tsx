@@ -0,0 +1,266 @@
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { useTranslation } from 'react-i18next';
+import { z } from 'zod';
+import { zodResolver } from '@hookform/resolvers/zod';
+import find from 'lodash/find';
+
+import { PropsWithTestId } from 'common/utils/types';
+import { useToasts } from 'common/hooks/useToasts';
+import { useGetMfaFactors } from '../api/useGetMfaFactors';
+import { TotpEnrollment, useEnrollTotp } from '../api/useEnrollTotp';
+import { useActivateTotp } from '../api/useActivateTotp';
+import { useRemoveTotp } from '../api/useRemoveTotp';
+import { Alert, AlertDescription, AlertTitle } from 'common/components/shadcn/alert';
+import OneTimeCodeInput from 'common/components/Form/OneTimeCodeInput';
+import Button from 'common/components/Button/Button';
+import Badge from 'common/components/Badge/Badge';
+import ErrorAlert from 'common/components/Alert/ErrorAlert';
+import Skeleton from 'common/components/Loader/Skeleton';
+import FAIcon from 'common/components/Icon/FAIcon';
+import Feature from 'common/components/Feature/Feature';
+import SessionSettings from './SessionSettings';
+import SettingsHeading from './SettingsHeading';
+
+/**
+ * Properties for the `SecuritySettings` component.
+ * @see {@link PropsWithTestId}
+ */
+interface SecuritySettingsProps extends PropsWithTestId {}
+
+/**
+ * Authenticator app activation form values.
+ */
+type ActivateFormValues = {
+  passCode: string;
+};
+
+/**
+ * The `SecuritySettings` React component renders a set of controls to allow
+ * users to set up, or remove, two-factor authentication with an
+ * authenticator app.
+ *
+ * Setup displays a QR code for the app to scan. The setup is activated with
+ * a one-time code from the app, after which the recovery codes are displayed
+ * once.
+ *
+ * The active sessions of the user are listed below, see `SessionSettings`,
+ * when the `sessions` feature is enabled.
+ * @param {SecuritySettingsProps} props - Component properties, `SecuritySettingsProps`.
+ */
+const SecuritySettings = ({ testId = 'settings-security' }: SecuritySettingsProps) => {
+  const [enrollment, setEnrollment] = useState<TotpEnrollment>();
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [error, setError] = useState<string>('');
+  const { data: factors, isPending, error: factorsError } = useGetMfaFactors();
+  const { mutate: enrollTotp, isPending: isEnrolling } = useEnrollTotp();
+  const { mutate: activateTotp } = useActivateTotp();
+  const { mutate: removeTotp, isPending: isRemoving } = useRemoveTotp();
+  const { createToast } = useToasts();
+  const { t } = useTranslation();
+
+  const isActive = find(factors, { id: 'totp' })?.status === 'ACTIVE';
+
+  /**
+   * Activation form validation schema.
+   */
+  const schema = z.object({
+    passCode: z.string().regex(/^\d{6}$/, { message: t('validation.oneTimeCode') }),
+  });
+
+  /**
+   * Initialize management of the form.
+   */
+  const { control, formState, handleSubmit, reset } = useForm<ActivateFormValues>({
+    defaultValues: { passCode: '' },
+    mode: 'all',
+    resolver: zodResolver(schema),
+  });
+
+  /**
+   * Begins the authenticator app setup.
+   */
+  const onEnroll = () => {
+    setError('');
+    reset();
+    enrollTotp(undefined, {
+      onSuccess: (data) => {
+        setEnrollment(data);
+      },
+      onError: (err: Error) => {
+        setError(err.message);
+      },
+    });
+  };
+
+  /**
+   * Removes the authenticator app, or abandons a setup in progress.
+   */
+  const onRemove = () => {
+    setError('');
+    removeTotp(undefined, {
+      onSuccess: () => {
+        if (!enrollment) {
+          createToast({ text: 'Two-factor authentication turned off.', isAutoDismiss: true, variant: 'success' });
+        }
+        setEnrollment(undefined);
+      },
+      onError: (err: Error) => {
+        setError(err.message);
+      },
+    });
+  };
+
+  /**
+   * Handles the activation form submission.
+   */
+  const onFormSubmit = (data: ActivateFormValues) => {
+    setError('');
+    return new Promise<void>((resolve) => {
+      activateTotp(data, {
+        onSuccess: (activated) => {
+          setEnrollment(undefined);
+          setRecoveryCodes(activated.recoveryCodes);
+          createToast({ text: 'Two-factor authentication turned on.', isAutoDismiss: true, variant: 'success' });
+        },
+        onError: (err: Error) => {
+          setError(err.message);
+        },
+        onSettled: () => {
+          resolve();
+        },
+      });
+    });
+  };
+
+  return (
+    <div data-testid={testId}>
+      <SettingsHeading testId={`${testId}-settings-heading`}>Two-factor authentication</SettingsHeading>
+
+      <div className="my-4 text-sm">
+        Protect your account with a one-time code from an authenticator app in addition to your password.
+      </div>
+
+      {error && <ErrorAlert title="Request failed" description={error} className="mb-4" testId={`${testId}-error`} />}
+
+      {isPending && (
+        <div data-testid={`${testId}-loader`}>
+          <Skeleton className="h-10 w-48" />
+        </div>
+      )}
+
+      {factorsError && (
+        <ErrorAlert
+          title="Unable to load two-factor authentication"
+          description={factorsError.message}
+          testId={`${testId}-error-factors`}
+        />
+      )}
+
+      {recoveryCodes.length > 0 && (
+        <Alert className="mb-4" data-testid={`${testId}-recovery-codes`}>
+          <FAIcon icon="shieldHalved" />
+          <AlertTitle>Save your recovery codes</AlertTitle>
+          <AlertDescription>
+            <p>
+              If you lose access to your authenticator app, use one of these codes to sign in. Each code may be used
+              once. They will not be shown again.
+            </p>
+            <ul className="my-2 font-mono">
+              {recoveryCodes.map((code) => (
+                <li key={code}>{code}</li>
+              ))}
+            </ul>
+            <Button size="sm" onClick={() => setRecoveryCodes([])} testId={`${testId}-button-done`}>
+              Done
+            </Button>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {factors && !enrollment && (
+        <div className="flex flex-wrap items-center gap-4">
+          <div className="flex items-center gap-2">
+            Authenticator app
+            {isActive ? (
+              <Badge variant="success" testId={`${testId}-status`}>
+                On
+              </Badge>
+            ) : (
+              <Badge variant="info" testId={`${testId}-status`}>
+                Off
+              </Badge>
+            )}
+          </div>
+          {isActive ? (
+            <Button variant="outline" onClick={onRemove} disabled={isRemoving} testId={`${testId}-button-remove`}>
+              Turn off
+            </Button>
+          ) : (
+            <Button onClick={onEnroll} disabled={isEnrolling} testId={`${testId}-button-enroll`}>
+              Set up
+            </Button>
+          )}
+        </div>
+      )}
+
+      {enrollment && (
+        <div data-testid={`${testId}-enrollment`}>
+          <div className="mb-4 text-sm">
+            Scan the QR code with your authenticator app, or enter the setup key, then enter the 6-digit code which the
+            app displays.
+          </div>
+          <img
+            src={enrollment.qrCode}
+            alt="QR code for your authenticator app"
+            className="mb-2 size-40 rounded-md bg-white p-2"
+            data-testid={`${testId}-qr-code`}
+          />
+          <div className="mb-4 text-sm">
+            Setup key:{' '}
+            <span className="font-mono" data-testid={`${testId}-secret`}>
+              {enrollment.secret}
+            </span>
+          </div>
+
+          <form onSubmit={handleSubmit(onFormSubmit)} noValidate>
+            <OneTimeCodeInput
+              control={control}
+              name="passCode"
+              label="Verification code"
+              className="mb-4"
+              required
+              disabled={formState.isSubmitting}
+              testId={`${testId}-input-code`}
+            />
+            <div className="flex flex-wrap gap-2">
+              <Button
+                type="submit"
+                className="w-full sm:w-40"
+                disabled={formState.isSubmitting || !formState.isDirty}
+                testId={`${testId}-button-activate`}
+              >
+                Activate
+              </Button>
+              <Button
+                variant="outline"
+                className="w-full sm:w-40"
+                onClick={onRemove}
+                disabled={formState.isSubmitting || isRemoving}
+                testId={`${testId}-button-cancel`}
+              >
+                Cancel
+              </Button>
+            </div>
+          </form>
+        </div>
+      )}
+
+      <Feature flag="sessions">
+        <SessionSettings className="mt-12" testId={`${testId}-sessions`} />
+      </Feature>
+    </div>
+  );
+};
+
+export default SecuritySettings;
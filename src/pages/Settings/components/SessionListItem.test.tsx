@@ -0,0 +1,106 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import userEvent from '@testing-library/user-event';
+
+import { render, screen, waitFor } from 'test/test-utils';
+import { mockAuthenticatedUser } from 'test/mocks/auth';
+import { queryClient } from 'test/query-client';
+import { QueryKey } from 'common/utils/constants';
+import { Session } from '../api/useGetSessions';
+
+import SessionListItem from './SessionListItem';
+
+// mock select functions from react-router-dom
+const mockNavigate = vi.fn();
+vi.mock('react-router-dom', async () => {
+  const original = await vi.importActual('react-router-dom');
+  return {
+    ...original,
+    useNavigate: () => mockNavigate,
+  };
+});
+
+describe('SessionListItem', () => {
+  const currentSession: Session = {
+    id: 'session-1',
+    device: 'Mac',
+    browser: 'Chrome',
+    lastSeenAt: '2026-03-01T09:00:00.000Z',
+    current: true,
+  };
+  const otherSession: Session = {
+    id: 'session-1-iphone',
+    device: 'iPhone',
+    browser: 'Safari',
+    lastSeenAt: '2026-02-27T18:30:00.000Z',
+    current: false,
+  };
+
+  beforeEach(() => {
+    mockAuthenticatedUser(1);
+    queryClient.setQueryData<Session[]>([QueryKey.Sessions], [currentSession, otherSession]);
+  });
+
+  it('should render successfully', async () => {
+    // ARRANGE
+    render(<SessionListItem session={otherSession} />);
+    await screen.findByTestId('session-list-item');
+
+    // ASSERT
+    expect(screen.getByTestId('session-list-item-device')).toHaveTextContent('Safari on iPhone');
+    expect(screen.getByTestId('session-list-item-last-seen')).toBeDefined();
+    expect(screen.queryByTestId('session-list-item-current')).toBeNull();
+  });
+
+  it('should mark the current session', async () => {
+    // ARRANGE
+    render(<SessionListItem session={currentSession} />);
+    await screen.findByTestId('session-list-item');
+
+    // ASSERT
+    expect(screen.getByTestId('session-list-item-current')).toHaveTextContent('This device');
+  });
+
+  it('should display alert when revoking fails', async () => {
+    // ARRANGE
+    const user = userEvent.setup();
+    mockAuthenticatedUser(2);
+    render(<SessionListItem session={otherSession} />);
+    await screen.findByTestId('session-list-item');
+
+    // ACT
+    await user.click(screen.getByTestId('session-list-item-button-revoke'));
+    await screen.findByTestId('session-list-item-error');
+
+    // ASSERT
+    expect(screen.getByTestId('session-list-item-error')).toBeDefined();
+  });
+
+  it('should revoke the session', async () => {
+    // ARRANGE
+    const user = userEvent.setup();
+    render(<SessionListItem session={otherSession} />);
+    await screen.findByTestId('session-list-item');
+
+    // ACT
+    await user.click(screen.getByTestId('session-list-item-button-revoke'));
+    await waitFor(() => expect(queryClient.getQueryData<Session[]>([QueryKey.Sessions])).toHaveLength(1));
+
+    // ASSERT
+    expect(queryClient.getQueryData<Session[]>([QueryKey.Sessions])).toEqual([currentSession]);
+    expect(mockNavigate).not.toHaveBeenCalled();
+  });
+
+  it('should sign out when revoking the current session', async () => {
+    // ARRANGE
+    const user = userEvent.setup();
+    render(<SessionListItem session={currentSession} />);
+    await screen.findByTestId('session-list-item');
+
+    // ACT
+    await user.click(screen.getByTestId('session-list-item-button-revoke'));
+    await waitFor(() => expect(mockNavigate).toHaveBeenCalled());
+
+    // ASSERT
+    expect(mockNavigate).toHaveBeenCalledWith('/');
+  });
+});
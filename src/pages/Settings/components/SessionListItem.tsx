@@ -0,0 +1,107 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+
+import { cn } from 'common/utils/css';
+import { DateFormat } from 'common/utils/constants';
+import { BaseComponentProps } from 'common/utils/types';
+import { Session } from '../api/useGetSessions';
+import { useRevokeSession } from '../api/useRevokeSession';
+import { useSignout } from 'pages/Auth/Signout/api/useSignout';
+import { useToasts } from 'common/hooks/useToasts';
+import Button from 'common/components/Button/Button';
+import Badge from 'common/components/Badge/Badge';
+import ErrorAlert from 'common/components/Alert/ErrorAlert';
+import FAIcon from 'common/components/Icon/FAIcon';
+import Date from 'common/components/Text/Date';
+
+/**
+ * Properties for the `SessionListItem` component.
+ * @param {Session} session - The session to display.
+ * @see {@link BaseComponentProps}
+ */
+interface SessionListItemProps extends BaseComponentProps {
+  session: Session;
+}
+
+/**
+ * The `SessionListItem` component renders an active session with a control
+ * to revoke it.
+ *
+ * Revoking the current session signs the user out of this browser.
+ * @param {SessionListItemProps} props - Component properties.
+ */
+const SessionListItem = ({ className, session, testId = 'session-list-item' }: SessionListItemProps) => {
+  const [error, setError] = useState<string>('');
+  const navigate = useNavigate();
+  const { mutate: revokeSession, isPending: isRevoking } = useRevokeSession();
+  const { mutate: signout, isPending: isSigningOut } = useSignout();
+  const { createToast } = useToasts();
+
+  /**
+   * Revokes the session. When the session is the current session, the user
+   * is signed out.
+   */
+  const onRevoke = () => {
+    setError('');
+    revokeSession(
+      { session },
+      {
+        onSuccess: () => {
+          if (session.current) {
+            signout(undefined, {
+              onSuccess: () => {
+                navigate('/');
+              },
+            });
+          } else {
+            createToast({
+              text: `Signed out of ${session.browser} on ${session.device}.`,
+              isAutoDismiss: true,
+              variant: 'success',
+            });
+          }
+        },
+        onError: (err: Error) => {
+          setError(err.message);
+        },
+      },
+    );
+  };
+
+  return (
+    <li className={cn('border-b border-neutral-500/25 py-4', className)} data-testid={testId}>
+      {error && <ErrorAlert title="Request failed" description={error} className="mb-4" testId={`${testId}-error`} />}
+
+      <div className="flex items-center gap-4">
+        <div className="grow">
+          <div className="flex items-center gap-2">
+            <span className="font-bold" data-testid={`${testId}-device`}>
+              {session.browser} on {session.device}
+            </span>
+            {session.current && (
+              <Badge variant="info" testId={`${testId}-current`}>
+                This device
+              </Badge>
+            )}
+          </div>
+          <div className="text-sm opacity-85">
+            Last seen{' '}
+            <Date date={session.lastSeenAt} format={DateFormat.TIMESTAMP_SHORT} testId={`${testId}-last-seen`} />
+          </div>
+        </div>
+        <Button
+          variant="text"
+          size="sm"
+          title={session.current ? 'Sign out' : 'Revoke'}
+          onClick={onRevoke}
+          disabled={isRevoking || isSigningOut}
+          testId={`${testId}-button-revoke`}
+        >
+          <FAIcon icon={session.current ? 'rightFromBracket' : 'trash'} />
+        </Button>
+      </div>
+    </li>
+  );
+};
+
+export default SessionListItem;
@@ -0,0 +1,60 @@
+import { describe, expect, it, vi } from 'vitest';
+import userEvent from '@testing-library/user-event';
+
+import { render, screen, waitFor } from 'test/test-utils';
+import { mockAuthenticatedUser } from 'test/mocks/auth';
+import * as UseAuth from 'common/hooks/useAuth';
+
+import SessionSettings from './SessionSettings';
+
+describe('SessionSettings', () => {
+  it('should render successfully', async () => {
+    // ARRANGE
+    mockAuthenticatedUser(1);
+    render(<SessionSettings />);
+    await screen.findByTestId('settings-sessions-list');
+
+    // ASSERT
+    expect(screen.getByTestId('settings-sessions')).toBeDefined();
+    expect(screen.getAllByRole('listitem')).toHaveLength(3);
+    expect(screen.getByTestId('settings-sessions-session-session-1-current')).toBeDefined();
+    expect(screen.getByTestId('settings-sessions-button-revoke-others')).toBeEnabled();
+  });
+
+  it('should sign out everywhere else', async () => {
+    // ARRANGE
+    const user = userEvent.setup();
+    mockAuthenticatedUser(1);
+    render(<SessionSettings />);
+    await screen.findByTestId('settings-sessions-list');
+
+    // ACT
+    await user.click(screen.getByTestId('settings-sessions-button-revoke-others'));
+    await waitFor(() => expect(screen.getAllByRole('listitem')).toHaveLength(1));
+
+    // ASSERT
+    expect(screen.getByTestId('settings-sessions-session-session-1')).toBeDefined();
+    expect(screen.getByTestId('settings-sessions-button-revoke-others')).toBeDisabled();
+  });
+
+  it('should not allow signing out everywhere else when there are no other sessions', async () => {
+    // ARRANGE
+    mockAuthenticatedUser(2);
+    render(<SessionSettings />);
+    await screen.findByTestId('settings-sessions-list');
+
+    // ASSERT
+    expect(screen.getAllByRole('listitem')).toHaveLength(1);
+    expect(screen.getByTestId('settings-sessions-button-revoke-others')).toBeDisabled();
+  });
+
+  it('should display alert when sessions cannot be loaded', async () => {
+    // ARRANGE
+    vi.spyOn(UseAuth, 'useAuth').mockReturnValue({ isAuthenticated: true });
+    render(<SessionSettings />);
+    await screen.findByTestId('settings-sessions-error-list');
+
+    // ASSERT
+    expect(screen.getByTestId('settings-sessions-error-list')).toHaveTextContent(/not supported/i);
+  });
+});
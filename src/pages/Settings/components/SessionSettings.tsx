@@ -0,0 +1,96 @@
+import { useState } from 'react';
+import filter from 'lodash/filter';
+
+import { BaseComponentProps } from 'common/utils/types';
+import { useToasts } from 'common/hooks/useToasts';
+import { useGetSessions } from '../api/useGetSessions';
+import { useRevokeOtherSessions } from '../api/useRevokeOtherSessions';
+import Button from 'common/components/Button/Button';
+import ErrorAlert from 'common/components/Alert/ErrorAlert';
+import Skeleton from 'common/components/Loader/Skeleton';
+import SessionListItem from './SessionListItem';
+import SettingsHeading from './SettingsHeading';
+
+/**
+ * Properties for the `SessionSettings` component.
+ * @see {@link BaseComponentProps}
+ */
+interface SessionSettingsProps extends BaseComponentProps {}
+
+/**
+ * The `SessionSettings` React component renders the active sessions of the
+ * user, i.e. the devices and browsers where the user is signed in, with
+ * controls to revoke a session or to sign out everywhere else.
+ * @param {SessionSettingsProps} props - Component properties, `SessionSettingsProps`.
+ */
+const SessionSettings = ({ className, testId = 'settings-sessions' }: SessionSettingsProps) => {
+  const [error, setError] = useState<string>('');
+  const { data: sessions, isPending, error: sessionsError } = useGetSessions();
+  const { mutate: revokeOtherSessions, isPending: isRevoking } = useRevokeOtherSessions();
+  const { createToast } = useToasts();
+
+  const hasOtherSessions = filter(sessions, { current: false }).length > 0;
+
+  /**
+   * Revokes every session except the current session.
+   */
+  const onRevokeOthers = () => {
+    setError('');
+    revokeOtherSessions(undefined, {
+      onSuccess: () => {
+        createToast({ text: 'Signed out everywhere else.', isAutoDismiss: true, variant: 'success' });
+      },
+      onError: (err: Error) => {
+        setError(err.message);
+      },
+    });
+  };
+
+  return (
+    <div className={className} data-testid={testId}>
+      <SettingsHeading testId={`${testId}-settings-heading`}>Sessions</SettingsHeading>
+
+      <div className="my-4 text-sm">
+        These are the devices where you are signed in. Revoke a session you do not recognize.
+      </div>
+
+      {isPending && (
+        <div data-testid={`${testId}-loader`}>
+          <Skeleton className="h-16" />
+        </div>
+      )}
+
+      {sessionsError && (
+        <ErrorAlert
+          title="Unable to load sessions"
+          description={sessionsError.message}
+          testId={`${testId}-error-list`}
+        />
+      )}
+
+      {sessions && (
+        <>
+          <ul className="my-4" data-testid={`${testId}-list`}>
+            {sessions.map((session) => (
+              <SessionListItem key={session.id} session={session} testId={`${testId}-session-${session.id}`} />
+            ))}
+          </ul>
+
+          {error && (
+            <ErrorAlert title="Request failed" description={error} className="mb-4" testId={`${testId}-error`} />
+          )}
+          <Button
+            variant="outline"
+            onClick={onRevokeOthers}
+            disabled={isRevoking || !hasOtherSessions}
+            testId={`${testId}-button-revoke-others`}
+          >
+            Sign out everywhere else
+          </Button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SessionSettings;
@@ -1,10 +1,11 @@
 import userEvent from '@testing-library/user-event';
-import { describe, expect, it, vi } from 'vitest';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
 import { UseQueryResult } from '@tanstack/react-query';
 
 import { render, screen } from 'test/test-utils';
 import * as UseGetCurrentUser from 'common/api/useGetCurrentUser';
-import { User } from 'common/api/useGetUser';
+import * as UsePermission from 'common/hooks/usePermission';
+import { User } from 'common/api/generated/models';
 import { userFixture1 } from '__fixtures__/users';
 
 import TasksPage from './TasksPage';
@@ -20,6 +21,12 @@ vi.mock('react-router-dom', async () => {
 });
 
 describe('TasksPage', () => {
+  const usePermissionSpy = vi.spyOn(UsePermission, 'usePermission');
+
+  beforeEach(() => {
+    usePermissionSpy.mockReturnValue(true);
+  });
+
   it('should render successfully', async () => {
     // ARRANGE
     render(<TasksPage />);
@@ -56,4 +63,14 @@ describe('TasksPage', () => {
     // ASSERT
     expect(mockNavigate).toHaveBeenCalledWith('/app/tasks/add');
   });
+
+  it('should hide add button when not permitted', async () => {
+    // ARRANGE
+    usePermissionSpy.mockReturnValue(false);
+    render(<TasksPage />);
+    await screen.findByTestId('page-tasks');
+
+    // ASSERT
+    expect(screen.queryByTestId('page-tasks-button-add')).toBeNull();
+  });
 });
@@ -12,6 +12,8 @@ import UserInfo from './components/UserInfo';
 import Card from 'common/components/Card/Card';
 import FAIcon from 'common/components/Icon/FAIcon';
 import Button from 'common/components/Button/Button';
+import Can from 'common/components/Auth/Can';
+import { Permission } from 'common/utils/constants';
 
 /**
  * The `TasksPage` component renders the layout for the tasks family of pages.
@@ -32,23 +34,27 @@ const TasksPage = ({ testId = 'page-tasks' }: PropsWithTestId) => {
         <div className="mb-4 flex items-center justify-between border-b border-neutral-500/50 pb-2">
           <Heading level={1}>{t('tasks', { ns: 'tasks' })}</Heading>
           <div className="flex items-center gap-4">
-            <Button
-              variant="text"
-              size="icon"
-              title="Add task"
-              onClick={() => navigate('/app/tasks/add')}
-              data-testid={`${testId}-button-add`}
-            >
-              <FAIcon icon="plus" size="lg" fixedWidth />
-            </Button>
+            <Can permission={Permission.TasksCreate}>
+              <Button
+                variant="text"
+                size="icon"
+                title="Add task"
+                onClick={() => navigate('/app/tasks/add')}
+                data-testid={`${testId}-button-add`}
+              >
+                <FAIcon icon="plus" size="lg" fixedWidth />
+              </Button>
+            </Can>
           </div>
         </div>
 
         {currentUser && (
           <div data-testid={`${testId}-content`}>
-            <Card className="mb-4">
-              <UserInfo userId={currentUser.id} />
-            </Card>
+            {!!currentUser.id && (
+              <Card className="mb-4">
+                <UserInfo userId={currentUser.id} />
+              </Card>
+            )}
 
             <Outlet />
           </div>
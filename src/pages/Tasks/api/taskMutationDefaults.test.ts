@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import axios from 'axios';
+
+import { QueryKey } from 'common/utils/constants';
+import { queryClient } from 'test/query-client';
+
+import { setTaskMutationDefaults } from './taskMutationDefaults';
+
+describe('setTaskMutationDefaults', () => {
+  it('should set the defaults of the task mutations', () => {
+    // ACT
+    setTaskMutationDefaults({ api: axios, queryClient });
+
+    // ASSERT
+    ['createTask', 'updateTask', 'deleteTask'].forEach((mutation) => {
+      expect(queryClient.getMutationDefaults([QueryKey.Tasks, mutation]).mutationFn).toBeTypeOf('function');
+    });
+  });
+});
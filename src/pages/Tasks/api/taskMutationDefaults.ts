@@ -0,0 +1,20 @@
+import { TaskMutationDependencies } from './taskMutations';
+import { createTaskMutationOptions } from './useCreateTask';
+import { deleteTaskMutationOptions } from './useDeleteTask';
+import { updateTaskMutationOptions } from './useUpdateTask';
+
+/**
+ * Registers the options of the `Task` mutations as mutation defaults. A
+ * queued mutation restored from storage has no mutation function of its own;
+ * it is resumed with the defaults for its mutation key.
+ * @param {TaskMutationDependencies} dependencies - The mutation dependencies.
+ */
+export const setTaskMutationDefaults = (dependencies: TaskMutationDependencies): void => {
+  const { queryClient } = dependencies;
+  const createOptions = createTaskMutationOptions(dependencies);
+  queryClient.setMutationDefaults(createOptions.mutationKey, createOptions);
+  const updateOptions = updateTaskMutationOptions(dependencies);
+  queryClient.setMutationDefaults(updateOptions.mutationKey, updateOptions);
+  const deleteOptions = deleteTaskMutationOptions(dependencies);
+  queryClient.setMutationDefaults(deleteOptions.mutationKey, deleteOptions);
+};
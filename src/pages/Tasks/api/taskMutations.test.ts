@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+
+import { createOptimisticTaskId, isOptimisticTaskId } from './taskMutations';
+
+describe('taskMutations', () => {
+  it('should create optimistic task identifiers', () => {
+    // ACT
+    const taskId = createOptimisticTaskId();
+
+    // ASSERT
+    expect(taskId).toBeLessThan(0);
+    expect(Number.isSafeInteger(taskId)).toBe(true);
+    expect(isOptimisticTaskId(taskId)).toBe(true);
+  });
+
+  it('should not treat stored task identifiers as optimistic', () => {
+    // ASSERT
+    expect(isOptimisticTaskId(1)).toBe(false);
+    expect(isOptimisticTaskId(undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,44 @@
+import { QueryClient } from '@tanstack/react-query';
+import { AxiosInstance } from 'axios';
+
+import { QueryKey } from 'common/utils/constants';
+
+/**
+ * The dependencies of the `Task` mutation options.
+ * @param api - The Axios instance of the `tasks` API service.
+ * @param queryClient - The React Query client whose cached data is updated.
+ */
+export type TaskMutationDependencies = {
+  api: AxiosInstance;
+  queryClient: QueryClient;
+};
+
+/**
+ * The context of a `Task` mutation, returned by `onMutate`. The context is
+ * persisted with a queued mutation.
+ * @param taskId - The identifier of the mutated `Task`. A `Task` which has not
+ * been created yet has an optimistic identifier.
+ */
+export type TaskMutationContext = {
+  taskId: number;
+};
+
+/**
+ * The scope of the `Task` mutations. Mutations within a scope run one at a
+ * time, so that queued changes are replayed in the order they were made.
+ */
+export const TASK_MUTATION_SCOPE = { id: QueryKey.Tasks };
+
+/**
+ * Creates an identifier for a `Task` which has not been created yet.
+ * Optimistic identifiers are negative, so they never match a stored `Task`.
+ * @returns {number} The optimistic identifier.
+ */
+export const createOptimisticTaskId = (): number => -Math.ceil(Math.random() * Number.MAX_SAFE_INTEGER);
+
+/**
+ * Determines if a `Task` identifier is an optimistic identifier.
+ * @param {number} [taskId] - Optional. The `Task` identifier.
+ * @returns {boolean} Returns `true` if the `Task` has not been created yet.
+ */
+export const isOptimisticTaskId = (taskId?: number): boolean => !!taskId && taskId < 0;
@@ -1,10 +1,13 @@
 import { describe, expect, it } from 'vitest';
+import { onlineManager } from '@tanstack/react-query';
+import omit from 'lodash/omit';
 
 import { renderHook, waitFor } from 'test/test-utils';
 import { queryClient } from 'test/query-client';
-import { Task } from './useGetUserTasks';
+import { Task } from 'common/api/generated/models';
 import { QueryKey } from 'common/utils/constants';
 import { todosFixture } from '__fixtures__/todos';
+import { isOptimisticTaskId } from './taskMutations';
 
 import { useCreateTask } from './useCreateTask';
 
@@ -79,4 +82,32 @@ describe('useCreateTask', () => {
       todosFixture.length,
     );
   });
+
+  it('should add an optimistic task to cached data', async () => {
+    // ARRANGE
+    const taskToCreate = omit(todosFixture[0], 'id');
+    queryClient.setQueryData([QueryKey.Tasks, { userId: taskToCreate.userId }], []);
+    const { result } = renderHook(() => useCreateTask());
+    await waitFor(() => expect(result.current).not.toBeNull());
+    onlineManager.setOnline(false);
+
+    // ACT
+    result.current.mutate({ task: taskToCreate });
+    await waitFor(() => expect(result.current.isPaused).toBe(true));
+
+    // ASSERT
+    const cachedTasks = queryClient.getQueryData<Task[]>([QueryKey.Tasks, { userId: taskToCreate.userId }]);
+    expect(cachedTasks).toHaveLength(1);
+    expect(isOptimisticTaskId(cachedTasks?.[0].id)).toBe(true);
+    expect(result.current.context?.taskId).toBe(cachedTasks?.[0].id);
+
+    // ACT
+    onlineManager.setOnline(true);
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+    // ASSERT
+    expect(queryClient.getQueryData<Task[]>([QueryKey.Tasks, { userId: taskToCreate.userId }])).toEqual([
+      result.current.data,
+    ]);
+  });
 });
@@ -1,10 +1,16 @@
-import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { mutationOptions, useMutation, useQueryClient } from '@tanstack/react-query';
 import reject from 'lodash/reject';
 
-import { Task } from './useGetUserTasks';
-import { useAxios } from 'common/hooks/useAxios';
+import {
+  createOptimisticTaskId,
+  TASK_MUTATION_SCOPE,
+  TaskMutationContext,
+  TaskMutationDependencies,
+} from './taskMutations';
+import { Task } from 'common/api/generated/models';
+import { getCreateTaskMutationOptions } from 'common/api/generated/hooks';
+import { useApi } from 'common/hooks/useApi';
 import { QueryKey } from 'common/utils/constants';
-import { config } from 'common/utils/config';
 
 /**
  * The `CreateTaskDTO` object describes the `Task` attributes used to
@@ -19,41 +25,63 @@ export type CreateTaskVariables = {
   task: CreateTaskDTO;
 };
 
+/**
+ * Returns the options of the mutation which creates a single `Task`. The
+ * generated mutation options are extended to update the cache. The options
+ * are shared by the `useCreateTask` hook and the mutation defaults, which
+ * resume queued mutations after a reload.
+ *
+ * The created `Task` is added to the cached `Task` query data immediately,
+ * with an optimistic identifier. When the request fails, the cached data is
+ * refreshed.
+ * @param {TaskMutationDependencies} dependencies - The mutation dependencies.
+ * @returns The mutation options.
+ */
+export const createTaskMutationOptions = ({ api, queryClient }: TaskMutationDependencies) => {
+  const { mutationKey, mutationFn } = getCreateTaskMutationOptions(api);
+
+  return mutationOptions({
+    mutationKey,
+    mutationFn: ({ task }: CreateTaskVariables) => mutationFn({ body: task }),
+    scope: TASK_MUTATION_SCOPE,
+    onMutate: async ({ task }): Promise<TaskMutationContext> => {
+      const taskId = task.id ?? createOptimisticTaskId();
+      await queryClient.cancelQueries({ queryKey: [QueryKey.Tasks, { userId: task.userId }] });
+      queryClient.setQueryData<Task[]>([QueryKey.Tasks, { userId: task.userId }], (cachedTasks) =>
+        cachedTasks ? [...reject(cachedTasks, { id: taskId }), { ...task, id: taskId }] : cachedTasks,
+      );
+      return { taskId };
+    },
+    onSuccess: (data, variables, context) => {
+      // replace the optimistic task in the cached task list
+      queryClient.setQueryData<Task[]>([QueryKey.Tasks, { userId: variables.task.userId }], (cachedTasks) =>
+        cachedTasks ? [...reject(cachedTasks, ({ id }) => id === data.id || id === context?.taskId), data] : [data],
+      );
+      // create or update the cache for this task
+      queryClient.setQueryData<Task>([QueryKey.Tasks, data.id], () => data);
+    },
+    onError: () => {
+      // discard the optimistic task
+      return queryClient.invalidateQueries({ queryKey: [QueryKey.Tasks] });
+    },
+  });
+};
+
 /**
  * An API hook which creates a single `Task`. Returns a `UseMutationResult`
  * object whose ` mutate` attribute is a function to create a `Task`.
  *
  * When successful, the hook updates the cached `Task` query data.
  *
+ * The request is sent with an `Idempotency-Key`, so that a retry following a
+ * transient failure does not create a duplicate `Task`. While offline, the
+ * mutation is queued until the browser is back online.
+ *
  * @returns Returns a `UseMutationResult`.
  */
 export const useCreateTask = () => {
   const queryClient = useQueryClient();
-  const axios = useAxios();
-
-  /**
-   * Create a `Task`.
-   * @param {CreateTaskVariables} variables - The mutation function variables.
-   * @returns A Promise which resolves to the created `Task`.
-   */
-  const createTask = async ({ task }: CreateTaskVariables): Promise<Task> => {
-    const response = await axios.request({
-      method: 'post',
-      url: `${config.VITE_BASE_URL_API}/todos`,
-      data: task,
-    });
-    return response.data;
-  };
+  const api = useApi('tasks');
 
-  return useMutation({
-    mutationFn: createTask,
-    onSuccess: (data, variables) => {
-      // update the cached task list
-      queryClient.setQueryData<Task[]>([QueryKey.Tasks, { userId: variables.task.userId }], (cachedTasks) =>
-        cachedTasks ? [...reject(cachedTasks, { id: data.id }), data] : [data],
-      );
-      // create or update the cache for this task
-      queryClient.setQueryData<Task>([QueryKey.Tasks, data.id], () => data);
-    },
-  });
+  return useMutation(createTaskMutationOptions({ api, queryClient }));
 };
@@ -1,10 +1,13 @@
 import { describe, expect, it } from 'vitest';
+import { onlineManager } from '@tanstack/react-query';
+import { http, HttpResponse } from 'msw';
 
 import { QueryKey } from 'common/utils/constants';
-import { Task } from 'pages/Tasks/api/useGetUserTasks';
+import { Task } from 'common/api/generated/models';
 import { todosFixture } from '__fixtures__/todos';
 import { queryClient } from 'test/query-client';
 import { renderHook, waitFor } from 'test/test-utils';
+import { server } from 'test/mocks/server';
 
 import { useDeleteTask } from './useDeleteTask';
 
@@ -54,4 +57,39 @@ describe('useDeleteTask', () => {
     expect(isSuccess).toBe(true);
     expect(queryClient.getQueryData<Task[]>([QueryKey.Tasks, { userId: taskToDelete.userId }])?.length).toBe(0);
   });
+
+  it('should treat a task deleted elsewhere as deleted', async () => {
+    // ARRANGE
+    const taskToDelete = todosFixture[0];
+    server.use(
+      http.delete(`https://jsonplaceholder.typicode.com/todos/${taskToDelete.id}`, () => {
+        return new HttpResponse(null, { status: 404 });
+      }),
+    );
+    const { result } = renderHook(() => useDeleteTask());
+    await waitFor(() => expect(result.current).not.toBeNull());
+
+    // ACT
+    result.current.mutate({ task: taskToDelete });
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+    // ASSERT
+    expect(result.current.isSuccess).toBe(true);
+  });
+
+  it('should remove cached data while offline', async () => {
+    // ARRANGE
+    const taskToDelete = todosFixture[0];
+    queryClient.setQueryData([QueryKey.Tasks, { userId: taskToDelete.userId }], [taskToDelete]);
+    const { result } = renderHook(() => useDeleteTask());
+    await waitFor(() => expect(result.current).not.toBeNull());
+    onlineManager.setOnline(false);
+
+    // ACT
+    result.current.mutate({ task: taskToDelete });
+    await waitFor(() => expect(result.current.isPaused).toBe(true));
+
+    // ASSERT
+    expect(queryClient.getQueryData<Task[]>([QueryKey.Tasks, { userId: taskToDelete.userId }])?.length).toBe(0);
+  });
 });
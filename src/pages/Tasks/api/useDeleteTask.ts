@@ -1,10 +1,12 @@
-import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { mutationOptions, useMutation, useQueryClient } from '@tanstack/react-query';
+import { isAxiosError } from 'axios';
 import reject from 'lodash/reject';
 
 import { QueryKey } from 'common/utils/constants';
-import { config } from 'common/utils/config';
-import { Task } from 'pages/Tasks/api/useGetUserTasks';
-import { useAxios } from 'common/hooks/useAxios';
+import { Task } from 'common/api/generated/models';
+import { getDeleteTaskMutationOptions } from 'common/api/generated/hooks';
+import { TASK_MUTATION_SCOPE, TaskMutationContext, TaskMutationDependencies } from './taskMutations';
+import { useApi } from 'common/hooks/useApi';
 
 /**
  * The `useDeleteTask` mutation function variables.
@@ -14,34 +16,63 @@ export type DeleteTaskVariables = {
 };
 
 /**
- * An API hook which deletes a single `Task`. Returns a `UseMutationResult`
- * object whose `mutate` attribute is a function to delete a `Task`.
- *
- * When successful, the hook updates cached `Task` query data.
+ * Returns the options of the mutation which deletes a single `Task`. The
+ * generated mutation options are extended to update the cache. The options
+ * are shared by the `useDeleteTask` hook and the mutation defaults, which
+ * resume queued mutations after a reload.
  *
- * @returns Returns a `UseMutationResult`.
+ * The `Task` is removed from the cached `Task` query data immediately. When
+ * the request fails, the cached data is refreshed.
+ * @param {TaskMutationDependencies} dependencies - The mutation dependencies.
+ * @returns The mutation options.
  */
-export const useDeleteTask = () => {
-  const queryClient = useQueryClient();
-  const axios = useAxios();
+export const deleteTaskMutationOptions = ({ api, queryClient }: TaskMutationDependencies) => {
+  const { mutationKey, mutationFn } = getDeleteTaskMutationOptions(api);
 
-  /**
-   * Delete a `Task`.
-   * @param {DeleteTaskVariables} variables - The mutation function variables.
-   */
-  const deleteTask = async ({ task }: DeleteTaskVariables): Promise<void> => {
-    await axios.request({
-      method: 'delete',
-      url: `${config.VITE_BASE_URL_API}/todos/${task.id}`,
-    });
-  };
-
-  return useMutation({
-    mutationFn: deleteTask,
+  return mutationOptions({
+    mutationKey,
+    // a task which was deleted elsewhere, e.g. while the request was queued, is treated as deleted
+    mutationFn: async ({ task }: DeleteTaskVariables): Promise<void> => {
+      try {
+        await mutationFn({ taskId: task.id });
+      } catch (err) {
+        if (!(isAxiosError(err) && err.response?.status === 404)) {
+          throw err;
+        }
+      }
+    },
+    scope: TASK_MUTATION_SCOPE,
+    onMutate: async ({ task }): Promise<TaskMutationContext> => {
+      await queryClient.cancelQueries({ queryKey: [QueryKey.Tasks, { userId: task.userId }] });
+      queryClient.setQueryData<Task[]>([QueryKey.Tasks, { userId: task.userId }], (cachedTasks) =>
+        cachedTasks ? [...reject(cachedTasks, { id: task.id })] : cachedTasks,
+      );
+      return { taskId: task.id };
+    },
     onSuccess: (_data, variables) => {
       queryClient.setQueryData<Task[]>([QueryKey.Tasks, { userId: variables.task.userId }], (cachedTasks) =>
         cachedTasks ? [...reject(cachedTasks, { id: variables.task.id })] : [],
       );
     },
+    onError: () => {
+      // restore the task
+      return queryClient.invalidateQueries({ queryKey: [QueryKey.Tasks] });
+    },
   });
 };
+
+/**
+ * An API hook which deletes a single `Task`. Returns a `UseMutationResult`
+ * object whose `mutate` attribute is a function to delete a `Task`.
+ *
+ * When successful, the hook updates cached `Task` query data. While offline,
+ * the mutation is queued until the browser is back online.
+ *
+ * @returns Returns a `UseMutationResult`.
+ */
+export const useDeleteTask = () => {
+  const queryClient = useQueryClient();
+  const api = useApi('tasks');
+
+  return useMutation(deleteTaskMutationOptions({ api, queryClient }));
+};
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { act } from 'react';
+import { onlineManager } from '@tanstack/react-query';
+
+import { todosFixture } from '__fixtures__/todos';
+import { renderHook, waitFor } from 'test/test-utils';
+import { useUpdateTask } from './useUpdateTask';
+
+import { useIsTaskQueued } from './useIsTaskQueued';
+
+describe('useIsTaskQueued', () => {
+  it('should not be queued', async () => {
+    // ARRANGE
+    const { result } = renderHook(() => useIsTaskQueued(todosFixture[0].id));
+    await waitFor(() => expect(result.current).not.toBeNull());
+
+    // ASSERT
+    expect(result.current).toBe(false);
+  });
+
+  it('should be queued while offline', async () => {
+    // ARRANGE
+    const { result } = renderHook(() => ({
+      isQueued: useIsTaskQueued(todosFixture[0].id),
+      isOtherQueued: useIsTaskQueued(todosFixture[1].id),
+      updateTask: useUpdateTask(),
+    }));
+    await waitFor(() => expect(result.current).not.toBeNull());
+    onlineManager.setOnline(false);
+
+    // ACT
+    act(() => result.current.updateTask.mutate({ task: { ...todosFixture[0], completed: true } }));
+    await waitFor(() => expect(result.current.isQueued).toBe(true));
+
+    // ASSERT
+    expect(result.current.isOtherQueued).toBe(false);
+
+    // ACT
+    act(() => onlineManager.setOnline(true));
+    await waitFor(() => expect(result.current.updateTask.isSuccess).toBe(true));
+
+    // ASSERT
+    expect(result.current.isQueued).toBe(false);
+  });
+});
@@ -0,0 +1,23 @@
+import { useMutationState } from '@tanstack/react-query';
+
+import { QueryKey } from 'common/utils/constants';
+import { TaskMutationContext } from './taskMutations';
+
+/**
+ * A hook which determines if a change to a `Task` is queued, i.e. the change
+ * was made while offline and has not been sent yet.
+ * @param {number} taskId - The `Task` identifier.
+ * @returns {boolean} Returns `true` if a change to the `Task` is queued.
+ */
+export const useIsTaskQueued = (taskId: number): boolean => {
+  const queuedMutationIds = useMutationState({
+    filters: {
+      mutationKey: [QueryKey.Tasks],
+      status: 'pending',
+      predicate: (mutation) =>
+        mutation.state.isPaused && (mutation.state.context as TaskMutationContext | undefined)?.taskId === taskId,
+    },
+    select: (mutation) => mutation.mutationId,
+  });
+  return queuedMutationIds.length > 0;
+};
@@ -1,10 +1,11 @@
-import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { mutationOptions, useMutation, useQueryClient } from '@tanstack/react-query';
 import reject from 'lodash/reject';
 
 import { QueryKey } from 'common/utils/constants';
-import { config } from 'common/utils/config';
-import { Task } from 'pages/Tasks/api/useGetUserTasks';
-import { useAxios } from 'common/hooks/useAxios';
+import { Task } from 'common/api/generated/models';
+import { getUpdateTaskMutationOptions } from 'common/api/generated/hooks';
+import { TASK_MUTATION_SCOPE, TaskMutationContext, TaskMutationDependencies } from './taskMutations';
+import { useApi } from 'common/hooks/useApi';
 
 /**
  * The `useUpdateTask` mutation function variables.
@@ -14,32 +15,31 @@ export type UpdateTaskVariables = {
 };
 
 /**
- * An API hook which updates a single `Task`. Returns a `UseMutationResult`
- * object whose `mutate` attribute is a function to update a `Task`.
+ * Returns the options of the mutation which updates a single `Task`. The
+ * generated mutation options are extended to update the cache. The options
+ * are shared by the `useUpdateTask` hook and the mutation defaults, which
+ * resume queued mutations after a reload.
  *
- * When successful, the hook updates cached `Task` query data.
- * @returns Returns a `UseMutationResult`.
+ * The cached `Task` query data is updated immediately. When the request
+ * fails, the cached data is refreshed.
+ * @param {TaskMutationDependencies} dependencies - The mutation dependencies.
+ * @returns The mutation options.
  */
-export const useUpdateTask = () => {
-  const queryClient = useQueryClient();
-  const axios = useAxios();
+export const updateTaskMutationOptions = ({ api, queryClient }: TaskMutationDependencies) => {
+  const { mutationKey, mutationFn } = getUpdateTaskMutationOptions(api);
 
-  /**
-   * Update a `Task`.
-   * @param {UpdateTaskVariables} variables - The mutation function variables.
-   * @returns The updated `Task` object.
-   */
-  const updateTask = async ({ task }: UpdateTaskVariables): Promise<Task> => {
-    const response = await axios.request({
-      method: 'put',
-      url: `${config.VITE_BASE_URL_API}/todos/${task.id}`,
-      data: task,
-    });
-    return response.data;
-  };
-
-  return useMutation({
-    mutationFn: updateTask,
+  return mutationOptions({
+    mutationKey,
+    mutationFn: ({ task }: UpdateTaskVariables) => mutationFn({ taskId: task.id, body: task }),
+    scope: TASK_MUTATION_SCOPE,
+    onMutate: async ({ task }): Promise<TaskMutationContext> => {
+      await queryClient.cancelQueries({ queryKey: [QueryKey.Tasks] });
+      queryClient.setQueryData<Task[]>([QueryKey.Tasks, { userId: task.userId }], (cachedTasks) =>
+        cachedTasks ? cachedTasks.map((cachedTask) => (cachedTask.id === task.id ? task : cachedTask)) : cachedTasks,
+      );
+      queryClient.setQueryData<Task>([QueryKey.Tasks, task.id], (cachedTask) => (cachedTask ? task : cachedTask));
+      return { taskId: task.id };
+    },
     onSuccess: (data, variables) => {
       // update the cached task list
       queryClient.setQueryData<Task[]>([QueryKey.Tasks, { userId: variables.task.userId }], (cachedTasks) =>
@@ -48,5 +48,24 @@ export const useUpdateTask = () => {
       // update the cache for this task
       queryClient.setQueryData<Task>([QueryKey.Tasks, data.id], () => data);
     },
+    onError: () => {
+      // discard the optimistic update
+      return queryClient.invalidateQueries({ queryKey: [QueryKey.Tasks] });
+    },
   });
 };
+
+/**
+ * An API hook which updates a single `Task`. Returns a `UseMutationResult`
+ * object whose `mutate` attribute is a function to update a `Task`.
+ *
+ * When successful, the hook updates cached `Task` query data. While offline,
+ * the mutation is queued until the browser is back online.
+ * @returns Returns a `UseMutationResult`.
+ */
+export const useUpdateTask = () => {
+  const queryClient = useQueryClient();
+  const api = useApi('tasks');
+
+  return useMutation(updateTaskMutationOptions({ api, queryClient }));
+};
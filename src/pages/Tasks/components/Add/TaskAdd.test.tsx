@@ -1,10 +1,10 @@
 import { describe, expect, it, vi } from 'vitest';
 import userEvent from '@testing-library/user-event';
-import { UseQueryResult } from '@tanstack/react-query';
+import { onlineManager, UseQueryResult } from '@tanstack/react-query';
 
 import { render, screen, waitFor } from 'test/test-utils';
 import * as UseGetCurrentUser from 'common/api/useGetCurrentUser';
-import { User } from 'common/api/useGetUser';
+import { User } from 'common/api/generated/models';
 import { userFixture1 } from '__fixtures__/users';
 
 import TaskAdd from './TaskAdd';
@@ -89,4 +89,24 @@ describe('TaskAdd', () => {
     expect(mockNavigate).not.toHaveBeenCalled();
     expect(screen.getByTestId('task-add-error-create')).toBeDefined();
   });
+
+  it('should queue task while offline', async () => {
+    // ARRANGE
+    const user = userEvent.setup();
+    const useGetCurrentUserSpy = vi.spyOn(UseGetCurrentUser, 'useGetCurrentUser');
+    useGetCurrentUserSpy.mockReturnValue({
+      data: userFixture1,
+    } as unknown as UseQueryResult<User>);
+    render(<TaskAdd />);
+    await screen.findByTestId('task-form-button-submit');
+    onlineManager.setOnline(false);
+
+    // ACT
+    await user.type(screen.getByTestId('task-form-input-title-input'), 'do this thing');
+    await user.click(screen.getByTestId('task-form-button-submit'));
+
+    // ASSERT
+    await waitFor(() => expect(mockNavigate).toHaveBeenCalledWith(-1));
+    expect(screen.queryByTestId('task-add-error-create')).toBeNull();
+  });
 });
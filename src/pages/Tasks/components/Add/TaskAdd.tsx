@@ -1,6 +1,7 @@
 import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
+import { onlineManager } from '@tanstack/react-query';
 
 import { useToasts } from 'common/hooks/useToasts';
 import { useGetCurrentUser } from 'common/api/useGetCurrentUser';
@@ -17,11 +18,11 @@ export interface TaskAddProps extends BaseComponentProps {}
 
 /**
  * The `TaskAdd` component renders the layout for creating a new Task including
- * headings, the task form, etc.
+ * headings, the task form, etc. While offline, the new Task is queued.
  * @param {TaskAddProps} props - Component properties.
  */
 const TaskAdd = ({ className, testId = 'task-add' }: TaskAddProps) => {
-  const [taskCreateError, setTaskCreateError] = useState('');
+  const [taskCreateError, setTaskCreateError] = useState<Error | null>(null);
   const { t } = useTranslation();
   const navigate = useNavigate();
   const { createToast } = useToasts();
@@ -54,13 +55,19 @@ const TaskAdd = ({ className, testId = 'task-add' }: TaskAddProps) => {
             navigate(-1);
           },
           onError: (err) => {
-            setTaskCreateError(err.message);
+            setTaskCreateError(err);
           },
           onSettled: () => {
             resolve();
           },
         },
       );
+      if (!onlineManager.isOnline()) {
+        // the change is queued and sent when the browser is back online
+        createToast({ text: t('savedOffline', { ns: 'tasks' }), isAutoDismiss: true });
+        navigate(-1);
+        resolve();
+      }
     });
   };
 
@@ -70,16 +77,12 @@ const TaskAdd = ({ className, testId = 'task-add' }: TaskAddProps) => {
       <h2 className="mb-8 border-b border-neutral-500/10 pb-1 text-lg font-bold">{t('addTask', { ns: 'tasks' })}</h2>
 
       {/* error state */}
-      {!!taskCreateError && (
-        <ErrorAlert
-          description={`${t('errors.unable-to-process')} ${taskCreateError}`}
-          className="mb-4"
-          testId={`${testId}-error-create`}
-        />
-      )}
+      {!!taskCreateError && <ErrorAlert error={taskCreateError} className="mb-4" testId={`${testId}-error-create`} />}
 
       {/* form */}
-      {!!user && <TaskForm task={{ userId: user.id }} onCancel={onFormCancel} onSubmit={onFormSubmit} />}
+      {!!user?.id && (
+        <TaskForm task={{ userId: user.id }} error={taskCreateError} onCancel={onFormCancel} onSubmit={onFormSubmit} />
+      )}
     </div>
   );
 };
@@ -5,7 +5,7 @@ import { useTranslation } from 'react-i18next';
 
 import { cn } from 'common/utils/css';
 import { BaseComponentProps } from 'common/utils/types';
-import { Task } from 'pages/Tasks/api/useGetUserTasks';
+import { Task } from 'common/api/generated/models';
 import DonutChart, { DonutChartData, DonutChartProps } from 'common/components/Chart/DonutChart';
 
 /**
@@ -1,9 +1,10 @@
 import { PropsWithChildren } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
+import { onlineManager } from '@tanstack/react-query';
 
 import { BaseComponentProps } from 'common/utils/types';
-import { Task } from 'pages/Tasks/api/useGetUserTasks';
+import { Task } from 'common/api/generated/models';
 import { useDeleteTask } from 'pages/Tasks/api/useDeleteTask';
 import { useToasts } from 'common/hooks/useToasts';
 import Dialog from 'common/components/Dialog/Dialog';
@@ -18,11 +19,11 @@ interface TaskDeleteDialogProps extends BaseComponentProps, PropsWithChildren {
 
 /**
  * The `TaskDeleteDialog` renders a dialog prompting for deletion confirmation
- * of a `Task`.
+ * of a `Task`. While offline, the deletion is queued.
  */
 const TaskDeleteDialog = ({ children, className, task, testId = 'dialog-task-delete' }: TaskDeleteDialogProps) => {
-  const { t } = useTranslation();
   const navigate = useNavigate();
+  const { t } = useTranslation();
   const { createToast } = useToasts();
   const { mutate: deleteTask, isPending, error } = useDeleteTask();
 
@@ -42,6 +43,11 @@ const TaskDeleteDialog = ({ children, className, task, testId = 'dialog-task-del
         },
       },
     );
+    if (!onlineManager.isOnline()) {
+      // the deletion is queued and sent when the browser is back online
+      createToast({ text: t('savedOffline', { ns: 'tasks' }), isAutoDismiss: true });
+      navigate(-1);
+    }
   };
 
   return (
@@ -55,13 +61,7 @@ const TaskDeleteDialog = ({ children, className, task, testId = 'dialog-task-del
               <Dialog.Subtitle>Deleting a task is permanent.</Dialog.Subtitle>
             </Dialog.Header>
             <Dialog.Body>
-              {error && (
-                <ErrorAlert
-                  description={`${t('errors.unable-to-process')} ${error.message}`}
-                  className="mb-4"
-                  testId={`${testId}-error`}
-                />
-              )}
+              {error && <ErrorAlert error={error} className="mb-4" testId={`${testId}-error`} />}
               <div>
                 Delete task <span className="text-neutral-500">{task.title}</span>.
               </div>
@@ -2,7 +2,7 @@ import { beforeEach, describe, expect, it, vi } from 'vitest';
 import userEvent from '@testing-library/user-event';
 
 import { render, screen, waitFor } from 'test/test-utils';
-import { Task } from 'pages/Tasks/api/useGetUserTasks';
+import { Task } from 'common/api/generated/models';
 import { todosFixture } from '__fixtures__/todos';
 import * as UseToasts from 'common/hooks/useToasts';
 
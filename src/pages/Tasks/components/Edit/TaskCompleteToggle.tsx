@@ -3,7 +3,7 @@ import { useState } from 'react';
 
 import { cn } from 'common/utils/css';
 import { BaseComponentProps } from 'common/utils/types';
-import { Task } from 'pages/Tasks/api/useGetUserTasks';
+import { Task } from 'common/api/generated/models';
 import { useUpdateTask } from 'pages/Tasks/api/useUpdateTask';
 import { useToasts } from 'common/hooks/useToasts';
 import FAIcon from 'common/components/Icon/FAIcon';
@@ -12,10 +12,12 @@ import Button from 'common/components/Button/Button';
 /**
  * Propeties for the `TaskCompleteToggle` component.
  * @param {Task} task - A Task object.
+ * @param {boolean} [disabled] - Optional. Indicates the toggle is disabled.
  * @see {@link BaseComponentProps}
  */
 interface TaskCompleteToggleProps extends BaseComponentProps {
   task: Task;
+  disabled?: boolean;
 }
 
 /**
@@ -23,7 +25,12 @@ interface TaskCompleteToggleProps extends BaseComponentProps {
  * to toggle the value of the Task `complete` attribute.
  * @param {TaskCompleteToggleProps} props - Component properties.
  */
-const TaskCompleteToggle = ({ className, task, testId = 'toggle-task-complete' }: TaskCompleteToggleProps) => {
+const TaskCompleteToggle = ({
+  className,
+  disabled = false,
+  task,
+  testId = 'toggle-task-complete',
+}: TaskCompleteToggleProps) => {
   const [isHovering, setIsHovering] = useState(false);
   const { t } = useTranslation();
   const { mutate: updateTask, isPending } = useUpdateTask();
@@ -65,7 +72,7 @@ const TaskCompleteToggle = ({ className, task, testId = 'toggle-task-complete' }
       onClick={handleButtonClick}
       onMouseEnter={() => setIsHovering(true)}
       onMouseLeave={() => setIsHovering(false)}
-      disabled={isPending}
+      disabled={disabled || isPending}
       data-testid={testId}
     >
       <FAIcon
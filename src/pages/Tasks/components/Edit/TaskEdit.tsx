@@ -2,11 +2,12 @@ import { useState } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
 import toNumber from 'lodash/toNumber';
 import { useTranslation } from 'react-i18next';
+import { onlineManager } from '@tanstack/react-query';
 
 import { cn } from 'common/utils/css';
 import { BaseComponentProps } from 'common/utils/types';
-import { Task } from 'pages/Tasks/api/useGetUserTasks';
-import { useGetTask } from 'pages/Tasks/api/useGetTask';
+import { Task } from 'common/api/generated/models';
+import { useGetTask } from 'common/api/generated/hooks';
 import { useToasts } from 'common/hooks/useToasts';
 import { useUpdateTask } from 'pages/Tasks/api/useUpdateTask';
 import TaskForm, { TaskFormValues } from '../Form/TaskForm';
@@ -21,11 +22,11 @@ export interface TaskEditProps extends BaseComponentProps {}
 
 /**
  * The `TaskAdd` component renders the layout for updating a Task including
- * headings, the task form, etc.
+ * headings, the task form, etc. While offline, the change is queued.
  * @param {TaskEditProps} props - Component properties.
  */
 const TaskEdit = ({ className, testId = 'task-edit' }: TaskEditProps) => {
-  const [taskUpdateError, setTaskUpdateError] = useState('');
+  const [taskUpdateError, setTaskUpdateError] = useState<Error | null>(null);
   const { t } = useTranslation();
   const navigate = useNavigate();
   const { createToast } = useToasts();
@@ -60,13 +61,19 @@ const TaskEdit = ({ className, testId = 'task-edit' }: TaskEditProps) => {
             navigate(-1);
           },
           onError: (err) => {
-            setTaskUpdateError(err.message);
+            setTaskUpdateError(err);
           },
           onSettled: () => {
             resolve();
           },
         },
       );
+      if (!onlineManager.isOnline()) {
+        // the change is queued and sent when the browser is back online
+        createToast({ text: t('savedOffline', { ns: 'tasks' }), isAutoDismiss: true });
+        navigate(-1);
+        resolve();
+      }
     });
   };
 
@@ -87,16 +94,10 @@ const TaskEdit = ({ className, testId = 'task-edit' }: TaskEditProps) => {
         />
       )}
 
-      {!!taskUpdateError && (
-        <ErrorAlert
-          description={`${t('errors.unable-to-process')} ${taskUpdateError}`}
-          className="mb-4"
-          testId={`${testId}-error-update`}
-        />
-      )}
+      {!!taskUpdateError && <ErrorAlert error={taskUpdateError} className="mb-4" testId={`${testId}-error-update`} />}
 
       {/* form */}
-      {!!task && <TaskForm task={task} onCancel={onFormCancel} onSubmit={onFormSubmit} />}
+      {!!task && <TaskForm task={task} error={taskUpdateError} onCancel={onFormCancel} onSubmit={onFormSubmit} />}
     </div>
   );
 };
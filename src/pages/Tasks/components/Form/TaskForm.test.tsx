@@ -1,8 +1,10 @@
 import { describe, expect, it, vi } from 'vitest';
 import userEvent from '@testing-library/user-event';
+import { AxiosError, AxiosResponse } from 'axios';
 
 import { render, screen } from 'test/test-utils';
 import { todosFixture } from '__fixtures__/todos';
+import { ApiError } from 'common/utils/apiError';
 
 import TaskForm from './TaskForm';
 
@@ -68,4 +70,22 @@ describe('TaskForm', () => {
     // ASSERT
     expect(onSubmitSpy).toHaveBeenCalled();
   });
+
+  it('should render field errors of submission error', async () => {
+    // ARRANGE
+    const onCancelSpy = vi.fn();
+    const onSubmitSpy = vi.fn();
+    const error = new ApiError(
+      new AxiosError('Request failed with status code 422', AxiosError.ERR_BAD_REQUEST, undefined, undefined, {
+        status: 422,
+        headers: { 'content-type': 'application/problem+json' },
+        data: { title: 'Validation failed', errors: { title: ['A task with this title exists.'] } },
+      } as unknown as AxiosResponse),
+    );
+    render(<TaskForm onCancel={onCancelSpy} onSubmit={onSubmitSpy} task={todosFixture[0]} error={error} />);
+    await screen.findByTestId('task-form-input-title-error');
+
+    // ASSERT
+    expect(screen.getByTestId('task-form-input-title-error')).toHaveTextContent('A task with this title exists.');
+  });
 });
@@ -1,3 +1,4 @@
+import { useEffect } from 'react';
 import { useForm } from 'react-hook-form';
 import { useTranslation } from 'react-i18next';
 import { z } from 'zod';
@@ -5,7 +6,8 @@ import { zodResolver } from '@hookform/resolvers/zod';
 
 import { cn } from 'common/utils/css';
 import { BaseComponentProps } from 'common/utils/types';
-import { Task } from 'pages/Tasks/api/useGetUserTasks';
+import { setFormErrors } from 'common/utils/apiError';
+import { Task } from 'common/api/generated/models';
 import Input from 'common/components/Form/Input';
 import Button from 'common/components/Button/Button';
 import Toggle from 'common/components/Form/Toggle';
@@ -17,6 +19,8 @@ export type TaskFormValues = Pick<Task, 'userId' | 'title' | 'completed'>;
 
 /**
  * Properties for the `TaskForm` component.
+ * @param {unknown} [error] - Optional. The error of the last submission. The
+ * field errors of an `ApiError` are displayed on the form fields.
  * @param {function} onCancel - Optional. Function invoked when the form is cancelled.
  * @param {function} onSubmit - Optional. Function invoked when the form is
  * successfully submitted.
@@ -24,6 +28,7 @@ export type TaskFormValues = Pick<Task, 'userId' | 'title' | 'completed'>;
  * @see {@link BaseComponentProps}
  */
 export interface TaskFormProps extends BaseComponentProps {
+  error?: unknown;
   onCancel: () => Promise<void> | void;
   onSubmit: (data: TaskFormValues) => Promise<void> | void;
   task?: Partial<Task>;
@@ -36,7 +41,7 @@ export interface TaskFormProps extends BaseComponentProps {
  *
  * @param {TaskFormProps} props - Component properties.
  */
-const TaskForm = ({ className, onCancel, onSubmit, task, testId = 'task-form' }: TaskFormProps) => {
+const TaskForm = ({ className, error, onCancel, onSubmit, task, testId = 'task-form' }: TaskFormProps) => {
   const { t } = useTranslation();
 
   /**
@@ -54,7 +59,7 @@ const TaskForm = ({ className, onCancel, onSubmit, task, testId = 'task-form' }:
   /**
    * Initializes management of the form.
    */
-  const { control, formState, handleSubmit } = useForm({
+  const { control, formState, handleSubmit, setError } = useForm({
     defaultValues: {
       userId: task?.userId || 0,
       title: task?.title || '',
@@ -64,6 +69,13 @@ const TaskForm = ({ className, onCancel, onSubmit, task, testId = 'task-form' }:
     resolver: zodResolver(schema),
   });
 
+  /**
+   * Displays the field errors of the last submission.
+   */
+  useEffect(() => {
+    setFormErrors(error, setError, ['title', 'completed']);
+  }, [error, setError]);
+
   return (
     <div className={cn('lg:w-2/3 xl:w-1/2', className)} data-testid={testId}>
       <form onSubmit={handleSubmit(onSubmit)} noValidate>
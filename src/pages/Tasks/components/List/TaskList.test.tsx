@@ -3,7 +3,8 @@ import { describe, expect, it, vi } from 'vitest';
 import { UseQueryResult } from '@tanstack/react-query';
 
 import { todosFixture } from '__fixtures__/todos';
-import * as UseGetUserTasks from 'pages/Tasks/api/useGetUserTasks';
+import * as Hooks from 'common/api/generated/hooks';
+import { Task } from 'common/api/generated/models';
 
 import TaskList from './TaskList';
 
@@ -29,13 +30,13 @@ describe('TaskList', () => {
 
   it('should show heading with badge', async () => {
     // ARRANGE
-    const useGetUserTasksSpy = vi.spyOn(UseGetUserTasks, 'useGetUserTasks');
+    const useGetUserTasksSpy = vi.spyOn(Hooks, 'useGetUserTasks');
     useGetUserTasksSpy.mockReturnValue({
       data: todosFixture,
       error: null,
       isError: false,
       isLoading: false,
-    } as unknown as UseQueryResult<UseGetUserTasks.Task[], Error>);
+    } as unknown as UseQueryResult<Task[], Error>);
     const title = 'My Title';
     render(<TaskList userId={1} title={title} showBadge />);
     await screen.findByTestId('list-task-heading-badge');
@@ -46,13 +47,13 @@ describe('TaskList', () => {
 
   it('should show error state', async () => {
     // ARRANGE
-    const useGetUserTasksSpy = vi.spyOn(UseGetUserTasks, 'useGetUserTasks');
+    const useGetUserTasksSpy = vi.spyOn(Hooks, 'useGetUserTasks');
     useGetUserTasksSpy.mockReturnValue({
       data: undefined,
       error: new Error('test'),
       isError: true,
       isLoading: false,
-    } as unknown as UseQueryResult<UseGetUserTasks.Task[], Error>);
+    } as unknown as UseQueryResult<Task[], Error>);
     render(<TaskList userId={1} />);
     await screen.findByTestId('list-task-error');
 
@@ -62,13 +63,13 @@ describe('TaskList', () => {
 
   it('should show loading state', async () => {
     // ARRANGE
-    const useGetUserTasksSpy = vi.spyOn(UseGetUserTasks, 'useGetUserTasks');
+    const useGetUserTasksSpy = vi.spyOn(Hooks, 'useGetUserTasks');
     useGetUserTasksSpy.mockReturnValue({
       data: undefined,
       error: null,
       isError: false,
       isLoading: true,
-    } as unknown as UseQueryResult<UseGetUserTasks.Task[], Error>);
+    } as unknown as UseQueryResult<Task[], Error>);
     render(<TaskList userId={1} />);
     await screen.findByTestId('list-task-loading');
 
@@ -78,13 +79,13 @@ describe('TaskList', () => {
 
   it('should show empty state', async () => {
     // ARRANGE
-    const useGetUserTasksSpy = vi.spyOn(UseGetUserTasks, 'useGetUserTasks');
+    const useGetUserTasksSpy = vi.spyOn(Hooks, 'useGetUserTasks');
     useGetUserTasksSpy.mockReturnValue({
       data: [],
       error: null,
       isError: false,
       isLoading: false,
-    } as unknown as UseQueryResult<UseGetUserTasks.Task[], Error>);
+    } as unknown as UseQueryResult<Task[], Error>);
     render(<TaskList userId={1} />);
     await screen.findByTestId('list-task-empty');
 
@@ -94,13 +95,13 @@ describe('TaskList', () => {
 
   it('should show content when loaded successfully', async () => {
     // ARRANGE
-    const useGetUserTasksSpy = vi.spyOn(UseGetUserTasks, 'useGetUserTasks');
+    const useGetUserTasksSpy = vi.spyOn(Hooks, 'useGetUserTasks');
     useGetUserTasksSpy.mockReturnValue({
       data: todosFixture,
       error: null,
       isError: false,
       isLoading: false,
-    } as unknown as UseQueryResult<UseGetUserTasks.Task[], Error>);
+    } as unknown as UseQueryResult<Task[], Error>);
     render(<TaskList userId={1} />);
     await screen.findByTestId('list-task-content');
 
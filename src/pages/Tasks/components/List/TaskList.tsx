@@ -3,7 +3,8 @@ import { filter } from 'lodash';
 import { orderBy as order } from 'lodash';
 import { times } from 'lodash';
 
-import { Task, useGetUserTasks } from 'pages/Tasks/api/useGetUserTasks';
+import { Task } from 'common/api/generated/models';
+import { useGetUserTasks } from 'common/api/generated/hooks';
 import { BaseComponentProps } from 'common/utils/types';
 import Skeleton from 'common/components/Loader/Skeleton';
 import TaskListItem from './TaskListItem';
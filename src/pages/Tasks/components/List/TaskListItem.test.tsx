@@ -1,4 +1,6 @@
 import { describe, expect, it } from 'vitest';
+import { onlineManager } from '@tanstack/react-query';
+import userEvent from '@testing-library/user-event';
 
 import { todosFixture } from '__fixtures__/todos';
 import { render, screen } from 'test/test-utils';
@@ -14,4 +16,31 @@ describe('TaskListItem', () => {
     // ASSERT
     expect(screen.getByTestId('list-task-item')).toBeDefined();
   });
+
+  it('should render pending badge when a change is queued', async () => {
+    // ARRANGE
+    const user = userEvent.setup();
+    render(<TaskListItem task={todosFixture[0]} />);
+    await screen.findByTestId('list-task-item-complete-toggle');
+    onlineManager.setOnline(false);
+
+    // ASSERT
+    expect(screen.queryByTestId('list-task-item-badge-queued')).toBeNull();
+
+    // ACT
+    await user.click(screen.getByTestId('list-task-item-complete-toggle'));
+
+    // ASSERT
+    expect(await screen.findByTestId('list-task-item-badge-queued')).toHaveTextContent(/pending/i);
+  });
+
+  it('should not link to a task which has not been created', async () => {
+    // ARRANGE
+    render(<TaskListItem task={{ ...todosFixture[0], id: -1 }} />);
+    await screen.findByTestId('list-task-item');
+
+    // ASSERT
+    expect(screen.queryByRole('link')).toBeNull();
+    expect(screen.getByTestId('list-task-item-complete-toggle')).toBeDisabled();
+  });
 });
@@ -1,8 +1,13 @@
+import { useTranslation } from 'react-i18next';
+
 import { cn } from 'common/utils/css';
 import { BaseComponentProps } from 'common/utils/types';
-import { Task } from 'pages/Tasks/api/useGetUserTasks';
+import { Task } from 'common/api/generated/models';
+import { useIsTaskQueued } from 'pages/Tasks/api/useIsTaskQueued';
+import { isOptimisticTaskId } from 'pages/Tasks/api/taskMutations';
 import TaskCompleteToggle from 'pages/Tasks/components/Edit/TaskCompleteToggle';
 import Link from 'common/components/Link/Link';
+import Badge from 'common/components/Badge/Badge';
 
 /**
  * Properties for the `TaskListItem` component.
@@ -15,13 +20,25 @@ interface TaskListItemProps extends BaseComponentProps {
 
 /**
  * The `TaskListItem` component renders a single `Task` within a `TaskList`.
+ *
+ * A `Task` with a change which is queued while offline is marked pending. A
+ * `Task` which has not been created yet may not be opened or changed.
  * @param {TaskListItemProps} props - Component properties.
  */
 const TaskListItem = ({ className, task, testId = 'list-task-item' }: TaskListItemProps) => {
+  const { t } = useTranslation();
+  const isQueued = useIsTaskQueued(task.id);
+  const isCreated = !isOptimisticTaskId(task.id);
+
   return (
     <div className={cn('flex items-center gap-4 py-0.5', className)} data-testid={testId}>
-      <TaskCompleteToggle task={task} testId={`${testId}-complete-toggle`} />
-      <Link to={`${task.id}`}>{task.title}</Link>
+      <TaskCompleteToggle task={task} disabled={!isCreated} testId={`${testId}-complete-toggle`} />
+      {isCreated ? <Link to={`${task.id}`}>{task.title}</Link> : <span>{task.title}</span>}
+      {isQueued && (
+        <Badge size="sm" variant="warning" uppercase testId={`${testId}-badge-queued`}>
+          {t('queued', { ns: 'tasks' })}
+        </Badge>
+      )}
     </div>
   );
 };
@@ -1,10 +1,11 @@
-import { afterEach, describe, expect, it, vi } from 'vitest';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import userEvent from '@testing-library/user-event';
 import { UseQueryResult } from '@tanstack/react-query';
 
 import { render, screen } from 'test/test-utils';
-import * as UseGetTask from 'pages/Tasks/api/useGetTask';
-import { Task } from 'pages/Tasks/api/useGetUserTasks';
+import * as Hooks from 'common/api/generated/hooks';
+import * as UsePermission from 'common/hooks/usePermission';
+import { Task } from 'common/api/generated/models';
 
 import TaskDetailLayout from './TaskDetailLayout';
 
@@ -22,6 +23,10 @@ vi.mock('react-router-dom', async () => {
 });
 
 describe('TaskDetailLayout', () => {
+  beforeEach(() => {
+    vi.spyOn(UsePermission, 'usePermission').mockReturnValue(true);
+  });
+
   afterEach(() => {
     vi.restoreAllMocks();
   });
@@ -46,7 +51,7 @@ describe('TaskDetailLayout', () => {
 
   it('should display task error', async () => {
     // ARRANGE
-    const useGetTaskSpy = vi.spyOn(UseGetTask, 'useGetTask');
+    const useGetTaskSpy = vi.spyOn(Hooks, 'useGetTask');
     useGetTaskSpy.mockReturnValue({
       data: undefined,
       error: new Error(),
@@ -61,7 +66,7 @@ describe('TaskDetailLayout', () => {
 
   it('should render loading state', async () => {
     // ARRANGE
-    const useGetTaskSpy = vi.spyOn(UseGetTask, 'useGetTask');
+    const useGetTaskSpy = vi.spyOn(Hooks, 'useGetTask');
     useGetTaskSpy.mockReturnValue({
       data: undefined,
       error: undefined,
@@ -101,4 +106,15 @@ describe('TaskDetailLayout', () => {
     expect(mockNavigate).toHaveBeenCalledTimes(1);
     expect(mockNavigate).toHaveBeenCalledWith('edit');
   });
+
+  it('should hide edit and delete when not permitted', async () => {
+    // ARRANGE
+    vi.spyOn(UsePermission, 'usePermission').mockReturnValue(false);
+    render(<TaskDetailLayout testId="component" />);
+    await screen.findByTestId('component-task-view');
+
+    // ASSERT
+    expect(screen.queryByTestId('component-button-edit')).toBeNull();
+    expect(screen.queryByTestId('dialog-task-delete')).toBeNull();
+  });
 });
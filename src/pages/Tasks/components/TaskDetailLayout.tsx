@@ -2,13 +2,15 @@ import { useNavigate, useParams } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
 
 import { BaseComponentProps } from 'common/utils/types';
-import { useGetTask } from '../api/useGetTask';
+import { useGetTask } from 'common/api/generated/hooks';
 import Skeleton from 'common/components/Loader/Skeleton';
 import FAIcon from 'common/components/Icon/FAIcon';
 import TaskDeleteDialog from './Delete/TaskDeleteDialog';
 import Button from 'common/components/Button/Button';
 import TaskView from './View/TaskView';
 import ErrorAlert from 'common/components/Alert/ErrorAlert';
+import Can from 'common/components/Auth/Can';
+import { Permission } from 'common/utils/constants';
 
 /**
  * Properties for the `TaskDetailLayout` component.
@@ -45,20 +47,24 @@ const TaskDetailLayout = ({ className, testId = 'layout-task-detail' }: TaskDeta
         {/* Menu */}
         <div className="ms-auto flex items-center gap-4">
           {task && (
-            <Button
-              variant="text"
-              size="icon"
-              title="Edit"
-              onClick={() => navigate('edit')}
-              testId={`${testId}-button-edit`}
-            >
-              <FAIcon icon="pencil" />
-            </Button>
+            <Can permission={Permission.TasksUpdate}>
+              <Button
+                variant="text"
+                size="icon"
+                title="Edit"
+                onClick={() => navigate('edit')}
+                testId={`${testId}-button-edit`}
+              >
+                <FAIcon icon="pencil" />
+              </Button>
+            </Can>
           )}
           {task && (
-            <TaskDeleteDialog task={task}>
-              <FAIcon icon="trash" />
-            </TaskDeleteDialog>
+            <Can permission={Permission.TasksDelete}>
+              <TaskDeleteDialog task={task}>
+                <FAIcon icon="trash" />
+              </TaskDeleteDialog>
+            </Can>
           )}
           <Button
             variant="text"
@@ -3,8 +3,8 @@ import { describe, expect, it, vi } from 'vitest';
 import { UseQueryResult } from '@tanstack/react-query';
 
 import * as UseGetCurrentUser from 'common/api/useGetCurrentUser';
-import * as UseGetUserTasks from 'pages/Tasks/api/useGetUserTasks';
-import { User } from 'common/api/useGetUser';
+import * as Hooks from 'common/api/generated/hooks';
+import { Task, User } from 'common/api/generated/models';
 import { userFixture1 } from '__fixtures__/users';
 import { todosFixture } from '__fixtures__/todos';
 
@@ -36,10 +36,10 @@ describe('TaskListLayout', () => {
     // ARRANGE
     const useGetCurrentUserSpy = vi.spyOn(UseGetCurrentUser, 'useGetCurrentUser');
     useGetCurrentUserSpy.mockReturnValue({ data: userFixture1 } as unknown as UseQueryResult<User, Error>);
-    const useGetUserTasksSpy = vi.spyOn(UseGetUserTasks, 'useGetUserTasks');
+    const useGetUserTasksSpy = vi.spyOn(Hooks, 'useGetUserTasks');
     useGetUserTasksSpy.mockReturnValue({
       data: todosFixture,
-    } as unknown as UseQueryResult<UseGetUserTasks.Task[], Error>);
+    } as unknown as UseQueryResult<Task[], Error>);
     render(<TaskListLayout testId="component" />);
     await screen.findByTestId('component-chart-status');
 
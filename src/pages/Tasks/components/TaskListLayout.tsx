@@ -1,7 +1,7 @@
 import { useTranslation } from 'react-i18next';
 
 import { useGetCurrentUser } from 'common/api/useGetCurrentUser';
-import { useGetUserTasks } from 'pages/Tasks/api/useGetUserTasks';
+import { useGetUserTasks } from 'common/api/generated/hooks';
 import { BaseComponentProps } from 'common/utils/types';
 import TaskList from './List/TaskList';
 import TaskStatusDonutChart from './Chart/TaskStatusDonutChart';
@@ -19,7 +19,7 @@ const TaskListLayout = ({ className, testId = 'layout-task-list' }: BaseComponen
 
   return (
     <div className={className} data-testid={testId}>
-      {!!currentUser && (
+      {!!currentUser?.id && (
         <>
           <div className="mb-4 grid md:grid-cols-2 lg:grid-cols-3">
             {!!tasks && (
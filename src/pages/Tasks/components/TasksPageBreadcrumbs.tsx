@@ -2,7 +2,7 @@ import { useLocation, useParams } from 'react-router-dom';
 import toNumber from 'lodash/toNumber';
 
 import { BaseComponentProps } from 'common/utils/types';
-import { useGetTask } from '../api/useGetTask';
+import { useGetTask } from 'common/api/generated/hooks';
 import Breadcrumbs from 'common/components/Breadcrumbs/Breadcrumbs';
 import Skeleton from 'common/components/Loader/Skeleton';
 
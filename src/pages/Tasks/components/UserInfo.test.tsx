@@ -2,7 +2,8 @@ import { render, screen } from 'test/test-utils';
 import { describe, expect, it, vi } from 'vitest';
 import { UseQueryResult } from '@tanstack/react-query';
 
-import * as UseGetUser from 'common/api/useGetUser';
+import * as Hooks from 'common/api/generated/hooks';
+import { User } from 'common/api/generated/models';
 import { userFixture1 } from '__fixtures__/users';
 
 import UserInfo from './UserInfo';
@@ -19,11 +20,11 @@ describe('UserInfo', () => {
 
   it('should display loading state', async () => {
     // ARRANGE
-    const useGetUserSpy = vi.spyOn(UseGetUser, 'useGetUser');
+    const useGetUserSpy = vi.spyOn(Hooks, 'useGetUser');
     useGetUserSpy.mockReturnValue({
       data: undefined,
       isLoading: true,
-    } as unknown as UseQueryResult<UseGetUser.User, Error>);
+    } as unknown as UseQueryResult<User, Error>);
     render(<UserInfo userId={1} />);
     await screen.findByTestId('user-info-loading');
 
@@ -33,11 +34,11 @@ describe('UserInfo', () => {
 
   it('should display content when user loaded', async () => {
     // ARRANGE
-    const useGetUserSpy = vi.spyOn(UseGetUser, 'useGetUser');
+    const useGetUserSpy = vi.spyOn(Hooks, 'useGetUser');
     useGetUserSpy.mockReturnValue({
       data: userFixture1,
       isLoading: false,
-    } as unknown as UseQueryResult<UseGetUser.User, Error>);
+    } as unknown as UseQueryResult<User, Error>);
     render(<UserInfo userId={1} testId="component" />);
     await screen.findByTestId('component-content');
 
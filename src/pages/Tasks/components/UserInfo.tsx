@@ -1,4 +1,4 @@
-import { useGetUser } from 'common/api/useGetUser';
+import { useGetUser } from 'common/api/generated/hooks';
 import { BaseComponentProps } from 'common/utils/types';
 import Avatar from 'common/components/Icon/Avatar';
 import Skeleton from 'common/components/Loader/Skeleton';
@@ -4,7 +4,8 @@ import { UseQueryResult } from '@tanstack/react-query';
 
 import { todosFixture } from '__fixtures__/todos';
 import { userFixture1 } from '__fixtures__/users';
-import * as UseGetUser from 'common/api/useGetUser';
+import * as Hooks from 'common/api/generated/hooks';
+import { User } from 'common/api/generated/models';
 
 import TaskView from './TaskView';
 
@@ -20,12 +21,12 @@ describe('TaskView', () => {
 
   it('should show user loading state', async () => {
     // ARRANGE
-    const useGetUserSpy = vi.spyOn(UseGetUser, 'useGetUser');
+    const useGetUserSpy = vi.spyOn(Hooks, 'useGetUser');
     useGetUserSpy.mockReturnValue({
       data: undefined,
       isLoading: true,
       isError: false,
-    } as unknown as UseQueryResult<UseGetUser.User, Error>);
+    } as unknown as UseQueryResult<User, Error>);
     render(<TaskView task={todosFixture[0]} testId="component" />);
     await screen.findByTestId('component-user-loading');
 
@@ -35,12 +36,12 @@ describe('TaskView', () => {
 
   it('should show user error state', async () => {
     // ARRANGE
-    const useGetUserSpy = vi.spyOn(UseGetUser, 'useGetUser');
+    const useGetUserSpy = vi.spyOn(Hooks, 'useGetUser');
     useGetUserSpy.mockReturnValue({
       data: undefined,
       isLoading: false,
       isError: true,
-    } as unknown as UseQueryResult<UseGetUser.User, Error>);
+    } as unknown as UseQueryResult<User, Error>);
     render(<TaskView task={todosFixture[0]} testId="component" />);
     await screen.findByTestId('component-user-error');
 
@@ -50,12 +51,12 @@ describe('TaskView', () => {
 
   it('should show user content', async () => {
     // ARRANGE
-    const useGetUserSpy = vi.spyOn(UseGetUser, 'useGetUser');
+    const useGetUserSpy = vi.spyOn(Hooks, 'useGetUser');
     useGetUserSpy.mockReturnValue({
       data: userFixture1,
       isLoading: false,
       isError: false,
-    } as unknown as UseQueryResult<UseGetUser.User, Error>);
+    } as unknown as UseQueryResult<User, Error>);
     render(<TaskView task={todosFixture[0]} testId="component" />);
     await screen.findByTestId('component-user-name');
 
@@ -65,12 +66,12 @@ describe('TaskView', () => {
 
   it('should show complete task', async () => {
     // ARRANGE
-    const useGetUserSpy = vi.spyOn(UseGetUser, 'useGetUser');
+    const useGetUserSpy = vi.spyOn(Hooks, 'useGetUser');
     useGetUserSpy.mockReturnValue({
       data: userFixture1,
       isLoading: false,
       isError: false,
-    } as unknown as UseQueryResult<UseGetUser.User, Error>);
+    } as unknown as UseQueryResult<User, Error>);
     render(<TaskView task={{ ...todosFixture[0], completed: true }} testId="component" />);
     await screen.findByTestId('component-status');
 
@@ -80,12 +81,12 @@ describe('TaskView', () => {
 
   it('should show incomplete task', async () => {
     // ARRANGE
-    const useGetUserSpy = vi.spyOn(UseGetUser, 'useGetUser');
+    const useGetUserSpy = vi.spyOn(Hooks, 'useGetUser');
     useGetUserSpy.mockReturnValue({
       data: userFixture1,
       isLoading: false,
       isError: false,
-    } as unknown as UseQueryResult<UseGetUser.User, Error>);
+    } as unknown as UseQueryResult<User, Error>);
     render(<TaskView task={{ ...todosFixture[0], completed: false }} testId="component" />);
     await screen.findByTestId('component-status');
 
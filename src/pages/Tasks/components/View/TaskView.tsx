@@ -2,8 +2,8 @@ import { useTranslation } from 'react-i18next';
 
 import { cn } from 'common/utils/css';
 import { BaseComponentProps } from 'common/utils/types';
-import { Task } from 'pages/Tasks/api/useGetUserTasks';
-import { useGetUser } from 'common/api/useGetUser';
+import { Task } from 'common/api/generated/models';
+import { useGetUser } from 'common/api/generated/hooks';
 import Badge from 'common/components/Badge/Badge';
 import Skeleton from 'common/components/Loader/Skeleton';
 
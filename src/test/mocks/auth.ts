@@ -0,0 +1,30 @@
+import { vi } from 'vitest';
+import axios from 'axios';
+
+import { userTokensFixture } from '__fixtures__/tokens';
+import { configFixture } from '__fixtures__/config';
+import * as UseAuth from 'common/hooks/useAuth';
+import * as UseAxios from 'common/hooks/useAxios';
+import { createMockIdToken } from './idp';
+
+/**
+ * Mock an authenticated user of the default OIDC provider for requests to
+ * mock IdP endpoints which identify the user from the id token.
+ *
+ * The test wrappers do not include the `AxiosContextProvider`, so `useAxios`
+ * returns an Axios instance which sends the id token itself.
+ *
+ * @param userId - The `User` identifier.
+ * @example
+ * mockAuthenticatedUser(1);
+ * render(<SecuritySettings />);
+ */
+export function mockAuthenticatedUser(userId: number): void {
+  const idToken = createMockIdToken(userId);
+  vi.spyOn(UseAuth, 'useAuth').mockReturnValue({
+    isAuthenticated: true,
+    provider: configFixture.VITE_OIDC_PROVIDERS[0],
+    userToken: { ...userTokensFixture, id_token: idToken },
+  });
+  vi.spyOn(UseAxios, 'useAxios').mockReturnValue(axios.create({ headers: { Authorization: `Bearer ${idToken}` } }));
+}
@@ -0,0 +1,45 @@
+import { getResponse } from 'msw';
+import { setupWorker } from 'msw/browser';
+
+import { configFixture } from '__fixtures__/config';
+import { exportIdpState, idpHandlers, importIdpState } from './idp';
+
+/**
+ * The local storage key of the mock IdP state.
+ */
+const IDP_STATE_KEY = 'mock-idp-state';
+
+export const worker = setupWorker(...idpHandlers);
+
+/**
+ * Starts the mock IdP in the browser for local development. The service
+ * worker answers the requests to each configured provider issuer; any other
+ * request is sent to the network.
+ *
+ * The service worker does not intercept page navigations. Configure an issuer
+ * on the application origin, e.g. `http://localhost:5173/mock-idp`, so that
+ * the application is served at the authorization endpoint, which is answered
+ * here by redirecting the browser. The mock IdP state is kept in local storage
+ * across page loads.
+ * @returns A Promise which resolves to `true` when the application should be
+ * rendered, or `false` when the browser is being redirected.
+ */
+export const startMockIdp = async (): Promise<boolean> => {
+  const state = localStorage.getItem(IDP_STATE_KEY);
+  if (state) {
+    importIdpState(state);
+  }
+  window.addEventListener('pagehide', () => localStorage.setItem(IDP_STATE_KEY, exportIdpState()));
+
+  const isAuthorizationRequest = configFixture.VITE_OIDC_PROVIDERS.some(({ issuer }) =>
+    window.location.href.startsWith(`${issuer}/authorize?`),
+  );
+  if (isAuthorizationRequest) {
+    const response = await getResponse(idpHandlers, new Request(window.location.href));
+    window.location.replace(response?.headers.get('Location') ?? '/');
+    return false;
+  }
+
+  await worker.start({ onUnhandledRequest: 'bypass' });
+  return true;
+};
@@ -0,0 +1,42 @@
+import { HttpResponse, graphql } from 'msw';
+import filter from 'lodash/filter';
+import find from 'lodash/find';
+
+import { todosFixture } from '__fixtures__/todos';
+import { Task } from 'common/api/generated/models';
+
+/**
+ * The mock GraphQL endpoint of the API services.
+ */
+const api = graphql.link('https://jsonplaceholder.typicode.com/graphql');
+
+/**
+ * MSW request handlers for the mock GraphQL endpoint.
+ */
+export const graphqlHandlers = [
+  api.query<{ task: Task | null }, { taskId: number }>('GetTask', ({ variables }) => {
+    // get a task; a missing task is an error of the `task` field
+    const task = find(todosFixture, { id: variables.taskId });
+    if (task) {
+      return HttpResponse.json({ data: { task } });
+    }
+    return HttpResponse.json({
+      data: { task: null },
+      errors: [{ message: 'Task not found.', path: ['task'], extensions: { code: 'NOT_FOUND' } }],
+    });
+  }),
+  api.query<{ tasks: Task[] }, { userId: number }>('GetUserTasks', ({ variables }) => {
+    // get all tasks for a user
+    return HttpResponse.json({ data: { tasks: filter(todosFixture, { userId: variables.userId }) } });
+  }),
+  api.mutation<{ updateTask: Task | null }, { task: Task }>('UpdateTask', ({ variables }) => {
+    // update a task; returns the updated task
+    if (!find(todosFixture, { id: variables.task.id })) {
+      return HttpResponse.json({
+        data: { updateTask: null },
+        errors: [{ message: 'Task not found.', path: ['updateTask'], extensions: { code: 'NOT_FOUND' } }],
+      });
+    }
+    return HttpResponse.json({ data: { updateTask: variables.task } });
+  }),
+];
@@ -4,13 +4,54 @@ import find from 'lodash/find';
 
 import { usersFixture } from '__fixtures__/users';
 import { todosFixture } from '__fixtures__/todos';
-import { Task } from 'pages/Tasks/api/useGetUserTasks';
+import { CreateTaskRequest, Task, User } from 'common/api/generated/models';
+import { graphqlHandlers } from './graphql';
+import { idpHandlers } from './idp';
 
 export const handlers = [
+  ...idpHandlers,
+  ...graphqlHandlers,
+  http.get('/config.json', () => {
+    // runtime configuration; not deployed, so the build-time configuration applies
+    return new HttpResponse(null, { status: 404 });
+  }),
   http.get('https://jsonplaceholder.typicode.com/users', () => {
     // get all users
     return HttpResponse.json(usersFixture);
   }),
+  http.post('https://jsonplaceholder.typicode.com/users', async ({ request }) => {
+    // register a user; usernames and email addresses must be unique
+    const { name, username, email } = (await request.json()) as Pick<User, 'name' | 'username' | 'email'>;
+    const errors: Record<string, string> = {};
+    if (usersFixture.some((user) => user.username.toLowerCase() === username.toLowerCase())) {
+      errors.username = 'This username is already taken.';
+    }
+    if (usersFixture.some((user) => user.email.toLowerCase() === email.toLowerCase())) {
+      errors.email = 'An account already exists with this email address.';
+    }
+    if (Object.keys(errors).length > 0) {
+      return HttpResponse.json(
+        { title: 'Conflict', status: 409, detail: 'An account already exists with these details.', errors },
+        { status: 409, headers: { 'Content-Type': 'application/problem+json' } },
+      );
+    }
+    return HttpResponse.json({ id: usersFixture.length + 1, name, username, email }, { status: 201 });
+  }),
+  http.post('https://jsonplaceholder.typicode.com/password-resets', () => {
+    // request a password reset email; the response does not reveal if the account exists
+    return new HttpResponse(null, { status: 202 });
+  }),
+  http.put('https://jsonplaceholder.typicode.com/password-resets/:token', ({ params }) => {
+    // reset a password; "reset-expired" is expired, "reset-{userId}" is valid, any other token is invalid
+    const { token } = params;
+    if (token === 'reset-expired') {
+      return HttpResponse.json({ error: 'expired_token' }, { status: 410 });
+    }
+    if (!find(usersFixture, (user) => token === `reset-${user.id}`)) {
+      return HttpResponse.json({ error: 'invalid_token' }, { status: 400 });
+    }
+    return new HttpResponse(null, { status: 204 });
+  }),
   http.get('https://jsonplaceholder.typicode.com/users/:userId', ({ params }) => {
     // get a user by identifier
     const { userId } = params;
@@ -28,11 +69,11 @@ export const handlers = [
   }),
   http.post('https://jsonplaceholder.typicode.com/todos', async ({ request }) => {
     // create a task
-    const requestTodo = (await request.json()) as Task;
+    const requestTodo = (await request.json()) as CreateTaskRequest;
     if (requestTodo.title === '500') {
       return new HttpResponse(null, { status: 500 });
     }
-    return HttpResponse.json(requestTodo, { status: 201 });
+    return HttpResponse.json({ id: todosFixture.length + 1, ...requestTodo }, { status: 201 });
   }),
   http.get('https://jsonplaceholder.typicode.com/todos/:todoId', async ({ params }) => {
     // get a task
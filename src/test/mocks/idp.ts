@@ -0,0 +1,721 @@
+import { HttpResponse, http } from 'msw';
+import filter from 'lodash/filter';
+import find from 'lodash/find';
+
+import { usersFixture } from '__fixtures__/users';
+import { configFixture } from '__fixtures__/config';
+import { Permission, Role } from 'common/utils/constants';
+import { createCodeChallenge, createRandomString, decodeJwt } from 'common/utils/oidc';
+import { base64UrlDecode, base64UrlEncode } from 'common/utils/webauthn';
+
+/**
+ * A pending authorization code issued by the mock IdP.
+ */
+type AuthorizationCode = {
+  clientId: string;
+  codeChallenge: string;
+  issuer: string;
+  nonce: string;
+  redirectUri: string;
+  userId: number;
+};
+
+/**
+ * A refresh token issued by the mock IdP.
+ */
+type RefreshToken = Pick<AuthorizationCode, 'clientId' | 'issuer' | 'userId'>;
+
+/**
+ * A multi-factor authentication challenge issued by the mock IdP after the
+ * password step. Expires at a time in milliseconds since the epoch.
+ */
+type StateToken = {
+  userId: number;
+  expiresAt: number;
+};
+
+/**
+ * A passkey registered with the mock IdP.
+ */
+type MockPasskey = {
+  id: string;
+  userId: number;
+  name: string;
+  createdAt: string;
+  lastUsedAt?: string;
+};
+
+/**
+ * A WebAuthn challenge issued by the mock IdP. A registration challenge is
+ * issued to an authenticated user.
+ */
+type PasskeyChallenge = {
+  challenge: string;
+  type: 'webauthn.create' | 'webauthn.get';
+  userId?: number;
+};
+
+/**
+ * A session of a user signed in with the mock IdP.
+ */
+type MockSession = {
+  id: string;
+  userId: number;
+  device: string;
+  browser: string;
+  lastSeenAt: string;
+};
+
+/**
+ * The one-time passcode accepted by the mock IdP for every authenticator.
+ */
+export const MOCK_TOTP_PASSCODE = '123456';
+
+/**
+ * The recovery code accepted by the mock IdP for every user.
+ */
+export const MOCK_RECOVERY_CODE = 'a1b2-c3d4-e5f6';
+
+/**
+ * The lifetime of a multi-factor authentication challenge in milliseconds.
+ */
+const STATE_TOKEN_LIFETIME_MILLIS = 5 * 60 * 1000;
+
+/**
+ * A QR code image for the authenticator enrollment. A placeholder; the mock
+ * IdP does not encode the secret.
+ */
+const QR_CODE_IMAGE = `data:image/svg+xml,${encodeURIComponent(
+  '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 8 8"><path d="M0 0h3v3H0zM5 0h3v3H5zM0 5h3v3H0zM4 4h1v1H4zM6 5h2v1H6zM5 7h1v1H5z"/></svg>',
+)}`;
+
+/**
+ * Identifiers of users who have enrolled an authenticator with the mock IdP,
+ * and so must complete a multi-factor challenge. The second user is enrolled.
+ */
+const mfaEnrolledUserIds = new Set<number>([2]);
+
+/**
+ * Identifiers of users with an authenticator enrollment pending activation.
+ */
+const mfaPendingUserIds = new Set<number>();
+
+/**
+ * The credential identifier of the passkey registered by the first user.
+ */
+export const MOCK_PASSKEY_ID = base64UrlEncode(new TextEncoder().encode('passkey-1').buffer);
+
+/**
+ * Passkeys registered with the mock IdP, by credential identifier. The first
+ * user has registered a passkey.
+ */
+const passkeys = new Map<string, MockPasskey>([
+  [
+    MOCK_PASSKEY_ID,
+    { id: MOCK_PASSKEY_ID, userId: 1, name: 'MacBook Touch ID', createdAt: '2026-01-15T10:00:00.000Z' },
+  ],
+]);
+
+/**
+ * Sessions of users signed in with the mock IdP, by session identifier. The
+ * session identifier of a user signed in with the mock IdP is the session
+ * token, e.g. `session-1`, which is the `sid` claim of the id token. The first
+ * user is also signed in on two other devices.
+ */
+const sessions = new Map<string, MockSession>(
+  [
+    { id: 'session-1', userId: 1, device: 'Mac', browser: 'Chrome', lastSeenAt: '2026-03-01T09:00:00.000Z' },
+    { id: 'session-1-iphone', userId: 1, device: 'iPhone', browser: 'Safari', lastSeenAt: '2026-02-27T18:30:00.000Z' },
+    {
+      id: 'session-1-windows',
+      userId: 1,
+      device: 'Windows PC',
+      browser: 'Edge',
+      lastSeenAt: '2026-02-14T12:00:00.000Z',
+    },
+    { id: 'session-2', userId: 2, device: 'Linux PC', browser: 'Firefox', lastSeenAt: '2026-03-01T08:00:00.000Z' },
+  ].map((session) => [session.id, session]),
+);
+
+/**
+ * WebAuthn challenges issued by the mock IdP and not yet verified.
+ */
+const passkeyChallenges = new Map<string, PasskeyChallenge>();
+
+/**
+ * Multi-factor challenges issued by the mock IdP and not yet verified.
+ */
+const stateTokens = new Map<string, StateToken>();
+
+/**
+ * Authorization codes issued by the mock IdP and not yet exchanged.
+ */
+const authorizationCodes = new Map<string, AuthorizationCode>();
+
+/**
+ * Refresh tokens issued by the mock IdP and not yet rotated.
+ */
+const refreshTokens = new Map<string, RefreshToken>();
+
+/**
+ * The state of the mock IdP, serialized as JSON.
+ */
+type IdpState = {
+  mfaEnrolledUserIds: number[];
+  mfaPendingUserIds: number[];
+  passkeys: [string, MockPasskey][];
+  sessions: [string, MockSession][];
+  passkeyChallenges: [string, PasskeyChallenge][];
+  stateTokens: [string, StateToken][];
+  authorizationCodes: [string, AuthorizationCode][];
+  refreshTokens: [string, RefreshToken][];
+};
+
+/**
+ * Serializes the state of the mock IdP. In the browser, the state is lost
+ * when the page is unloaded, e.g. by the redirects of the sign in flow.
+ * @returns The state as JSON.
+ */
+export const exportIdpState = (): string => {
+  const state: IdpState = {
+    mfaEnrolledUserIds: [...mfaEnrolledUserIds],
+    mfaPendingUserIds: [...mfaPendingUserIds],
+    passkeys: [...passkeys],
+    sessions: [...sessions],
+    passkeyChallenges: [...passkeyChallenges],
+    stateTokens: [...stateTokens],
+    authorizationCodes: [...authorizationCodes],
+    refreshTokens: [...refreshTokens],
+  };
+  return JSON.stringify(state);
+};
+
+/**
+ * Replaces the state of the mock IdP with state serialized by
+ * `exportIdpState`.
+ * @param json - The state as JSON.
+ */
+export const importIdpState = (json: string): void => {
+  const state = JSON.parse(json) as IdpState;
+  const replace = <K, V>(map: Map<K, V>, entries: [K, V][]) => {
+    map.clear();
+    entries.forEach(([key, value]) => map.set(key, value));
+  };
+
+  mfaEnrolledUserIds.clear();
+  state.mfaEnrolledUserIds.forEach((userId) => mfaEnrolledUserIds.add(userId));
+  mfaPendingUserIds.clear();
+  state.mfaPendingUserIds.forEach((userId) => mfaPendingUserIds.add(userId));
+  replace(passkeys, state.passkeys);
+  replace(sessions, state.sessions);
+  replace(passkeyChallenges, state.passkeyChallenges);
+  replace(stateTokens, state.stateTokens);
+  replace(authorizationCodes, state.authorizationCodes);
+  replace(refreshTokens, state.refreshTokens);
+};
+
+/**
+ * Base64url encodes a JSON value.
+ */
+const encodeSegment = (value: object): string => {
+  const bytes = new TextEncoder().encode(JSON.stringify(value));
+  const binary = Array.from(bytes, (byte) => String.fromCharCode(byte)).join('');
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+/**
+ * Creates an unsigned JWT containing the supplied claims.
+ * @param claims - The token claims.
+ * @returns An encoded JWT.
+ */
+export const createMockJwt = (claims: object): string => {
+  return `${encodeSegment({ alg: 'none', typ: 'JWT' })}.${encodeSegment(claims)}.signature`;
+};
+
+/**
+ * Creates an id token for a user from the `usersFixture`. The first user is
+ * an administrator; every user holds all permissions.
+ * @param userId - The `User` identifier.
+ * @param [claims] - Optional. Additional or overriding claims.
+ * @returns An encoded JWT.
+ */
+export const createMockIdToken = (userId: number, claims: object = {}): string => {
+  const user = find(usersFixture, { id: userId });
+  const now = Math.floor(Date.now() / 1000);
+  return createMockJwt({
+    iss: configFixture.VITE_OIDC_PROVIDERS[0].issuer,
+    aud: configFixture.VITE_OIDC_PROVIDERS[0].clientId,
+    sub: `${userId}`,
+    sid: `session-${userId}`,
+    name: user?.name,
+    preferred_username: user?.username,
+    email: user?.email,
+    roles: userId === 1 ? [Role.Admin, Role.User] : [Role.User],
+    permissions: Object.values(Permission),
+    iat: now,
+    exp: now + 3600,
+    ...claims,
+  });
+};
+
+/**
+ * Issues an authorization code as the mock IdP authorization endpoint would
+ * after a successful sign in. Allows tests to begin the flow at the callback.
+ * @returns The authorization code.
+ */
+export const createMockAuthorizationCode = (authorizationCode: AuthorizationCode): string => {
+  const code = createRandomString();
+  authorizationCodes.set(code, authorizationCode);
+  return code;
+};
+
+/**
+ * Issues a refresh token as the mock IdP token endpoint would. Allows tests
+ * to begin with an authenticated user whose tokens may be refreshed.
+ * @returns The refresh token.
+ */
+export const createMockRefreshToken = (refreshToken: RefreshToken): string => {
+  const token = createRandomString();
+  refreshTokens.set(token, refreshToken);
+  return token;
+};
+
+/**
+ * Issues a multi-factor challenge as the mock IdP credentials API would after
+ * a successful password step. Allows tests to begin at the second step.
+ * @param userId - The `User` identifier.
+ * @param [expiresAt] - Optional. The expiry in milliseconds since the epoch.
+ * @returns The state token.
+ */
+export const createMockStateToken = (
+  userId: number,
+  expiresAt: number = Date.now() + STATE_TOKEN_LIFETIME_MILLIS,
+): string => {
+  const token = createRandomString();
+  stateTokens.set(token, { userId, expiresAt });
+  return token;
+};
+
+/**
+ * Returns the unexpired multi-factor challenge for a state token, if any.
+ */
+const getStateToken = (token?: string): StateToken | undefined => {
+  const stateToken = stateTokens.get(token ?? '');
+  return stateToken && stateToken.expiresAt > Date.now() ? stateToken : undefined;
+};
+
+/**
+ * Creates a credentials API response requiring a multi-factor challenge.
+ */
+const createMfaRequiredResponse = (token: string) => ({
+  status: 'MFA_REQUIRED',
+  stateToken: token,
+  expiresAt: new Date(stateTokens.get(token)?.expiresAt ?? 0).toISOString(),
+});
+
+/**
+ * Returns the identifier of the user from the id token in the `Authorization`
+ * header of a request, or `undefined` if the header is missing or invalid.
+ */
+const getRequestUserId = (request: Request): number | undefined => {
+  try {
+    const idToken = request.headers.get('Authorization')?.replace('Bearer ', '') ?? '';
+    const userId = Number(decodeJwt<{ sub: string }>(idToken).sub);
+    return find(usersFixture, { id: userId }) ? userId : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Issues a WebAuthn challenge. Returns the challenge identifier and the
+ * base64url encoded challenge.
+ */
+const createPasskeyChallenge = (type: PasskeyChallenge['type'], userId?: number) => {
+  const challengeId = createRandomString();
+  const challenge = createRandomString();
+  passkeyChallenges.set(challengeId, { challenge, type, userId });
+  return { challengeId, challenge };
+};
+
+/**
+ * Returns the WebAuthn challenge, which may be used once, if the client data
+ * of the credential was produced for it.
+ */
+const consumePasskeyChallenge = (challengeId: string, clientDataJSON: string): PasskeyChallenge | undefined => {
+  const passkeyChallenge = passkeyChallenges.get(challengeId);
+  passkeyChallenges.delete(challengeId);
+  try {
+    const clientData = JSON.parse(new TextDecoder().decode(base64UrlDecode(clientDataJSON))) as {
+      type: string;
+      challenge: string;
+    };
+    return passkeyChallenge?.challenge === clientData.challenge && passkeyChallenge.type === clientData.type
+      ? passkeyChallenge
+      : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Returns the session identifier from the id token in the `Authorization`
+ * header of a request, or `undefined` if the header is missing or invalid.
+ */
+const getRequestSessionId = (request: Request): string | undefined => {
+  try {
+    const idToken = request.headers.get('Authorization')?.replace('Bearer ', '') ?? '';
+    return decodeJwt<{ sid?: string }>(idToken).sid;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Returns the public attributes of a session. The session of the request is
+ * marked as the current session.
+ */
+const toSessionResponse = ({ id, device, browser, lastSeenAt }: MockSession, currentSessionId?: string) => ({
+  id,
+  device,
+  browser,
+  lastSeenAt,
+  current: id === currentSessionId,
+});
+
+/**
+ * Returns the public attributes of a passkey.
+ */
+const toPasskeyResponse = ({ id, name, createdAt, lastUsedAt }: MockPasskey) => ({ id, name, createdAt, lastUsedAt });
+
+/**
+ * Creates a token endpoint response for a user.
+ */
+const createTokenResponse = (grant: RefreshToken, claims: object = {}) => ({
+  access_token: createMockJwt({ sub: `${grant.userId}`, scope: 'openid profile email' }),
+  id_token: createMockIdToken(grant.userId, { iss: grant.issuer, aud: grant.clientId, ...claims }),
+  refresh_token: createMockRefreshToken(grant),
+  token_type: 'Bearer',
+  expires_in: 3600,
+});
+
+/**
+ * Creates the MSW request handlers for a mock OIDC identity provider at the
+ * supplied issuer.
+ *
+ * Any username from the `usersFixture` is accepted with any password by the
+ * credentials API. Users who have enrolled an authenticator must then verify
+ * the `MOCK_TOTP_PASSCODE` or the `MOCK_RECOVERY_CODE`. A registered passkey
+ * signs in without a password. Each sign in is a session, identified by the
+ * `sid` claim, which the user may revoke. The authorization endpoint redirects to the
+ * `redirect_uri` with a code which may be exchanged, with the PKCE code
+ * verifier, at the token endpoint. Refresh tokens are rotated; each may be used once.
+ * @param issuer - The issuer URL.
+ */
+const createIdpHandlers = (issuer: string) => [
+  http.get(`${issuer}/.well-known/openid-configuration`, () => {
+    // provider metadata
+    return HttpResponse.json({
+      issuer,
+      authorization_endpoint: `${issuer}/authorize`,
+      token_endpoint: `${issuer}/token`,
+      userinfo_endpoint: `${issuer}/userinfo`,
+      end_session_endpoint: `${issuer}/logout`,
+      authn_endpoint: `${issuer}/authn`,
+      factors_endpoint: `${issuer}/factors`,
+      webauthn_endpoint: `${issuer}/webauthn`,
+      sessions_endpoint: `${issuer}/sessions`,
+      code_challenge_methods_supported: ['S256'],
+    });
+  }),
+  http.post(`${issuer}/authn`, async ({ request }) => {
+    // credentials API; exchanges a username and password for a session token
+    const { username } = (await request.json()) as { username: string; password: string };
+    const user = find(usersFixture, { username });
+    if (user && mfaEnrolledUserIds.has(user.id)) {
+      return HttpResponse.json(createMfaRequiredResponse(createMockStateToken(user.id)));
+    }
+    if (user) {
+      return HttpResponse.json({ status: 'SUCCESS', sessionToken: `session-${user.id}` });
+    }
+    return HttpResponse.json({ error: 'invalid_grant' }, { status: 401 });
+  }),
+  http.post(`${issuer}/authn/verify`, async ({ request }) => {
+    // multi-factor challenge; exchanges a state token and a one-time or recovery code for a session token
+    const { stateToken, passCode, recoveryCode } = (await request.json()) as {
+      stateToken: string;
+      passCode?: string;
+      recoveryCode?: string;
+    };
+    const challenge = getStateToken(stateToken);
+    if (!challenge) {
+      return HttpResponse.json({ error: 'expired_state' }, { status: 410 });
+    }
+    if (passCode !== MOCK_TOTP_PASSCODE && recoveryCode !== MOCK_RECOVERY_CODE) {
+      return HttpResponse.json({ error: 'invalid_code' }, { status: 401 });
+    }
+    stateTokens.delete(stateToken);
+    return HttpResponse.json({ status: 'SUCCESS', sessionToken: `session-${challenge.userId}` });
+  }),
+  http.post(`${issuer}/authn/resend`, async ({ request }) => {
+    // multi-factor challenge; issues a new code and extends the challenge
+    const { stateToken } = (await request.json()) as { stateToken: string };
+    const challenge = getStateToken(stateToken);
+    if (!challenge) {
+      return HttpResponse.json({ error: 'expired_state' }, { status: 410 });
+    }
+    challenge.expiresAt = Date.now() + STATE_TOKEN_LIFETIME_MILLIS;
+    return HttpResponse.json(createMfaRequiredResponse(stateToken));
+  }),
+  http.get(`${issuer}/factors`, ({ request }) => {
+    // authenticator enrollments of the authenticated user
+    const userId = getRequestUserId(request);
+    if (!userId) {
+      return new HttpResponse(null, { status: 401 });
+    }
+    if (mfaEnrolledUserIds.has(userId)) {
+      return HttpResponse.json([{ id: 'totp', type: 'token:software:totp', status: 'ACTIVE' }]);
+    }
+    if (mfaPendingUserIds.has(userId)) {
+      return HttpResponse.json([{ id: 'totp', type: 'token:software:totp', status: 'PENDING_ACTIVATION' }]);
+    }
+    return HttpResponse.json([]);
+  }),
+  http.post(`${issuer}/factors`, ({ request }) => {
+    // enroll an authenticator app; returns the shared secret and QR code
+    const userId = getRequestUserId(request);
+    if (!userId) {
+      return new HttpResponse(null, { status: 401 });
+    }
+    if (mfaEnrolledUserIds.has(userId)) {
+      return HttpResponse.json({ error: 'already_enrolled' }, { status: 409 });
+    }
+    mfaPendingUserIds.add(userId);
+    return HttpResponse.json({
+      id: 'totp',
+      type: 'token:software:totp',
+      status: 'PENDING_ACTIVATION',
+      secret: 'JBSWY3DPEHPK3PXP',
+      qrCode: QR_CODE_IMAGE,
+    });
+  }),
+  http.post(`${issuer}/factors/totp/activate`, async ({ request }) => {
+    // activate an authenticator app enrollment with a one-time code; returns recovery codes
+    const userId = getRequestUserId(request);
+    const { passCode } = (await request.json()) as { passCode: string };
+    if (!userId || !mfaPendingUserIds.has(userId)) {
+      return HttpResponse.json({ error: 'not_enrolled' }, { status: 404 });
+    }
+    if (passCode !== MOCK_TOTP_PASSCODE) {
+      return HttpResponse.json({ error: 'invalid_code' }, { status: 401 });
+    }
+    mfaPendingUserIds.delete(userId);
+    mfaEnrolledUserIds.add(userId);
+    return HttpResponse.json({
+      id: 'totp',
+      type: 'token:software:totp',
+      status: 'ACTIVE',
+      recoveryCodes: [MOCK_RECOVERY_CODE, 'f6e5-d4c3-b2a1', '9z8y-7x6w-5v4u'],
+    });
+  }),
+  http.delete(`${issuer}/factors/totp`, ({ request }) => {
+    // remove the authenticator app enrollment
+    const userId = getRequestUserId(request);
+    if (!userId) {
+      return new HttpResponse(null, { status: 401 });
+    }
+    mfaEnrolledUserIds.delete(userId);
+    mfaPendingUserIds.delete(userId);
+    return new HttpResponse(null, { status: 204 });
+  }),
+  http.post(`${issuer}/webauthn/authentication/options`, () => {
+    // begin a passkey sign in; any registered passkey may be used
+    const { challengeId, challenge } = createPasskeyChallenge('webauthn.get');
+    return HttpResponse.json({
+      challengeId,
+      publicKey: { challenge, rpId: window.location.hostname, timeout: 60000, userVerification: 'preferred' },
+    });
+  }),
+  http.post(`${issuer}/webauthn/authentication/verify`, async ({ request }) => {
+    // complete a passkey sign in; returns a session token, no further factor is required
+    const { challengeId, credential } = (await request.json()) as {
+      challengeId: string;
+      credential: { id: string; response: { clientDataJSON: string } };
+    };
+    const passkey = passkeys.get(credential.id);
+    if (!consumePasskeyChallenge(challengeId, credential.response.clientDataJSON) || !passkey) {
+      return HttpResponse.json({ error: 'invalid_credential' }, { status: 401 });
+    }
+    passkey.lastUsedAt = new Date().toISOString();
+    return HttpResponse.json({ status: 'SUCCESS', sessionToken: `session-${passkey.userId}` });
+  }),
+  http.post(`${issuer}/webauthn/registration/options`, ({ request }) => {
+    // begin the registration of a passkey by the authenticated user
+    const user = find(usersFixture, { id: getRequestUserId(request) });
+    if (!user) {
+      return new HttpResponse(null, { status: 401 });
+    }
+    const { challengeId, challenge } = createPasskeyChallenge('webauthn.create', user.id);
+    return HttpResponse.json({
+      challengeId,
+      publicKey: {
+        challenge,
+        rp: { id: window.location.hostname, name: 'React Starter' },
+        user: {
+          id: base64UrlEncode(new TextEncoder().encode(`${user.id}`).buffer),
+          name: user.username,
+          displayName: user.name,
+        },
+        pubKeyCredParams: [
+          { type: 'public-key', alg: -7 },
+          { type: 'public-key', alg: -257 },
+        ],
+        excludeCredentials: filter([...passkeys.values()], { userId: user.id }).map(({ id }) => ({
+          id,
+          type: 'public-key',
+        })),
+        authenticatorSelection: { residentKey: 'required', userVerification: 'preferred' },
+        timeout: 60000,
+      },
+    });
+  }),
+  http.post(`${issuer}/webauthn/registration/verify`, async ({ request }) => {
+    // complete the registration of a passkey
+    const userId = getRequestUserId(request);
+    const { challengeId, name, credential } = (await request.json()) as {
+      challengeId: string;
+      name: string;
+      credential: { id: string; response: { clientDataJSON: string } };
+    };
+    const passkeyChallenge = consumePasskeyChallenge(challengeId, credential.response.clientDataJSON);
+    if (!userId || passkeyChallenge?.userId !== userId) {
+      return HttpResponse.json({ error: 'invalid_credential' }, { status: 400 });
+    }
+    if (passkeys.has(credential.id)) {
+      return HttpResponse.json({ error: 'already_registered' }, { status: 409 });
+    }
+    const passkey: MockPasskey = { id: credential.id, userId, name, createdAt: new Date().toISOString() };
+    passkeys.set(passkey.id, passkey);
+    return HttpResponse.json(toPasskeyResponse(passkey), { status: 201 });
+  }),
+  http.get(`${issuer}/webauthn/credentials`, ({ request }) => {
+    // passkeys registered by the authenticated user
+    const userId = getRequestUserId(request);
+    if (!userId) {
+      return new HttpResponse(null, { status: 401 });
+    }
+    return HttpResponse.json(filter([...passkeys.values()], { userId }).map(toPasskeyResponse));
+  }),
+  http.patch(`${issuer}/webauthn/credentials/:credentialId`, async ({ params, request }) => {
+    // rename a passkey
+    const passkey = passkeys.get(params.credentialId as string);
+    if (!passkey || passkey.userId !== getRequestUserId(request)) {
+      return new HttpResponse(null, { status: 404 });
+    }
+    const { name } = (await request.json()) as { name: string };
+    passkey.name = name;
+    return HttpResponse.json(toPasskeyResponse(passkey));
+  }),
+  http.delete(`${issuer}/webauthn/credentials/:credentialId`, ({ params, request }) => {
+    // revoke a passkey
+    const passkey = passkeys.get(params.credentialId as string);
+    if (!passkey || passkey.userId !== getRequestUserId(request)) {
+      return new HttpResponse(null, { status: 404 });
+    }
+    passkeys.delete(passkey.id);
+    return new HttpResponse(null, { status: 204 });
+  }),
+  http.get(`${issuer}/sessions`, ({ request }) => {
+    // sessions of the authenticated user; the current session is seen now
+    const userId = getRequestUserId(request);
+    if (!userId) {
+      return new HttpResponse(null, { status: 401 });
+    }
+    const sessionId = getRequestSessionId(request);
+    const currentSession = sessions.get(sessionId ?? '');
+    if (currentSession?.userId === userId) {
+      currentSession.lastSeenAt = new Date().toISOString();
+    }
+    return HttpResponse.json(
+      filter([...sessions.values()], { userId }).map((session) => toSessionResponse(session, sessionId)),
+    );
+  }),
+  http.delete(`${issuer}/sessions`, ({ request }) => {
+    // revoke every session of the authenticated user except the current session
+    const userId = getRequestUserId(request);
+    if (!userId) {
+      return new HttpResponse(null, { status: 401 });
+    }
+    const sessionId = getRequestSessionId(request);
+    filter([...sessions.values()], (session) => session.userId === userId && session.id !== sessionId).forEach(
+      (session) => sessions.delete(session.id),
+    );
+    return new HttpResponse(null, { status: 204 });
+  }),
+  http.delete(`${issuer}/sessions/:sessionId`, ({ params, request }) => {
+    // revoke a session
+    const session = sessions.get(params.sessionId as string);
+    if (!session || session.userId !== getRequestUserId(request)) {
+      return new HttpResponse(null, { status: 404 });
+    }
+    sessions.delete(session.id);
+    return new HttpResponse(null, { status: 204 });
+  }),
+  http.get(`${issuer}/authorize`, ({ request }) => {
+    // authorization endpoint; redirects back to the application
+    const params = new URL(request.url).searchParams;
+    const redirectUri = new URL(params.get('redirect_uri') ?? '');
+    redirectUri.searchParams.set('state', params.get('state') ?? '');
+
+    const userId = Number(params.get('session_token')?.replace('session-', ''));
+    if (!find(usersFixture, { id: userId })) {
+      redirectUri.searchParams.set('error', 'login_required');
+    } else {
+      const code = createMockAuthorizationCode({
+        clientId: params.get('client_id') ?? '',
+        codeChallenge: params.get('code_challenge') ?? '',
+        issuer,
+        nonce: params.get('nonce') ?? '',
+        redirectUri: params.get('redirect_uri') ?? '',
+        userId,
+      });
+      redirectUri.searchParams.set('code', code);
+    }
+    return new HttpResponse(null, { status: 302, headers: { Location: redirectUri.toString() } });
+  }),
+  http.post(`${issuer}/token`, async ({ request }) => {
+    // token endpoint; exchanges an authorization code or a refresh token for tokens
+    const params = new URLSearchParams(await request.text());
+
+    if (params.get('grant_type') === 'refresh_token') {
+      const refreshToken = refreshTokens.get(params.get('refresh_token') ?? '');
+      refreshTokens.delete(params.get('refresh_token') ?? '');
+
+      if (!refreshToken || refreshToken.issuer !== issuer || refreshToken.clientId !== params.get('client_id')) {
+        return HttpResponse.json({ error: 'invalid_grant' }, { status: 400 });
+      }
+      return HttpResponse.json(createTokenResponse(refreshToken));
+    }
+
+    const authorizationCode = authorizationCodes.get(params.get('code') ?? '');
+    authorizationCodes.delete(params.get('code') ?? '');
+
+    if (
+      params.get('grant_type') !== 'authorization_code' ||
+      !authorizationCode ||
+      authorizationCode.issuer !== issuer ||
+      authorizationCode.clientId !== params.get('client_id') ||
+      authorizationCode.redirectUri !== params.get('redirect_uri') ||
+      authorizationCode.codeChallenge !== (await createCodeChallenge(params.get('code_verifier') ?? ''))
+    ) {
+      return HttpResponse.json({ error: 'invalid_grant' }, { status: 400 });
+    }
+
+    return HttpResponse.json(createTokenResponse(authorizationCode, { nonce: authorizationCode.nonce }));
+  }),
+];
+
+/**
+ * MSW request handlers for a mock IdP at each configured provider issuer.
+ */
+export const idpHandlers = configFixture.VITE_OIDC_PROVIDERS.flatMap((provider) => createIdpHandlers(provider.issuer));
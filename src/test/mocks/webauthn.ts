@@ -0,0 +1,76 @@
+import { Mock, vi } from 'vitest';
+
+import { base64UrlDecode, base64UrlEncode } from 'common/utils/webauthn';
+import { createRandomString } from 'common/utils/oidc';
+import { MOCK_PASSKEY_ID } from './idp';
+
+/**
+ * Creates the client data which an authenticator signs for a challenge.
+ */
+const createClientDataJSON = (type: string, challenge: BufferSource): ArrayBuffer => {
+  const clientData = {
+    type,
+    challenge: base64UrlEncode(ArrayBuffer.isView(challenge) ? challenge.buffer : challenge),
+    origin: window.location.origin,
+  };
+  return new TextEncoder().encode(JSON.stringify(clientData)).buffer;
+};
+
+/**
+ * Mock the WebAuthn browser API, `navigator.credentials`, which is not
+ * implemented by jsdom. The authenticator holds the passkey registered by the
+ * first user with the mock IdP, `MOCK_PASSKEY_ID`, and creates new passkeys
+ * with random identifiers. Override the mocks to simulate other outcomes,
+ * e.g. the user cancelling the browser prompt.
+ *
+ * @returns The mock `get` and `create` functions.
+ * @example
+ * const { get } = mockWebAuthn();
+ * get.mockRejectedValueOnce(new DOMException('Cancelled', 'NotAllowedError'));
+ */
+export function mockWebAuthn(): { get: Mock; create: Mock } {
+  const get = vi.fn(async ({ publicKey }: CredentialRequestOptions) => ({
+    id: MOCK_PASSKEY_ID,
+    rawId: base64UrlDecode(MOCK_PASSKEY_ID),
+    type: 'public-key',
+    response: {
+      clientDataJSON: createClientDataJSON('webauthn.get', publicKey!.challenge),
+      authenticatorData: new Uint8Array(37).buffer,
+      signature: new Uint8Array(64).buffer,
+      userHandle: null,
+    },
+  }));
+  const create = vi.fn(async ({ publicKey }: CredentialCreationOptions) => {
+    const id = createRandomString(16);
+    return {
+      id,
+      rawId: base64UrlDecode(id),
+      type: 'public-key',
+      response: {
+        clientDataJSON: createClientDataJSON('webauthn.create', publicKey!.challenge),
+        attestationObject: new Uint8Array(64).buffer,
+        getTransports: () => ['internal'],
+      },
+    };
+  });
+
+  Object.defineProperty(window, 'PublicKeyCredential', {
+    configurable: true,
+    writable: true,
+    value: class PublicKeyCredential {},
+  });
+  Object.defineProperty(navigator, 'credentials', {
+    configurable: true,
+    value: { get, create },
+  });
+  return { get, create };
+}
+
+/**
+ * Remove the mock WebAuthn browser API to simulate a browser which does not
+ * support passkeys.
+ */
+export function unmockWebAuthn(): void {
+  Object.defineProperty(window, 'PublicKeyCredential', { configurable: true, writable: true, value: undefined });
+  Object.defineProperty(navigator, 'credentials', { configurable: true, value: undefined });
+}
@@ -1,4 +1,4 @@
-import { vi } from 'vitest';
+import { Mock, vi } from 'vitest';
 
 /**
  * Mock `window.matchMedia` to simulate system color scheme preferences.
@@ -24,3 +24,22 @@ export function mockMatchMedia(prefersDark: boolean): void {
     })),
   });
 }
+
+/**
+ * Mock `window.location.assign` to capture browser navigation to other
+ * origins, e.g. an OIDC provider, which is not implemented by jsdom.
+ *
+ * @returns The mock `assign` function.
+ * @example
+ * const assignMock = mockLocationAssign();
+ * expect(assignMock).toHaveBeenCalledWith(expect.stringContaining('/authorize'));
+ */
+export function mockLocationAssign(): Mock {
+  const assign = vi.fn();
+  Object.defineProperty(window, 'location', {
+    configurable: true,
+    writable: true,
+    value: { ...window.location, assign },
+  });
+  return assign;
+}
@@ -1,10 +1,13 @@
 import { PropsWithChildren } from 'react';
 import { QueryClientProvider } from '@tanstack/react-query';
 
+import { ConfigContext } from 'common/providers/ConfigContext';
 import SettingsContextProvider from 'common/providers/SettingsProvider';
 import AuthContextProvider from 'common/providers/AuthProvider';
 import ToastsProvider from 'common/providers/ToastsProvider';
+import FeatureFlagsContextProvider from 'common/providers/FeatureFlagsProvider';
 
+import { configFixture } from '__fixtures__/config';
 import { queryClient } from '../query-client';
 
 /**
@@ -34,11 +37,15 @@ import { queryClient } from '../query-client';
 const AllProvidersExceptRouter = ({ children }: PropsWithChildren) => {
   return (
     <QueryClientProvider client={queryClient}>
-      <SettingsContextProvider>
-        <AuthContextProvider>
-          <ToastsProvider>{children}</ToastsProvider>
-        </AuthContextProvider>
-      </SettingsContextProvider>
+      <ConfigContext.Provider value={configFixture}>
+        <SettingsContextProvider>
+          <AuthContextProvider>
+            <FeatureFlagsContextProvider>
+              <ToastsProvider>{children}</ToastsProvider>
+            </FeatureFlagsContextProvider>
+          </AuthContextProvider>
+        </SettingsContextProvider>
+      </ConfigContext.Provider>
     </QueryClientProvider>
   );
 };
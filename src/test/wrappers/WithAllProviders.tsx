@@ -2,10 +2,13 @@ import { PropsWithChildren } from 'react';
 import { MemoryRouter } from 'react-router-dom';
 import { QueryClientProvider } from '@tanstack/react-query';
 
+import { ConfigContext } from 'common/providers/ConfigContext';
 import SettingsContextProvider from 'common/providers/SettingsProvider';
 import AuthContextProvider from 'common/providers/AuthProvider';
 import ToastsProvider from 'common/providers/ToastsProvider';
+import FeatureFlagsContextProvider from 'common/providers/FeatureFlagsProvider';
 
+import { configFixture } from '__fixtures__/config';
 import { queryClient } from '../query-client';
 
 /**
@@ -18,13 +21,17 @@ import { queryClient } from '../query-client';
 const WithAllProviders = ({ children }: PropsWithChildren) => {
   return (
     <QueryClientProvider client={queryClient}>
-      <SettingsContextProvider>
-        <AuthContextProvider>
-          <ToastsProvider>
-            <MemoryRouter>{children}</MemoryRouter>
-          </ToastsProvider>
-        </AuthContextProvider>
-      </SettingsContextProvider>
+      <ConfigContext.Provider value={configFixture}>
+        <SettingsContextProvider>
+          <AuthContextProvider>
+            <FeatureFlagsContextProvider>
+              <ToastsProvider>
+                <MemoryRouter>{children}</MemoryRouter>
+              </ToastsProvider>
+            </FeatureFlagsContextProvider>
+          </AuthContextProvider>
+        </SettingsContextProvider>
+      </ConfigContext.Provider>
     </QueryClientProvider>
   );
 };
@@ -2,21 +2,25 @@ import { PropsWithChildren } from 'react';
 import { MemoryRouter } from 'react-router-dom';
 import { QueryClientProvider } from '@tanstack/react-query';
 
+import { ConfigContext } from 'common/providers/ConfigContext';
+import { configFixture } from '__fixtures__/config';
 import { queryClient } from '../query-client';
 
 /**
  * A React test wrapper. Wraps the component under test with a bespoke set
  * of React components, typically providers.
  *
- * Wraps the component with the React Query `QueryClientProvider` and a router,
- * but nothing more. Removes other providers to minimize side effects on the
- * component under test.
+ * Wraps the component with the React Query `QueryClientProvider`, the
+ * application configuration, and a router, but nothing more. Removes other
+ * providers to minimize side effects on the component under test.
  * @param {PropsWithChildren} props - Component properties.
  */
 const WithQueryClientProvider = ({ children }: PropsWithChildren) => {
   return (
     <QueryClientProvider client={queryClient}>
-      <MemoryRouter>{children}</MemoryRouter>
+      <ConfigContext.Provider value={configFixture}>
+        <MemoryRouter>{children}</MemoryRouter>
+      </ConfigContext.Provider>
     </QueryClientProvider>
   );
 };
@@ -1,5 +1,6 @@
 import { afterAll, afterEach, beforeAll } from 'vitest';
 import '@testing-library/jest-dom/vitest';
+import { onlineManager } from '@tanstack/react-query';
 
 import { server } from './src/test/mocks/server';
 import { queryClient } from './src/test/query-client';
@@ -11,6 +12,7 @@ beforeAll(() => {
 afterEach(() => {
   server.resetHandlers();
   queryClient.clear();
+  onlineManager.setOnline(true);
 });
 
 afterAll(() => {